@@ -2,12 +2,17 @@
 
 // Component imports
 import FileEncryptionCard from '@/components/FileEncryptionCard';
+import TextEncryptionCard from '@/components/TextEncryptionCard';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+
+// Icons
+import { FileText, Files } from 'lucide-react';
 
 /**
  * Encrypt Page Component
  * 
- * This page provides file encryption functionality using the FileEncryptionCard
- * component with the mode set to "encrypt".
+ * This page provides file and text encryption: the FileEncryptionCard and
+ * TextEncryptionCard components with the mode set to "encrypt", one per tab.
  * 
  * @returns {JSX.Element} The encrypt page component
  */
@@ -15,7 +20,24 @@ export default function EncryptPage() {
   return (
     <div className="container mx-auto py-8">
       <div className="max-w-2xl mx-auto">
-        <FileEncryptionCard mode="encrypt" />
+        <Tabs defaultValue="files" className="w-full">
+          <TabsList className="grid w-full grid-cols-2 mb-6">
+            <TabsTrigger value="files">
+              <Files className="mr-2 h-4 w-4" />
+              Files
+            </TabsTrigger>
+            <TabsTrigger value="text">
+              <FileText className="mr-2 h-4 w-4" />
+              Text
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="files">
+            <FileEncryptionCard mode="encrypt" />
+          </TabsContent>
+          <TabsContent value="text">
+            <TextEncryptionCard mode="encrypt" />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
@@ -47,7 +47,7 @@ const faqs = [
   },
   {
     question: "What file types and sizes are supported?",
-    answer: "LockMe supports all file types. The maximum file size for encryption/decryption is currently 100MB. This is a browser limitation to ensure performance."
+    answer: "LockMe supports all file types. Results are normally kept in memory until they are downloaded, which allows up to 100MB per file and 500MB per selection. Browsers that can save to a folder you choose (such as Chrome and Edge) write larger results there as they are processed, up to 10GB per file and 20GB per selection."
   },
   {
     question: "How secure is the encryption?",
@@ -13,12 +13,32 @@ import { updateProfile, type User, sendPasswordResetEmail, deleteUser, sendEmail
 import { ref, uploadBytesResumable, getDownloadURL, type UploadTaskSnapshot } from 'firebase/storage';
 import { useAuth } from '@/contexts/AuthContext';
 import { auth, storage } from '@/lib/firebase';
+import {
+  ARGON2_PARAMS_KEY, COMPRESSION_KEY, DEFAULT_ENCRYPTION_STRENGTH, ENCRYPTION_STRENGTH_KEY,
+  getArgon2Settings, getCompressionPreference, getDefaultKdfOptions, getEncryptionStrength,
+  type Argon2Settings, type CompressionPreference, type EncryptionStrength
+} from '@/lib/preferences';
+import {
+  ARGON2_DEFAULTS, ARGON2_LIMITS, formatAgeRecipient, formatFingerprint, formatSigningPublicKey, generateIdentity, generateSigningIdentity,
+  parseSigningPublicKey, type RecipientIdentity, type SignatureAlgorithm
+} from '@/lib/crypto';
+import {
+  getSigningKeys, getTrustedKeys, saveSigningKeys, saveTrustedKeys, type StoredSigningKey, type TrustedKey
+} from '@/lib/keyring';
+import {
+  addPasskey, deletePasskey, deleteUserIdentity, getPasskeys, getUserIdentity, saveUserIdentity
+} from '@/lib/services/firestoreService';
+import { getShares, revokeShare } from '@/lib/services/shareService';
+import { isPasskeySupported, registerPasskey } from '@/lib/passkeys';
+import { MIN_PASSPHRASE_LENGTH, PasskeyFallbackSchema } from '@/lib/schemas';
+import { getShareState, readShareLimits } from '@/lib/shares';
+import type { PasskeyDocument, ShareDocument } from '@/types/firestore';
 
 // UI Component imports
 import { 
   Settings, UserCircle, Image as ImageIcon, KeyRound, Trash2, 
   Loader2, CheckCircle2, UploadCloud, AlertTriangle, 
-  MailWarning, ShieldAlert, MailCheck 
+  MailWarning, ShieldAlert, MailCheck, Fingerprint, Copy, ScanFace, PenLine, ShieldCheck, Link2 
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
@@ -54,7 +74,6 @@ type ProfileFormValues = z.infer<typeof profileFormSchema>;
 
 // Local storage keys
 const NOTIFICATIONS_KEY = 'lockme-notificationsEnabled';
-const ENCRYPTION_STRENGTH_KEY = 'lockme-defaultEncryptionStrength';
 
 /**
  * Converts a canvas to a File object
@@ -172,7 +191,38 @@ export default function SettingsPage() {
 
   // User preferences
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
-  const [defaultEncryptionStrength, setDefaultEncryptionStrength] = useState("aes-256-gcm");
+  const [defaultEncryptionStrength, setDefaultEncryptionStrength] = useState<EncryptionStrength>(DEFAULT_ENCRYPTION_STRENGTH);
+  const [argon2Settings, setArgon2Settings] = useState<Argon2Settings>({ ...ARGON2_DEFAULTS });
+  const [compression, setCompression] = useState<CompressionPreference>('none');
+
+  // Encryption key pair state
+  const [identity, setIdentity] = useState<RecipientIdentity | null>(null);
+  const [identityPassphrase, setIdentityPassphrase] = useState('');
+  const [isLoadingIdentity, setIsLoadingIdentity] = useState(true);
+  const [isSavingIdentity, setIsSavingIdentity] = useState(false);
+
+  // Passkey state
+  const [passkeys, setPasskeys] = useState<PasskeyDocument[]>([]);
+  const [passkeyLabel, setPasskeyLabel] = useState('');
+  const [passkeyFallback, setPasskeyFallback] = useState('');
+  const [isLoadingPasskeys, setIsLoadingPasskeys] = useState(true);
+  const [isSavingPasskey, setIsSavingPasskey] = useState(false);
+  const [passkeysSupported, setPasskeysSupported] = useState(true);
+
+  // Share link state
+  const [shares, setShares] = useState<ShareDocument[]>([]);
+  const [isLoadingShares, setIsLoadingShares] = useState(true);
+  const [isRevokingShare, setIsRevokingShare] = useState(false);
+
+  // Signing key and trusted key state (stored on this device)
+  const [signingKeys, setSigningKeys] = useState<StoredSigningKey[]>([]);
+  const [signingKeyLabel, setSigningKeyLabel] = useState('');
+  const [signingKeyAlgorithm, setSigningKeyAlgorithm] = useState<SignatureAlgorithm>('ed25519');
+  const [signingKeyPassphrase, setSigningKeyPassphrase] = useState('');
+  const [isGeneratingSigningKey, setIsGeneratingSigningKey] = useState(false);
+  const [trustedKeys, setTrustedKeys] = useState<TrustedKey[]>([]);
+  const [trustedKeyLabel, setTrustedKeyLabel] = useState('');
+  const [trustedKeyText, setTrustedKeyText] = useState('');
   // Load saved preferences from local storage
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -182,11 +232,14 @@ export default function SettingsPage() {
         setNotificationsEnabled(JSON.parse(savedNotifications));
       }
       
-      // Load encryption strength preference
-      const savedStrength = localStorage.getItem(ENCRYPTION_STRENGTH_KEY);
-      if (savedStrength) {
-        setDefaultEncryptionStrength(savedStrength);
-      }
+      // Load encryption strength preference and Argon2id cost
+      setDefaultEncryptionStrength(getEncryptionStrength());
+      setArgon2Settings(getArgon2Settings());
+      setCompression(getCompressionPreference());
+      
+      // Load the local keyring
+      setSigningKeys(getSigningKeys());
+      setTrustedKeys(getTrustedKeys());
     }
   }, []);
 
@@ -204,6 +257,66 @@ export default function SettingsPage() {
     }
   }, [defaultEncryptionStrength]);
 
+  // Save compression preference
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(COMPRESSION_KEY, compression);
+    }
+  }, [compression]);
+
+  // Save Argon2id cost preferences
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(ARGON2_PARAMS_KEY, JSON.stringify(argon2Settings));
+    }
+  }, [argon2Settings]);
+
+  /**
+   * Updates one Argon2id cost field, clamped to the supported range
+   * @param field - The parameter to change
+   * @param value - Raw input value
+   */
+  const handleArgon2Change = (field: keyof Argon2Settings, value: string) => {
+    const { min, max } = ARGON2_LIMITS[field];
+    const parsed = Number.parseInt(value, 10);
+    if (Number.isNaN(parsed)) return;
+    setArgon2Settings(prev => ({ ...prev, [field]: Math.min(max, Math.max(min, parsed)) }));
+  };
+
+  // Load the user's encryption key pair
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    setIsLoadingIdentity(true);
+    getUserIdentity(user.uid)
+      .then(stored => { if (!cancelled) setIdentity(stored); })
+      .finally(() => { if (!cancelled) setIsLoadingIdentity(false); });
+    return () => { cancelled = true; };
+  }, [user]);
+
+  // Load the user's registered passkeys
+  useEffect(() => {
+    setPasskeysSupported(isPasskeySupported());
+    if (!user) return;
+    let cancelled = false;
+    setIsLoadingPasskeys(true);
+    getPasskeys(user.uid)
+      .then(stored => { if (!cancelled) setPasskeys(stored); })
+      .finally(() => { if (!cancelled) setIsLoadingPasskeys(false); });
+    return () => { cancelled = true; };
+  }, [user]);
+
+  // Load the user's share links
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    setIsLoadingShares(true);
+    getShares(user.uid)
+      .then(stored => { if (!cancelled) setShares(stored); })
+      .finally(() => { if (!cancelled) setIsLoadingShares(false); });
+    return () => { cancelled = true; };
+  }, [user]);
+
   // Update profile form and preview when user changes
   useEffect(() => {
     if (user) {
@@ -620,6 +733,280 @@ export default function SettingsPage() {
     }
   };
 
+  /**
+   * Generates a new key pair protected by the entered passphrase and
+   * publishes its public key
+   */
+  const handleGenerateIdentity = async () => {
+    if (!user) return;
+    if (!identityPassphrase) {
+      toast({ title: "Passphrase Required", description: "Enter a passphrase to protect your private key.", variant: "destructive" });
+      return;
+    }
+
+    setIsSavingIdentity(true);
+
+    try {
+      const created = await generateIdentity(identityPassphrase, getDefaultKdfOptions());
+      await saveUserIdentity(user.uid, created, { email: user.email, displayName: user.displayName });
+      setIdentity(created);
+      setIdentityPassphrase('');
+
+      toast({
+        title: "Key Pair Created",
+        description: `Others can now encrypt files to ${user.email}. Use this passphrase to open them.`
+      });
+    } catch (error) {
+      console.error("Error generating key pair:", error);
+
+      toast({
+        title: "Key Generation Failed",
+        description: (error as Error).message || "Could not create your key pair.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSavingIdentity(false);
+    }
+  };
+
+  /**
+   * Deletes the key pair and unpublishes its public key
+   */
+  const handleDeleteIdentity = async () => {
+    if (!user) return;
+
+    setIsSavingIdentity(true);
+
+    try {
+      await deleteUserIdentity(user.uid, user.email);
+      setIdentity(null);
+
+      toast({ title: "Key Pair Deleted", description: "Your public key is no longer published." });
+    } catch (error) {
+      console.error("Error deleting key pair:", error);
+
+      toast({
+        title: "Deletion Failed",
+        description: (error as Error).message || "Could not delete your key pair.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSavingIdentity(false);
+    }
+  };
+
+  /**
+   * Copies the public key to the clipboard
+   */
+  const handleCopyPublicKey = async () => {
+    if (!identity) return;
+    try {
+      await navigator.clipboard.writeText(identity.publicKey);
+      toast({ title: "Copied", description: "Public key copied to clipboard." });
+    } catch (error) {
+      console.error("Error copying public key:", error);
+      toast({ title: "Copy Failed", description: "Could not copy the public key.", variant: "destructive" });
+    }
+  };
+
+  /**
+   * Registers a passkey together with the fallback identity that files
+   * encrypted with it are sealed to
+   */
+  const handleRegisterPasskey = async () => {
+    if (!user) return;
+    if (!passkeyFallback) {
+      toast({ title: "Fallback Passphrase Required", description: "Enter a passphrase that opens your files if the passkey is lost.", variant: "destructive" });
+      return;
+    }
+    const fallbackCheck = PasskeyFallbackSchema.safeParse({ passphrase: passkeyFallback });
+    if (!fallbackCheck.success) {
+      toast({ title: "Fallback Passphrase Too Weak", description: fallbackCheck.error.issues[0].message, variant: "destructive" });
+      return;
+    }
+
+    setIsSavingPasskey(true);
+
+    try {
+      const credentialId = await registerPasskey({
+        uid: user.uid,
+        name: user.email ?? user.uid,
+        displayName: user.displayName ?? user.email ?? 'LockMe user',
+      });
+      const fallback = await generateIdentity(passkeyFallback, getDefaultKdfOptions());
+      const label = passkeyLabel.trim() || `Passkey ${passkeys.length + 1}`;
+      const id = await addPasskey(user.uid, { credentialId, label, fallback });
+
+      setPasskeys(prev => [...prev, { id, userId: user.uid, credentialId, label, fallback } as PasskeyDocument]);
+      setPasskeyLabel('');
+      setPasskeyFallback('');
+
+      toast({ title: "Passkey Registered", description: `"${label}" can now unlock files you encrypt with it.` });
+    } catch (error) {
+      console.error("Error registering passkey:", error);
+
+      toast({
+        title: "Passkey Registration Failed",
+        description: (error as Error).message || "Could not register the passkey.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSavingPasskey(false);
+    }
+  };
+
+  /**
+   * Removes a registered passkey
+   * @param passkey - The passkey to remove
+   */
+  const handleDeletePasskey = async (passkey: PasskeyDocument) => {
+    if (!passkey.id) return;
+
+    setIsSavingPasskey(true);
+
+    try {
+      await deletePasskey(passkey.id);
+      setPasskeys(prev => prev.filter(p => p.id !== passkey.id));
+
+      toast({ title: "Passkey Removed", description: `Files encrypted with "${passkey.label}" still open with its fallback passphrase.` });
+    } catch (error) {
+      console.error("Error removing passkey:", error);
+
+      toast({
+        title: "Removal Failed",
+        description: (error as Error).message || "Could not remove the passkey.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSavingPasskey(false);
+    }
+  };
+
+  /**
+   * Revokes a share link and deletes its upload
+   * @param share - The share to revoke
+   */
+  const handleRevokeShare = async (share: ShareDocument) => {
+    if (!share.id) return;
+
+    setIsRevokingShare(true);
+
+    try {
+      await revokeShare(share.id);
+      setShares(prev => prev.map(s => s.id === share.id ? { ...s, revoked: true } : s));
+
+      toast({ title: "Share Link Revoked", description: "The link no longer works and the uploaded file was deleted." });
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+
+      toast({
+        title: "Revocation Failed",
+        description: (error as Error).message || "Could not revoke the share link.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsRevokingShare(false);
+    }
+  };
+
+  /**
+   * Generates a signing key protected by the entered passphrase and keeps
+   * it on this device
+   */
+  const handleGenerateSigningKey = async () => {
+    if (!signingKeyPassphrase) {
+      toast({ title: "Passphrase Required", description: "Enter a passphrase to protect your signing key.", variant: "destructive" });
+      return;
+    }
+
+    setIsGeneratingSigningKey(true);
+
+    try {
+      const identity = await generateSigningIdentity(signingKeyAlgorithm, signingKeyPassphrase, getDefaultKdfOptions());
+      const label = signingKeyLabel.trim() || `Signing key ${signingKeys.length + 1}`;
+      const updated = [...signingKeys, { ...identity, label, createdAt: Date.now() }];
+
+      saveSigningKeys(updated);
+      setSigningKeys(updated);
+      setSigningKeyLabel('');
+      setSigningKeyPassphrase('');
+
+      toast({ title: "Signing Key Created", description: `Share its public key so others can recognize files signed with "${label}".` });
+    } catch (error) {
+      console.error("Error generating signing key:", error);
+
+      toast({
+        title: "Key Generation Failed",
+        description: (error as Error).message || "Could not create the signing key.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsGeneratingSigningKey(false);
+    }
+  };
+
+  /**
+   * Deletes a signing key from this device
+   * @param fingerprint - Fingerprint of the key to delete
+   */
+  const handleDeleteSigningKey = (fingerprint: string) => {
+    const updated = signingKeys.filter(key => key.fingerprint !== fingerprint);
+    saveSigningKeys(updated);
+    setSigningKeys(updated);
+    toast({ title: "Signing Key Deleted", description: "Files signed with it still show as signed by an unknown key." });
+  };
+
+  /**
+   * Copies a public key to the clipboard in its shareable form
+   * @param text - The public key to copy
+   */
+  const handleCopySigningKey = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "Copied", description: "Signing public key copied to clipboard." });
+    } catch (error) {
+      console.error("Error copying signing key:", error);
+      toast({ title: "Copy Failed", description: "Could not copy the public key.", variant: "destructive" });
+    }
+  };
+
+  /**
+   * Adds a pasted public key to the trusted keys
+   */
+  const handleAddTrustedKey = async () => {
+    if (!trustedKeyLabel.trim()) {
+      toast({ title: "Name Required", description: "Enter the name of the key's owner.", variant: "destructive" });
+      return;
+    }
+
+    try {
+      const signer = await parseSigningPublicKey(trustedKeyText);
+      if (trustedKeys.some(key => key.fingerprint === signer.fingerprint)) {
+        throw new Error("This key is already trusted.");
+      }
+
+      const updated = [...trustedKeys, { ...signer, label: trustedKeyLabel.trim(), addedAt: Date.now() }];
+      saveTrustedKeys(updated);
+      setTrustedKeys(updated);
+      setTrustedKeyLabel('');
+      setTrustedKeyText('');
+
+      toast({ title: "Key Trusted", description: `Files signed with this key now show as signed by ${trustedKeyLabel.trim()}.` });
+    } catch (error) {
+      toast({ title: "Cannot Trust Key", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  /**
+   * Removes a key from the trusted keys
+   * @param fingerprint - Fingerprint of the key to remove
+   */
+  const handleRemoveTrustedKey = (fingerprint: string) => {
+    const updated = trustedKeys.filter(key => key.fingerprint !== fingerprint);
+    saveTrustedKeys(updated);
+    setTrustedKeys(updated);
+  };
+
   /**
    * Clears local storage preferences
    */
@@ -627,10 +1014,14 @@ export default function SettingsPage() {
     // Remove items from local storage
     localStorage.removeItem(NOTIFICATIONS_KEY); 
     localStorage.removeItem(ENCRYPTION_STRENGTH_KEY);
+    localStorage.removeItem(ARGON2_PARAMS_KEY);
+    localStorage.removeItem(COMPRESSION_KEY);
     
     // Reset state to defaults
     setNotificationsEnabled(true);
-    setDefaultEncryptionStrength("aes-256-gcm");
+    setDefaultEncryptionStrength(DEFAULT_ENCRYPTION_STRENGTH);
+    setArgon2Settings({ ...ARGON2_DEFAULTS });
+    setCompression('none');
     
     toast({ 
       title: "Local Cache Cleared", 
@@ -643,7 +1034,11 @@ export default function SettingsPage() {
                        isUploadingPicture || 
                        isUpdatingProfile || 
                        isDeletingAccount || 
-                       isResendingVerification;
+                       isResendingVerification ||
+                       isSavingIdentity ||
+                       isSavingPasskey ||
+                       isRevokingShare ||
+                       isGeneratingSigningKey;
   // Loading state
   if (authLoading) { 
     return (
@@ -760,6 +1155,206 @@ export default function SettingsPage() {
               </div>
             </section>
 
+            <section className="space-y-6 p-6 border rounded-lg shadow-sm">
+              <h3 className="text-xl font-semibold text-foreground flex items-center"><Fingerprint className="mr-2 h-6 w-6 text-primary" />Encryption Keys</h3>
+              <p className="text-sm text-muted-foreground">Your key pair lets other LockMe users encrypt files to you by email, without sharing a passphrase. The private key is stored encrypted under a passphrase only you know.</p>
+              {isLoadingIdentity ? (
+                <p className="text-sm text-muted-foreground flex items-center"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Loading key pair...</p>
+              ) : identity ? (
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label className="font-medium">Key Fingerprint</Label>
+                    <div className="flex items-center gap-2">
+                      <code className="flex-grow p-2 rounded bg-muted/50 text-xs break-all">{formatFingerprint(identity.fingerprint)}</code>
+                      <Button variant="outline" size="sm" onClick={handleCopyPublicKey} disabled={isProcessing}><Copy className="mr-2 h-4 w-4" />Copy Public Key</Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">Recipients can compare this fingerprint with you to make sure they are encrypting to the right key.</p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="font-medium">age Recipient</Label>
+                    <code className="block p-2 rounded bg-muted/50 text-xs break-all">{formatAgeRecipient(identity.publicKey)}</code>
+                    <p className="text-xs text-muted-foreground">People using age or rage can encrypt files to you with this recipient; open them here with your key passphrase.</p>
+                  </div>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="destructive" disabled={isProcessing}><Trash2 className="mr-2 h-4 w-4" />Delete Key Pair</Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete your key pair?</AlertDialogTitle>
+                        <AlertDialogDescription>Files encrypted to this key can no longer be opened with it, unless they also have a passphrase. Your public key will be unpublished.</AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter><AlertDialogCancel>Cancel</AlertDialogCancel><AlertDialogAction onClick={handleDeleteIdentity}>Yes, delete key pair</AlertDialogAction></AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="identity-passphrase" className="font-medium">Key Passphrase</Label>
+                  <Input id="identity-passphrase" type="password" autoComplete="new-password" placeholder="Passphrase protecting your private key" value={identityPassphrase} onChange={(e) => setIdentityPassphrase(e.target.value)} disabled={isProcessing} />
+                  <p className="text-xs text-muted-foreground">You will enter this passphrase to open files encrypted to you. It cannot be recovered.</p>
+                  <Button onClick={handleGenerateIdentity} disabled={isProcessing || !identityPassphrase}>
+                    {isSavingIdentity ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+                    Generate Key Pair
+                  </Button>
+                </div>
+              )}
+            </section>
+
+            <section className="space-y-6 p-6 border rounded-lg shadow-sm">
+              <h3 className="text-xl font-semibold text-foreground flex items-center"><ScanFace className="mr-2 h-6 w-6 text-primary" />Passkeys</h3>
+              <p className="text-sm text-muted-foreground">Unlock files with Face ID, Touch ID, Windows Hello or a security key instead of typing a passphrase. Each passkey has a fallback passphrase that still opens your files if the passkey is lost.</p>
+              {!passkeysSupported ? (
+                <p className="text-sm text-muted-foreground">This browser does not support passkeys.</p>
+              ) : isLoadingPasskeys ? (
+                <p className="text-sm text-muted-foreground flex items-center"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Loading passkeys...</p>
+              ) : (
+                <div className="space-y-4">
+                  {passkeys.length > 0 && (
+                    <ul className="space-y-2">
+                      {passkeys.map(passkey => (
+                        <li key={passkey.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                          <span className="flex items-center text-sm font-medium min-w-0"><ScanFace className="mr-2 h-4 w-4 text-primary flex-shrink-0" /><span className="truncate">{passkey.label}</span></span>
+                          <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive hover:bg-destructive/10" onClick={() => handleDeletePasskey(passkey)} disabled={isProcessing}><Trash2 className="mr-2 h-4 w-4" />Remove</Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="passkey-label" className="font-medium">Passkey Name</Label>
+                    <Input id="passkey-label" placeholder="e.g. MacBook Touch ID" value={passkeyLabel} onChange={(e) => setPasskeyLabel(e.target.value)} disabled={isProcessing} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="passkey-fallback" className="font-medium">Fallback Passphrase</Label>
+                    <Input id="passkey-fallback" type="password" autoComplete="new-password" placeholder="Opens your files without the passkey" value={passkeyFallback} onChange={(e) => setPasskeyFallback(e.target.value)} disabled={isProcessing} />
+                    <p className="text-xs text-muted-foreground">Every file you encrypt with this passkey also opens with this passphrase, offline and on any device. Use at least {MIN_PASSPHRASE_LENGTH} characters; it cannot be recovered.</p>
+                  </div>
+                  <Button onClick={handleRegisterPasskey} disabled={isProcessing || !passkeyFallback}>
+                    {isSavingPasskey ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ScanFace className="mr-2 h-4 w-4" />}
+                    Register Passkey
+                  </Button>
+                </div>
+              )}
+            </section>
+
+            <section className="space-y-6 p-6 border rounded-lg shadow-sm">
+              <h3 className="text-xl font-semibold text-foreground flex items-center"><Link2 className="mr-2 h-6 w-6 text-primary" />Share Links</h3>
+              <p className="text-sm text-muted-foreground">Links you created from the encrypt page. Revoking a link stops it working at once and deletes the uploaded copy. The keys to your links are not stored, so a link cannot be shown again.</p>
+              {isLoadingShares ? (
+                <p className="text-sm text-muted-foreground flex items-center"><Loader2 className="mr-2 h-4 w-4 animate-spin" />Loading share links...</p>
+              ) : shares.length === 0 ? (
+                <p className="text-sm text-muted-foreground">You have not created any share links.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {shares.map(share => {
+                    const limits = readShareLimits(share);
+                    const state = getShareState(limits);
+                    return (
+                      <li key={share.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                        <div className="min-w-0 text-sm">
+                          <p className="font-medium">
+                            {share.createdAt?.toDate().toLocaleString() ?? 'Just now'} · {(share.size / (1024 * 1024)).toFixed(2)} MB
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {state === 'active'
+                              ? `Expires ${new Date(limits.expiresAt).toLocaleString()} · ${limits.downloadCount} of ${limits.maxDownloads} downloads used`
+                              : state === 'revoked' ? 'Revoked' : state === 'expired' ? 'Expired' : 'Download limit reached'}
+                          </p>
+                        </div>
+                        {state === 'active' && (
+                          <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive hover:bg-destructive/10" onClick={() => handleRevokeShare(share)} disabled={isProcessing}><Trash2 className="mr-2 h-4 w-4" />Revoke</Button>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </section>
+
+            <section className="space-y-6 p-6 border rounded-lg shadow-sm">
+              <h3 className="text-xl font-semibold text-foreground flex items-center"><PenLine className="mr-2 h-6 w-6 text-primary" />Signing Keys</h3>
+              <p className="text-sm text-muted-foreground">Sign the files you encrypt so recipients can tell they came from you. Signing keys stay on this device, protected by their passphrase; share the public key with the people you send files to.</p>
+              {signingKeys.length > 0 && (
+                <ul className="space-y-2">
+                  {signingKeys.map(key => (
+                    <li key={key.fingerprint} className="p-3 border rounded-lg space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium truncate">{key.label} <span className="text-xs text-muted-foreground">({key.algorithm === 'ed25519' ? 'Ed25519' : 'ECDSA P-256'})</span></span>
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          <Button variant="outline" size="sm" onClick={() => handleCopySigningKey(formatSigningPublicKey(key))} disabled={isProcessing}><Copy className="mr-2 h-4 w-4" />Copy Public Key</Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive hover:bg-destructive/10" disabled={isProcessing} aria-label={`Delete ${key.label}`}><Trash2 className="h-4 w-4" /></Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete this signing key?</AlertDialogTitle>
+                                <AlertDialogDescription>You will no longer be able to sign files as &quot;{key.label}&quot;. This cannot be undone.</AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter><AlertDialogCancel>Cancel</AlertDialogCancel><AlertDialogAction onClick={() => handleDeleteSigningKey(key.fingerprint)}>Yes, delete key</AlertDialogAction></AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </div>
+                      <code className="block p-2 rounded bg-muted/50 text-xs break-all">{formatFingerprint(key.fingerprint)}</code>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="signing-key-label" className="font-medium">Key Name</Label>
+                  <Input id="signing-key-label" placeholder="e.g. Work" value={signingKeyLabel} onChange={(e) => setSigningKeyLabel(e.target.value)} disabled={isProcessing} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="signing-key-algorithm" className="font-medium">Algorithm</Label>
+                  <Select value={signingKeyAlgorithm} onValueChange={(value) => setSigningKeyAlgorithm(value as SignatureAlgorithm)} disabled={isProcessing}>
+                    <SelectTrigger id="signing-key-algorithm" disabled={isProcessing}><SelectValue placeholder="Select algorithm" /></SelectTrigger>
+                    <SelectContent><SelectItem value="ed25519">Ed25519 (Recommended)</SelectItem><SelectItem value="ecdsa-p256">ECDSA P-256 (Compatibility)</SelectItem></SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="signing-key-passphrase" className="font-medium">Signing Key Passphrase</Label>
+                <Input id="signing-key-passphrase" type="password" autoComplete="new-password" placeholder="Passphrase protecting the signing key" value={signingKeyPassphrase} onChange={(e) => setSigningKeyPassphrase(e.target.value)} disabled={isProcessing} />
+                <p className="text-xs text-muted-foreground">You will enter this passphrase whenever you sign files. It cannot be recovered.</p>
+              </div>
+              <Button onClick={handleGenerateSigningKey} disabled={isProcessing || !signingKeyPassphrase}>
+                {isGeneratingSigningKey ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PenLine className="mr-2 h-4 w-4" />}
+                Generate Signing Key
+              </Button>
+            </section>
+
+            <section className="space-y-6 p-6 border rounded-lg shadow-sm">
+              <h3 className="text-xl font-semibold text-foreground flex items-center"><ShieldCheck className="mr-2 h-6 w-6 text-primary" />Trusted Keys</h3>
+              <p className="text-sm text-muted-foreground">Public keys of people whose signed files you receive. Files they sign show their name; other signatures show as an unknown key. Compare fingerprints with the owner before trusting a key.</p>
+              {trustedKeys.length > 0 && (
+                <ul className="space-y-2">
+                  {trustedKeys.map(key => (
+                    <li key={key.fingerprint} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{key.label}</p>
+                        <code className="text-xs text-muted-foreground break-all">{formatFingerprint(key.fingerprint)}</code>
+                      </div>
+                      <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive hover:bg-destructive/10 flex-shrink-0" onClick={() => handleRemoveTrustedKey(key.fingerprint)} disabled={isProcessing}><Trash2 className="mr-2 h-4 w-4" />Remove</Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="trusted-key-label" className="font-medium">Owner</Label>
+                <Input id="trusted-key-label" placeholder="e.g. Alice" value={trustedKeyLabel} onChange={(e) => setTrustedKeyLabel(e.target.value)} disabled={isProcessing} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="trusted-key-text" className="font-medium">Signing Public Key</Label>
+                <Input id="trusted-key-text" placeholder="ed25519:..." value={trustedKeyText} onChange={(e) => setTrustedKeyText(e.target.value)} disabled={isProcessing} />
+              </div>
+              <Button variant="outline" onClick={handleAddTrustedKey} disabled={isProcessing || !trustedKeyText.trim()}>
+                <ShieldCheck className="mr-2 h-4 w-4" />
+                Trust Key
+              </Button>
+            </section>
+
             <section className="space-y-6 p-6 border rounded-lg shadow-sm">
               <h3 className="text-xl font-semibold text-foreground">General Preferences</h3>
               <div className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/30 transition-colors">
@@ -767,11 +1362,25 @@ export default function SettingsPage() {
                 <Switch id="notifications" checked={notificationsEnabled} onCheckedChange={setNotificationsEnabled} disabled={isProcessing} />
               </div>
               <div className="space-y-2 p-4 border rounded-lg hover:bg-muted/30 transition-colors">
-                <Label htmlFor="default-strength" className="font-medium">Default Encryption Algorithm</Label>
-                 <Select value={defaultEncryptionStrength} onValueChange={setDefaultEncryptionStrength} disabled={isProcessing}>
-                  <SelectTrigger id="default-strength" disabled={isProcessing}><SelectValue placeholder="Select algorithm" /></SelectTrigger>
-                  <SelectContent><SelectItem value="aes-256-gcm">AES-256-GCM (Recommended)</SelectItem><SelectItem value="aes-128-gcm">AES-128-GCM</SelectItem><SelectItem value="chacha20-poly1305">ChaCha20-Poly1305</SelectItem></SelectContent>
-                </Select><p className="text-xs text-muted-foreground">Select the default algorithm for new files.</p>
+                <Label htmlFor="default-strength" className="font-medium">Default Key Derivation</Label>
+                 <Select value={defaultEncryptionStrength} onValueChange={(value) => setDefaultEncryptionStrength(value as EncryptionStrength)} disabled={isProcessing}>
+                  <SelectTrigger id="default-strength" disabled={isProcessing}><SelectValue placeholder="Select key derivation" /></SelectTrigger>
+                  <SelectContent><SelectItem value="argon2id">Argon2id (Recommended)</SelectItem><SelectItem value="pbkdf2">PBKDF2-SHA256 (Compatibility)</SelectItem></SelectContent>
+                </Select><p className="text-xs text-muted-foreground">Used to turn your passphrase into an AES-256-GCM key for new files and snippets. The choice is stored with the ciphertext, so decryption is automatic.</p>
+                {defaultEncryptionStrength === 'argon2id' && (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 pt-2">
+                    <div className="space-y-1"><Label htmlFor="argon2-memory" className="text-xs">Memory (MiB)</Label><Input id="argon2-memory" type="number" min={ARGON2_LIMITS.memory.min / 1024} max={ARGON2_LIMITS.memory.max / 1024} value={argon2Settings.memory / 1024} onChange={(e) => handleArgon2Change('memory', String(Number(e.target.value) * 1024))} disabled={isProcessing} /></div>
+                    <div className="space-y-1"><Label htmlFor="argon2-iterations" className="text-xs">Iterations</Label><Input id="argon2-iterations" type="number" min={ARGON2_LIMITS.iterations.min} max={ARGON2_LIMITS.iterations.max} value={argon2Settings.iterations} onChange={(e) => handleArgon2Change('iterations', e.target.value)} disabled={isProcessing} /></div>
+                    <div className="space-y-1"><Label htmlFor="argon2-parallelism" className="text-xs">Parallelism</Label><Input id="argon2-parallelism" type="number" min={ARGON2_LIMITS.parallelism.min} max={ARGON2_LIMITS.parallelism.max} value={argon2Settings.parallelism} onChange={(e) => handleArgon2Change('parallelism', e.target.value)} disabled={isProcessing} /></div>
+                  </div>
+                )}
+              </div>
+              <div className="space-y-2 p-4 border rounded-lg hover:bg-muted/30 transition-colors">
+                <Label htmlFor="compression" className="font-medium">Compress Before Encrypting</Label>
+                <Select value={compression} onValueChange={(value) => setCompression(value as CompressionPreference)} disabled={isProcessing}>
+                  <SelectTrigger id="compression" disabled={isProcessing}><SelectValue placeholder="Select compression" /></SelectTrigger>
+                  <SelectContent><SelectItem value="none">Off</SelectItem><SelectItem value="gzip">gzip</SelectItem><SelectItem value="deflate">Deflate</SelectItem></SelectContent>
+                </Select><p className="text-xs text-muted-foreground">Shrinks text, CSV and database dumps before they are encrypted. Images, video and archives are stored as they are. Decryption detects and reverses it automatically.</p>
               </div>
             </section>
 
@@ -14,6 +14,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogT
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
 
 // Icons
 import { 
@@ -34,12 +35,13 @@ import {
   Edit, 
   X, 
   Save, 
-  AlertTriangle 
+  AlertTriangle,
+  ScanFace 
 } from 'lucide-react';
 
 // Services and hooks
 import { useToast } from '@/hooks/use-toast';
-import { addSnippetToFirestore, getSnippetsFromFirestore, updateSnippetInFirestore, deleteSnippetFromFirestore, addActivity } from '@/lib/services/firestoreService';
+import { addSnippetToFirestore, getSnippetsFromFirestore, updateSnippetInFirestore, deleteSnippetFromFirestore, addActivity, getPasskeys } from '@/lib/services/firestoreService';
 import { useAuth } from '@/contexts/AuthContext';
 import { useActivity } from '@/contexts/ActivityContext';
 
@@ -47,7 +49,15 @@ import { useActivity } from '@/contexts/ActivityContext';
 import { Timestamp, deleteField } from 'firebase/firestore';
 
 // Types
-import type { SnippetDocument } from '@/types/firestore';
+import type { PasskeyDocument, SnippetDocument } from '@/types/firestore';
+
+// Crypto
+import {
+  base64ToBytes, decryptDetached, decryptFromBase64, encryptToBase64, parseContainer,
+  PBKDF2_ITERATIONS, type KdfParams, type PasskeyEvaluation, type PrfSlot, type RecipientIdentity
+} from '@/lib/crypto';
+import { getDefaultKdfOptions } from '@/lib/preferences';
+import { evaluatePasskeyForEncryption, evaluatePasskeyForSlots, isPasskeySupported } from '@/lib/passkeys';
 
 // Syntax highlighting
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
@@ -64,10 +74,6 @@ interface ClientSnippet extends Omit<SnippetDocument, 'createdAt' | 'updatedAt'>
   tags: string[];
 }
 
-const SALT_LENGTH = 16;
-const IV_LENGTH = 12;
-const PBKDF2_ITERATIONS = 100000;
-
 const languageOptions = [
   { value: "env", label: ".env" },
   { value: "csharp", label: "C#" },
@@ -111,6 +117,8 @@ export default function CodeSnippetsPage() {
   // Encryption and filtering state
   const [passphrase, setPassphrase] = useState('');
   const [showPassphrase, setShowPassphrase] = useState(false);
+  const [passkeys, setPasskeys] = useState<PasskeyDocument[]>([]);
+  const [usePasskey, setUsePasskey] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedTagFilter, setSelectedTagFilter] = useState<string | null>(null);
   /**
@@ -159,6 +167,21 @@ export default function CodeSnippetsPage() {
       setSnippets([]);
     }
   }, [fetchSnippets, authLoading, user]);
+
+  // Load registered passkeys for passkey encryption
+  useEffect(() => {
+    if (!user || !isPasskeySupported()) {
+      setPasskeys([]);
+      return;
+    }
+    let cancelled = false;
+    getPasskeys(user.uid).then(stored => { if (!cancelled) setPasskeys(stored); });
+    return () => { cancelled = true; };
+  }, [user]);
+
+  // Snippets can be locked or unlocked with a passkey instead of a passphrase
+  const canUsePasskey = usePasskey && passkeys.length > 0;
+  const hasCredential = passphrase.trim().length > 0 || canUsePasskey;
   /**
    * Extract and sort all unique tags from snippets
    */
@@ -355,45 +378,11 @@ export default function CodeSnippetsPage() {
       });
   };
   /**
-   * Derives a cryptographic key from a passphrase using PBKDF2
-   * @param pass - The passphrase to derive key from
-   * @param salt - Optional salt for key derivation
-   * @returns A Promise resolving to the derived key and salt
-   */
-  const getKeyMaterial = async (pass: string, salt?: Uint8Array): Promise<[CryptoKey, Uint8Array]> => {
-    const enc = new TextEncoder();
-    
-    // Import the passphrase as key material
-    const keyMaterial = await window.crypto.subtle.importKey(
-      'raw', 
-      enc.encode(pass), 
-      { name: 'PBKDF2' }, 
-      false, 
-      ['deriveBits', 'deriveKey']
-    );
-    
-    // Use provided salt or generate a new one
-    const currentSalt = salt || window.crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
-    
-    // Derive the actual encryption key using PBKDF2
-    const key = await window.crypto.subtle.deriveKey(
-      { 
-        name: 'PBKDF2', 
-        salt: currentSalt, 
-        iterations: PBKDF2_ITERATIONS, 
-        hash: 'SHA-256' 
-      }, 
-      keyMaterial, 
-      { name: 'AES-GCM', length: 256 }, 
-      true, 
-      ['encrypt', 'decrypt']
-    );
-    
-    return [key, currentSalt];
-  };
-
-  /**
-   * Encrypts a snippet using AES-GCM encryption
+   * Encrypts a snippet into a LockMe container stored as Base64
+   * 
+   * The container records its own KDF parameters and IV, so no separate
+   * `iv`/`salt` fields are written for new encryptions.
+   * 
    * @param id - The ID of the snippet to encrypt
    */
   const encryptSnippet = async (id: string) => {
@@ -402,7 +391,7 @@ export default function CodeSnippetsPage() {
     const snippet = snippets.find(s => s.id === id);
     if (!snippet || snippet.isEncrypted) return;
     
-    if (!passphrase.trim()) {
+    if (!hasCredential) {
       toast({ 
         title: "Error", 
         description: "Passphrase is required for encryption.", 
@@ -412,29 +401,31 @@ export default function CodeSnippetsPage() {
     }
     
     try {
-      // Generate encryption materials
-      const [key, salt] = await getKeyMaterial(passphrase);
-      const iv = window.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+      // A passkey slot comes with a sealed slot for the passkey's fallback passphrase
+      let passkey: PasskeyEvaluation | undefined;
+      let fallbacks: RecipientIdentity[] | undefined;
+      if (canUsePasskey) {
+        const evaluation = await evaluatePasskeyForEncryption(passkeys.map(p => p.credentialId));
+        const registered = passkeys.find(p => p.credentialId === evaluation.credential);
+        if (!registered) {
+          throw new Error("This passkey is not registered in your settings.");
+        }
+        passkey = evaluation;
+        fallbacks = [registered.fallback];
+      }
       
-      // Encrypt the code
-      const encodedCode = new TextEncoder().encode(snippet.code);
-      const encryptedCodeBuffer = await window.crypto.subtle.encrypt(
-        { name: 'AES-GCM', iv }, 
-        key, 
-        encodedCode
+      // Encrypt the code with the KDF chosen in settings
+      const encryptedCode = await encryptToBase64(
+        snippet.code,
+        passphrase.trim() ? passphrase : null,
+        getDefaultKdfOptions(),
+        { passkey, fallbacks }
       );
       
-      // Convert binary data to strings for storage
-      const encryptedCode = btoa(String.fromCharCode(...new Uint8Array(encryptedCodeBuffer)));
-      const saltString = btoa(String.fromCharCode(...salt));
-      const ivString = btoa(String.fromCharCode(...iv));
-      
       // Update Firestore
       const updates: Partial<Omit<SnippetDocument, 'id' | 'createdAt' | 'userId'>> = { 
         code: encryptedCode, 
-        isEncrypted: true, 
-        iv: ivString, 
-        salt: saltString 
+        isEncrypted: true
       };
       
       await updateSnippetInFirestore(id, updates);
@@ -458,21 +449,37 @@ export default function CodeSnippetsPage() {
   };
 
   /**
-   * Converts a Base64 string to an ArrayBuffer
-   * @param base64 - The Base64 string to convert
-   * @returns An ArrayBuffer representing the data
+   * Decrypts snippet code with the given passphrase
+   * 
+   * Snippets encrypted before containers were used keep their IV and salt
+   * (and possibly KDF parameters) in separate fields; those are decrypted
+   * as detached AES-GCM ciphertext.
+   * 
+   * @param snippet - The encrypted snippet
+   * @param pass - The passphrase to derive the key from
+   * @param passkey - PRF evaluation for snippets locked with a passkey
+   * @returns A Promise resolving to the plaintext code
    */
-  const arrayBufferFromBase64 = (base64: string) => {
-    const binary_string = window.atob(base64);
-    const len = binary_string.length;
-    const bytes = new Uint8Array(len);
-    
-    for (let i = 0; i < len; i++) { 
-      bytes[i] = binary_string.charCodeAt(i); 
+  const decryptSnippetCode = async (snippet: ClientSnippet, pass: string, passkey?: PasskeyEvaluation): Promise<string> => {
+    if (!snippet.iv) {
+      return decryptFromBase64(snippet.code, pass, { passkey });
     }
     
-    return bytes.buffer;
-  }
+    // Type assertions needed because the SnippetDocument interface allows FieldValue
+    const kdf: KdfParams = (snippet.kdf as KdfParams | undefined) ?? {
+      id: 'pbkdf2-sha256',
+      iterations: PBKDF2_ITERATIONS,
+      salt: snippet.salt as string
+    };
+    const plaintext = await decryptDetached(
+      base64ToBytes(snippet.code),
+      base64ToBytes(snippet.iv as string),
+      kdf,
+      pass
+    );
+    return new TextDecoder().decode(plaintext);
+  };
+
   /**
    * Decrypts a snippet using the provided passphrase
    * @param id The ID of the snippet to decrypt
@@ -480,29 +487,37 @@ export default function CodeSnippetsPage() {
   const decryptSnippet = async (id: string) => {
     if (!user || !user.uid) return;
     const snippet = snippets.find(s => s.id === id);
-    if (!snippet || !snippet.isEncrypted || !snippet.iv || !snippet.salt) return;
-    if (!passphrase.trim()) {
+    if (!snippet || !snippet.isEncrypted) return;
+    if (!hasCredential) {
       toast({ title: "Error", description: "Passphrase is required for decryption.", variant: "destructive" });
       return;
     }
+    
+    // Ask for whichever passkey the snippet was locked with
+    let passkey: PasskeyEvaluation | undefined;
+    if (canUsePasskey && !snippet.iv) {
+      try {
+        const { header } = parseContainer(base64ToBytes(snippet.code));
+        const prfSlots = (header.slots ?? []).filter((slot): slot is PrfSlot => slot.type === 'prf');
+        if (prfSlots.length > 0) {
+          passkey = await evaluatePasskeyForSlots(prfSlots);
+        }
+      } catch (error) {
+        toast({ title: "Passkey Error", description: (error as Error).message, variant: "destructive" });
+        return;
+      }
+    }
+    
     try {
-      // Type assertions needed because the SnippetDocument interface allows FieldValue
-      const saltString = snippet.salt as string;
-      const ivString = snippet.iv as string;
+      const decryptedCode = await decryptSnippetCode(snippet, passphrase, passkey);
       
-      const saltBytes = new Uint8Array(arrayBufferFromBase64(saltString));
-      const [key] = await getKeyMaterial(passphrase, saltBytes);
-      const ivBytes = new Uint8Array(arrayBufferFromBase64(ivString));
-      const encryptedCodeBuffer = arrayBufferFromBase64(snippet.code);
-      const decryptedCodeBuffer = await window.crypto.subtle.decrypt({ name: 'AES-GCM', iv: ivBytes }, key, encryptedCodeBuffer);
-      const decryptedCode = new TextDecoder().decode(decryptedCodeBuffer);
-      
-      // Use deleteField() for iv and salt, correctly typed as FieldValue for Firestore
+      // Use deleteField() for any detached parameters, correctly typed as FieldValue for Firestore
       const updates: Partial<Omit<SnippetDocument, 'id' | 'createdAt' | 'userId'>> = { 
         code: decryptedCode, 
         isEncrypted: false,
         iv: deleteField(), 
-        salt: deleteField()
+        salt: deleteField(),
+        kdf: deleteField()
       };
       
       await updateSnippetInFirestore(id, updates);
@@ -700,6 +715,15 @@ export default function CodeSnippetsPage() {
               <p className="text-xs text-muted-foreground mt-1">
                 This passphrase is used to encrypt/decrypt snippets. Keep it secure. It is not stored.
               </p>
+              {passkeys.length > 0 && (
+                <div className="flex items-center justify-between gap-4 mt-3 p-3 border rounded-md">
+                  <div>
+                    <Label htmlFor="use-passkey" className="flex items-center"><ScanFace className="mr-1.5 h-4 w-4" />Use passkey</Label>
+                    <p className="text-xs text-muted-foreground">Lock and unlock snippets with your passkey. Locked snippets also open with its fallback passphrase.</p>
+                  </div>
+                  <Switch id="use-passkey" checked={usePasskey} onCheckedChange={setUsePasskey} />
+                </div>
+              )}
             </div>
             
             {/* Add New Snippet Button */}
@@ -835,7 +859,7 @@ export default function CodeSnippetsPage() {
                         variant="outline" 
                         size="sm" 
                         onClick={() => decryptSnippet(snippet.id)} 
-                        disabled={!passphrase.trim()} 
+                        disabled={!hasCredential} 
                         type="button"
                       >
                         <Unlock className="mr-2 h-4 w-4" /> Decrypt
@@ -845,7 +869,7 @@ export default function CodeSnippetsPage() {
                         variant="outline" 
                         size="sm" 
                         onClick={() => encryptSnippet(snippet.id)} 
-                        disabled={!passphrase.trim()} 
+                        disabled={!hasCredential} 
                         type="button"
                       >
                         <Lock className="mr-2 h-4 w-4" /> Encrypt
@@ -4,13 +4,14 @@
 // Form components
 import PassphraseGeneratorForm from '@/components/forms/PassphraseGeneratorForm';
 import RecoveryPromptEnhancerForm from '@/components/forms/RecoveryPromptEnhancerForm';
+import SecretSharingForm from '@/components/forms/SecretSharingForm';
 
 // UI Components
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 // Icons
-import { KeyRound, Sparkles, Wand2 } from 'lucide-react';
+import { KeyRound, Sparkles, Split, Wand2 } from 'lucide-react';
 
 /**
  * AI Security Toolkit Page Component
@@ -18,6 +19,7 @@ import { KeyRound, Sparkles, Wand2 } from 'lucide-react';
  * Provides users with AI-powered tools for security enhancement:
  * - Passphrase Generator - Creates strong and memorable passphrases
  * - Recovery Enhancer - Improves recovery prompts for better security and memorability
+ * - Secret Sharing - Splits a passphrase or file key into shares, K of N rebuild it
  */
 export default function AiToolkitPage() {
   return (
@@ -30,14 +32,14 @@ export default function AiToolkitPage() {
               AI Security Toolkit
             </CardTitle>
             <CardDescription>
-              Leverage AI to create strong passphrases and enhance your recovery methods.
+              Leverage AI to create strong passphrases and enhance your recovery methods, or split a secret between people you trust.
             </CardDescription>
           </CardHeader>
           <CardContent>
             {/* Toolkit Tabs */}
             <Tabs defaultValue="passphrase-generator" className="w-full">
               {/* Tab Navigation */}
-              <TabsList className="grid w-full grid-cols-2 mb-6">
+              <TabsList className="grid w-full grid-cols-3 mb-6">
                 <TabsTrigger value="passphrase-generator">
                   <Wand2 className="mr-2 h-4 w-4" /> 
                   Passphrase Generator
@@ -46,6 +48,10 @@ export default function AiToolkitPage() {
                   <Sparkles className="mr-2 h-4 w-4" /> 
                   Recovery Enhancer
                 </TabsTrigger>
+                <TabsTrigger value="secret-sharing">
+                  <Split className="mr-2 h-4 w-4" />
+                  Secret Sharing
+                </TabsTrigger>
               </TabsList>
               
               {/* Passphrase Generator Tab Content */}
@@ -57,6 +63,11 @@ export default function AiToolkitPage() {
               <TabsContent value="recovery-enhancer">
                 <RecoveryPromptEnhancerForm />
               </TabsContent>
+
+              {/* Secret Sharing Tab Content */}
+              <TabsContent value="secret-sharing">
+                <SecretSharingForm />
+              </TabsContent>
             </Tabs>
           </CardContent>        </Card>
       </div>
@@ -0,0 +1,102 @@
+/**
+ * Share Link Download Route
+ *
+ * POST /api/shares/[id]/content
+ *
+ * Streams a share's encrypted upload after counting the download. The
+ * count is taken in a transaction, so concurrent downloads cannot exceed
+ * the limit; a download that fails midway still counts. Uploads of links
+ * that ran out are deleted here. The server only ever sees ciphertext:
+ * the key stays in the link's fragment, which browsers do not send.
+ */
+
+import { Readable } from 'node:stream';
+import { NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDbInstance, getAdminBucket } from '@/lib/firebaseAdmin';
+import { isValidShareId } from '@/lib/crypto';
+import {
+  getShareState,
+  readShareLimits,
+  SHARE_STATE_MESSAGES,
+  shareContentPath,
+  SHARES_COLLECTION,
+  type ShareState,
+} from '@/lib/shares';
+
+/** Node streams are needed to pass the object through */
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Counts a download and streams the encrypted file
+ */
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!isValidShareId(id)) {
+    return NextResponse.json({ error: "Share link not found." }, { status: 404 });
+  }
+  const bucket = getAdminBucket();
+  if (!adminDbInstance || !bucket) {
+    return NextResponse.json({ error: "Share links are not available right now." }, { status: 503 });
+  }
+
+  const shareRef = adminDbInstance.collection(SHARES_COLLECTION).doc(id);
+  const file = bucket.file(shareContentPath(id));
+
+  let claim: { state: ShareState; size: number; lastDownload: boolean } | null;
+  try {
+    // An unfinished or deleted upload must not use up a download
+    const [uploaded] = await file.exists();
+    if (!uploaded) {
+      return NextResponse.json({ error: "The shared file is no longer available." }, { status: 410 });
+    }
+
+    claim = await adminDbInstance.runTransaction(async transaction => {
+      const snapshot = await transaction.get(shareRef);
+      if (!snapshot.exists) return null;
+
+      const limits = readShareLimits(snapshot.data() as Parameters<typeof readShareLimits>[0]);
+      const state = getShareState(limits);
+      if (state === 'active') {
+        transaction.update(shareRef, { downloadCount: FieldValue.increment(1) });
+      }
+      return {
+        state,
+        size: snapshot.get('size') as number,
+        lastDownload: state === 'active' && limits.downloadCount + 1 >= limits.maxDownloads,
+      };
+    });
+  } catch (error) {
+    console.error(`ShareContentRoute: Error claiming a download of share ${id}:`, error);
+    return NextResponse.json({ error: "Could not read the share link." }, { status: 500 });
+  }
+
+  if (!claim) {
+    return NextResponse.json({ error: "Share link not found." }, { status: 404 });
+  }
+  if (claim.state !== 'active') {
+    await file.delete({ ignoreNotFound: true }).catch(error => {
+      console.error(`ShareContentRoute: Error deleting upload of share ${id}:`, error);
+    });
+    return NextResponse.json({ error: SHARE_STATE_MESSAGES[claim.state] }, { status: 410 });
+  }
+
+  const content = file.createReadStream();
+  content.on('error', error => console.error(`ShareContentRoute: Error streaming share ${id}:`, error));
+  if (claim.lastDownload) {
+    content.on('end', () => {
+      file.delete({ ignoreNotFound: true }).catch(error => {
+        console.error(`ShareContentRoute: Error deleting upload of share ${id}:`, error);
+      });
+    });
+  }
+
+  return new Response(Readable.toWeb(content) as ReadableStream<Uint8Array>, {
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': String(claim.size),
+      'Cache-Control': 'no-store',
+    },
+  });
+}
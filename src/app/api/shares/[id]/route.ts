@@ -0,0 +1,51 @@
+/**
+ * Share Link Status Route
+ *
+ * GET /api/shares/[id]
+ *
+ * Tells the share page whether a link still works before the recipient
+ * downloads anything. Share documents are only readable by their owners,
+ * so this goes through the Admin SDK. The link secret is never sent here.
+ */
+
+import { NextResponse } from 'next/server';
+import { adminDbInstance } from '@/lib/firebaseAdmin';
+import { isValidShareId } from '@/lib/crypto';
+import { getShareState, readShareLimits, SHARES_COLLECTION } from '@/lib/shares';
+
+/** Status answers change with every download */
+export const dynamic = 'force-dynamic';
+
+/**
+ * Returns a link's state, size and remaining downloads
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!isValidShareId(id)) {
+    return NextResponse.json({ error: "Share link not found." }, { status: 404 });
+  }
+  if (!adminDbInstance) {
+    return NextResponse.json({ error: "Share links are not available right now." }, { status: 503 });
+  }
+
+  try {
+    const snapshot = await adminDbInstance.collection(SHARES_COLLECTION).doc(id).get();
+    if (!snapshot.exists) {
+      return NextResponse.json({ error: "Share link not found." }, { status: 404 });
+    }
+
+    const limits = readShareLimits(snapshot.data() as Parameters<typeof readShareLimits>[0]);
+    return NextResponse.json(
+      {
+        state: getShareState(limits),
+        size: snapshot.get('size'),
+        expiresAt: limits.expiresAt,
+        downloadsLeft: Math.max(0, limits.maxDownloads - limits.downloadCount),
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error(`ShareStatusRoute: Error reading share ${id}:`, error);
+    return NextResponse.json({ error: "Could not read the share link." }, { status: 500 });
+  }
+}
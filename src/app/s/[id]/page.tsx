@@ -0,0 +1,253 @@
+"use client";
+
+/**
+ * Share Link Page
+ *
+ * Opens a share link (`/s/<id>#<secret>`) for anyone holding it, without
+ * an account. The encrypted file is fetched through the share download
+ * route and decrypted in the browser with the secret from the URL
+ * fragment, which is never sent to the server.
+ *
+ * Features:
+ * - Link status (size, expiry, downloads left) before anything is downloaded
+ * - Streamed download and decryption with progress
+ * - Original file name restored from inside the encrypted file
+ * - Clear messages for revoked, expired, used-up and incomplete links
+ */
+
+// React and Next.js imports
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import Image from 'next/image';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { ThemeToggleButton } from '@/components/ThemeToggleButton';
+
+// Icons
+import { AlertTriangle, CheckCircle, Download, Loader2, ShieldCheck } from 'lucide-react';
+
+// Crypto & Utilities
+import {
+  createDecryptStream,
+  createProgressStream,
+  isValidShareId,
+  parseShareFragment,
+  safeFileName,
+  streamToBlob,
+  type FileMetadata,
+} from '@/lib/crypto';
+import { SHARE_STATE_MESSAGES, type ShareState } from '@/lib/shares';
+
+/**
+ * Link status returned by the share status route
+ */
+interface ShareStatus {
+  state: ShareState;
+  size: number;
+  expiresAt: number;
+  downloadsLeft: number;
+}
+
+/**
+ * Reads the error message from a failed share route response
+ *
+ * @param response - The failed response
+ * @returns The route's message, or a generic one
+ */
+async function responseError(response: Response): Promise<string> {
+  try {
+    const body = await response.json();
+    if (typeof body?.error === 'string') return body.error;
+  } catch {
+    // Not JSON; fall through
+  }
+  return `The server answered with status ${response.status}.`;
+}
+
+/**
+ * Share Link Page Component
+ *
+ * @returns {JSX.Element} The rendered share download interface
+ */
+export default function SharePage() {
+  const { id } = useParams<{ id: string }>();
+
+  // Component state
+  const [secret, setSecret] = useState<string | null>(null);
+  const [status, setStatus] = useState<ShareStatus | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [savedFileName, setSavedFileName] = useState<string | null>(null);
+
+  /**
+   * Reads the secret from the fragment and checks the link
+   */
+  useEffect(() => {
+    const linkSecret = parseShareFragment(window.location.hash);
+    if (!isValidShareId(id) || !linkSecret) {
+      setErrorMessage("This link is incomplete. Ask the sender to copy the whole link, including the part after #.");
+      return;
+    }
+    setSecret(linkSecret);
+
+    fetch(`/api/shares/${id}`, { cache: 'no-store' })
+      .then(async response => {
+        if (!response.ok) throw new Error(await responseError(response));
+        const shareStatus: ShareStatus = await response.json();
+        if (shareStatus.state !== 'active') throw new Error(SHARE_STATE_MESSAGES[shareStatus.state]);
+        setStatus(shareStatus);
+      })
+      .catch(error => setErrorMessage((error as Error).message));
+  }, [id]);
+
+  /**
+   * Downloads the encrypted file, decrypts it and saves the result
+   */
+  const handleDownload = async () => {
+    if (!secret || !status) return;
+    setIsDownloading(true);
+    setProgress(0);
+
+    try {
+      const response = await fetch(`/api/shares/${id}/content`, { method: 'POST', cache: 'no-store' });
+      if (!response.ok || !response.body) throw new Error(await responseError(response));
+
+      let metadata: FileMetadata | undefined;
+      const plaintext = await streamToBlob(
+        response.body
+          .pipeThrough(createProgressStream(status.size, setProgress))
+          .pipeThrough(createDecryptStream(secret, { onMetadata: m => { metadata = m; } }))
+      );
+
+      const fileName = safeFileName(metadata?.name) ?? 'shared-file';
+      const url = URL.createObjectURL(new Blob([plaintext], { type: metadata?.type || 'application/octet-stream' }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      setSavedFileName(fileName);
+      setStatus(current => current && { ...current, downloadsLeft: current.downloadsLeft - 1 });
+    } catch (error) {
+      console.error("SharePage: Download failed:", error);
+      setErrorMessage(
+        error instanceof TypeError
+          ? "The download was interrupted. It still counts towards the link's limit."
+          : (error as Error).message || "The file could not be decrypted."
+      );
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  /**
+   * Renders the card for the current state
+   */
+  const renderContent = () => {
+    if (errorMessage) {
+      return (
+        <div className="flex flex-col items-center justify-center text-center p-6">
+          <AlertTriangle className="h-12 w-12 text-destructive mb-4" />
+          <p className="text-lg text-destructive mb-4">Link Unavailable</p>
+          <p className="text-muted-foreground mb-6">{errorMessage}</p>
+          <Button asChild>
+            <Link href="/">Go to LockMe</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    if (!status) {
+      return (
+        <div className="flex flex-col items-center justify-center text-center p-6">
+          <Loader2 className="h-12 w-12 animate-spin text-primary mb-4" />
+          <p className="text-lg text-muted-foreground">Checking link...</p>
+        </div>
+      );
+    }
+
+    return (
+      <Card className="w-full max-w-md shadow-xl">
+        <CardHeader className="text-center">
+          <ShieldCheck className="mx-auto h-10 w-10 text-primary mb-3" />
+          <CardTitle className="text-2xl">Encrypted File</CardTitle>
+          <CardDescription>
+            Someone shared a file with you. It is decrypted in your browser; the key in this link never reaches our servers.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <dl className="grid grid-cols-2 gap-2 text-sm">
+            <dt className="text-muted-foreground">Size</dt>
+            <dd className="text-right">{(status.size / (1024 * 1024)).toFixed(2)} MB</dd>
+            <dt className="text-muted-foreground">Expires</dt>
+            <dd className="text-right">{new Date(status.expiresAt).toLocaleString()}</dd>
+            <dt className="text-muted-foreground">Downloads left</dt>
+            <dd className="text-right">{status.downloadsLeft}</dd>
+          </dl>
+
+          {isDownloading && <Progress value={progress} />}
+
+          {savedFileName && (
+            <p className="flex items-center text-sm text-green-600 dark:text-green-500">
+              <CheckCircle className="mr-2 h-4 w-4 flex-shrink-0" />
+              Saved as {savedFileName}
+            </p>
+          )}
+        </CardContent>
+        <CardFooter className="flex-col gap-2">
+          <Button
+            className="w-full"
+            onClick={handleDownload}
+            disabled={isDownloading || status.downloadsLeft <= 0}
+          >
+            {isDownloading
+              ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              : <Download className="mr-2 h-4 w-4" />}
+            Download and Decrypt
+          </Button>
+          <p className="text-xs text-muted-foreground text-center">
+            Each download counts towards the link&apos;s limit.
+          </p>
+        </CardFooter>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="relative flex min-h-screen flex-col items-center justify-center bg-background p-4 py-12 sm:px-6 lg:px-8">
+      {/* Header with Logo and Theme Toggle */}
+      <header className="absolute top-0 left-0 right-0 flex items-center justify-between p-4 sm:p-6">
+        <Link href="/" className="flex items-center gap-2">
+          <Image
+            src="https://lockme.my/assets/img/logo_lockme_highRESver.png"
+            alt="LockMe Logo"
+            width={120}
+            height={60}
+            className="h-10 w-auto"
+            priority
+            data-ai-hint="logo"
+          />
+        </Link>
+        <ThemeToggleButton />
+      </header>
+
+      {/* Main Content */}
+      <div className="flex w-full max-w-lg justify-center">
+        {renderContent()}
+      </div>
+
+      {/* Footer */}
+      <footer className="absolute bottom-0 left-0 right-0 p-4 text-center text-xs text-muted-foreground">
+        © {new Date().getFullYear()} LockMe. Secure your digital life.
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+"use client";
+
+/**
+ * ArchiveBrowser Component
+ *
+ * Lists the contents of a decrypted multi-file `.lockme` archive and
+ * extracts all or selected entries.
+ *
+ * Features:
+ * - Entry list with relative paths, sizes and modification dates
+ * - Per-entry and select-all checkboxes
+ * - Extraction into a chosen folder, keeping the directory structure,
+ *   where the browser supports `showDirectoryPicker`
+ * - Fallback to individual downloads elsewhere
+ */
+
+import type { FC } from 'react';
+import { useState } from 'react';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+
+// Icons
+import { Archive, Download, FolderDown, Loader2, XCircle } from 'lucide-react';
+
+// Utilities
+import { extractArchiveEntry, type IndexedArchiveEntry } from '@/lib/crypto';
+import { useToast } from '@/hooks/use-toast';
+
+/**
+ * Minimal typing for the File System Access directory picker
+ */
+type DirectoryPickerWindow = Window & {
+  showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+};
+
+/**
+ * Props interface for the ArchiveBrowser component
+ */
+interface ArchiveBrowserProps {
+  /** Display name of the archive */
+  name: string;
+
+  /** The decrypted archive contents */
+  archive: Blob;
+
+  /** Entries read from the archive index */
+  entries: IndexedArchiveEntry[];
+
+  /** Downloads a single extracted file */
+  onDownload: (blob: Blob, fileName: string) => void;
+
+  /** Closes the browser and releases the archive */
+  onClose: () => void;
+}
+
+/**
+ * Writes a file into a directory handle, creating intermediate folders
+ *
+ * @param root - The folder chosen by the user
+ * @param path - Validated relative path from the archive index
+ * @param file - The extracted contents
+ */
+const writeToDirectory = async (root: FileSystemDirectoryHandle, path: string, file: File) => {
+  const segments = path.split('/');
+  let directory = root;
+
+  for (const segment of segments.slice(0, -1)) {
+    directory = await directory.getDirectoryHandle(segment, { create: true });
+  }
+
+  const handle = await directory.getFileHandle(segments[segments.length - 1], { create: true });
+  await file.stream().pipeTo(await handle.createWritable());
+};
+
+/**
+ * Archive contents browser
+ *
+ * @param props - Component props
+ * @returns A list of archive entries with extraction controls
+ */
+const ArchiveBrowser: FC<ArchiveBrowserProps> = ({ name, archive, entries, onDownload, onClose }) => {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(entries.map((_, i) => i)));
+  const [isExtracting, setIsExtracting] = useState(false);
+
+  const allSelected = selected.size === entries.length;
+  const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+  /**
+   * Toggles a single entry
+   */
+  const toggleEntry = (index: number, checked: boolean) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (checked) next.add(index);
+      else next.delete(index);
+      return next;
+    });
+  };
+
+  /**
+   * Extracts the given entries into a folder or as downloads
+   *
+   * @param indices - Indices into `entries` to extract
+   */
+  const extract = async (indices: number[]) => {
+    if (indices.length === 0) return;
+    setIsExtracting(true);
+
+    try {
+      const picker = (window as DirectoryPickerWindow).showDirectoryPicker;
+
+      if (picker) {
+        // Keep the folder structure when the browser lets us write directories
+        const root = await picker({ mode: 'readwrite' });
+        for (const index of indices) {
+          await writeToDirectory(root, entries[index].path, extractArchiveEntry(archive, entries[index]));
+        }
+      } else {
+        // Downloads cannot create folders, so the path is folded into the name
+        for (const index of indices) {
+          onDownload(extractArchiveEntry(archive, entries[index]), entries[index].path.replaceAll('/', '_'));
+        }
+      }
+
+      toast({
+        title: "Extracted",
+        description: `${indices.length} file(s) extracted from ${name}.`
+      });
+    } catch (error) {
+      // Closing the folder picker is not an error
+      if ((error as Error).name !== 'AbortError') {
+        console.error(`Extract error for ${name}:`, error);
+        toast({
+          title: "Extraction Failed",
+          description: (error as Error).message || "Could not extract files.",
+          variant: "destructive"
+        });
+      }
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 border rounded-md p-3">
+      {/* Archive Summary */}
+      <div className="flex items-center justify-between gap-2">
+        <Label className="flex items-center font-medium text-foreground truncate">
+          <Archive className="mr-2 h-4 w-4 text-primary flex-shrink-0" />
+          {name} ({entries.length} files, {(totalSize / (1024*1024)).toFixed(2)} MB)
+        </Label>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 flex-shrink-0"
+          onClick={onClose}
+          aria-label={`Close ${name}`}
+        >
+          <XCircle className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Select All */}
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Checkbox
+          id={`${name}-select-all`}
+          checked={allSelected}
+          onCheckedChange={(checked) => setSelected(checked ? new Set(entries.map((_, i) => i)) : new Set())}
+        />
+        <label htmlFor={`${name}-select-all`}>Select all</label>
+      </div>
+
+      {/* Entry List */}
+      <ul className="text-sm text-muted-foreground max-h-60 overflow-y-auto space-y-1 border p-2 rounded-md bg-muted/30">
+        {entries.map((entry, index) => (
+          <li
+            key={entry.path}
+            className="flex items-center gap-2 p-1.5 bg-muted/50 rounded-md hover:bg-muted"
+          >
+            <Checkbox
+              checked={selected.has(index)}
+              onCheckedChange={(checked) => toggleEntry(index, checked === true)}
+              aria-label={`Select ${entry.path}`}
+            />
+            <span className="truncate flex-grow" title={entry.path}>{entry.path}</span>
+            <span className="text-xs flex-shrink-0">
+              {(entry.size / 1024).toFixed(1)} KB · {new Date(entry.lastModified).toLocaleDateString()}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {/* Extraction Actions */}
+      <div className="flex justify-end gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={isExtracting || selected.size === 0}
+          onClick={() => extract([...selected].sort((a, b) => a - b))}
+        >
+          <Download className="mr-1.5 h-3 w-3" />
+          Extract Selected ({selected.size})
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          disabled={isExtracting}
+          onClick={() => extract(entries.map((_, i) => i))}
+        >
+          {isExtracting
+            ? <Loader2 className="mr-1.5 h-3 w-3 animate-spin" />
+            : <FolderDown className="mr-1.5 h-3 w-3" />
+          }
+          Extract All
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ArchiveBrowser;
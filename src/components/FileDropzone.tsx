@@ -13,11 +13,14 @@
  * - Visual feedback during drag operations
  * - File type icon detection and display
  * - Multiple file selection support
+ * - Folder drops and a "select folder" picker, walked recursively with
+ *   relative paths kept on each file
+ * - Folder tree with per-folder size totals and include/exclude checkboxes
  * - Mode-specific file type filtering (encrypt/decrypt)
  */
 
-import type { FC, DragEvent, ReactNode } from 'react';
-import { useState, useCallback } from 'react';
+import type { FC, DragEvent, MouseEvent, ReactNode } from 'react';
+import { useState, useCallback, useRef } from 'react';
 
 // Icons
 import { 
@@ -31,11 +34,16 @@ import {
   FileAudio2, 
   FileVideo2, 
   FileCode2, 
-  Files 
+  Files,
+  Folder,
+  FolderOpen
 } from 'lucide-react';
 
 // UI Components
 import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { buildFileTree, filesFromDataTransfer, type FileTreeNode } from '@/lib/fileTree';
 import { cn } from '@/lib/utils';
 
 /**
@@ -50,8 +58,87 @@ interface FileDropzoneProps {
   
   /** Operation mode affecting accepted file types */
   mode?: 'encrypt' | 'decrypt';
+  
+  /** Files currently selected by the parent; drives the tree checkboxes */
+  selectedFiles?: File[];
+  
+  /** Callback triggered when files are unchecked in the folder tree */
+  onFilesExclude?: (files: File[]) => void;
+}
+
+/**
+ * Formats a byte count for the folder tree
+ * 
+ * @param bytes - Size in bytes
+ * @returns A short human-readable size
+ */
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+/**
+ * Props interface for the folder tree
+ */
+interface FileTreeViewProps {
+  /** Folder whose children to render */
+  node: FileTreeNode;
+  
+  /** Files that are currently included */
+  included: Set<File>;
+  
+  /** Includes or excludes every file below a node */
+  onToggle: (node: FileTreeNode, include: boolean) => void;
+  
+  /** Nesting depth, used for indentation and initial expansion */
+  depth?: number;
 }
 
+/**
+ * Recursive folder tree with size totals and include/exclude checkboxes
+ * 
+ * @param props - Component properties
+ * @returns A nested list of folders and files
+ */
+const FileTreeView: FC<FileTreeViewProps> = ({ node, included, onToggle, depth = 0 }) => (
+  <ul className={cn("space-y-0.5", depth > 0 && "ml-4")}>
+    {node.children.map(child => {
+      const count = child.files.filter(file => included.has(file)).length;
+      const checked = count === child.files.length ? true : count === 0 ? false : 'indeterminate';
+      
+      const row = (
+        <span className="flex items-center gap-2 py-0.5">
+          <Checkbox
+            checked={checked}
+            onCheckedChange={() => onToggle(child, checked !== true)}
+            aria-label={`Include ${child.path}`}
+          />
+          {child.file 
+            ? getFileIcon(child.file) 
+            : <Folder size={16} className="text-muted-foreground flex-shrink-0" />
+          }
+          <span className="truncate flex-grow text-left">{child.name}</span>
+          <span className="text-xs text-muted-foreground flex-shrink-0">{formatSize(child.size)}</span>
+        </span>
+      );
+      
+      return (
+        <li key={child.path}>
+          {child.file ? row : (
+            // Native disclosure keeps large trees cheap; top-level folders start open
+            <details open={depth === 0}>
+              <summary className="cursor-pointer list-none">{row}</summary>
+              <FileTreeView node={child} included={included} onToggle={onToggle} depth={depth + 1} />
+            </details>
+          )}
+        </li>
+      );
+    })}
+  </ul>
+);
+
 /**
  * Determines the appropriate icon to display based on file type and extension
  * 
@@ -153,10 +240,27 @@ const getFileIcon = (file: File | null): ReactNode => {
  * @param props - Component properties
  * @returns A styled dropzone component for file uploads
  */
-const FileDropzone: FC<FileDropzoneProps> = ({ onFilesDrop, className, mode }) => {
+const FileDropzone: FC<FileDropzoneProps> = ({ onFilesDrop, className, mode, selectedFiles, onFilesExclude }) => {
   // Component state
   const [isDragging, setIsDragging] = useState(false);
   const [droppedFiles, setDroppedFiles] = useState<File[]>([]);
+  
+  // Refs
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
+  
+  /**
+   * Records a new drop or selection and passes it to the callback
+   * 
+   * @param filesArray - The dropped or selected files
+   */
+  const acceptFiles = useCallback(
+    (filesArray: File[]) => {
+      if (filesArray.length === 0) return;
+      setDroppedFiles(filesArray);
+      onFilesDrop(filesArray);
+    },
+    [onFilesDrop]
+  );
 
   /**
    * Handles drag enter events
@@ -188,7 +292,8 @@ const FileDropzone: FC<FileDropzoneProps> = ({ onFilesDrop, className, mode }) =
   };
   /**
    * Handles the file drop event
-   * Processes files dropped into the dropzone and passes them to the callback
+   * Processes files and folders dropped into the dropzone, walking
+   * folders recursively, and passes the files to the callback
    * 
    * @param e - The drag event containing dropped files
    */
@@ -198,15 +303,12 @@ const FileDropzone: FC<FileDropzoneProps> = ({ onFilesDrop, className, mode }) =
       e.stopPropagation();
       setIsDragging(false);
 
-      // Process dropped files if any are present
-      if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-        const filesArray = Array.from(e.dataTransfer.files);
-        setDroppedFiles(filesArray);
-        onFilesDrop(filesArray);
-        e.dataTransfer.clearData();
-      }
+      // Dropped items must be read before the handler returns
+      filesFromDataTransfer(e.dataTransfer)
+        .then(acceptFiles)
+        .catch(error => console.error("Failed to read dropped items:", error));
     },
-    [onFilesDrop]
+    [acceptFiles]
   );
 
   /**
@@ -217,14 +319,44 @@ const FileDropzone: FC<FileDropzoneProps> = ({ onFilesDrop, className, mode }) =
    */
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const filesArray = Array.from(e.target.files);
-      setDroppedFiles(filesArray);
-      onFilesDrop(filesArray);
+      acceptFiles(Array.from(e.target.files));
     }
+    
+    // Allow picking the same file or folder again
+    e.target.value = '';
+  };
+
+  /**
+   * Opens the folder picker without triggering the file picker
+   * 
+   * @param e - The click event from the "select folder" button
+   */
+  const openFolderPicker = (e: MouseEvent<HTMLButtonElement>) => {
+    e.stopPropagation();
+    folderInputRef.current?.click();
   };
 
+  /**
+   * Includes or excludes every file below a tree node
+   * 
+   * @param node - The folder or file that was toggled
+   * @param include - Whether its files should be selected
+   */
+  const toggleTreeNode = (node: FileTreeNode, include: boolean) => {
+    if (include) {
+      const current = new Set(selectedFiles ?? droppedFiles);
+      onFilesDrop(node.files.filter(file => !current.has(file)));
+    } else {
+      onFilesExclude?.(node.files);
+    }
+  };
+
+  // Folder tree of the last drop, shown when it contains folders
+  const hasFolders = droppedFiles.some(file => file.webkitRelativePath);
+  const fileTree = hasFolders ? buildFileTree(droppedFiles) : null;
+
   // Set acceptable file types based on operation mode
-  const acceptType = mode === 'decrypt' ? ".lockme" : "*";
+  const acceptType = mode === 'decrypt' ? ".lockme,.age,.gpg,.pgp,.asc" : "*";
   return (
     <div
       className={cn(
@@ -247,6 +379,18 @@ const FileDropzone: FC<FileDropzoneProps> = ({ onFilesDrop, className, mode }) =
         accept={acceptType}
         multiple
       />
+      
+      {/* Hidden folder input; webkitdirectory is not a typed React prop */}
+      <input
+        type="file"
+        className="hidden"
+        onChange={handleFileChange}
+        ref={(input) => {
+          folderInputRef.current = input;
+          input?.setAttribute('webkitdirectory', '');
+        }}
+        multiple
+      />
 
       {/* Upload cloud icon */}
       <UploadCloud 
@@ -283,6 +427,32 @@ const FileDropzone: FC<FileDropzoneProps> = ({ onFilesDrop, className, mode }) =
           </p>
         </>
       )}
+      
+      {/* Folder picker */}
+      <Button 
+        type="button" 
+        variant="outline" 
+        size="sm" 
+        className="mt-4" 
+        onClick={openFolderPicker}
+      >
+        <FolderOpen className="mr-1.5 h-4 w-4" />
+        Select Folder
+      </Button>
+      
+      {/* Folder tree of the last drop */}
+      {fileTree && (
+        <div 
+          className="mt-4 max-h-64 overflow-y-auto border rounded-md p-2 bg-muted/30 text-sm cursor-default" 
+          onClick={(e) => e.stopPropagation()}
+        >
+          <FileTreeView 
+            node={fileTree} 
+            included={new Set(selectedFiles ?? droppedFiles)} 
+            onToggle={toggleTreeNode} 
+          />
+        </div>
+      )}
     </div>
   );
 };
@@ -11,12 +11,28 @@
  * and sharing capabilities.
  * 
  * Features:
- * - File drag-and-drop interface with multi-file support
+ * - File and folder drag-and-drop interface with multi-file support
+ * - Multi-file archives: many files or a folder in a single .lockme, with
+ *   listing and selective extraction on decryption
  * - Client-side encryption/decryption with AES-GCM
  * - Passphrase strength analysis (basic rules and AI-powered)
- * - Progress tracking for file operations
+ * - Concurrent processing in a Web Worker pool, with cancellation
+ * - Selections too large to keep in memory written to a folder as they
+ *   are processed, where the browser allows it
+ * - Job list with per-file state, error reasons, per-file cancel and
+ *   retrying failed files with another passphrase
+ * - Original file name and type restored from inside the encrypted file,
+ *   with an option to save encrypted files under a random name
+ * - In-browser preview of decrypted files, with downloading as a second step
+ * - Batch results as one ZIP download with a manifest of each file's outcome
+ * - age v1 output (binary or armored) for passphrases and age recipients;
+ *   age files are decrypted like any other
+ * - OpenPGP output (.gpg or .asc) for GnuPG users; passphrase-encrypted
+ *   OpenPGP messages are decrypted like any other
  * - AI-generated secure passphrases
- * - Secure file sharing workflow
+ * - Secure file sharing workflow, including expiring share links whose
+ *   key stays in the URL fragment
+ * - Self-decrypting HTML export for recipients without LockMe
  * - Activity logging for authenticated users
  */
 
@@ -27,10 +43,19 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 // Form Handling
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { FileEncryptionSchema, type FileEncryptionFormValues } from '@/lib/schemas';
+import { FileEncryptionSchema, MIN_PASSPHRASE_LENGTH, type FileEncryptionFormValues } from '@/lib/schemas';
 
 // Custom Components & Hooks
 import FileDropzone from '@/components/FileDropzone';
+import ArchiveBrowser from '@/components/ArchiveBrowser';
+import RecipientPicker from '@/components/RecipientPicker';
+import KeySlotManager from '@/components/KeySlotManager';
+import FileInspector from '@/components/FileInspector';
+import RekeyDialog from '@/components/RekeyDialog';
+import KeyfilePicker from '@/components/KeyfilePicker';
+import SignatureStatusList, { type FileSignature } from '@/components/SignatureStatusList';
+import FilePreviewDialog, { type PreviewFile } from '@/components/FilePreviewDialog';
+import JobQueue, { type BatchJob } from '@/components/JobQueue';
 import { useToast } from '@/hooks/use-toast';
 import { useActivity } from '@/contexts/ActivityContext';
 import { useAuth } from '@/contexts/AuthContext';
@@ -42,6 +67,9 @@ import { Progress } from '@/components/ui/progress';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 
@@ -49,29 +77,239 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { 
   ShieldCheck, ShieldOff, Loader2, KeyRound, Download, Lock, Unlock, Eye, 
   EyeOff, Info, Share2, Copy, AlertTriangle, FileText, XCircle, 
-  Wand2, Trash2 
+  Wand2, Trash2, ScanFace, FileSearch, RefreshCw, Link2, FileCode 
 } from 'lucide-react';
 import { SparklesIcon } from 'lucide-react';
 
 // Services & Utilities
 import { handleAnalyzePassphraseStrengthAction, handleGeneratePassphraseAction } from '@/app/actions';
-import { addActivity } from '@/lib/services/firestoreService';
+import { addActivity, getPasskeys, getUserIdentity } from '@/lib/services/firestoreService';
+import { createShare } from '@/lib/services/shareService';
+import { CryptoWorkerPool, type CryptoJobResult, type JobStage } from '@/lib/crypto/workerPool';
+import {
+  ARCHIVE_TYPE,
+  archiveName,
+  archiveSourcesFromFiles,
+  createSelfDecryptingHtml,
+  createShareCopy,
+  createShareSecret,
+  formatShareLink,
+  MAX_ARCHIVE_ENTRIES,
+  metadataFromFile,
+  parseAgeRecipient,
+  readArchiveIndex,
+  safeFileName,
+  type ArchiveSource,
+  hashKeyfile,
+  readContainerHeader,
+  type IndexedArchiveEntry,
+  type PasskeyEvaluation,
+  type PrfSlot,
+  type RecipientIdentity,
+  type SigningKey,
+  type UnlockCredentials,
+  unlockSigningIdentity,
+  ZipWriter,
+  type ZipManifestEntry,
+} from '@/lib/crypto';
+import { getSigningKeys, type StoredSigningKey } from '@/lib/keyring';
+import { evaluatePasskeyForEncryption, evaluatePasskeyForSlots, isPasskeySupported } from '@/lib/passkeys';
+import { getDefaultCompression, getDefaultKdfOptions } from '@/lib/preferences';
+import { relativePathOf } from '@/lib/fileTree';
+import { MAX_SHARE_SIZE, SHARE_DOWNLOAD_OPTIONS, SHARE_EXPIRY_OPTIONS } from '@/lib/shares';
 import type { AnalyzePassphraseStrengthOutput } from '@/ai/flows/analyze-passphrase-strength';
+import type { PasskeyDocument, PublicKeyDocument } from '@/types/firestore';
 import { cn } from '@/lib/utils';
 
 /**
- * Cryptography Constants
+ * File Size Limits
+ * 
+ * Outputs are collected in memory before they are downloaded. Browsers
+ * that can write to a folder the user picks stream larger selections
+ * there instead, up to the higher limits.
  */
-const SALT_LENGTH = 16;            // Salt length in bytes
-const IV_LENGTH = 12;              // Initialization vector length in bytes
-const PBKDF2_ITERATIONS = 100000;  // Number of iterations for key derivation
+const MAX_IN_MEMORY_FILE_SIZE_BYTES = 100 * 1024 * 1024;     // 100MB per file (downloaded)
+const MAX_IN_MEMORY_TOTAL_SIZE_BYTES = 500 * 1024 * 1024;    // 500MB total
+const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024 * 1024;         // 10GB per file (written to a folder)
+const MAX_TOTAL_UPLOAD_SIZE_BYTES = 20 * 1024 * 1024 * 1024; // 20GB total
+const MAX_FILES_IN_BATCH = 10;                       // Maximum separate files per operation;
+                                                     // larger selections become one archive
 
 /**
- * File Size Limits
+ * Extensions of the encrypted files the decrypt card accepts
+ */
+const ENCRYPTED_EXTENSIONS = ['.lockme', '.age', '.gpg', '.pgp', '.asc'];
+
+/**
+ * Extension of the files written in each output format
+ */
+const OUTPUT_EXTENSIONS: Record<FileEncryptionFormValues['format'], string> = {
+  lockme: '.lockme',
+  age: '.age',
+  'age-armored': '.age',
+  openpgp: '.gpg',
+  'openpgp-armored': '.asc',
+};
+
+/**
+ * Minimal typing for the File System Access directory picker
+ */
+type DirectoryPickerWindow = Window & {
+  showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+};
+
+/**
+ * File handle with the rename method some browsers support
+ */
+type MovableFileHandle = FileSystemFileHandle & {
+  move?: (name: string) => Promise<void>;
+};
+
+/**
+ * Checks whether outputs can be written to a folder as they are produced
+ * 
+ * @returns True when the browser offers the directory picker
+ */
+const supportsFolderOutput = (): boolean =>
+  typeof window !== 'undefined' && typeof (window as DirectoryPickerWindow).showDirectoryPicker === 'function';
+
+/**
+ * Size limits for a selection
+ * 
+ * @param folderOutput - Whether outputs can be written to a folder
+ * @returns The per-file and total limits in bytes
+ */
+const sizeLimits = (folderOutput: boolean) => folderOutput
+  ? { perFile: MAX_FILE_SIZE_BYTES, total: MAX_TOTAL_UPLOAD_SIZE_BYTES }
+  : { perFile: MAX_IN_MEMORY_FILE_SIZE_BYTES, total: MAX_IN_MEMORY_TOTAL_SIZE_BYTES };
+
+/**
+ * Formats a size limit for messages
+ * 
+ * @param bytes - A whole number of megabytes or gigabytes
+ * @returns The size in GB from one gigabyte up, otherwise in MB
+ */
+const formatSizeLimit = (bytes: number): string =>
+  bytes >= 1024 * 1024 * 1024 ? `${bytes / (1024 * 1024 * 1024)}GB` : `${bytes / (1024 * 1024)}MB`;
+
+/**
+ * Checks whether a selection is too large to keep its outputs in memory
+ * 
+ * @param files - The selected files
+ * @returns True when a file or the whole selection exceeds the in-memory limits
+ */
+const exceedsMemoryLimits = (files: File[]): boolean =>
+  files.some(file => file.size > MAX_IN_MEMORY_FILE_SIZE_BYTES)
+  || files.reduce((sum, file) => sum + file.size, 0) > MAX_IN_MEMORY_TOTAL_SIZE_BYTES;
+
+/**
+ * Numbered names tried for one output file before giving up
+ */
+const MAX_NAME_ATTEMPTS = 100;
+
+/**
+ * Finds a name that is not taken in a folder
+ * 
+ * A name is taken by an existing file or, for `TypeMismatchError`, a
+ * folder. Any other failure (revoked permission, a name the file system
+ * rejects) is passed on rather than retried.
+ * 
+ * @param directory - The output folder
+ * @param name - The preferred name
+ * @returns The name itself, or the name with " (2)", " (3)"... before its extension
+ * @throws Error if the folder cannot be read or every numbered name is taken
+ */
+const freeFileName = async (directory: FileSystemDirectoryHandle, name: string): Promise<string> => {
+  const dot = name.lastIndexOf('.');
+  const stem = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+  
+  for (let n = 1; n <= MAX_NAME_ATTEMPTS; n++) {
+    const candidate = n === 1 ? name : `${stem} (${n})${extension}`;
+    try {
+      await directory.getFileHandle(candidate);
+    } catch (error) {
+      if ((error as Error).name === 'NotFoundError') return candidate;
+      if ((error as Error).name !== 'TypeMismatchError') throw error;
+    }
+  }
+  throw new Error(`The folder already holds ${MAX_NAME_ATTEMPTS} files named like ${name}.`);
+};
+
+/**
+ * Creates empty output files without overwriting existing ones
+ * 
+ * The files are created one after another, so outputs that would share a
+ * name are numbered instead.
+ * 
+ * @param directory - The output folder
+ * @param names - The preferred name of each output
+ * @returns A handle to each new file, in order
+ */
+const createOutputFiles = async (directory: FileSystemDirectoryHandle, names: string[]): Promise<FileSystemFileHandle[]> => {
+  const handles: FileSystemFileHandle[] = [];
+  try {
+    for (const name of names) {
+      handles.push(await directory.getFileHandle(await freeFileName(directory, name), { create: true }));
+    }
+  } catch (error) {
+    await Promise.all(handles.map(handle => removeOutputFile(directory, handle)));
+    throw error;
+  }
+  return handles;
+};
+
+/**
+ * Deletes the output file of a failed or cancelled job
+ * 
+ * @param directory - The output folder
+ * @param handle - The incomplete file
+ */
+const removeOutputFile = async (directory: FileSystemDirectoryHandle, handle: FileSystemFileHandle): Promise<void> => {
+  try {
+    await directory.removeEntry(handle.name);
+  } catch (error) {
+    console.error(`Could not remove ${handle.name}:`, error);
+  }
+};
+
+/**
+ * Renames a written output file where the browser supports it
+ * 
+ * @param directory - The output folder
+ * @param handle - The written file
+ * @param name - The preferred new name
+ * @returns The file's name afterwards
  */
-const MAX_FILE_SIZE_BYTES = 100 * 1024 * 1024;       // 100MB per file
-const MAX_TOTAL_UPLOAD_SIZE_BYTES = 500 * 1024 * 1024; // 500MB total
-const MAX_FILES_IN_BATCH = 10;                       // Maximum files per operation
+const renameOutputFile = async (directory: FileSystemDirectoryHandle, handle: MovableFileHandle, name: string): Promise<string> => {
+  if (!handle.move || handle.name === name) return handle.name;
+  await handle.move(await freeFileName(directory, name));
+  return handle.name;
+};
+
+/**
+ * Derives a download name for a decrypted file that carries no stored name
+ * 
+ * @param file - The encrypted input file
+ * @returns The input name without its encrypted extension, or prefixed with "decrypted_"
+ */
+const fallbackDecryptedName = (file: File): string => {
+  const extension = ENCRYPTED_EXTENSIONS.find(ext => file.name.endsWith(ext));
+  return extension
+    ? file.name.slice(0, -extension.length)
+    : `decrypted_${file.name}`;
+};
+
+/**
+ * Generates a random name for an encrypted file that hides the original
+ * 
+ * @param extension - Extension of the encrypted format
+ * @returns 16 random hex characters followed by the extension
+ */
+const randomEncryptedName = (extension = '.lockme'): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  return `${Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')}${extension}`;
+};
 
 /**
  * Props interface for the FileEncryptionCard component
@@ -81,6 +319,49 @@ interface FileEncryptionCardProps {
   mode: 'encrypt' | 'decrypt';
 }
 
+/**
+ * A decrypted archive open for browsing
+ */
+interface OpenedArchive {
+  /** Unique key for rendering */
+  id: number;
+  
+  /** Archive name restored from its metadata */
+  name: string;
+  
+  /** Decrypted archive contents */
+  archive: Blob;
+  
+  /** Entries read from the archive index */
+  entries: IndexedArchiveEntry[];
+}
+
+/**
+ * Credentials a batch is encrypted for or decrypted with
+ */
+interface FileCredentials {
+  /** The passphrase field; empty when encrypting to recipients only */
+  passphrase: string;
+  
+  /** Further passphrases that open the encrypted file */
+  passphrases: string[];
+  
+  /** Public keys to encrypt to, in addition to the passphrases */
+  recipients: string[];
+  
+  /** Digest of the selected keyfile, combined with every passphrase */
+  keyfile?: Uint8Array;
+  
+  /** PRF evaluation of the passkey that locks or unlocks the file */
+  passkey?: PasskeyEvaluation;
+  
+  /** Fallback identities sealed next to the passkey slot */
+  fallbacks?: RecipientIdentity[];
+  
+  /** Unlocked key that signs the encrypted files */
+  signer?: SigningKey;
+}
+
 /**
  * Interface for basic password strength assessment
  */
@@ -119,7 +400,7 @@ const checkPasswordStrength = (password: string): PasswordStrength => {
   let score = 0;
   
   // Check for minimum length
-  if (!password || password.length < 8) {
+  if (!password || password.length < MIN_PASSPHRASE_LENGTH) {
     return { level: 0, text: "Very Weak", color: "bg-red-500" };
   }
   
@@ -167,13 +448,20 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
   const [lastEncryptedDetails, setLastEncryptedDetails] = useState<{
     fileName: string;
     passphraseUsed: string;
-    blob: Blob
+    keyfileName?: string;
+    passkeyLabel?: string;
+    blob: Blob;
+    /** Credentials opening the file, kept for share links and HTML export (passphrase-locked .lockme output only) */
+    shareCredentials?: UnlockCredentials;
   } | null>(null);
   
+  // Checked after mounting, as the server render has no window
+  const [folderOutput, setFolderOutput] = useState(false);
+  useEffect(() => setFolderOutput(supportsFolderOutput()), []);
+  
   // Processing state
-  const [progress, setProgress] = useState(0);
-  const [currentFileProgress, setCurrentFileProgress] = useState(0);
-  const [processingFileIndex, setProcessingFileIndex] = useState(0);
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [jobOperation, setJobOperation] = useState<'encrypt' | 'decrypt' | 'rekey'>(mode);
   const [isProcessing, setIsProcessing] = useState(false);
   
   // Password management state
@@ -184,19 +472,101 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
   
   // UI state
   const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+  const [shareExpiryMs, setShareExpiryMs] = useState<number>(SHARE_EXPIRY_OPTIONS[1].ms);
+  const [shareMaxDownloads, setShareMaxDownloads] = useState<number>(SHARE_DOWNLOAD_OPTIONS[0]);
+  const [isCreatingShareLink, setIsCreatingShareLink] = useState(false);
+  const [shareUploadProgress, setShareUploadProgress] = useState(0);
+  const [shareLink, setShareLink] = useState<string | null>(null);
+  const [isExportingHtml, setIsExportingHtml] = useState(false);
+  const [openedArchives, setOpenedArchives] = useState<OpenedArchive[]>([]);
+  
+  // Public-key encryption state
+  const [recipients, setRecipients] = useState<PublicKeyDocument[]>([]);
+  const [identity, setIdentity] = useState<RecipientIdentity | null>(null);
+  const [slotEditorFile, setSlotEditorFile] = useState<File | null>(null);
+  const [inspectorFile, setInspectorFile] = useState<File | null>(null);
+  const [isRekeyDialogOpen, setIsRekeyDialogOpen] = useState(false);
+  
+  // Passkey state
+  const [passkeys, setPasskeys] = useState<PasskeyDocument[]>([]);
+  const [passkeysSupported, setPasskeysSupported] = useState(false);
+  
+  // Signature state
+  const [signingKeys, setSigningKeys] = useState<StoredSigningKey[]>([]);
+  const [signatures, setSignatures] = useState<FileSignature[]>([]);
   
   // Refs
   const passphraseInputRef = useRef<HTMLInputElement | null>(null);
   const aiAnalysisTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const workerPoolRef = useRef<CryptoWorkerPool | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const jobControllersRef = useRef(new Map<number, AbortController>());
+  const nextJobIdRef = useRef(1);
+  const nextArchiveIdRef = useRef(1);
+  const nextSignatureIdRef = useRef(1);
+  
+  // Decrypted files waiting to be previewed, shown one at a time
+  const [previews, setPreviews] = useState<PreviewFile[]>([]);
+  const nextPreviewIdRef = useRef(1);
 
   /**
    * Form initialization with zod schema validation
    */
   const form = useForm<FileEncryptionFormValues>({
     resolver: zodResolver(FileEncryptionSchema),
-    defaultValues: { passphrase: '' },
+    defaultValues: {
+      passphrase: '', keyfile: null, additionalPassphrases: [], recipients: [], usePasskey: false,
+      signingKey: '', signingPassphrase: '', randomizeFileName: false, createArchive: false,
+      previewDecrypted: false, bundleOutputs: false, format: 'lockme', ageRecipients: ''
+    },
     mode: 'onChange',
   });
+
+  /**
+   * Loads the signed-in user's key pair so files encrypted to them open
+   * with their key passphrase
+   */
+  useEffect(() => {
+    if (mode !== 'decrypt' || !user?.uid) {
+      setIdentity(null);
+      return;
+    }
+    let cancelled = false;
+    getUserIdentity(user.uid).then(stored => { if (!cancelled) setIdentity(stored); });
+    return () => { cancelled = true; };
+  }, [mode, user?.uid]);
+
+  /**
+   * Loads the signed-in user's passkeys, which encrypting with a passkey
+   * needs for their credential IDs and fallback identities
+   */
+  useEffect(() => {
+    setPasskeysSupported(isPasskeySupported());
+    if (mode !== 'encrypt' || !user?.uid) {
+      setPasskeys([]);
+      return;
+    }
+    let cancelled = false;
+    getPasskeys(user.uid).then(stored => { if (!cancelled) setPasskeys(stored); });
+    return () => { cancelled = true; };
+  }, [mode, user?.uid]);
+
+  /**
+   * Loads the signing keys kept on this device
+   */
+  useEffect(() => {
+    setSigningKeys(mode === 'encrypt' ? getSigningKeys() : []);
+  }, [mode]);
+
+  /**
+   * Keeps the selected recipients' public keys in the form values
+   * 
+   * @param updated - The new recipient list
+   */
+  const handleRecipientsChange = (updated: PublicKeyDocument[]) => {
+    setRecipients(updated);
+    form.setValue('recipients', updated.map(r => r.publicKey), { shouldValidate: true });
+  };
   /**
    * Handles files dropped into the dropzone
    * 
@@ -206,14 +576,18 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
    * @param files - Array of files from the drop or selection event
    */
   const handleFileDrop = (files: File[]) => {
+    const limits = sizeLimits(folderOutput);
     let totalSize = 0;
     const validFiles: File[] = [];
     
+    // Encrypting beyond the batch limit produces a single archive
+    const maxFiles = mode === 'encrypt' ? MAX_ARCHIVE_ENTRIES : MAX_FILES_IN_BATCH;
+    
     // Check if too many files were selected at once
-    if (files.length > MAX_FILES_IN_BATCH) {
+    if (files.length > maxFiles) {
       toast({ 
         title: "Too Many Files", 
-        description: `Max ${MAX_FILES_IN_BATCH} files.`, 
+        description: `Max ${maxFiles} files.`, 
         variant: "destructive" 
       }); 
       return;
@@ -222,20 +596,20 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
     // Validate each file individually
     for (const file of files) {
       // Check individual file size limit
-      if (file.size > MAX_FILE_SIZE_BYTES) {
+      if (file.size > limits.perFile) {
         toast({ 
           title: "File Too Large", 
-          description: `${file.name} exceeds ${MAX_FILE_SIZE_BYTES / (1024 * 1024)}MB. Removed.`, 
+          description: `${file.name} exceeds ${formatSizeLimit(limits.perFile)}. Removed.`, 
           variant: "destructive" 
         }); 
         continue;
       }
       
-      // For decrypt mode, ensure file has .lockme extension
-      if (mode === 'decrypt' && !file.name.endsWith('.lockme')) {
+      // For decrypt mode, ensure file has an encrypted file extension
+      if (mode === 'decrypt' && !ENCRYPTED_EXTENSIONS.some(ext => file.name.endsWith(ext))) {
         toast({ 
           title: "Invalid File Type", 
-          description: `${file.name} is not a .lockme file. Removed.`, 
+          description: `${file.name} is not a .lockme, .age or OpenPGP file. Removed.`, 
           variant: "destructive" 
         }); 
         continue;
@@ -247,10 +621,10 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
     }
     
     // Check total batch size limit
-    if (totalSize > MAX_TOTAL_UPLOAD_SIZE_BYTES) {
+    if (totalSize > limits.total) {
       toast({ 
         title: "Total Size Exceeded", 
-        description: `Total size exceeds ${MAX_TOTAL_UPLOAD_SIZE_BYTES / (1024*1024)}MB.`, 
+        description: `Total size exceeds ${formatSizeLimit(limits.total)}.`, 
         variant: "destructive" 
       }); 
       return;
@@ -258,12 +632,11 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
     
     // Update selected files, ensuring we don't exceed maximum batch size
     setSelectedFiles(currentFiles => 
-      [...currentFiles, ...validFiles].slice(0, MAX_FILES_IN_BATCH)
+      [...currentFiles, ...validFiles].slice(0, maxFiles)
     );
     
-    // Reset progress indicators
-    setProgress(0);
-    setCurrentFileProgress(0);
+    // A new selection starts a new job list
+    setJobs([]);
     
     // Show success notification if files were added
     if (validFiles.length > 0) {
@@ -301,6 +674,57 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
     );
   };
 
+  /**
+   * Removes files unchecked in the dropzone's folder tree
+   * 
+   * @param files - The files to drop from the selection
+   */
+  const excludeFiles = (files: File[]) => {
+    const excluded = new Set(files);
+    setSelectedFiles(prevFiles => prevFiles.filter(file => !excluded.has(file)));
+  };
+
+  /**
+   * Downloads a file whose key slots were edited and selects it in place
+   * of the original
+   * 
+   * @param updated - The file with the rewritten header
+   */
+  const handleSlotEditorSave = (updated: File) => {
+    const original = slotEditorFile;
+    setSelectedFiles(prevFiles => prevFiles.map(file => file === original ? updated : file));
+    setSlotEditorFile(null);
+    triggerDownload(updated, updated.name);
+  };
+
+  /**
+   * Decrypts a file with the form's current credentials and discards the
+   * output, confirming the passphrase and the file's integrity
+   * 
+   * @param file - The file being inspected
+   * @returns The verify job's result; its blob is empty
+   * @throws Error if the credentials do not open the file or it is corrupt
+   */
+  const handleInspectorVerify = async (file: File): Promise<CryptoJobResult> => {
+    const values = form.getValues();
+    const keyfile = values.keyfile ? await hashKeyfile(values.keyfile) : undefined;
+    
+    let passkey: PasskeyEvaluation | undefined;
+    if (values.usePasskey) {
+      const { header } = await readContainerHeader(file);
+      const prfSlots = (header.slots ?? []).filter((slot): slot is PrfSlot => slot.type === 'prf');
+      if (prfSlots.length > 0) {
+        passkey = await evaluatePasskeyForSlots(prfSlots);
+      }
+    }
+    
+    return getWorkerPool().run('verify', file, values.passphrase, {
+      keyfile,
+      passkey,
+      identities: identity ? [identity] : undefined
+    });
+  };
+
   /**
    * Triggers browser download for a processed file
    * 
@@ -320,125 +744,197 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
+  
+  /**
+   * Asks for the folder outputs are written to when a selection is too
+   * large to keep its outputs in memory
+   * 
+   * @param files - The files about to be processed
+   * @returns The chosen folder, null when the outputs fit in memory, or
+   *   undefined when the batch cannot go ahead
+   */
+  const pickOutputFolder = async (files: File[]): Promise<FileSystemDirectoryHandle | null | undefined> => {
+    if (!exceedsMemoryLimits(files)) return null;
+    
+    const picker = (window as DirectoryPickerWindow).showDirectoryPicker;
+    if (!picker) {
+      toast({
+        title: "Selection Too Large",
+        description: `This browser keeps outputs in memory: max ${formatSizeLimit(MAX_IN_MEMORY_FILE_SIZE_BYTES)}/file, ${formatSizeLimit(MAX_IN_MEMORY_TOTAL_SIZE_BYTES)} total.`,
+        variant: "destructive"
+      });
+      return undefined;
+    }
+    
+    try {
+      return await picker({ mode: 'readwrite' });
+    } catch (error) {
+      const cancelled = (error as Error).name === 'AbortError';
+      toast({
+        title: cancelled ? "No Folder Chosen" : "Cannot Write to Folder",
+        description: cancelled
+          ? "Large selections are written to a folder as they are processed. Choose one to continue."
+          : (error as Error).message,
+        variant: cancelled ? "warning" : "destructive"
+      });
+      return undefined;
+    }
+  };
+  
+  /**
+   * Uploads a copy of the last encrypted file and builds its share link
+   * 
+   * The copy only opens with a fresh link secret, which goes into the URL
+   * fragment and never to the server.
+   */
+  const handleCreateShareLink = async () => {
+    if (!lastEncryptedDetails?.shareCredentials) return;
+    if (!user?.uid) {
+      toast({ title: "Sign In Required", description: "Sign in to create share links.", variant: "destructive" });
+      return;
+    }
+    
+    setIsCreatingShareLink(true);
+    setShareUploadProgress(0);
+    try {
+      const { id, secret } = createShareSecret();
+      const copy = await createShareCopy(lastEncryptedDetails.blob, lastEncryptedDetails.shareCredentials, secret);
+      await createShare(
+        user.uid,
+        id,
+        copy,
+        { expiresInMs: shareExpiryMs, maxDownloads: shareMaxDownloads },
+        setShareUploadProgress
+      );
+      setShareLink(formatShareLink(window.location.origin, id, secret));
+      
+      try {
+        await addActivity('encrypt', `Created share link for file: ${lastEncryptedDetails.fileName}`, { userId: user.uid });
+        triggerActivityRefresh();
+      } catch (logError) {
+        console.error("Failed to log share link activity:", logError);
+      }
+    } catch (error) {
+      console.error("FileEncryptionCard: Share link creation failed:", error);
+      toast({
+        title: "Share Link Failed",
+        description: (error as Error).message || "Could not upload the file.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsCreatingShareLink(false);
+    }
+  };
+  
+  /**
+   * Downloads the last encrypted file wrapped in a self-decrypting HTML page
+   * 
+   * The page embeds the unchanged .lockme file and opens it in any browser,
+   * offline, with the same passphrase.
+   */
+  const handleExportHtml = async () => {
+    if (!lastEncryptedDetails?.shareCredentials) return;
+    
+    setIsExportingHtml(true);
+    try {
+      const page = await createSelfDecryptingHtml(lastEncryptedDetails.blob);
+      triggerDownload(page, `${lastEncryptedDetails.fileName.replace(/\.lockme$/, '')}.html`);
+      toast({ 
+        title: "HTML Page Exported", 
+        description: "The recipient opens it in any browser with the passphrase, even offline." 
+      });
+    } catch (error) {
+      console.error("FileEncryptionCard: HTML export failed:", error);
+      toast({
+        title: "HTML Export Failed",
+        description: (error as Error).message || "Could not build the HTML page.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExportingHtml(false);
+    }
+  };
+  
+  /**
+   * Returns the card's crypto worker pool, creating it on first use
+   */
+  const getWorkerPool = () => {
+    if (!workerPoolRef.current) {
+      workerPoolRef.current = new CryptoWorkerPool();
+    }
+    return workerPoolRef.current;
+  };
+
   /**
-   * Processes a file for encryption or decryption using WebCrypto API
+   * Processes a file for encryption or decryption in the worker pool
    * 
-   * Implements AES-GCM encryption with PBKDF2 key derivation for secure
-   * file processing. For encrypted files, it stores the salt and IV
-   * at the beginning of the file.
+   * The worker reads the file through `File.stream()` and passes it through
+   * a chunked AES-GCM transform, so it is never loaded into memory as a
+   * whole and the UI stays responsive. Encrypted output is a versioned
+   * LockMe container whose header records the KDF parameters and chunking,
+   * and whose encrypted payload starts with the original name and type;
+   * decryption reads them back and also accepts older single-shot and
+   * headerless files.
    * 
-   * @param file - The file to process
-   * @param passphrase - The passphrase for encryption/decryption
+   * @param input - The file to process, or archive sources to encrypt
+   * @param label - Name used in error messages
+   * @param credentials - Passphrases, recipients and keyfile for the operation
    * @param operation - Whether to encrypt or decrypt
    * @param onProgress - Callback function to report progress (0-100)
-   * @returns A Promise resolving to the processed file blob or null if failed
+   * @param signal - Aborts the operation and terminates its worker
+   * @param onError - Receives the reason when the operation fails
+   * @param onStage - Receives the job's stage once a worker picks it up
+   * @param output - File the output is written to as it is produced,
+   *   instead of being kept in memory
+   * @returns A Promise resolving to the processed blob (and any restored
+   *   metadata) or null if failed
    */
   const processFile = async (
-    file: File, 
-    passphrase: string, 
+    input: File | ArchiveSource[], 
+    label: string,
+    credentials: FileCredentials,
     operation: 'encrypt' | 'decrypt', 
-    onProgress: (p: number) => void
-  ): Promise<Blob | null> => {
+    onProgress: (p: number) => void,
+    signal?: AbortSignal,
+    onError?: (message: string) => void,
+    onStage?: (stage: JobStage) => void,
+    output?: FileSystemFileHandle
+  ): Promise<CryptoJobResult | null> => {
+    const { passphrase, passphrases, recipients, keyfile, passkey, fallbacks, signer } = credentials;
+    
     // Initialize progress
     onProgress(0);
     
     try {
-      // For encryption, generate a random salt
-      // For decryption, we'll extract it from the file
-      const salt = operation === 'encrypt' 
-        ? window.crypto.getRandomValues(new Uint8Array(SALT_LENGTH)) 
-        : undefined;
-      
-      onProgress(operation === 'encrypt' ? 10 : 5);
-      
-      // Read the file into an ArrayBuffer
-      let fileBuffer = await file.arrayBuffer();
-      onProgress(operation === 'encrypt' ? 20 : 15);
-      
-      // Set up variables for cryptographic operations
-      let actualSalt = salt;
-      let iv: Uint8Array;
-      let dataToProcess: ArrayBuffer;
-      
-      // Handle decrypt-specific preprocessing
-      if (operation === 'decrypt') {
-        // Validate file format
-        if (fileBuffer.byteLength < SALT_LENGTH + IV_LENGTH) {
-          throw new Error("Invalid encrypted file format.");
-        }
-        
-        // Extract salt and IV from beginning of file
-        actualSalt = new Uint8Array(fileBuffer.slice(0, SALT_LENGTH));
-        iv = new Uint8Array(fileBuffer.slice(SALT_LENGTH, SALT_LENGTH + IV_LENGTH));
-        
-        // Extract the encrypted data (everything after salt and IV)
-        dataToProcess = fileBuffer.slice(SALT_LENGTH + IV_LENGTH);
-        onProgress(25);
-      } else {
-        // For encryption, generate a random IV and use the whole file
-        iv = window.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
-        dataToProcess = fileBuffer;
-        onProgress(30);
-      }
-      
-      // Import the passphrase as a key for PBKDF2
-      const passphraseKey = await window.crypto.subtle.importKey(
-        'raw',
-        new TextEncoder().encode(passphrase),
-        { name: 'PBKDF2' },
-        false,
-        ['deriveKey']
-      );
-      onProgress(operation === 'encrypt' ? 40 : 35);
-      
-      // Derive the encryption/decryption key using PBKDF2
-      const derivedKey = await window.crypto.subtle.deriveKey(
-        { 
-          name: 'PBKDF2', 
-          salt: actualSalt!, 
-          iterations: PBKDF2_ITERATIONS, 
-          hash: 'SHA-256' 
-        },
-        passphraseKey,
-        { name: 'AES-GCM', length: 256 },
-        true,
-        [operation]
-      );
-      onProgress(operation === 'encrypt' ? 60 : 50);
-      
-      // Perform the actual encrypt/decrypt operation
-      const resultBuffer = await window.crypto.subtle[operation](
-        { name: 'AES-GCM', iv: iv! },
-        derivedKey,
-        dataToProcess
-      );
-      onProgress(operation === 'encrypt' ? 80 : 70);
-      
-      // Process the result differently based on operation
       if (operation === 'encrypt') {
-        // For encryption, combine salt + IV + encrypted data
-        const encryptedFileContent = new Uint8Array(
-          salt!.length + iv!.length + resultBuffer.byteLength
-        );
-        
-        // Write each part to the output buffer
-        encryptedFileContent.set(salt!, 0);
-        encryptedFileContent.set(iv!, salt!.length);
-        encryptedFileContent.set(
-          new Uint8Array(resultBuffer),
-          salt!.length + iv!.length
-        );
+        // Archives are tagged so decryption opens them for browsing
+        const metadata = Array.isArray(input)
+          ? { name: archiveName(input), type: ARCHIVE_TYPE, lastModified: Date.now() }
+          : metadataFromFile(input);
         
-        onProgress(90);
-        return new Blob([encryptedFileContent], { type: 'application/octet-stream' });
+        // KDF (Argon2id or PBKDF2) and compression follow the settings page preferences
+        return await getWorkerPool().run('encrypt', input, passphrase || null, {
+          onProgress,
+          onStage,
+          signal,
+          format: form.getValues('format'),
+          kdf: getDefaultKdfOptions(),
+          compression: getDefaultCompression(),
+          passphrases,
+          keyfile,
+          recipients,
+          passkey,
+          fallbacks,
+          signer,
+          metadata,
+          output
+        });
       } else {
-        // For decryption, try to determine appropriate MIME type
-        let blobType = 'application/octet-stream';
+        const file = input as File;
         
-        // Extract original filename (remove .lockme extension)
-        const originalFileName = file.name.endsWith('.lockme') 
-          ? file.name.slice(0, -'.lockme'.length) 
-          : `decrypted_${file.name}`;
+        // Files without stored metadata fall back to a type guessed from the name
+        let blobType = 'application/octet-stream';
+        const originalFileName = fallbackDecryptedName(file);
         
         // Try to determine MIME type from file extension
         const extension = originalFileName.split('.').pop()?.toLowerCase();
@@ -452,18 +948,27 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
         else if (extension === 'pdf') 
           blobType = 'application/pdf';
         
-        onProgress(90);
-        return new Blob([resultBuffer], { type: blobType });
+        return await getWorkerPool().run('decrypt', file, passphrase, {
+          onProgress,
+          onStage,
+          signal,
+          outputType: blobType,
+          keyfile,
+          passkey,
+          // The passphrase also unlocks the user's key for recipient slots
+          identities: identity ? [identity] : undefined,
+          output
+        });
       }
     } catch (error) {
-      // Log and report errors
-      console.error(`${operation} error for ${file.name}:`, error);
+      // Cancellation is reported once for the whole batch
+      if ((error as Error).name === 'AbortError') {
+        return null;
+      }
       
-      toast({
-        title: `${operation.charAt(0).toUpperCase() + operation.slice(1)} Failed: ${file.name}`,
-        description: (error as Error).message || `Error processing.`,
-        variant: "destructive"
-      });
+      // Log errors; the job list shows each file's reason
+      console.error(`${operation} error for ${label}:`, error);
+      onError?.((error as Error).message || `Error processing.`);
       
       onProgress(100);
       return null;
@@ -472,14 +977,17 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
   /**
    * Form submission handler
    * 
-   * Processes all selected files for encryption or decryption,
-   * handles progress tracking, and manages user notifications.
+   * Processes all selected files for encryption or decryption concurrently
+   * in the worker pool, handles per-file progress tracking, and manages
+   * user notifications.
    * 
    * @param values - Form values containing the passphrase
+   * @param only - Files to process instead of the selection, when retrying
    */
-  const onSubmit = async (values: FileEncryptionFormValues) => {
+  const onSubmit = async (values: FileEncryptionFormValues, only?: File[]) => {
     // Validate file selection
-    if (selectedFiles.length === 0) {
+    const files = only ?? [...selectedFiles];
+    if (files.length === 0) {
       toast({
         title: "No Files",
         description: "Please select file(s).",
@@ -488,104 +996,543 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
       return;
     }
     
-    // Initialize processing state
+    // Asked first, while the click still allows opening the picker
+    const directory = await pickOutputFolder(files);
+    if (directory === undefined) return;
+    
+    // The keyfile is hashed once for the whole batch
+    let keyfile: Uint8Array | undefined;
+    if (values.keyfile) {
+      try {
+        keyfile = await hashKeyfile(values.keyfile);
+      } catch (error) {
+        toast({
+          title: "Keyfile Error",
+          description: (error as Error).message,
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+    const credentials: FileCredentials = {
+      passphrase: values.passphrase,
+      passphrases: values.additionalPassphrases,
+      recipients: values.recipients,
+      keyfile,
+    };
+    
+    // age recipients typed in by hand join the picked ones
+    const foreignOutput = mode === 'encrypt' && values.format !== 'lockme';
+    const ageOutput = mode === 'encrypt' && values.format.startsWith('age');
+    if (ageOutput) {
+      try {
+        const typed = values.ageRecipients.split('\n').map(line => line.trim()).filter(Boolean);
+        credentials.recipients = [...values.recipients, ...typed.map(parseAgeRecipient)];
+      } catch (error) {
+        form.setError('ageRecipients', { message: (error as Error).message });
+        return;
+      }
+    }
+    
+    // The signing key is unlocked once for the whole batch
+    if (values.signingKey && mode === 'encrypt') {
+      const stored = signingKeys.find(key => key.fingerprint === values.signingKey);
+      try {
+        const signer = stored && await unlockSigningIdentity(stored, values.signingPassphrase);
+        if (!signer) {
+          form.setError('signingPassphrase', { message: "Incorrect signing key passphrase." });
+          return;
+        }
+        credentials.signer = signer;
+      } catch (error) {
+        toast({
+          title: "Signing Key Error",
+          description: (error as Error).message,
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+    
+    // One passkey prompt locks the whole batch; the chosen passkey's
+    // fallback identity keeps the files openable with its passphrase
+    if (values.usePasskey && mode === 'encrypt') {
+      try {
+        const evaluation = await evaluatePasskeyForEncryption(passkeys.map(p => p.credentialId));
+        const registered = passkeys.find(p => p.credentialId === evaluation.credential);
+        if (!registered) {
+          throw new Error("This passkey is not registered in your settings.");
+        }
+        credentials.passkey = evaluation;
+        credentials.fallbacks = [registered.fallback];
+      } catch (error) {
+        toast({
+          title: "Passkey Error",
+          description: (error as Error).message,
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+    
+    // Large selections (or an explicit choice) are encrypted as one archive
+    const asArchive = mode === 'encrypt' && (values.createArchive || files.length > MAX_FILES_IN_BATCH);
+    let sources: ArchiveSource[] | null = null;
+    
+    // age and OpenPGP files carry no LockMe metadata, so an archive could not be browsed again
+    if (asArchive && foreignOutput) {
+      toast({
+        title: "Cannot Create Archive",
+        description: `age and OpenPGP output encrypt files one by one. Select at most ${MAX_FILES_IN_BATCH} files.`,
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    if (asArchive) {
+      try {
+        sources = archiveSourcesFromFiles(files);
+      } catch (error) {
+        toast({
+          title: "Cannot Create Archive",
+          description: (error as Error).message,
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+    
+    const inputs: (File | ArchiveSource[])[] = sources ? [sources] : files;
+    const labels = sources
+      ? [`${archiveName(sources)} (${files.length} files)`]
+      : files.map(file => file.name);
+    
+    /** Name of the encrypted file made from an input */
+    const encryptedName = (input: File | ArchiveSource[]) => {
+      const baseName = Array.isArray(input) ? archiveName(input) : input.name;
+      const extension = OUTPUT_EXTENSIONS[values.format];
+      return values.randomizeFileName && !foreignOutput
+        ? randomEncryptedName(extension)
+        : `${baseName}${extension}`;
+    };
+    
+    // Outputs going to a folder get their files up front; decrypted files
+    // are renamed to their stored name once it is known. A bundled batch
+    // adds each output to the ZIP as it finishes, so the ZIP is written
+    // into the folder too rather than held in memory
+    const bundle = values.bundleOutputs && inputs.length > 1;
+    const bundleName = `lockme-${mode}ed-${new Date().toISOString().slice(0, 10)}.zip`;
+    let outputs: (FileSystemFileHandle | undefined)[] = inputs.map(() => undefined);
+    let zipFile: FileSystemFileHandle | undefined;
+    let zip = bundle ? new ZipWriter() : null;
+    if (directory) {
+      try {
+        outputs = await createOutputFiles(
+          directory,
+          inputs.map(input => mode === 'encrypt' ? encryptedName(input) : fallbackDecryptedName(input as File))
+        );
+        if (bundle) {
+          [zipFile] = await createOutputFiles(directory, [bundleName]);
+          zip = new ZipWriter(await zipFile.createWritable());
+        }
+      } catch (error) {
+        await Promise.all(
+          [...outputs, zipFile]
+            .filter((handle): handle is FileSystemFileHandle => !!handle)
+            .map(handle => removeOutputFile(directory, handle))
+        );
+        toast({
+          title: "Cannot Write to Folder",
+          description: (error as Error).message,
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+    
+    // Initialize processing state; an archive is one job made of every file
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsProcessing(true);
-    setProgress(0);
     setLastEncryptedDetails(null);
+    const { batch, signals } = startBatch(
+      mode,
+      inputs.map((input, i) => ({ label: labels[i], files: Array.isArray(input) ? files : [input] })),
+      controller
+    );
     
-    // Track overall success
-    let allSuccessful = true;
+    // Each file records its own PRF salt, so decrypting asks for the
+    // passkey once per file, one prompt at a time, before the jobs start
+    const passkeyByInput: (PasskeyEvaluation | undefined)[] = inputs.map(() => undefined);
+    if (values.usePasskey && mode === 'decrypt') {
+      for (const [i, input] of inputs.entries()) {
+        try {
+          const { header } = await readContainerHeader(input as File);
+          const prfSlots = (header.slots ?? []).filter((slot): slot is PrfSlot => slot.type === 'prf');
+          if (prfSlots.length > 0) {
+            passkeyByInput[i] = await evaluatePasskeyForSlots(prfSlots);
+          }
+        } catch (error) {
+          // Files that fail here are still tried with the passphrase
+          toast({
+            title: `Passkey Error: ${labels[i]}`,
+            description: (error as Error).message,
+            variant: "destructive"
+          });
+        }
+      }
+    }
     
-    // Process each file sequentially
-    for (let i = 0; i < selectedFiles.length; i++) {
-      const file = selectedFiles[i];
-      
-      // Update UI state for current file
-      setProcessingFileIndex(i);
-      setCurrentFileProgress(0);
-      
-      // Process the file
-      const processedBlob = await processFile(
-        file,
-        values.passphrase,
+    // Inputs that never finish stay listed as cancelled in the manifest
+    const manifest: ZipManifestEntry[] = labels.map(label => ({ input: label, status: 'cancelled' }));
+    const saveOutput = async (i: number, blob: Blob, fileName: string) => {
+      if (zip) {
+        manifest[i] = { input: labels[i], output: await zip.add(fileName, blob), status: 'succeeded' };
+        // An output written to the folder now lives in the ZIP
+        if (outputs[i]) await removeOutputFile(directory, outputs[i]);
+      } else if (!outputs[i]) {
+        // Outputs going to a folder are already written
+        triggerDownload(blob, fileName);
+      }
+    };
+    
+    // Process all inputs; the pool limits how many run at once
+    const results = await Promise.all(inputs.map(async (input, i) => {
+      const label = labels[i];
+      const jobId = batch[i].id;
+      const result = await processFile(
+        input,
+        label,
+        { ...credentials, passkey: credentials.passkey ?? passkeyByInput[i] },
         mode,
-        setCurrentFileProgress
+        (p) => updateJob(jobId, { progress: p }),
+        signals[i],
+        (message) => {
+          manifest[i] = { input: label, status: 'failed', error: message };
+          updateJob(jobId, { state: 'failed', error: message });
+        },
+        (stage) => updateJob(jobId, { state: stage }),
+        outputs[i]
       );
       
-      // Handle successful processing
-      if (processedBlob) {
-        let downloadFileName: string;
+      // Handle failed or cancelled processing
+      if (!result) {
+        if (signals[i].aborted) updateJob(jobId, { state: 'cancelled' });
+        if (outputs[i]) await removeOutputFile(directory, outputs[i]);
+        return false;
+      }
+      
+      if (mode === 'encrypt') {
+        const downloadFileName = outputs[i]?.name ?? encryptedName(input);
         
-        // Set appropriate filename based on operation
-        if (mode === 'encrypt') {
-          downloadFileName = `${file.name}.lockme`;
-          
-          // For single file encryption, store details for sharing
-          if (selectedFiles.length === 1) {
-            setLastEncryptedDetails({
-              fileName: file.name,
-              passphraseUsed: values.passphrase,
-              blob: processedBlob
-            });
-          }
-        } else {
-          // For decryption, remove .lockme extension or prefix with "decrypted_"
-          downloadFileName = file.name.endsWith('.lockme')
-            ? file.name.slice(0, -'.lockme'.length)
-            : `decrypted_${file.name}`;
+        // For single output, store details for sharing
+        if (inputs.length === 1) {
+          setLastEncryptedDetails({
+            fileName: downloadFileName,
+            passphraseUsed: values.passphrase,
+            keyfileName: values.keyfile?.name,
+            passkeyLabel: passkeys.find(p => p.credentialId === credentials.passkey?.credential)?.label,
+            blob: result.blob,
+            shareCredentials: values.format === 'lockme' && values.passphrase
+              ? { passphrase: values.passphrase, keyfile }
+              : undefined,
+          });
+          setShareLink(null);
         }
         
-        // Trigger file download
-        triggerDownload(processedBlob, downloadFileName);
-        
-        // Log activity for authenticated users
-        if (user?.uid) {
+        await saveOutput(i, result.blob, downloadFileName);
+      } else {
+        const file = input as File;
+        // Prefer the original name stored inside the file over the outer name
+        let originalName = safeFileName(result.metadata?.name) ?? fallbackDecryptedName(file);
+        if (outputs[i] && !zip) {
           try {
-            await addActivity(
-              mode,
-              `${mode.charAt(0).toUpperCase() + mode.slice(1)}ed file: ${file.name}`,
-              { fileName: file.name, userId: user.uid }
-            );
-            triggerActivityRefresh();
-          } catch (logError) {
-            console.error(`Failed to log activity for ${file.name}:`, logError);
+            originalName = await renameOutputFile(directory, outputs[i], originalName);
+          } catch (error) {
+            console.error(`Rename error for ${label}:`, error);
+            originalName = outputs[i].name;
+          }
+        }
+        
+        // Signed files report who signed them; a bad signature is flagged loudly
+        if (result.signature) {
+          const signature = result.signature;
+          setSignatures(current => [...current, { id: nextSignatureIdRef.current++, fileName: originalName, check: signature }]);
+          if (!signature.valid) {
             toast({
-              title: "Logging Failed",
-              description: `Could not record ${mode} activity.`,
-              variant: "warning"
+              title: `Signature Invalid: ${label}`,
+              description: "The file decrypted, but it was not signed by the key it names. Do not trust its sender.",
+              variant: "destructive"
             });
           }
+        }
+        
+        if (result.metadata?.type === ARCHIVE_TYPE) {
+          // Archives open for browsing instead of downloading
+          try {
+            const entries = await readArchiveIndex(result.blob);
+            setOpenedArchives(current => [
+              ...current,
+              { id: nextArchiveIdRef.current++, name: originalName, archive: result.blob, entries }
+            ]);
+            manifest[i] = { input: label, status: 'succeeded' };
+          } catch (error) {
+            manifest[i] = { input: label, status: 'failed', error: (error as Error).message };
+            updateJob(jobId, { state: 'failed', error: (error as Error).message });
+            return false;
+          }
+        } else if (values.previewDecrypted) {
+          // Previews keep the plaintext in memory until the viewer is closed
+          setPreviews(current => [
+            ...current,
+            { id: nextPreviewIdRef.current++, name: originalName, type: result.metadata?.type, blob: result.blob }
+          ]);
         } else {
+          await saveOutput(i, result.blob, originalName);
+        }
+      }
+      updateJob(jobId, { state: 'done', progress: 100 });
+      
+      // Log activity for authenticated users
+      if (user?.uid) {
+        try {
+          await addActivity(
+            mode,
+            `${mode.charAt(0).toUpperCase() + mode.slice(1)}ed ${sources ? 'archive' : 'file'}: ${label}`,
+            { fileName: label, userId: user.uid }
+          );
           triggerActivityRefresh();
+        } catch (logError) {
+          console.error(`Failed to log activity for ${label}:`, logError);
+          toast({
+            title: "Logging Failed",
+            description: `Could not record ${mode} activity.`,
+            variant: "warning"
+          });
         }
       } else {
-        // Mark as unsuccessful if any file fails
-        allSuccessful = false;
+        triggerActivityRefresh();
       }
       
-      // Update progress
-      setCurrentFileProgress(100);
-      setProgress(((i + 1) / selectedFiles.length) * 100);
+      return true;
+    }));
+    
+    // The bundle is saved even when some inputs failed or were cancelled,
+    // as long as at least one output made it in
+    if (zip && manifest.some(item => item.output)) {
+      await zip.addManifest(mode, manifest);
+      if (zipFile) {
+        await zip.close();
+      } else {
+        triggerDownload(zip.finish(), bundleName);
+      }
+    } else if (zipFile) {
+      await zip.abort();
+      await removeOutputFile(directory, zipFile);
     }
     
     // Reset processing state
+    abortControllerRef.current = null;
+    jobControllersRef.current.clear();
     setIsProcessing(false);
-    setProcessingFileIndex(0);
     
     // Show appropriate completion notification
-    if (allSuccessful) {
+    const succeeded = results.filter(Boolean).length;
+    if (controller.signal.aborted) {
+      toast({
+        title: "Cancelled",
+        description: `${succeeded} of ${inputs.length} item(s) finished before cancelling.`,
+        variant: "warning"
+      });
+    } else if (succeeded === inputs.length) {
       toast({
         title: "Complete!",
-        description: `${selectedFiles.length} file(s) processed.`
+        description: `${files.length} file(s) processed.`
       });
-    } else if (selectedFiles.length > 1) {
+    } else {
+      toast({
+        title: succeeded > 0 ? "Partially Complete" : `${mode === 'encrypt' ? 'Encrypt' : 'Decrypt'} Failed`,
+        description: `${inputs.length - succeeded} of ${inputs.length} item(s) failed or were cancelled. See the job list for details.`,
+        variant: succeeded > 0 ? "warning" : "destructive"
+      });
+    }
+  };
+
+  /**
+   * Changes the passphrase of every selected file
+   * 
+   * The form's passphrase and keyfile open the files. Each file is
+   * re-keyed in the worker pool: files with key slots only get a new
+   * header, older ones (or all, with `reencrypt`) are decrypted and
+   * re-encrypted segment by segment. Only the re-keyed, still encrypted
+   * files are downloaded.
+   * 
+   * @param newPassphrase - The passphrase replacing the current one
+   * @param reencrypt - Whether to replace the data key as well
+   */
+  const handleRekey = async (newPassphrase: string, reencrypt: boolean) => {
+    setIsRekeyDialogOpen(false);
+    const values = form.getValues();
+    
+    let keyfile: Uint8Array | undefined;
+    if (values.keyfile) {
+      try {
+        keyfile = await hashKeyfile(values.keyfile);
+      } catch (error) {
+        toast({
+          title: "Keyfile Error",
+          description: (error as Error).message,
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+    
+    const files = [...selectedFiles];
+    const directory = await pickOutputFolder(files);
+    if (directory === undefined) return;
+    
+    // Re-keyed files going to a folder keep their names unless one is taken
+    let outputs: (FileSystemFileHandle | undefined)[] = files.map(() => undefined);
+    if (directory) {
+      try {
+        outputs = await createOutputFiles(directory, files.map(file => file.name));
+      } catch (error) {
+        toast({
+          title: "Cannot Write to Folder",
+          description: (error as Error).message,
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+    
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsProcessing(true);
+    const { batch, signals } = startBatch('rekey', files.map(file => ({ label: file.name, files: [file] })), controller);
+    
+    const results = await Promise.all(files.map(async (file, i) => {
+      const jobId = batch[i].id;
+      try {
+        const result = await getWorkerPool().run('rekey', file, values.passphrase, {
+          onProgress: (p) => updateJob(jobId, { progress: p }),
+          onStage: (stage) => updateJob(jobId, { state: stage }),
+          signal: signals[i],
+          outputType: file.type || 'application/octet-stream',
+          kdf: getDefaultKdfOptions(),
+          keyfile,
+          identities: identity ? [identity] : undefined,
+          newPassphrase,
+          reencrypt,
+          output: outputs[i]
+        });
+        if (!outputs[i]) triggerDownload(result.blob, file.name);
+        updateJob(jobId, { state: 'done', progress: 100 });
+      } catch (error) {
+        if (outputs[i]) await removeOutputFile(directory, outputs[i]);
+        if ((error as Error).name === 'AbortError') {
+          updateJob(jobId, { state: 'cancelled' });
+          return false;
+        }
+        console.error(`rekey error for ${file.name}:`, error);
+        updateJob(jobId, { state: 'failed', error: (error as Error).message || `Error processing.` });
+        return false;
+      }
+      
+      if (user?.uid) {
+        try {
+          await addActivity('encrypt', `Changed passphrase of file: ${file.name}`, { userId: user.uid });
+        } catch (logError) {
+          console.error(`Failed to log activity for ${file.name}:`, logError);
+        }
+      }
+      triggerActivityRefresh();
+      return true;
+    }));
+    
+    abortControllerRef.current = null;
+    jobControllersRef.current.clear();
+    setIsProcessing(false);
+    
+    const succeeded = results.filter(Boolean).length;
+    if (controller.signal.aborted) {
       toast({
-        title: "Partially Complete",
-        description: `Some files failed.`,
+        title: "Cancelled",
+        description: `${succeeded} of ${files.length} file(s) finished before cancelling.`,
         variant: "warning"
       });
+    } else if (succeeded === files.length) {
+      toast({
+        title: "Passphrase Changed",
+        description: `${files.length} re-keyed file(s) downloaded. Delete the old copies.`
+      });
+    } else {
+      toast({
+        title: succeeded > 0 ? "Partially Complete" : "Re-key Failed",
+        description: `${files.length - succeeded} of ${files.length} file(s) failed or were cancelled. See the job list for details.`,
+        variant: succeeded > 0 ? "warning" : "destructive"
+      });
     }
   };
+
+  /**
+   * Shows a new batch in the job list and gives each job its own
+   * AbortController, which cancelling the whole batch aborts as well
+   * 
+   * @param operation - What the batch does, for the list's wording and retries
+   * @param items - Label and selected files of each job, in input order
+   * @param controller - The batch's controller
+   * @returns The batch's jobs and their abort signals, in input order
+   */
+  const startBatch = (
+    operation: 'encrypt' | 'decrypt' | 'rekey',
+    items: { label: string; files: File[] }[],
+    controller: AbortController
+  ) => {
+    jobControllersRef.current.clear();
+    const batch: BatchJob[] = items.map(item => ({ id: nextJobIdRef.current++, ...item, state: 'queued', progress: 0 }));
+    const signals = batch.map(job => {
+      const jobController = new AbortController();
+      controller.signal.addEventListener('abort', () => jobController.abort(), { once: true });
+      jobControllersRef.current.set(job.id, jobController);
+      return jobController.signal;
+    });
+    setJobs(batch);
+    setJobOperation(operation);
+    return { batch, signals };
+  };
+
+  /**
+   * Applies changes to one job of the current batch
+   */
+  const updateJob = (id: number, changes: Partial<BatchJob>) => {
+    setJobs(current => current.map(job => job.id === id ? { ...job, ...changes } : job));
+  };
+
+  /**
+   * Cancels the running batch and terminates in-flight worker jobs
+   */
+  const cancelProcessing = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  /**
+   * Cancels one queued or running job, leaving the rest of the batch running
+   */
+  const cancelJob = (id: number) => {
+    jobControllersRef.current.get(id)?.abort();
+  };
+
+  /**
+   * Runs the failed jobs of the last batch again with the current form
+   * values, so a corrected passphrase or keyfile applies to them only
+   */
+  const retryFailedJobs = () => {
+    const failed = jobs.filter(job => job.state === 'failed').flatMap(job => job.files);
+    form.handleSubmit(values => onSubmit(values, failed))();
+  };
+
     /**
    * Generates a secure passphrase using AI
    * 
@@ -751,17 +1698,31 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
       if (aiAnalysisTimeoutRef.current) {
         clearTimeout(aiAnalysisTimeoutRef.current);
       }
+      
+      // Stop any in-flight crypto work
+      abortControllerRef.current?.abort();
+      workerPoolRef.current?.terminate();
+      workerPoolRef.current = null;
     };
   }, []);
 
+  // Size limits shown in the description and tooltip
+  const limits = sizeLimits(folderOutput);
+  
+  // age and OpenPGP output drop the LockMe-only options
+  const format = form.watch('format');
+  const foreignOutput = mode === 'encrypt' && format !== 'lockme';
+  const ageOutput = mode === 'encrypt' && format.startsWith('age');
+  const pgpOutput = mode === 'encrypt' && format.startsWith('openpgp');
+  
   // Dynamic content based on operation mode
   const cardTitle = mode === 'encrypt' 
     ? "Encrypt Your File(s)" 
     : "Decrypt Your File(s)";
     
   const cardDescription = mode === 'encrypt' 
-    ? `Select up to ${MAX_FILES_IN_BATCH} files. Max ${MAX_FILE_SIZE_BYTES / (1024*1024)}MB/file, ${MAX_TOTAL_UPLOAD_SIZE_BYTES / (1024*1024)}MB total.` 
-    : `Select up to ${MAX_FILES_IN_BATCH} encrypted (.lockme) files.`;
+    ? `Select files; more than ${MAX_FILES_IN_BATCH} are combined into one archive. Max ${formatSizeLimit(limits.perFile)}/file, ${formatSizeLimit(limits.total)} total.` 
+    : `Select up to ${MAX_FILES_IN_BATCH} encrypted (.lockme, .age or OpenPGP) files.`;
     
   const buttonText = mode === 'encrypt' 
     ? "Encrypt File(s)" 
@@ -809,11 +1770,12 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
                       <p className="text-sm font-medium mb-1">How to Encrypt:</p>
                       <ul className="list-disc list-inside text-xs space-y-1">
                         <li>Drag & drop or click to select.</li>
-                        <li>Max {MAX_FILES_IN_BATCH} files, {MAX_FILE_SIZE_BYTES / (1024 * 1024)}MB/file, {MAX_TOTAL_UPLOAD_SIZE_BYTES / (1024*1024)}MB total.</li>
+                        <li>Max {formatSizeLimit(limits.perFile)}/file, {formatSizeLimit(limits.total)} total.</li>
+                        <li>Over {MAX_FILES_IN_BATCH} files are packed into one archive '.lockme'.</li>
                         <li>Enter a strong passphrase.</li>
                         <li>Click 'Encrypt File(s)'.</li>
                         <li>Ctrl/Cmd+Shift+P to toggle passphrase visibility.</li>
-                        <li>Files are encrypted locally and downloaded with '.lockme'.</li>
+                        <li>Files are encrypted locally and downloaded with '.lockme' (or '.age', '.gpg', '.asc').</li>
                         <li>Keep passphrase safe!</li>
                       </ul>
                     </>
@@ -821,12 +1783,13 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
                     <>
                       <p className="text-sm font-medium mb-1">How to Decrypt:</p>
                       <ul className="list-disc list-inside text-xs space-y-1">
-                        <li>Drag & drop or click to select '.lockme' file(s).</li>
+                        <li>Drag & drop or click to select '.lockme', '.age', '.gpg' or '.asc' file(s).</li>
                         <li>Max {MAX_FILES_IN_BATCH} files.</li>
                         <li>Enter exact passphrase.</li>
                         <li>Ctrl/Cmd+Shift+P to toggle passphrase visibility.</li>
                         <li>Click 'Decrypt File(s)'.</li>
                         <li>Files decrypted locally and downloaded.</li>
+                        <li>Archives list their contents for extraction.</li>
                       </ul>
                     </>
                   )}
@@ -836,11 +1799,13 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
           </div>
           <CardDescription>{cardDescription}</CardDescription>
         </CardHeader>        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)}>
+          <form onSubmit={form.handleSubmit(values => onSubmit(values))}>
             <CardContent className="space-y-6">
               {/* File Dropzone */}
               <FileDropzone 
                 onFilesDrop={handleFileDrop} 
+                onFilesExclude={excludeFiles} 
+                selectedFiles={selectedFiles} 
                 className={mode === 'decrypt' ? "accept-.lockme" : ""} 
                 mode={mode} 
               />
@@ -877,9 +1842,39 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
                       >
                         {/* File name and size */}
                         <span className="truncate flex-grow mr-2">
-                          {file.name} ({(file.size / (1024*1024)).toFixed(2)} MB)
+                          {relativePathOf(file)} ({(file.size / (1024*1024)).toFixed(2)} MB)
                         </span>
                         
+                        {/* Key slot editor button (Decrypt mode, LockMe files) */}
+                        {mode === 'decrypt' && file.name.endsWith('.lockme') && (
+                          <Button 
+                            type="button" 
+                            variant="ghost" 
+                            size="icon" 
+                            className="h-6 w-6 flex-shrink-0" 
+                            onClick={() => setSlotEditorFile(file)} 
+                            disabled={isProcessing}
+                            aria-label={`Manage passphrases of ${file.name}`}
+                          >
+                            <KeyRound className="h-4 w-4" />
+                          </Button>
+                        )}
+                        
+                        {/* Inspect button (Decrypt mode, LockMe files) */}
+                        {mode === 'decrypt' && file.name.endsWith('.lockme') && (
+                          <Button 
+                            type="button" 
+                            variant="ghost" 
+                            size="icon" 
+                            className="h-6 w-6 flex-shrink-0" 
+                            onClick={() => setInspectorFile(file)} 
+                            disabled={isProcessing}
+                            aria-label={`Inspect ${file.name}`}
+                          >
+                            <FileSearch className="h-4 w-4" />
+                          </Button>
+                        )}
+                        
                         {/* Remove file button */}
                         <Button 
                           type="button" 
@@ -1006,43 +2001,396 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
                           </ul>
                         )}
                       </div>
+                    )}
+                    
+                    {/* Key pair hint (Decrypt mode) */}
+                    {mode === 'decrypt' && identity && (
+                      <p className="text-xs text-muted-foreground">
+                        Files encrypted to you open with your key passphrase.
+                      </p>
+                    )}
+                    {/* age identity hint (Decrypt mode) */}
+                    {mode === 'decrypt' && (
+                      <p className="text-xs text-muted-foreground">
+                        For age files, you can also paste an AGE-SECRET-KEY-1… identity here.
+                      </p>
                     )}                  <FormMessage />
                 </FormItem>
               )} />
               
-              {/* Progress Indicators */}
-              {isProcessing && (
-                <div className="space-y-2">
-                  {/* Overall Progress */}
-                  <Label htmlFor="overall-progress">
-                    Overall Progress ({processingFileIndex + 1} of {selectedFiles.length} files)
-                  </Label>
-                  <Progress 
-                    id="overall-progress" 
-                    value={progress} 
-                    className="w-full mb-2" 
-                  />
-                  
-                  {/* Current File Progress */}
-                  {selectedFiles[processingFileIndex] && (
-                    <Label htmlFor="current-file-progress">
-                      {mode === 'encrypt' ? 'Encrypting' : 'Decrypting'}: {selectedFiles[processingFileIndex].name}
-                    </Label>
+              {/* Output Format (Encrypt mode only) */}
+              {mode === 'encrypt' && (
+                <FormField
+                  control={form.control}
+                  name="format"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Format</FormLabel>
+                      <Select
+                        value={field.value}
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          form.trigger('passphrase');
+                        }}
+                        disabled={isProcessing}
+                      >
+                        <FormControl>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="lockme">LockMe (.lockme)</SelectItem>
+                          <SelectItem value="age">age (.age)</SelectItem>
+                          <SelectItem value="age-armored">age, ASCII armored (.age)</SelectItem>
+                          <SelectItem value="openpgp">OpenPGP (.gpg)</SelectItem>
+                          <SelectItem value="openpgp-armored">OpenPGP, ASCII armored (.asc)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        {pgpOutput
+                          ? "OpenPGP files open with GnuPG (gpg --decrypt) and keep the file name, but only with passphrases. GnuPG 2.2 and older only try the first passphrase."
+                          : "age files open with the age and rage command-line tools, but keep no file name and allow one passphrase or recipients only."}
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              
+              {/* age Recipients (age output only) */}
+              {ageOutput && (
+                <FormField
+                  control={form.control}
+                  name="ageRecipients"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>age recipients</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder="age1… (one per line)"
+                          className="font-mono text-xs"
+                          rows={3}
+                          {...field}
+                          onChange={(e) => {
+                            field.onChange(e);
+                            form.trigger('passphrase');
+                          }}
+                          disabled={isProcessing}
+                        />
+                      </FormControl>
+                      <p className="text-xs text-muted-foreground">
+                        Leave the passphrase empty to encrypt to these recipients and the ones picked below.
+                      </p>
+                      <FormMessage />
+                    </FormItem>
                   )}
-                  <Progress 
-                    id="current-file-progress" 
-                    value={currentFileProgress} 
-                    className="w-full" 
+                />
+              )}
+              
+              {/* Keyfile Picker (not for age or OpenPGP output) */}
+              {!foreignOutput && (
+                <FormField
+                  control={form.control}
+                  name="keyfile"
+                  render={({ field }) => (
+                    <FormItem>
+                      <KeyfilePicker
+                        keyfile={field.value}
+                        onChange={field.onChange}
+                        onGenerate={mode === 'encrypt' ? (generated) => triggerDownload(generated, generated.name) : undefined}
+                        disabled={isProcessing}
+                      />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              
+              {/* Passkey Option (Encrypt mode needs a registered passkey) */}
+              {passkeysSupported && !foreignOutput && (mode === 'decrypt' || passkeys.length > 0) && (
+                <FormField
+                  control={form.control}
+                  name="usePasskey"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between gap-4 p-3 border rounded-md space-y-0">
+                      <div>
+                        <FormLabel className="flex items-center"><ScanFace className="mr-1.5 h-4 w-4" />Unlock with passkey</FormLabel>
+                        <p className="text-xs text-muted-foreground">
+                          {mode === 'encrypt'
+                            ? "Open the files with your passkey. They also open with the passkey's fallback passphrase."
+                            : "Use your passkey for files that were locked with one."}
+                        </p>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={(checked) => {
+                            field.onChange(checked);
+                            form.trigger('passphrase');
+                          }}
+                          disabled={isProcessing}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              )}
+              
+              {/* Signing Key (Encrypt mode, when the user has one) */}
+              {mode === 'encrypt' && !foreignOutput && signingKeys.length > 0 && (
+                <div className="space-y-2 p-3 border rounded-md">
+                  <FormField
+                    control={form.control}
+                    name="signingKey"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Sign as</FormLabel>
+                        <Select
+                          value={field.value || 'none'}
+                          onValueChange={(value) => {
+                            field.onChange(value === 'none' ? '' : value);
+                            form.trigger('signingPassphrase');
+                          }}
+                          disabled={isProcessing}
+                        >
+                          <FormControl>
+                            <SelectTrigger><SelectValue placeholder="Don't sign" /></SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">Don&apos;t sign</SelectItem>
+                            {signingKeys.map(key => (
+                              <SelectItem key={key.fingerprint} value={key.fingerprint}>{key.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
-                  
-                  <p className="text-sm text-muted-foreground text-center">
-                    {currentFileProgress}% complete for current file
+                  {form.watch('signingKey') && (
+                    <FormField
+                      control={form.control}
+                      name="signingPassphrase"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              autoComplete="off"
+                              placeholder="Signing key passphrase"
+                              {...field}
+                              disabled={isProcessing}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    Recipients who trust your signing key see that the file came from you.
                   </p>
                 </div>
               )}
               
-              {/* Share Button (only shown for single encrypted files) */}
-              {lastEncryptedDetails && mode === 'encrypt' && !isProcessing && selectedFiles.length === 1 && (
+              {/* Additional Passphrases (Encrypt mode only) */}
+              {mode === 'encrypt' && !ageOutput && (
+                <FormField
+                  control={form.control}
+                  name="additionalPassphrases"
+                  render={({ field }) => (
+                    <FormItem>
+                      {field.value.map((value, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <FormControl>
+                            <Input
+                              type={showPassword ? "text" : "password"}
+                              placeholder={`Additional passphrase ${index + 1}`}
+                              value={value}
+                              onChange={(e) => field.onChange(field.value.map((v, i) => i === index ? e.target.value : v))}
+                              disabled={isProcessing}
+                            />
+                          </FormControl>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="text-destructive/70 hover:text-destructive hover:bg-destructive/10 flex-shrink-0"
+                            onClick={() => field.onChange(field.value.filter((_, i) => i !== index))}
+                            disabled={isProcessing}
+                            aria-label={`Remove additional passphrase ${index + 1}`}
+                          >
+                            <XCircle className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => field.onChange([...field.value, ''])}
+                        disabled={isProcessing}
+                        className="text-xs"
+                      >
+                        <KeyRound className="mr-1.5 h-3 w-3" />
+                        Add another passphrase
+                      </Button>
+                      <p className="text-xs text-muted-foreground">
+                        Each passphrase opens the file on its own, e.g. a team passphrase and a personal one.
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              
+              {/* Recipients (Encrypt mode, signed-in users only; not for OpenPGP output) */}
+              {mode === 'encrypt' && user && !pgpOutput && (
+                <RecipientPicker
+                  recipients={recipients}
+                  onChange={handleRecipientsChange}
+                  disabled={isProcessing}
+                />
+              )}
+              
+              {/* Archive Option (Encrypt mode, several files) */}
+              {mode === 'encrypt' && !foreignOutput && selectedFiles.length > 1 && (
+                <FormField
+                  control={form.control}
+                  name="createArchive"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between gap-4 p-3 border rounded-md space-y-0">
+                      <div>
+                        <FormLabel>Combine into one archive</FormLabel>
+                        <p className="text-xs text-muted-foreground">
+                          {selectedFiles.length > MAX_FILES_IN_BATCH
+                            ? `More than ${MAX_FILES_IN_BATCH} files are always saved as one archive.`
+                            : "Save a single .lockme that keeps folder paths and timestamps."}
+                        </p>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value || selectedFiles.length > MAX_FILES_IN_BATCH}
+                          onCheckedChange={field.onChange}
+                          disabled={isProcessing || selectedFiles.length > MAX_FILES_IN_BATCH}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              )}
+              
+              {/* Random Outer Name Option (Encrypt mode, LockMe files) */}
+              {mode === 'encrypt' && !foreignOutput && (
+                <FormField
+                  control={form.control}
+                  name="randomizeFileName"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between gap-4 p-3 border rounded-md space-y-0">
+                      <div>
+                        <FormLabel>Hide original file name</FormLabel>
+                        <p className="text-xs text-muted-foreground">
+                          Save as a random name; the real name is restored on decryption.
+                        </p>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                          disabled={isProcessing}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              )}
+              
+              {/* ZIP Bundle Option (several files saved one by one) */}
+              {selectedFiles.length > 1
+                && !(mode === 'encrypt' && (form.watch('createArchive') || selectedFiles.length > MAX_FILES_IN_BATCH))
+                && !(mode === 'decrypt' && form.watch('previewDecrypted')) && (
+                <FormField
+                  control={form.control}
+                  name="bundleOutputs"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between gap-4 p-3 border rounded-md space-y-0">
+                      <div>
+                        <FormLabel>Download as one ZIP</FormLabel>
+                        <p className="text-xs text-muted-foreground">
+                          Save all {mode === 'encrypt' ? 'encrypted' : 'decrypted'} files in a single ZIP, with a manifest of which files succeeded or failed.
+                          {exceedsMemoryLimits(selectedFiles)
+                            ? ' This selection is too large to hold in memory, so the ZIP is written into the folder you choose as each file finishes.'
+                            : ' The ZIP downloads once the last file finishes.'}
+                        </p>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                          disabled={isProcessing}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              )}
+              
+              {/* Preview Option (Decrypt mode) */}
+              {mode === 'decrypt' && (
+                <FormField
+                  control={form.control}
+                  name="previewDecrypted"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between gap-4 p-3 border rounded-md space-y-0">
+                      <div>
+                        <FormLabel>Preview instead of downloading</FormLabel>
+                        <p className="text-xs text-muted-foreground">
+                          Open decrypted files in a viewer; nothing is saved unless you download it from there.
+                        </p>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                          disabled={isProcessing}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              )}
+              
+              {/* Job List: per-file state, errors, cancel and retry */}
+              <JobQueue
+                jobs={jobs}
+                activity={jobOperation === 'encrypt' ? 'Encrypting' : jobOperation === 'decrypt' ? 'Decrypting' : 'Re-keying'}
+                isProcessing={isProcessing}
+                onCancel={cancelJob}
+                onRetryFailed={jobOperation === 'rekey' ? undefined : retryFailedJobs}
+                onClear={() => setJobs([])}
+              />
+              
+              {/* Signatures of Decrypted Files */}
+              {mode === 'decrypt' && (
+                <SignatureStatusList
+                  signatures={signatures}
+                  onDismiss={(id) => setSignatures(current => current.filter(s => s.id !== id))}
+                />
+              )}
+              
+              {/* Decrypted Archives */}
+              {mode === 'decrypt' && openedArchives.map(opened => (
+                <ArchiveBrowser
+                  key={opened.id}
+                  name={opened.name}
+                  archive={opened.archive}
+                  entries={opened.entries}
+                  onDownload={triggerDownload}
+                  onClose={() => setOpenedArchives(current => current.filter(a => a.id !== opened.id))}
+                />
+              ))}
+              
+              {/* Share Button (only shown for a single encrypted output) */}
+              {lastEncryptedDetails && mode === 'encrypt' && !isProcessing && selectedFiles.length > 0 && (
                 <Button 
                   variant="outline" 
                   onClick={() => setIsShareDialogOpen(true)} 
@@ -1053,10 +2401,49 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
                   Share Encrypted File
                 </Button>
               )}
+              
+              {/* Self-Decrypting HTML Export (passphrase-locked .lockme output only) */}
+              {lastEncryptedDetails?.shareCredentials && mode === 'encrypt' && !isProcessing && selectedFiles.length > 0 && (
+                <Button 
+                  variant="outline" 
+                  onClick={handleExportHtml} 
+                  disabled={isExportingHtml} 
+                  className="w-full sm:w-auto mt-4 sm:ml-2" 
+                  type="button"
+                >
+                  {isExportingHtml 
+                    ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> 
+                    : <FileCode className="mr-2 h-4 w-4" />}
+                  Export as Self-Decrypting HTML
+                </Button>
+              )}
             </CardContent>
             
             {/* Form Action Buttons */}
-            <CardFooter className="flex justify-end">
+            <CardFooter className="flex justify-end gap-2">
+              {isProcessing && (
+                <Button 
+                  type="button" 
+                  variant="outline" 
+                  onClick={cancelProcessing} 
+                  className="w-full sm:w-auto"
+                >
+                  <XCircle className="mr-2 h-4 w-4" />
+                  Cancel
+                </Button>
+              )}
+              {mode === 'decrypt' && (
+                <Button 
+                  type="button" 
+                  variant="outline" 
+                  onClick={() => setIsRekeyDialogOpen(true)} 
+                  disabled={isProcessing || selectedFiles.length === 0 || !form.watch('passphrase')} 
+                  className="w-full sm:w-auto"
+                >
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  Change Passphrase
+                </Button>
+              )}
               <Button 
                 type="submit" 
                 disabled={
@@ -1076,7 +2463,39 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
             </CardFooter>
           </form>
         </Form>
-      </Card>      {/* Sharing Dialog */}
+      </Card>      {/* Key Slot Editor (Decrypt mode) */}
+      <KeySlotManager
+        file={slotEditorFile}
+        identity={identity}
+        keyfile={form.watch('keyfile')}
+        onSave={handleSlotEditorSave}
+        onClose={() => setSlotEditorFile(null)}
+      />
+      
+      {/* Inspect and Verify (Decrypt mode) */}
+      <FileInspector
+        file={inspectorFile}
+        onVerify={handleInspectorVerify}
+        onClose={() => setInspectorFile(null)}
+      />
+      
+      {/* Preview of Decrypted Files (Decrypt mode) */}
+      <FilePreviewDialog
+        file={previews[0] ?? null}
+        remaining={Math.max(previews.length - 1, 0)}
+        onDownload={triggerDownload}
+        onClose={() => setPreviews(current => current.slice(1))}
+      />
+      
+      {/* Re-key (Decrypt mode) */}
+      <RekeyDialog
+        open={isRekeyDialogOpen}
+        fileCount={selectedFiles.length}
+        onConfirm={handleRekey}
+        onClose={() => setIsRekeyDialogOpen(false)}
+      />
+      
+      {/* Sharing Dialog */}
       {lastEncryptedDetails && mode === 'encrypt' && (
         <Dialog 
           open={isShareDialogOpen} 
@@ -1085,7 +2504,7 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
           <DialogContent className="sm:max-w-md">
             <DialogHeader>
               <DialogTitle>
-                Share Encrypted File: {lastEncryptedDetails.fileName}.lockme
+                Share Encrypted File: {lastEncryptedDetails.fileName}
               </DialogTitle>
               <DialogDescription>
                 Follow these steps to securely share your encrypted file.
@@ -1098,12 +2517,23 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
                 <Label className="font-semibold">Step 1: Send the file</Label>
                 <p className="text-sm text-muted-foreground mt-1">
                   The encrypted file <code className="bg-muted px-1 py-0.5 rounded text-xs">
-                    {lastEncryptedDetails.fileName}.lockme
+                    {lastEncryptedDetails.fileName}
                   </code> has been downloaded. Send this file to your recipient.
                 </p>
               </div>
               
-              {/* Step 2: Share Passphrase */}
+              {/* Step 2: Share Passphrase (files encrypted to recipients only need none) */}
+              {!lastEncryptedDetails.passphraseUsed ? (
+                <div>
+                  <Label className="font-semibold">Step 2: Let your recipients know</Label>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {recipients.length > 0
+                      ? "This file was encrypted to your recipients' public keys. They open it with their own key passphrase."
+                      : "No one else can open this file yet."}
+                    {lastEncryptedDetails.passkeyLabel && ` You open it with your passkey "${lastEncryptedDetails.passkeyLabel}" or its fallback passphrase.`}
+                  </p>
+                </div>
+              ) : (<>
               <div>
                 <Label className="font-semibold">Step 2: Share the passphrase</Label>
                 <p className="text-sm text-muted-foreground mt-1">
@@ -1142,6 +2572,109 @@ const FileEncryptionCard: FC<FileEncryptionCardProps> = ({ mode }) => {
                   Avoid sending file and passphrase together.
                 </div>
               </div>
+              
+              {/* Keyfile Reminder */}
+              {lastEncryptedDetails.keyfileName && (
+                <p className="text-sm text-muted-foreground">
+                  The recipient also needs the keyfile <code className="bg-muted px-1 py-0.5 rounded text-xs">
+                    {lastEncryptedDetails.keyfileName}
+                  </code>. Send it separately from both the file and the passphrase.
+                </p>
+              )}
+              </>)}
+              
+              {/* Share Link: upload a copy that opens with a key kept in the link */}
+              {lastEncryptedDetails.shareCredentials && (
+                <div className="border-t pt-4 space-y-3">
+                  <div>
+                    <Label className="font-semibold">Or create a share link</Label>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Uploads an encrypted copy that only the link opens. The key is in the part after #,
+                      which is never sent to our servers. Anyone with the link can download the file.
+                    </p>
+                  </div>
+                  
+                  {shareLink ? (
+                    <div className="flex items-center space-x-2">
+                      <Input 
+                        id="shareLink" 
+                        readOnly 
+                        value={shareLink} 
+                        className="font-mono text-xs flex-grow" 
+                        onFocus={(e) => e.target.select()}
+                      />
+                      <Button 
+                        type="button" 
+                        variant="outline" 
+                        size="icon" 
+                        onClick={() => { 
+                          navigator.clipboard.writeText(shareLink); 
+                          toast({ title: "Share Link Copied!" }); 
+                        }}
+                      >
+                        <Copy className="h-4 w-4" />
+                        <span className="sr-only">Copy</span>
+                      </Button>
+                    </div>
+                  ) : lastEncryptedDetails.blob.size > MAX_SHARE_SIZE ? (
+                    <p className="text-sm text-muted-foreground">
+                      Files larger than {MAX_SHARE_SIZE / (1024 * 1024)}MB cannot be shared by link.
+                    </p>
+                  ) : (<>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-1">
+                        <Label htmlFor="shareExpiry" className="text-xs">Expires after</Label>
+                        <Select 
+                          value={String(shareExpiryMs)} 
+                          onValueChange={(value) => setShareExpiryMs(Number(value))} 
+                          disabled={isCreatingShareLink}
+                        >
+                          <SelectTrigger id="shareExpiry"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {SHARE_EXPIRY_OPTIONS.map(option => (
+                              <SelectItem key={option.ms} value={String(option.ms)}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="shareMaxDownloads" className="text-xs">Downloads allowed</Label>
+                        <Select 
+                          value={String(shareMaxDownloads)} 
+                          onValueChange={(value) => setShareMaxDownloads(Number(value))} 
+                          disabled={isCreatingShareLink}
+                        >
+                          <SelectTrigger id="shareMaxDownloads"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {SHARE_DOWNLOAD_OPTIONS.map(count => (
+                              <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    {isCreatingShareLink && <Progress value={shareUploadProgress} className="h-2" />}
+                    <Button 
+                      type="button" 
+                      variant="outline" 
+                      className="w-full" 
+                      onClick={handleCreateShareLink} 
+                      disabled={isCreatingShareLink}
+                    >
+                      {isCreatingShareLink 
+                        ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> 
+                        : <Link2 className="mr-2 h-4 w-4" />}
+                      Create Share Link
+                    </Button>
+                  </>)}
+                  
+                  {shareLink && (
+                    <p className="text-xs text-muted-foreground">
+                      Revoke the link at any time under Settings → Share Links.
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
             
             {/* Dialog Footer */}
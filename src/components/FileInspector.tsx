@@ -0,0 +1,232 @@
+"use client";
+
+/**
+ * FileInspector Component
+ *
+ * Dialog describing an encrypted `.lockme` file from its header: format
+ * version, cipher, key derivation or key slots, chunking and sizes. A
+ * verify pass decrypts the whole file with the card's credentials and
+ * discards the output, confirming the passphrase and the file's integrity
+ * without saving anything.
+ *
+ * Features:
+ * - Header summary without any passphrase
+ * - Slot list matching the key slot editor
+ * - Signer fingerprint of signed files
+ * - Full authenticated decrypt pass with the result shown inline
+ */
+
+import type { FC, ReactNode } from 'react';
+import { useEffect, useState } from 'react';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { describeSlot } from '@/components/KeySlotManager';
+
+// Icons
+import { CheckCircle2, FileSearch, Loader2, ShieldCheck, ShieldX } from 'lucide-react';
+
+// Utilities
+import { formatFingerprint, inspectContainer, type ContainerInspection, type KdfParams } from '@/lib/crypto';
+import type { CryptoJobResult } from '@/lib/crypto/workerPool';
+import { describeSignature } from '@/lib/keyring';
+import { cn } from '@/lib/utils';
+
+/**
+ * Props interface for the FileInspector component
+ */
+interface FileInspectorProps {
+  /** The file to inspect; the dialog is open while set */
+  file: File | null;
+
+  /** Decrypts the file with the card's credentials, discarding the output */
+  onVerify: (file: File) => Promise<CryptoJobResult>;
+
+  /** Closes the dialog */
+  onClose: () => void;
+}
+
+/**
+ * Outcome of the last verify pass
+ */
+type VerifyState =
+  | { status: 'idle' }
+  | { status: 'verifying' }
+  | { status: 'verified'; result: CryptoJobResult }
+  | { status: 'failed'; message: string };
+
+/**
+ * Formats a byte count for display
+ *
+ * @param bytes - The byte count
+ * @returns e.g. "512 B", "3.4 KB" or "1.20 MB"
+ */
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+/**
+ * Describes KDF parameters for display
+ *
+ * @param kdf - The recorded parameters
+ * @returns e.g. "Argon2id, 64 MiB, 3 passes, 1 lane"
+ */
+const describeKdf = (kdf: KdfParams): string => {
+  if (kdf.id === 'pbkdf2-sha256') {
+    return `PBKDF2-SHA256, ${kdf.iterations.toLocaleString()} iterations`;
+  }
+  return `Argon2id, ${kdf.memory / 1024} MiB, ${kdf.iterations} passes, ${kdf.parallelism} lane${kdf.parallelism === 1 ? '' : 's'}`;
+};
+
+/**
+ * One labelled row of the summary
+ */
+const Row: FC<{ label: string; children: ReactNode }> = ({ label, children }) => (
+  <div className="flex justify-between gap-4 py-1 border-b last:border-b-0">
+    <dt className="text-muted-foreground flex-shrink-0">{label}</dt>
+    <dd className="text-right break-all">{children}</dd>
+  </div>
+);
+
+/**
+ * Inspect and verify dialog
+ *
+ * @param props - Component properties
+ * @returns The dialog
+ */
+const FileInspector: FC<FileInspectorProps> = ({ file, onVerify, onClose }) => {
+  const [inspection, setInspection] = useState<ContainerInspection | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [verify, setVerify] = useState<VerifyState>({ status: 'idle' });
+
+  // Read the header whenever a new file is opened
+  useEffect(() => {
+    setInspection(null);
+    setLoadError(null);
+    setVerify({ status: 'idle' });
+    if (!file) return;
+
+    let cancelled = false;
+    inspectContainer(file)
+      .then(result => { if (!cancelled) setInspection(result); })
+      .catch((error: Error) => { if (!cancelled) setLoadError(error.message); });
+    return () => { cancelled = true; };
+  }, [file]);
+
+  const handleVerify = async () => {
+    if (!file) return;
+    setVerify({ status: 'verifying' });
+    try {
+      setVerify({ status: 'verified', result: await onVerify(file) });
+    } catch (error) {
+      setVerify({ status: 'failed', message: (error as Error).message });
+    }
+  };
+
+  const header = inspection?.header;
+  const signature = verify.status === 'verified' && verify.result.signature
+    ? describeSignature(verify.result.signature)
+    : null;
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => { if (!open && verify.status !== 'verifying') onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center"><FileSearch className="mr-2 h-5 w-5 text-primary" />Inspect File</DialogTitle>
+          <DialogDescription className="truncate">{file?.name}</DialogDescription>
+        </DialogHeader>
+
+        {loadError ? (
+          <p className="text-sm text-destructive">{loadError}</p>
+        ) : !inspection ? (
+          <Loader2 className="h-5 w-5 animate-spin mx-auto text-muted-foreground" />
+        ) : (
+          <div className="space-y-4 py-2">
+            {/* Header Summary */}
+            <dl className="text-sm">
+              <Row label="Format">
+                {inspection.format === 'legacy' ? 'Legacy (no header)' : `LockMe container v${inspection.version}`}
+              </Row>
+              <Row label="Cipher">AES-256-GCM</Row>
+              {inspection.format === 'legacy' && <Row label="Key derivation">PBKDF2-SHA256</Row>}
+              {header?.kdf && <Row label="Key derivation">{describeKdf(header.kdf)}</Row>}
+              {header?.stream && (
+                <Row label="Chunking">
+                  {inspection.segments!.toLocaleString()} × {formatSize(header.stream.chunkSize)}
+                </Row>
+              )}
+              {header?.compression && <Row label="Compression">{header.compression}</Row>}
+              <Row label="Header">{formatSize(inspection.headerSize)}</Row>
+              <Row label="Encrypted payload">{formatSize(inspection.payloadSize)}</Row>
+              {header?.signer && (
+                <Row label="Signed by">
+                  <code className="text-xs">{formatFingerprint(header.signer.fingerprint)}</code>
+                </Row>
+              )}
+            </dl>
+
+            {/* Key Slots */}
+            {header?.slots && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Key slots</p>
+                <ul className="space-y-1">
+                  {header.slots.map((slot, index) => (
+                    <li key={`${slot.iv}-${index}`} className="p-2 border rounded-md text-sm bg-muted/50 truncate">
+                      Slot {index + 1}: {describeSlot(slot)}
+                      {'kdf' in slot && slot.kdf && (
+                        <span className="block text-xs text-muted-foreground">{describeKdf(slot.kdf)}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Verify Result */}
+            {verify.status === 'verified' && (
+              <div className="space-y-1 text-sm">
+                <p className="flex items-center text-primary">
+                  <CheckCircle2 className="mr-2 h-4 w-4 flex-shrink-0" />
+                  Passphrase correct, integrity OK ({formatSize(verify.result.verifiedBytes ?? 0)} decrypted)
+                </p>
+                {signature && (
+                  <p className={cn("flex items-center", signature.status === 'invalid' ? "text-destructive" : "text-muted-foreground")}>
+                    {signature.status === 'invalid'
+                      ? <ShieldX className="mr-2 h-4 w-4 flex-shrink-0" />
+                      : <ShieldCheck className="mr-2 h-4 w-4 flex-shrink-0" />}
+                    {signature.status === 'invalid'
+                      ? "Signature invalid"
+                      : signature.status === 'unknown'
+                        ? "Signed by an unknown key"
+                        : `Signed by ${signature.status === 'own' ? `you (${signature.label})` : signature.label}`}
+                  </p>
+                )}
+              </div>
+            )}
+            {verify.status === 'failed' && (
+              <p className="text-sm text-destructive">{verify.message}</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Verify decrypts the whole file with the credentials entered in the form and keeps nothing.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter className="sm:justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onClose} disabled={verify.status === 'verifying'}>Close</Button>
+          <Button type="button" onClick={handleVerify} disabled={!inspection || verify.status === 'verifying'}>
+            {verify.status === 'verifying'
+              ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              : <ShieldCheck className="mr-2 h-4 w-4" />}
+            Verify
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FileInspector;
@@ -0,0 +1,214 @@
+"use client";
+
+/**
+ * FilePreviewDialog Component
+ *
+ * Shows a decrypted file in the browser instead of saving it, so sensitive
+ * plaintext does not have to land in the Downloads folder. Saving is an
+ * explicit second step from the dialog.
+ *
+ * Features:
+ * - Images, PDFs, audio and video through the browser's own viewers
+ * - Text, Markdown and code with syntax highlighting
+ * - Content that could run scripts (HTML, SVG) is never rendered as a page:
+ *   HTML is shown as source and SVG only loads through `<img>`
+ * - On close, object URLs are revoked and the decrypted bytes are zeroed
+ */
+
+import type { FC } from 'react';
+import { useEffect, useState } from 'react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import atomDark from 'react-syntax-highlighter/dist/esm/styles/prism/atom-dark';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+// Icons
+import { Download, EyeOff, FileQuestion, Loader2 } from 'lucide-react';
+
+// Utilities
+import { previewKind, previewLanguage, type PreviewKind } from '@/lib/preview';
+
+/**
+ * A decrypted file waiting to be previewed
+ */
+export interface PreviewFile {
+  /** Unique key, so the same name can be queued twice */
+  id: number;
+
+  /** File name restored from the encrypted file */
+  name: string;
+
+  /** MIME type restored from the encrypted file */
+  type?: string;
+
+  /** Decrypted contents */
+  blob: Blob;
+}
+
+/**
+ * Props interface for the FilePreviewDialog component
+ */
+interface FilePreviewDialogProps {
+  /** The file to show; the dialog is open while set */
+  file: PreviewFile | null;
+
+  /** Files queued behind this one, shown in the title */
+  remaining: number;
+
+  /** Saves the file; only called when the user asks to download */
+  onDownload: (blob: Blob, fileName: string) => void;
+
+  /** Closes the preview and discards the file */
+  onClose: () => void;
+}
+
+/**
+ * Loaded preview content
+ */
+type PreviewContent =
+  | { status: 'loading' }
+  | { status: 'unsupported' }
+  | { status: 'ready'; kind: 'text'; text: string }
+  | { status: 'ready'; kind: Exclude<PreviewKind, 'text'>; url: string };
+
+/**
+ * FilePreviewDialog Component
+ *
+ * @param props - Component props
+ * @returns The preview dialog
+ */
+const FilePreviewDialog: FC<FilePreviewDialogProps> = ({ file, remaining, onDownload, onClose }) => {
+  const [content, setContent] = useState<PreviewContent>({ status: 'loading' });
+
+  /**
+   * Loads the file for its viewer and wipes it again when the file changes
+   * or the dialog closes
+   */
+  useEffect(() => {
+    if (!file) return;
+
+    const kind = previewKind(file.name, file.type, file.blob.size);
+    if (!kind) {
+      setContent({ status: 'unsupported' });
+      return;
+    }
+
+    let cancelled = false;
+    let bytes: Uint8Array | null = null;
+    let url: string | null = null;
+    setContent({ status: 'loading' });
+
+    file.blob.arrayBuffer().then(buffer => {
+      bytes = new Uint8Array(buffer);
+      if (cancelled) {
+        bytes.fill(0);
+        return;
+      }
+      if (kind === 'text') {
+        setContent({ status: 'ready', kind, text: new TextDecoder().decode(bytes) });
+        return;
+      }
+      // The type is set from the kind, never from the file, so a mislabeled
+      // file cannot be rendered as an HTML page with this site's origin
+      const type = kind === 'pdf' ? 'application/pdf' : file.type;
+      url = URL.createObjectURL(new Blob([bytes], { type }));
+      setContent({ status: 'ready', kind, url });
+    }).catch(() => {
+      if (!cancelled) setContent({ status: 'unsupported' });
+    });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      bytes?.fill(0);
+      setContent({ status: 'loading' });
+    };
+  }, [file]);
+
+  /**
+   * Renders the viewer for the loaded content
+   */
+  const renderViewer = () => {
+    if (content.status === 'loading') {
+      return (
+        <div className="flex items-center justify-center h-48 text-muted-foreground">
+          <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+          Loading preview...
+        </div>
+      );
+    }
+
+    if (content.status === 'unsupported') {
+      return (
+        <div className="flex flex-col items-center justify-center h-48 text-center text-muted-foreground">
+          <FileQuestion className="h-10 w-10 mb-3" />
+          <p>This file type cannot be previewed. Download it to open it.</p>
+        </div>
+      );
+    }
+
+    switch (content.kind) {
+      case 'text':
+        return (
+          <SyntaxHighlighter
+            language={previewLanguage(file!.name)}
+            style={atomDark}
+            customStyle={{
+              maxHeight: '60vh',
+              overflow: 'auto',
+              borderRadius: '0.375rem',
+              padding: '0.75rem',
+              fontSize: '0.8rem',
+              margin: 0,
+            }}
+            showLineNumbers
+            wrapLongLines
+          >
+            {content.text}
+          </SyntaxHighlighter>
+        );
+      case 'image':
+        // eslint-disable-next-line @next/next/no-img-element
+        return <img src={content.url} alt={file!.name} className="max-h-[60vh] w-auto mx-auto rounded-md" />;
+      case 'pdf':
+        return <iframe src={content.url} title={file!.name} className="w-full h-[60vh] rounded-md border" />;
+      case 'audio':
+        return <audio src={content.url} controls className="w-full" />;
+      case 'video':
+        return <video src={content.url} controls className="max-h-[60vh] w-full rounded-md bg-black" />;
+    }
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">
+            {file?.name}
+            {remaining > 0 && <span className="text-muted-foreground font-normal"> (+{remaining} more)</span>}
+          </DialogTitle>
+          <DialogDescription>
+            Decrypted in memory and not saved. Closing the preview discards it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="min-w-0">{file && renderViewer()}</div>
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={() => file && onDownload(file.blob, file.name)}>
+            <Download className="mr-2 h-4 w-4" />
+            Download
+          </Button>
+          <Button type="button" variant="secondary" onClick={onClose}>
+            <EyeOff className="mr-2 h-4 w-4" />
+            {remaining > 0 ? "Close and Show Next" : "Close"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FilePreviewDialog;
@@ -0,0 +1,192 @@
+"use client";
+
+/**
+ * JobQueue Component
+ *
+ * Lists every file of a batch with its state while it runs, and what
+ * happened to each one after it finishes. Failed files keep their error
+ * and can be retried together, for example after correcting the
+ * passphrase.
+ *
+ * Features:
+ * - Per-file state: queued, deriving key, encrypting/decrypting, done,
+ *   failed or cancelled
+ * - Error reason (wrong passphrase, corrupt header, too large...) with the
+ *   full message
+ * - Per-file cancel for queued and running files
+ * - "Retry failed" and clearing the list once the batch is over
+ */
+
+import type { FC } from 'react';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+
+// Icons
+import { Ban, CheckCircle2, Clock, KeyRound, Loader2, RotateCcw, XCircle } from 'lucide-react';
+
+// Utilities
+import { CRYPTO_ERROR_LABELS, cryptoErrorReason } from '@/lib/crypto';
+import type { JobStage } from '@/lib/crypto/workerPool';
+import { cn } from '@/lib/utils';
+
+/** State of one file in the queue */
+export type JobState = 'queued' | JobStage | 'done' | 'failed' | 'cancelled';
+
+/**
+ * One file (or archive) of a batch
+ */
+export interface BatchJob {
+  /** Unique key for rendering and cancelling */
+  id: number;
+
+  /** Name shown in the list */
+  label: string;
+
+  /** Selected files the job was made from, to retry it */
+  files: File[];
+
+  /** Current state */
+  state: JobState;
+
+  /** Progress from 0 to 100 */
+  progress: number;
+
+  /** Why the job failed */
+  error?: string;
+}
+
+/**
+ * Props interface for the JobQueue component
+ */
+interface JobQueueProps {
+  /** Jobs of the current or last batch, in input order */
+  jobs: BatchJob[];
+
+  /** Verb shown while a job processes data, e.g. "Encrypting" */
+  activity: string;
+
+  /** Whether the batch is still running */
+  isProcessing: boolean;
+
+  /** Cancels one queued or running job */
+  onCancel: (id: number) => void;
+
+  /** Runs the failed jobs again with the current form values; omitted when they cannot be retried */
+  onRetryFailed?: () => void;
+
+  /** Removes the finished batch from view */
+  onClear: () => void;
+}
+
+/** Whether a job can still be cancelled */
+const isActive = (state: JobState) => state === 'queued' || state === 'deriving-key' || state === 'processing';
+
+/**
+ * Icon and text for a job's state
+ */
+function describeState(job: BatchJob, activity: string): { icon: FC<{ className?: string }>; text: string } {
+  switch (job.state) {
+    case 'queued':
+      return { icon: Clock, text: "Queued" };
+    case 'deriving-key':
+      return { icon: KeyRound, text: "Deriving key" };
+    case 'processing':
+      return { icon: Loader2, text: `${activity} ${job.progress}%` };
+    case 'done':
+      return { icon: CheckCircle2, text: "Done" };
+    case 'failed':
+      return { icon: XCircle, text: CRYPTO_ERROR_LABELS[cryptoErrorReason(job.error)] };
+    case 'cancelled':
+      return { icon: Ban, text: "Cancelled" };
+  }
+}
+
+/**
+ * Job list of a batch
+ *
+ * @param props - Component properties
+ * @returns The list, or nothing when no batch has run
+ */
+const JobQueue: FC<JobQueueProps> = ({ jobs, activity, isProcessing, onCancel, onRetryFailed, onClear }) => {
+  if (jobs.length === 0) return null;
+
+  const finished = jobs.filter(job => !isActive(job.state)).length;
+  const failed = jobs.filter(job => job.state === 'failed').length;
+  const overall = jobs.reduce((sum, job) => sum + (isActive(job.state) ? job.progress : 100), 0) / jobs.length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="overall-progress">
+          Jobs ({finished} of {jobs.length} finished{failed > 0 && `, ${failed} failed`})
+        </Label>
+        {!isProcessing && (
+          <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={onClear}>
+            Clear
+          </Button>
+        )}
+      </div>
+      {isProcessing && <Progress id="overall-progress" value={overall} className="w-full mb-2" />}
+
+      <ul className="space-y-2 max-h-64 overflow-y-auto">
+        {jobs.map(job => {
+          const { icon: Icon, text } = describeState(job, activity);
+          return (
+            <li
+              key={job.id}
+              className={cn("space-y-1 p-2 border rounded-md", job.state === 'failed' && "border-destructive/50 bg-destructive/5")}
+            >
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <span className="truncate font-medium" title={job.label}>{job.label}</span>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <span
+                    className={cn(
+                      "flex items-center",
+                      job.state === 'failed' ? "text-destructive" : job.state === 'done' ? "text-primary" : "text-muted-foreground"
+                    )}
+                  >
+                    <Icon className={cn("mr-1 h-3.5 w-3.5", job.state === 'processing' && "animate-spin")} />
+                    {text}
+                  </span>
+                  {isActive(job.state) && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => onCancel(job.id)}
+                      aria-label={`Cancel ${job.label}`}
+                    >
+                      <XCircle className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {isActive(job.state) && <Progress value={job.progress} className="w-full h-2" />}
+              {job.state === 'failed' && job.error && (
+                <p className="text-xs text-muted-foreground break-words">{job.error}</p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {!isProcessing && failed > 0 && onRetryFailed && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">
+            Change the passphrase or keyfile above, then retry the failed files.
+          </p>
+          <Button type="button" variant="outline" size="sm" onClick={onRetryFailed}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Retry Failed ({failed})
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobQueue;
@@ -0,0 +1,273 @@
+"use client";
+
+/**
+ * KeySlotManager Component
+ *
+ * Dialog for listing, adding and removing the key slots of an encrypted
+ * `.lockme` file. Only the header is rewritten; the encrypted contents are
+ * copied unchanged, so even large files update instantly.
+ *
+ * Features:
+ * - Slot list showing passphrase KDFs and recipient fingerprints
+ * - Add a passphrase or remove a slot, authorised by any working credential
+ * - Keyfile support: the selected keyfile unlocks keyfile slots and is
+ *   required by passphrases added while it is selected
+ * - Several edits in a row before saving the updated file
+ */
+
+import type { FC } from 'react';
+import { useEffect, useState } from 'react';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+// Icons
+import { Download, Fingerprint, KeyRound, Loader2, Plus, Trash2, UserRound } from 'lucide-react';
+
+// Utilities
+import {
+  addPassphraseSlot,
+  formatFingerprint,
+  hashKeyfile,
+  readContainerHeader,
+  removeKeySlot,
+  type KeySlot,
+  type RecipientIdentity,
+  type UnlockCredentials,
+} from '@/lib/crypto';
+import { getDefaultKdfOptions } from '@/lib/preferences';
+import { useToast } from '@/hooks/use-toast';
+
+/**
+ * Props interface for the KeySlotManager component
+ */
+interface KeySlotManagerProps {
+  /** The file to edit; the dialog is open while set */
+  file: File | null;
+
+  /** The signed-in user's key pair, for files encrypted to them */
+  identity?: RecipientIdentity | null;
+
+  /** The keyfile selected in the card, if any */
+  keyfile?: File | null;
+
+  /** Receives the updated file when the user saves */
+  onSave: (file: File) => void;
+
+  /** Closes the dialog */
+  onClose: () => void;
+}
+
+/**
+ * Describes a slot for the list
+ *
+ * @param slot - The header slot
+ * @returns A short label
+ */
+export const describeSlot = (slot: KeySlot): string => {
+  if (slot.type === 'x25519') {
+    return `Recipient ${formatFingerprint(slot.recipient)}`;
+  }
+  if (slot.type === 'prf') {
+    return 'Passkey';
+  }
+  if (slot.type === 'sealed') {
+    return 'Passkey fallback passphrase';
+  }
+  const factors = slot.keyfile ? 'Passphrase + keyfile' : 'Passphrase';
+  return `${factors} (${slot.kdf.id === 'argon2id' ? 'Argon2id' : 'PBKDF2'})`;
+};
+
+/**
+ * Key slot editor dialog
+ *
+ * @param props - Component properties
+ * @returns The dialog
+ */
+const KeySlotManager: FC<KeySlotManagerProps> = ({ file, identity, keyfile, onSave, onClose }) => {
+  const { toast } = useToast();
+  const [working, setWorking] = useState<Blob | null>(null);
+  const [slots, setSlots] = useState<KeySlot[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Read the header whenever a new file is opened
+  useEffect(() => {
+    setWorking(file);
+    setSlots([]);
+    setLoadError(null);
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    if (!file) return;
+
+    let cancelled = false;
+    readContainerHeader(file)
+      .then(({ version, header }) => {
+        if (cancelled) return;
+        if (version < 4) {
+          setLoadError("This file uses an older format without key slots. Decrypt and re-encrypt it to manage its passphrases.");
+        } else {
+          setSlots(header.slots!);
+        }
+      })
+      .catch((error: Error) => { if (!cancelled) setLoadError(error.message); });
+    return () => { cancelled = true; };
+  }, [file]);
+
+  /**
+   * Applies an edit to the working copy and refreshes the slot list
+   *
+   * @param edit - Produces the updated file from the current one and the
+   *   credentials that open it
+   * @param success - Toast shown when the edit succeeds
+   * @returns Whether the edit was applied
+   */
+  const applyEdit = async (
+    edit: (current: Blob, credentials: UnlockCredentials) => Promise<Blob>,
+    success: string
+  ): Promise<boolean> => {
+    if (!working) return false;
+    setIsBusy(true);
+    try {
+      const updated = await edit(working, {
+        passphrase: currentPassphrase,
+        identities: identity ? [identity] : [],
+        keyfile: keyfile ? await hashKeyfile(keyfile) : undefined,
+      });
+      const { header } = await readContainerHeader(updated);
+      setWorking(updated);
+      setSlots(header.slots!);
+      toast({ title: success, description: "Save the file to keep the change." });
+      return true;
+    } catch (error) {
+      toast({ title: "Key Slot Update Failed", description: (error as Error).message, variant: "destructive" });
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const added = await applyEdit(
+      (current, credentials) => addPassphraseSlot(
+        current,
+        credentials,
+        newPassphrase,
+        getDefaultKdfOptions(),
+        credentials.keyfile
+      ),
+      "Passphrase Added"
+    );
+    if (added) setNewPassphrase('');
+  };
+
+  const handleRemove = (index: number) => applyEdit(
+    (current, credentials) => removeKeySlot(current, index, credentials),
+    "Key Slot Removed"
+  );
+
+  const handleSave = () => {
+    if (!file || !working) return;
+    onSave(new File([working], file.name, { type: file.type, lastModified: Date.now() }));
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => { if (!open && !isBusy) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center"><KeyRound className="mr-2 h-5 w-5 text-primary" />Manage Passphrases</DialogTitle>
+          <DialogDescription className="truncate">{file?.name}</DialogDescription>
+        </DialogHeader>
+
+        {loadError ? (
+          <p className="text-sm text-destructive">{loadError}</p>
+        ) : (
+          <div className="space-y-4 py-2">
+            {/* Slot List */}
+            <ul className="space-y-1">
+              {slots.map((slot, index) => (
+                <li key={`${slot.iv}-${index}`} className="flex items-center justify-between gap-2 p-2 border rounded-md text-sm bg-muted/50">
+                  <span className="flex items-center truncate">
+                    {slot.type === 'x25519'
+                      ? <UserRound className="mr-2 h-4 w-4 flex-shrink-0" />
+                      : slot.type === 'prf'
+                        ? <Fingerprint className="mr-2 h-4 w-4 flex-shrink-0" />
+                        : <KeyRound className="mr-2 h-4 w-4 flex-shrink-0" />}
+                    Slot {index + 1}: {describeSlot(slot)}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 text-destructive/70 hover:text-destructive hover:bg-destructive/10 flex-shrink-0"
+                    onClick={() => handleRemove(index)}
+                    disabled={isBusy || slots.length < 2 || !currentPassphrase}
+                    aria-label={`Remove slot ${index + 1}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+
+            {/* Authorising Passphrase */}
+            <div className="space-y-1">
+              <Label htmlFor="slot-current-passphrase">Current passphrase</Label>
+              <Input
+                id="slot-current-passphrase"
+                type="password"
+                placeholder="Any passphrase that opens this file"
+                value={currentPassphrase}
+                onChange={(e) => setCurrentPassphrase(e.target.value)}
+                disabled={isBusy}
+              />
+              <p className="text-xs text-muted-foreground">Required to add or remove a slot.</p>
+            </div>
+
+            {/* New Passphrase */}
+            <div className="space-y-1">
+              <Label htmlFor="slot-new-passphrase">Add a passphrase</Label>
+              {keyfile && (
+                <p className="text-xs text-muted-foreground">The new passphrase will also require the selected keyfile.</p>
+              )}
+              <div className="flex items-center gap-2">
+                <Input
+                  id="slot-new-passphrase"
+                  type="password"
+                  placeholder="New passphrase"
+                  value={newPassphrase}
+                  onChange={(e) => setNewPassphrase(e.target.value)}
+                  disabled={isBusy}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={handleAdd}
+                  disabled={isBusy || !currentPassphrase || !newPassphrase}
+                  aria-label="Add passphrase"
+                >
+                  {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="sm:justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isBusy}>Cancel</Button>
+          <Button type="button" onClick={handleSave} disabled={isBusy || !!loadError || working === file}>
+            <Download className="mr-2 h-4 w-4" />Save File
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KeySlotManager;
@@ -0,0 +1,127 @@
+"use client";
+
+/**
+ * KeyfilePicker Component
+ *
+ * Selects a keyfile used as a second factor next to the passphrase. Any
+ * file can serve as a keyfile; in encrypt mode LockMe can also generate a
+ * random one and save it for the user.
+ *
+ * Features:
+ * - Pick an existing file as keyfile
+ * - Generate and download a random keyfile (encrypt mode)
+ * - Shows the selected keyfile with a clear button
+ */
+
+import type { FC } from 'react';
+import { useRef } from 'react';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+
+// Icons
+import { FileKey, RefreshCw, XCircle } from 'lucide-react';
+
+// Utilities
+import { generateKeyfile } from '@/lib/crypto';
+
+/**
+ * Props interface for the KeyfilePicker component
+ */
+interface KeyfilePickerProps {
+  /** The selected keyfile */
+  keyfile: File | null;
+
+  /** Called when a keyfile is picked, generated or cleared */
+  onChange: (keyfile: File | null) => void;
+
+  /** Saves a generated keyfile; enables the generate button when set */
+  onGenerate?: (keyfile: File) => void;
+
+  /** Disables all controls */
+  disabled?: boolean;
+}
+
+/**
+ * Keyfile selection next to the passphrase field
+ *
+ * @param props - Component properties
+ * @returns The keyfile controls
+ */
+const KeyfilePicker: FC<KeyfilePickerProps> = ({ keyfile, onChange, onGenerate, disabled }) => {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  /**
+   * Creates a random keyfile, hands it off for saving and selects it
+   */
+  const handleGenerate = () => {
+    const suffix = Array.from(crypto.getRandomValues(new Uint8Array(4)), b => b.toString(16).padStart(2, '0')).join('');
+    const generated = new File([generateKeyfile()], `lockme-${suffix}.key`, { type: 'application/octet-stream' });
+    onGenerate?.(generated);
+    onChange(generated);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          ref={inputRef}
+          type="file"
+          className="hidden"
+          onChange={(e) => {
+            onChange(e.target.files?.[0] ?? null);
+            e.target.value = '';
+          }}
+          disabled={disabled}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="text-xs"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+        >
+          <FileKey className="mr-1.5 h-3 w-3" />
+          {keyfile ? 'Change Keyfile' : 'Use Keyfile'}
+        </Button>
+        {onGenerate && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="text-xs"
+            onClick={handleGenerate}
+            disabled={disabled}
+          >
+            <RefreshCw className="mr-1.5 h-3 w-3" />
+            Generate Keyfile
+          </Button>
+        )}
+        {keyfile && (
+          <span className="flex items-center gap-1 text-xs text-muted-foreground min-w-0">
+            <span className="truncate" title={keyfile.name}>{keyfile.name}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5 text-destructive/70 hover:text-destructive hover:bg-destructive/10 flex-shrink-0"
+              onClick={() => onChange(null)}
+              disabled={disabled}
+              aria-label="Remove keyfile"
+            >
+              <XCircle className="h-3 w-3" />
+            </Button>
+          </span>
+        )}
+      </div>
+      {keyfile && (
+        <p className="text-xs text-muted-foreground">
+          The passphrase and this exact keyfile are both needed to open the file. Keep a backup of the keyfile.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default KeyfilePicker;
@@ -0,0 +1,160 @@
+"use client";
+
+/**
+ * RecipientPicker Component
+ *
+ * Lets the user add other LockMe users, by email, as recipients of the
+ * files being encrypted. Each recipient's published X25519 public key is
+ * looked up and shown with its fingerprint so it can be compared out of
+ * band.
+ *
+ * Features:
+ * - Email lookup of published public keys
+ * - Recipient chips with name, email and fingerprint
+ * - Duplicate and missing-key detection
+ */
+
+import type { FC, KeyboardEvent } from 'react';
+import { useState } from 'react';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+// Icons
+import { Loader2, UserPlus, XCircle } from 'lucide-react';
+
+// Utilities
+import { formatFingerprint } from '@/lib/crypto';
+import { findPublicKeyByEmail } from '@/lib/services/firestoreService';
+import { useToast } from '@/hooks/use-toast';
+import type { PublicKeyDocument } from '@/types/firestore';
+
+/**
+ * Props interface for the RecipientPicker component
+ */
+interface RecipientPickerProps {
+  /** Currently selected recipients */
+  recipients: PublicKeyDocument[];
+
+  /** Called with the updated recipient list */
+  onChange: (recipients: PublicKeyDocument[]) => void;
+
+  /** Disables adding and removing recipients */
+  disabled?: boolean;
+}
+
+/**
+ * Recipient selection for public-key encryption
+ *
+ * @param props - Component properties
+ * @returns The recipient input and list
+ */
+const RecipientPicker: FC<RecipientPickerProps> = ({ recipients, onChange, disabled }) => {
+  const { toast } = useToast();
+  const [email, setEmail] = useState('');
+  const [isLookingUp, setIsLookingUp] = useState(false);
+
+  /**
+   * Looks up the entered email and adds its public key
+   */
+  const addRecipient = async () => {
+    const query = email.trim();
+    if (!query) return;
+
+    setIsLookingUp(true);
+    try {
+      const found = await findPublicKeyByEmail(query);
+
+      if (!found) {
+        toast({
+          title: "No Public Key",
+          description: `${query} has not created an encryption key pair yet.`,
+          variant: "destructive"
+        });
+        return;
+      }
+      if (recipients.some(r => r.fingerprint === found.fingerprint)) {
+        toast({ title: "Already Added", description: `${query} is already a recipient.` });
+        return;
+      }
+
+      onChange([...recipients, found]);
+      setEmail('');
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  /**
+   * Adds the recipient on Enter without submitting the surrounding form
+   */
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      addRecipient();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="recipient-email">Recipients</Label>
+      <div className="flex items-center gap-2">
+        <Input
+          id="recipient-email"
+          type="email"
+          placeholder="Add a LockMe user by email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={disabled || isLookingUp}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={addRecipient}
+          disabled={disabled || isLookingUp || !email.trim()}
+          aria-label="Add recipient"
+        >
+          {isLookingUp ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Recipients open the file with their own key passphrase. The passphrase above becomes optional.
+      </p>
+
+      {recipients.length > 0 && (
+        <ul className="space-y-1">
+          {recipients.map(recipient => (
+            <li
+              key={recipient.fingerprint}
+              className="flex items-center justify-between gap-2 p-2 border rounded-md text-sm bg-muted/50"
+            >
+              <div className="min-w-0">
+                <p className="truncate font-medium">{recipient.displayName || recipient.email}</p>
+                <p className="truncate text-xs text-muted-foreground">
+                  {recipient.email} · <code>{formatFingerprint(recipient.fingerprint)}</code>
+                </p>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-destructive/70 hover:text-destructive hover:bg-destructive/10 flex-shrink-0"
+                onClick={() => onChange(recipients.filter(r => r.fingerprint !== recipient.fingerprint))}
+                disabled={disabled}
+                aria-label={`Remove ${recipient.email}`}
+              >
+                <XCircle className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RecipientPicker;
@@ -0,0 +1,124 @@
+"use client";
+
+/**
+ * RekeyDialog Component
+ *
+ * Asks for the new passphrase when changing the passphrase of the selected
+ * `.lockme` files. The old passphrase and keyfile come from the card's
+ * form; the files are re-keyed in the worker pool and never decrypted to
+ * disk.
+ *
+ * Features:
+ * - New passphrase with confirmation
+ * - Optional full re-encryption under a new data key
+ */
+
+import type { FC } from 'react';
+import { useEffect, useState } from 'react';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+// Icons
+import { RefreshCw } from 'lucide-react';
+
+/**
+ * Props interface for the RekeyDialog component
+ */
+interface RekeyDialogProps {
+  /** Whether the dialog is open */
+  open: boolean;
+
+  /** Number of files that will be re-keyed */
+  fileCount: number;
+
+  /** Starts re-keying with the new passphrase */
+  onConfirm: (newPassphrase: string, reencrypt: boolean) => void;
+
+  /** Closes the dialog */
+  onClose: () => void;
+}
+
+/**
+ * New passphrase dialog for re-keying
+ *
+ * @param props - Component properties
+ * @returns The dialog
+ */
+const RekeyDialog: FC<RekeyDialogProps> = ({ open, fileCount, onConfirm, onClose }) => {
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [reencrypt, setReencrypt] = useState(false);
+
+  // Start empty every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setNewPassphrase('');
+    setConfirmation('');
+    setReencrypt(false);
+  }, [open]);
+
+  const mismatch = confirmation.length > 0 && confirmation !== newPassphrase;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center"><RefreshCw className="mr-2 h-5 w-5 text-primary" />Change Passphrase</DialogTitle>
+          <DialogDescription>
+            {fileCount} file(s) will be re-keyed with the passphrase and keyfile entered in the form as the current ones.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-1">
+            <Label htmlFor="rekey-new-passphrase">New passphrase</Label>
+            <Input
+              id="rekey-new-passphrase"
+              type="password"
+              value={newPassphrase}
+              onChange={(e) => setNewPassphrase(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rekey-confirm-passphrase">Confirm new passphrase</Label>
+            <Input
+              id="rekey-confirm-passphrase"
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+            />
+            {mismatch && <p className="text-xs text-destructive">The passphrases do not match.</p>}
+          </div>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="rekey-reencrypt">Re-encrypt contents</Label>
+              <p className="text-xs text-muted-foreground">
+                Use when the old passphrase leaked. Replaces the file&apos;s data key; other passphrases, recipients, passkeys and signatures are dropped.
+                Otherwise only the key in the header is rewrapped.
+              </p>
+            </div>
+            <Switch id="rekey-reencrypt" checked={reencrypt} onCheckedChange={setReencrypt} />
+          </div>
+        </div>
+
+        <DialogFooter className="sm:justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            type="button"
+            onClick={() => onConfirm(newPassphrase, reencrypt)}
+            disabled={!newPassphrase || confirmation !== newPassphrase}
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />Re-key
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RekeyDialog;
@@ -0,0 +1,167 @@
+"use client";
+
+/**
+ * SignatureStatusList Component
+ *
+ * Shows who signed each decrypted file: one of the user's own keys, a
+ * trusted key, an unknown key, or a signature that does not verify.
+ * Unknown keys can be trusted on the spot after comparing fingerprints.
+ *
+ * Features:
+ * - "Signed by <name>" / "unknown key" / "signature invalid" per file
+ * - Fingerprint display for comparison with the sender
+ * - Trust an unknown signer under a name
+ */
+
+import type { FC } from 'react';
+import { useState } from 'react';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+// Icons
+import { ShieldCheck, ShieldQuestion, ShieldX, XCircle } from 'lucide-react';
+
+// Utilities
+import { formatFingerprint, type SignatureCheck } from '@/lib/crypto';
+import { describeSignature, getTrustedKeys, saveTrustedKeys } from '@/lib/keyring';
+import { cn } from '@/lib/utils';
+
+/**
+ * Signature check of one decrypted file
+ */
+export interface FileSignature {
+  /** Unique key for rendering */
+  id: number;
+
+  /** Name of the decrypted file */
+  fileName: string;
+
+  /** The check reported by decryption */
+  check: SignatureCheck;
+}
+
+/**
+ * Props interface for the SignatureStatusList component
+ */
+interface SignatureStatusListProps {
+  /** Checked files, newest last */
+  signatures: FileSignature[];
+
+  /** Removes one entry from the list */
+  onDismiss: (id: number) => void;
+}
+
+/**
+ * One file's signature status with an inline trust form for unknown keys
+ */
+const SignatureRow: FC<{
+  signature: FileSignature;
+  onTrust: (label: string) => void;
+  onDismiss: () => void;
+}> = ({ signature, onTrust, onDismiss }) => {
+  const [ownerName, setOwnerName] = useState('');
+  const status = describeSignature(signature.check);
+  const { signer } = signature.check;
+
+  const Icon = status.status === 'invalid' ? ShieldX : status.status === 'unknown' ? ShieldQuestion : ShieldCheck;
+  const message = status.status === 'own'
+    ? `Signed by you (${status.label})`
+    : status.status === 'trusted'
+      ? `Signed by ${status.label}`
+      : status.status === 'unknown'
+        ? "Signed by an unknown key"
+        : "Signature invalid: the file was not signed by the key it names";
+
+  return (
+    <li
+      className={cn(
+        "p-3 border rounded-md space-y-2",
+        status.status === 'invalid' && "border-destructive/50 bg-destructive/5"
+      )}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate" title={signature.fileName}>{signature.fileName}</p>
+          <p
+            className={cn(
+              "flex items-center text-xs",
+              status.status === 'invalid' ? "text-destructive" : status.status === 'unknown' ? "text-muted-foreground" : "text-primary"
+            )}
+          >
+            <Icon className="mr-1 h-3.5 w-3.5 flex-shrink-0" />
+            {message}
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 flex-shrink-0"
+          onClick={onDismiss}
+          aria-label={`Dismiss signature status of ${signature.fileName}`}
+        >
+          <XCircle className="h-4 w-4" />
+        </Button>
+      </div>
+      <code className="block text-xs text-muted-foreground break-all">{formatFingerprint(signer.fingerprint)}</code>
+      {status.status === 'unknown' && (
+        <div className="flex items-center gap-2">
+          <Input
+            value={ownerName}
+            onChange={(e) => setOwnerName(e.target.value)}
+            placeholder="Owner's name"
+            className="h-8 text-xs"
+          />
+          <Button type="button" variant="outline" size="sm" className="text-xs" onClick={() => onTrust(ownerName.trim())} disabled={!ownerName.trim()}>
+            <ShieldCheck className="mr-1.5 h-3 w-3" />
+            Trust Key
+          </Button>
+        </div>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Signature statuses of decrypted files
+ *
+ * @param props - Component properties
+ * @returns The status list, or nothing when no signed file was decrypted
+ */
+const SignatureStatusList: FC<SignatureStatusListProps> = ({ signatures, onDismiss }) => {
+  // Bumped after trusting a key so every row reads the keyring again
+  const [, setRevision] = useState(0);
+
+  if (signatures.length === 0) return null;
+
+  /**
+   * Adds a signer's key to the trusted keys under the given name
+   */
+  const handleTrust = (signature: FileSignature, label: string) => {
+    saveTrustedKeys([...getTrustedKeys(), { ...signature.check.signer, label, addedAt: Date.now() }]);
+    setRevision(r => r + 1);
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">Signatures</p>
+      <ul className="space-y-2">
+        {signatures.map(signature => (
+          <SignatureRow
+            key={signature.id}
+            signature={signature}
+            onTrust={(label) => handleTrust(signature, label)}
+            onDismiss={() => onDismiss(signature.id)}
+          />
+        ))}
+      </ul>
+      <p className="text-xs text-muted-foreground">
+        Compare the fingerprint with the sender before trusting a key.
+      </p>
+    </div>
+  );
+};
+
+export default SignatureStatusList;
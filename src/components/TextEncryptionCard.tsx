@@ -0,0 +1,256 @@
+"use client";
+
+/**
+ * TextEncryptionCard Component
+ *
+ * Encrypts short text (a connection string, an API token) into a copyable
+ * armored block, and decrypts a pasted block back into text shown in
+ * place. Nothing is written to disk in either direction.
+ *
+ * Features:
+ * - Armored output (`-----BEGIN LOCKME MESSAGE-----`) that survives chat apps
+ * - One-click copy of the armored block or the revealed text
+ * - Revealed text can be hidden again and is cleared when the input changes
+ * - KDF follows the settings page preference
+ * - Activity logging for authenticated users
+ */
+
+import type { FC } from 'react';
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { TextEncryptionSchema, type TextEncryptionFormValues } from '@/lib/schemas';
+
+// Contexts & Hooks
+import { useAuth } from '@/contexts/AuthContext';
+import { useActivity } from '@/contexts/ActivityContext';
+import { useToast } from '@/hooks/use-toast';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+
+// Icons
+import { Copy, Eye, EyeOff, Loader2, Lock, ShieldCheck, ShieldOff, Unlock } from 'lucide-react';
+
+// Services & Utilities
+import { decryptText, encryptText, isArmoredMessage } from '@/lib/crypto';
+import { addActivity } from '@/lib/services/firestoreService';
+import { getDefaultKdfOptions } from '@/lib/preferences';
+
+/**
+ * Props interface for the TextEncryptionCard component
+ */
+interface TextEncryptionCardProps {
+  /** Operation mode: encrypt or decrypt */
+  mode: 'encrypt' | 'decrypt';
+}
+
+/**
+ * TextEncryptionCard Component
+ *
+ * A form that turns text into an armored LockMe message or back.
+ */
+const TextEncryptionCard: FC<TextEncryptionCardProps> = ({ mode }) => {
+  // Context and state management
+  const { user } = useAuth();
+  const { triggerActivityRefresh } = useActivity();
+  const { toast } = useToast();
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [showPassword, setShowPassword] = useState(false);
+  const [output, setOutput] = useState<string | null>(null);
+
+  /**
+   * Initialize form with zod schema validation and default values
+   */
+  const form = useForm<TextEncryptionFormValues>({
+    resolver: zodResolver(TextEncryptionSchema),
+    defaultValues: { text: '', passphrase: '' },
+  });
+
+  /**
+   * Form submission handler
+   *
+   * Encrypts the text into an armored block, or decrypts the pasted block,
+   * and shows the result below the form.
+   *
+   * @param values - The text and passphrase
+   */
+  const onSubmit = async (values: TextEncryptionFormValues) => {
+    if (mode === 'decrypt' && !isArmoredMessage(values.text)) {
+      form.setError('text', { message: "Paste the whole block, starting with -----BEGIN LOCKME MESSAGE-----." });
+      return;
+    }
+
+    setIsProcessing(true);
+    setOutput(null);
+
+    try {
+      const result = mode === 'encrypt'
+        ? await encryptText(values.text, values.passphrase, getDefaultKdfOptions())
+        : await decryptText(values.text, values.passphrase);
+      setOutput(result);
+
+      // Log activity for authenticated users
+      if (user?.uid) {
+        try {
+          await addActivity(mode, `${mode === 'encrypt' ? 'Encrypted' : 'Decrypted'} text message`, { userId: user.uid });
+        } catch (logError) {
+          console.error("Failed to log text activity:", logError);
+        }
+      }
+      triggerActivityRefresh();
+    } catch (error) {
+      toast({
+        title: mode === 'encrypt' ? "Encryption Failed" : "Decryption Failed",
+        description: (error as Error).message || "Error processing.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  /**
+   * Copies the result to the clipboard
+   */
+  const copyOutput = () => {
+    if (output === null) return;
+    navigator.clipboard.writeText(output)
+      .then(() => toast({ title: mode === 'encrypt' ? "Message Copied!" : "Text Copied!" }))
+      .catch(err => toast({
+        title: "Copy Failed",
+        description: (err as Error).message,
+        variant: "destructive",
+      }));
+  };
+
+  const TitleIcon = mode === 'encrypt' ? Lock : Unlock;
+  const ButtonIcon = mode === 'encrypt' ? ShieldCheck : ShieldOff;
+
+  return (
+    <Card className="w-full shadow-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center text-2xl">
+          <TitleIcon className="mr-2 h-6 w-6 text-primary" />
+          {mode === 'encrypt' ? "Encrypt Text" : "Decrypt Text"}
+        </CardTitle>
+        <CardDescription>
+          {mode === 'encrypt'
+            ? "Turn a short secret into a block you can paste into chat or email."
+            : "Paste a LockMe message block to read it here. No file is created."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            {/* Text or armored message */}
+            <FormField
+              control={form.control}
+              name="text"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{mode === 'encrypt' ? "Text" : "Message"}</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder={mode === 'encrypt' ? "Text to encrypt" : "-----BEGIN LOCKME MESSAGE-----"}
+                      className="font-mono text-xs"
+                      rows={mode === 'encrypt' ? 4 : 8}
+                      spellCheck={false}
+                      {...field}
+                      onChange={(e) => {
+                        field.onChange(e);
+                        setOutput(null);
+                      }}
+                      disabled={isProcessing}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Passphrase */}
+            <FormField
+              control={form.control}
+              name="passphrase"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Passphrase</FormLabel>
+                  <div className="flex items-center space-x-2">
+                    <FormControl>
+                      <Input
+                        type={showPassword ? "text" : "password"}
+                        placeholder="Enter passphrase"
+                        autoComplete={mode === 'encrypt' ? "new-password" : "current-password"}
+                        {...field}
+                        disabled={isProcessing}
+                      />
+                    </FormControl>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setShowPassword(!showPassword)}
+                      aria-label={showPassword ? "Hide passphrase" : "Show passphrase"}
+                    >
+                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" className="w-full" disabled={isProcessing}>
+              {isProcessing
+                ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                : <ButtonIcon className="mr-2 h-4 w-4" />}
+              {mode === 'encrypt' ? "Encrypt Text" : "Decrypt Text"}
+            </Button>
+          </form>
+        </Form>
+
+        {/* Result: the armored block, or the revealed text */}
+        {output !== null && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>{mode === 'encrypt' ? "Encrypted message" : "Decrypted text"}</Label>
+              <div className="flex items-center gap-1">
+                <Button type="button" variant="outline" size="sm" onClick={copyOutput}>
+                  <Copy className="mr-1.5 h-3 w-3" />
+                  Copy
+                </Button>
+                {mode === 'decrypt' && (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setOutput(null)}>
+                    <EyeOff className="mr-1.5 h-3 w-3" />
+                    Hide
+                  </Button>
+                )}
+              </div>
+            </div>
+            <Textarea
+              readOnly
+              value={output}
+              className="font-mono text-xs"
+              rows={Math.min(12, output.split('\n').length + 1)}
+              spellCheck={false}
+              onFocus={(e) => e.target.select()}
+            />
+            {mode === 'encrypt' && (
+              <p className="text-xs text-muted-foreground">
+                Send the passphrase through a different channel than the message.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TextEncryptionCard;
@@ -0,0 +1,622 @@
+"use client";
+
+/**
+ * SecretSharingForm Component
+ *
+ * Splits a passphrase, or the data key of a `.lockme` file, into N shares
+ * of which any K rebuild it (Shamir's Secret Sharing), so no single person
+ * holds a break-glass secret. The combine view rebuilds the secret from
+ * typed or pasted shares. Everything happens in the browser.
+ *
+ * Features:
+ * - Split a passphrase or a file's data key with a chosen N and K
+ * - Shares as copyable text, QR codes or printable cards
+ * - Per-share checksums: a mistyped share is flagged as it is entered
+ * - Rebuilt passphrases are shown in place; a rebuilt data key adds a new
+ *   passphrase to the file
+ */
+
+import type { FC } from 'react';
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import QRCode from 'qrcode';
+import { SecretSplitSchema, type SecretSplitFormValues } from '@/lib/schemas';
+
+// Custom Components & Hooks
+import KeyfilePicker from '@/components/KeyfilePicker';
+import { useToast } from '@/hooks/use-toast';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+
+// Icons
+import {
+  CheckCircle, Combine, Copy, Download, EyeOff, Loader2, Plus, Printer, Split, XCircle
+} from 'lucide-react';
+
+// Crypto & Utilities
+import {
+  combineShares,
+  decodeShare,
+  encodeShare,
+  hashKeyfile,
+  readDataKey,
+  restorePassphraseSlot,
+  splitSecret,
+  type ShamirShare,
+} from '@/lib/crypto';
+import { getDefaultKdfOptions } from '@/lib/preferences';
+
+/**
+ * A created share with its text and QR code
+ */
+interface SplitShare {
+  index: number;
+  text: string;
+  qr: string;
+}
+
+/**
+ * Result of a split, shown below the form
+ */
+interface SplitResult {
+  kind: ShamirShare['kind'];
+  threshold: number;
+  setId: string;
+  shares: SplitShare[];
+}
+
+/**
+ * One entry in the combine view
+ */
+interface ShareInput {
+  text: string;
+  share: ShamirShare | null;
+  error: string | null;
+}
+
+/** Empty combine entry */
+const EMPTY_INPUT: ShareInput = { text: '', share: null, error: null };
+
+/**
+ * Formats a set ID for display, so shares of one split can be matched up
+ */
+const formatSetId = (setId: Uint8Array): string =>
+  Array.from(setId, b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+
+/**
+ * Builds the printable page holding one card per share
+ *
+ * Share text only uses A-Z, 2-7 and hyphens, so it needs no escaping.
+ */
+const printableCards = (result: SplitResult): string => {
+  const secretName = result.kind === 'passphrase' ? 'passphrase' : 'file key';
+  const cards = result.shares.map(share => `
+    <section class="card">
+      <h2>LockMe share ${share.index} of ${result.shares.length}</h2>
+      <p>Any ${result.threshold} shares of set ${result.setId} rebuild the ${secretName}.</p>
+      <img src="${share.qr}" alt="QR code of share ${share.index}" />
+      <code>${share.text}</code>
+      <p class="hint">Keep this card private. Rebuild under Toolkit &rarr; Secret Sharing &rarr; Combine.</p>
+    </section>`).join('');
+
+  return `<!doctype html><html><head><title>LockMe shares ${result.setId}</title><style>
+    body { font-family: system-ui, sans-serif; margin: 0; }
+    .card { page-break-inside: avoid; border: 1px dashed #888; margin: 16px; padding: 16px; text-align: center; }
+    h2 { margin: 0 0 4px; font-size: 18px; }
+    img { width: 192px; height: 192px; }
+    code { display: block; font-size: 14px; word-break: break-all; margin: 8px 0; }
+    .hint { font-size: 11px; color: #555; }
+  </style></head><body>${cards}</body></html>`;
+};
+
+/**
+ * SecretSharingForm Component
+ *
+ * Split and combine views for Shamir shares.
+ */
+const SecretSharingForm: FC = () => {
+  const { toast } = useToast();
+
+  // Split state
+  const [isSplitting, setIsSplitting] = useState(false);
+  const [splitResult, setSplitResult] = useState<SplitResult | null>(null);
+
+  // Combine state
+  const [inputs, setInputs] = useState<ShareInput[]>([EMPTY_INPUT, EMPTY_INPUT]);
+  const [isCombining, setIsCombining] = useState(false);
+  const [recoveredPassphrase, setRecoveredPassphrase] = useState<string | null>(null);
+  const [recoveredKey, setRecoveredKey] = useState<Uint8Array | null>(null);
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
+  const [newPassphrase, setNewPassphrase] = useState('');
+
+  /**
+   * Initialize form with zod schema validation and default values
+   */
+  const form = useForm<SecretSplitFormValues>({
+    resolver: zodResolver(SecretSplitSchema),
+    defaultValues: {
+      kind: 'passphrase',
+      passphrase: '',
+      file: null,
+      keyfile: null,
+      total: 5,
+      threshold: 3,
+    },
+  });
+  const kind = form.watch('kind');
+
+  /**
+   * Copy text to clipboard with toast feedback
+   *
+   * @param text - The text to copy
+   * @param type - What is being copied, for the notification
+   */
+  const copyToClipboard = (text: string, type: string) => {
+    navigator.clipboard.writeText(text)
+      .then(() => toast({ title: `${type} Copied!` }))
+      .catch(err => toast({
+        title: "Copy Failed",
+        description: (err as Error).message,
+        variant: "destructive",
+      }));
+  };
+
+  /**
+   * Splits the passphrase or the file's data key into shares
+   *
+   * @param values - Secret, share count and threshold
+   */
+  const onSplit = async (values: SecretSplitFormValues) => {
+    setIsSplitting(true);
+    setSplitResult(null);
+
+    let secret: Uint8Array | null = null;
+    try {
+      if (values.kind === 'passphrase') {
+        secret = new TextEncoder().encode(values.passphrase);
+      } else {
+        const keyfile = values.keyfile ? await hashKeyfile(values.keyfile) : undefined;
+        secret = await readDataKey(values.file!, { passphrase: values.passphrase, keyfile });
+      }
+
+      const shares = splitSecret(secret, values.total, values.threshold, values.kind);
+      const created = await Promise.all(shares.map(async share => {
+        const text = await encodeShare(share);
+        const qr = await QRCode.toDataURL(text, { errorCorrectionLevel: 'M', margin: 1, width: 384 });
+        return { index: share.index, text, qr };
+      }));
+      shares.forEach(share => share.data.fill(0));
+
+      setSplitResult({
+        kind: values.kind,
+        threshold: values.threshold,
+        setId: formatSetId(shares[0].setId),
+        shares: created,
+      });
+      form.setValue('passphrase', '');
+    } catch (error) {
+      toast({
+        title: "Split Failed",
+        description: (error as Error).message || "Could not split the secret.",
+        variant: "destructive",
+      });
+    } finally {
+      secret?.fill(0);
+      setIsSplitting(false);
+    }
+  };
+
+  /**
+   * Saves all shares in one text file
+   */
+  const downloadShares = () => {
+    if (!splitResult) return;
+    const text = splitResult.shares
+      .map(share => `Share ${share.index} of ${splitResult.shares.length} (set ${splitResult.setId}, any ${splitResult.threshold} rebuild it)\n${share.text}\n`)
+      .join('\n');
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `lockme-shares-${splitResult.setId}.txt`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  /**
+   * Opens the printable cards in a new window and starts printing
+   */
+  const printShares = () => {
+    if (!splitResult) return;
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      toast({ title: "Print Blocked", description: "Allow pop-ups for this site to print the cards.", variant: "destructive" });
+      return;
+    }
+    printWindow.document.write(printableCards(splitResult));
+    printWindow.document.close();
+    printWindow.onload = () => printWindow.print();
+  };
+
+  /**
+   * Clears everything recovered in the combine view
+   */
+  const clearRecovered = () => {
+    recoveredKey?.fill(0);
+    setRecoveredKey(null);
+    setRecoveredPassphrase(null);
+  };
+
+  /**
+   * Checks a combine entry as it is typed
+   *
+   * @param position - Index of the entry
+   * @param text - The entered share text
+   */
+  const updateInput = async (position: number, text: string) => {
+    clearRecovered();
+    setInputs(current => current.map((input, i) => i === position ? { text, share: null, error: null } : input));
+    if (!text.trim()) return;
+
+    let checked: ShareInput;
+    try {
+      checked = { text, share: await decodeShare(text), error: null };
+    } catch (error) {
+      checked = { text, share: null, error: (error as Error).message };
+    }
+
+    setInputs(current => {
+      // Ignore results for text that has since changed
+      if (current[position]?.text !== text) return current;
+      const next = current.map((input, i) => i === position ? checked : input);
+      // Offer as many fields as the shares say are needed
+      const needed = checked.share?.threshold ?? 0;
+      while (next.length < needed) next.push(EMPTY_INPUT);
+      return next;
+    });
+  };
+
+  const validShares = inputs.map(input => input.share).filter((share): share is ShamirShare => share !== null);
+  const threshold = validShares[0]?.threshold;
+
+  /**
+   * Rebuilds the secret from the entered shares
+   */
+  const onCombine = () => {
+    setIsCombining(true);
+    clearRecovered();
+    try {
+      const secret = combineShares(validShares);
+      if (validShares[0].kind === 'passphrase') {
+        setRecoveredPassphrase(new TextDecoder().decode(secret));
+        secret.fill(0);
+      } else {
+        setRecoveredKey(secret);
+      }
+    } catch (error) {
+      toast({
+        title: "Combine Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsCombining(false);
+    }
+  };
+
+  /**
+   * Adds the new passphrase to the file using the rebuilt data key
+   */
+  const onRestore = async () => {
+    if (!recoveredKey || !restoreFile || !newPassphrase) return;
+    setIsCombining(true);
+    try {
+      const restored = await restorePassphraseSlot(restoreFile, recoveredKey, newPassphrase, getDefaultKdfOptions());
+      const url = URL.createObjectURL(restored);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = restoreFile.name;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast({ title: "Access Restored", description: `${restoreFile.name} now also opens with the new passphrase.` });
+      clearRecovered();
+      setNewPassphrase('');
+    } catch (error) {
+      toast({
+        title: "Restore Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsCombining(false);
+    }
+  };
+
+  return (
+    <Tabs defaultValue="split" className="w-full">
+      <TabsList className="grid w-full grid-cols-2 mb-6">
+        <TabsTrigger value="split">
+          <Split className="mr-2 h-4 w-4" />
+          Split
+        </TabsTrigger>
+        <TabsTrigger value="combine">
+          <Combine className="mr-2 h-4 w-4" />
+          Combine
+        </TabsTrigger>
+      </TabsList>
+
+      {/* Split View */}
+      <TabsContent value="split">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSplit)} className="space-y-6">
+            {/* What to split */}
+            <FormField
+              control={form.control}
+              name="kind"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Secret</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange} disabled={isSplitting}>
+                    <FormControl>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="passphrase">A passphrase</SelectItem>
+                      <SelectItem value="data-key">The key of a .lockme file</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* File whose data key is split */}
+            {kind === 'data-key' && (
+              <FormField
+                control={form.control}
+                name="file"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Encrypted File</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="file"
+                        accept=".lockme"
+                        onChange={(e) => field.onChange(e.target.files?.[0] ?? null)}
+                        disabled={isSplitting}
+                      />
+                    </FormControl>
+                    <p className="text-xs text-muted-foreground">
+                      The shares rebuild this file&apos;s key, which opens it without any of its passphrases.
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {/* Passphrase to split, or to open the file */}
+            <FormField
+              control={form.control}
+              name="passphrase"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{kind === 'passphrase' ? "Passphrase to Split" : "File Passphrase"}</FormLabel>
+                  <FormControl>
+                    <Input type="password" autoComplete="off" placeholder="Enter passphrase" {...field} disabled={isSplitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {kind === 'data-key' && (
+              <FormField
+                control={form.control}
+                name="keyfile"
+                render={({ field }) => (
+                  <FormItem>
+                    <KeyfilePicker keyfile={field.value} onChange={field.onChange} disabled={isSplitting} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {/* Share count and threshold */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="total"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Shares (N)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={2} max={255} {...field} disabled={isSplitting} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="threshold"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Needed to Rebuild (K)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={2} {...field} disabled={isSplitting} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <Button type="submit" className="w-full" disabled={isSplitting}>
+              {isSplitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Split className="mr-2 h-4 w-4" />}
+              Split Secret
+            </Button>
+          </form>
+        </Form>
+
+        {/* Created shares */}
+        {splitResult && (
+          <Card className="mt-6 bg-background/50">
+            <CardHeader>
+              <CardTitle>
+                {splitResult.shares.length} Shares, Any {splitResult.threshold} Rebuild the {splitResult.kind === 'passphrase' ? 'Passphrase' : 'File Key'}
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Set {splitResult.setId}. Give each share to a different person; fewer than {splitResult.threshold} shares reveal nothing. The shares are not stored anywhere.
+              </p>
+              <div className="flex flex-wrap gap-2 pt-2">
+                <Button type="button" variant="outline" size="sm" onClick={() => copyToClipboard(splitResult.shares.map(s => s.text).join('\n'), 'Shares')}>
+                  <Copy className="mr-1.5 h-3 w-3" />
+                  Copy All
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={downloadShares}>
+                  <Download className="mr-1.5 h-3 w-3" />
+                  Download .txt
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={printShares}>
+                  <Printer className="mr-1.5 h-3 w-3" />
+                  Print Cards
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setSplitResult(null)}>
+                  <EyeOff className="mr-1.5 h-3 w-3" />
+                  Hide
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {splitResult.shares.map(share => (
+                <div key={share.index} className="flex items-start gap-4 p-3 border rounded-lg">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={share.qr} alt={`QR code of share ${share.index}`} className="h-24 w-24 flex-shrink-0 rounded bg-white" />
+                  <div className="min-w-0 flex-1 space-y-2">
+                    <Label>Share {share.index} of {splitResult.shares.length}</Label>
+                    <code className="block p-2 rounded bg-muted/50 text-xs break-all">{share.text}</code>
+                    <Button type="button" variant="outline" size="sm" onClick={() => copyToClipboard(share.text, `Share ${share.index}`)}>
+                      <Copy className="mr-1.5 h-3 w-3" />
+                      Copy
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </TabsContent>
+
+      {/* Combine View */}
+      <TabsContent value="combine" className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Enter the shares one per field. Each share is checked as you type, so a typo is caught before combining.
+        </p>
+
+        <div className="space-y-3">
+          {inputs.map((input, position) => (
+            <div key={position} className="space-y-1">
+              <Label htmlFor={`share-${position}`}>Share {position + 1}</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id={`share-${position}`}
+                  className="font-mono text-xs"
+                  placeholder="LMS1-…"
+                  autoComplete="off"
+                  spellCheck={false}
+                  value={input.text}
+                  onChange={(e) => updateInput(position, e.target.value)}
+                  disabled={isCombining}
+                />
+                {input.share && <CheckCircle className="h-4 w-4 flex-shrink-0 text-green-600 dark:text-green-500" aria-label="Valid share" />}
+                {input.error && <XCircle className="h-4 w-4 flex-shrink-0 text-destructive" aria-label="Invalid share" />}
+              </div>
+              {input.share && (
+                <p className="text-xs text-muted-foreground">
+                  Share {input.share.index} of set {formatSetId(input.share.setId)}, {input.share.threshold} needed
+                </p>
+              )}
+              {input.error && <p className="text-xs text-destructive">{input.error}</p>}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" variant="outline" onClick={() => setInputs(current => [...current, EMPTY_INPUT])} disabled={isCombining}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Share
+          </Button>
+          <Button
+            type="button"
+            className="flex-1"
+            onClick={onCombine}
+            disabled={isCombining || !threshold || validShares.length < threshold}
+          >
+            {isCombining ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Combine className="mr-2 h-4 w-4" />}
+            {threshold && validShares.length < threshold
+              ? `Combine (${validShares.length} of ${threshold} shares)`
+              : "Combine Shares"}
+          </Button>
+        </div>
+
+        {/* Rebuilt passphrase */}
+        {recoveredPassphrase !== null && (
+          <div className="space-y-2">
+            <Label htmlFor="recoveredPassphrase">Rebuilt Passphrase</Label>
+            <div className="flex items-center space-x-2">
+              <Input id="recoveredPassphrase" readOnly value={recoveredPassphrase} className="font-mono" />
+              <Button type="button" variant="outline" size="icon" onClick={() => copyToClipboard(recoveredPassphrase, 'Passphrase')} aria-label="Copy passphrase">
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" onClick={clearRecovered} aria-label="Hide passphrase">
+                <EyeOff className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Rebuilt data key: add a passphrase to the file */}
+        {recoveredKey && (
+          <Card className="bg-background/50">
+            <CardHeader>
+              <CardTitle className="text-lg">File Key Rebuilt</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Select the file and choose a new passphrase for it. A copy that also opens with the new passphrase is downloaded; its contents are not decrypted.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="restoreFile">Encrypted File</Label>
+                <Input id="restoreFile" type="file" accept=".lockme" onChange={(e) => setRestoreFile(e.target.files?.[0] ?? null)} disabled={isCombining} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="restorePassphrase">New Passphrase</Label>
+                <Input id="restorePassphrase" type="password" autoComplete="new-password" value={newPassphrase} onChange={(e) => setNewPassphrase(e.target.value)} disabled={isCombining} />
+              </div>
+              <Button type="button" className="w-full" onClick={onRestore} disabled={isCombining || !restoreFile || !newPassphrase}>
+                {isCombining ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                Add Passphrase and Download
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </TabsContent>
+    </Tabs>
+  );
+};
+
+export default SecretSharingForm;
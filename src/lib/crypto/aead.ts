@@ -0,0 +1,229 @@
+/**
+ * AES AEAD Modes
+ *
+ * The three authenticated modes OpenPGP uses for its chunked encryption:
+ * EAX, OCB (RFC 7253) and GCM, all with a 16-byte tag appended to the
+ * ciphertext. GCM comes from @noble/ciphers; EAX is built from its CMAC
+ * and CTR, and OCB from batched AES-ECB calls, since every block's offset
+ * is known before any block is enciphered.
+ */
+
+import { cmac, ctr, ecb, gcm } from '@noble/ciphers/aes.js';
+
+import { concatBytes } from './encoding';
+
+/** An AEAD mode */
+export type AeadMode = 'eax' | 'ocb' | 'gcm';
+
+/** Nonce lengths in bytes, as used by OpenPGP */
+export const AEAD_NONCE_LENGTHS: Record<AeadMode, number> = { eax: 16, ocb: 15, gcm: 12 };
+
+/** Tag length in bytes of every mode */
+export const AEAD_TAG_LENGTH = 16;
+
+/** AES block size in bytes */
+const BLOCK_SIZE = 16;
+
+/**
+ * XORs `source` into `target` in place
+ */
+function xorInto(target: Uint8Array, source: Uint8Array): Uint8Array {
+  for (let i = 0; i < source.length; i++) target[i] ^= source[i];
+  return target;
+}
+
+/**
+ * Compares two byte arrays without exiting early
+ */
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+/**
+ * Doubles a block in GF(2^128)
+ */
+function double(block: Uint8Array): Uint8Array {
+  const result = new Uint8Array(BLOCK_SIZE);
+  for (let i = 0; i < BLOCK_SIZE - 1; i++) {
+    result[i] = (block[i] << 1) | (block[i + 1] >>> 7);
+  }
+  result[BLOCK_SIZE - 1] = (block[BLOCK_SIZE - 1] << 1) ^ (block[0] & 0x80 ? 0x87 : 0);
+  return result;
+}
+
+/**
+ * Counts the trailing zero bits of a positive integer
+ */
+function trailingZeros(n: number): number {
+  let count = 0;
+  while ((n & 1) === 0) {
+    n >>>= 1;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Sets up OCB for one key and nonce (RFC 7253, 128-bit tags)
+ */
+function ocb(key: Uint8Array, nonce: Uint8Array) {
+  // A fresh ECB instance per call, as @noble/ciphers refuses to reuse one
+  const encipher = (blocks: Uint8Array) => (blocks.length === 0 ? blocks : ecb(key, { disablePadding: true }).encrypt(blocks));
+  const decipher = (blocks: Uint8Array) => (blocks.length === 0 ? blocks : ecb(key, { disablePadding: true }).decrypt(blocks));
+
+  const lStar = encipher(new Uint8Array(BLOCK_SIZE));
+  const lDollar = double(lStar);
+  const l = [double(lDollar)];
+  const lAt = (i: number) => {
+    while (l.length <= i) l.push(double(l[l.length - 1]));
+    return l[i];
+  };
+
+  /** The offsets of `count` full blocks following `start`, laid out back to back */
+  const offsets = (start: Uint8Array, count: number) => {
+    const all = new Uint8Array(count * BLOCK_SIZE);
+    let offset = start;
+    for (let i = 1; i <= count; i++) {
+      offset = xorInto(offset.slice(), lAt(trailingZeros(i)));
+      all.set(offset, (i - 1) * BLOCK_SIZE);
+    }
+    return { all, last: offset };
+  };
+
+  /** XORs all blocks of `blocks` together */
+  const fold = (blocks: Uint8Array) => {
+    const sum = new Uint8Array(BLOCK_SIZE);
+    for (let i = 0; i < blocks.length; i += BLOCK_SIZE) xorInto(sum, blocks.subarray(i, i + BLOCK_SIZE));
+    return sum;
+  };
+
+  /** A partial block followed by the 10* padding */
+  const padded = (partial: Uint8Array) => {
+    const block = new Uint8Array(BLOCK_SIZE);
+    block.set(partial);
+    block[partial.length] = 0x80;
+    return block;
+  };
+
+  // Offset_0 from the nonce: a 1 bit before it, and the tag length (0 for 128 bits) in front
+  const nonceBlock = new Uint8Array(BLOCK_SIZE);
+  nonceBlock.set(nonce, BLOCK_SIZE - nonce.length);
+  nonceBlock[BLOCK_SIZE - nonce.length - 1] |= 1;
+  const bottom = nonceBlock[BLOCK_SIZE - 1] & 0x3f;
+  nonceBlock[BLOCK_SIZE - 1] &= 0xc0;
+  const ktop = encipher(nonceBlock);
+  const stretch = concatBytes(ktop, xorInto(ktop.slice(0, 8), ktop.subarray(1, 9)));
+  const byteShift = bottom >>> 3;
+  const bitShift = bottom & 7;
+  const initialOffset = Uint8Array.from({ length: BLOCK_SIZE }, (_, i) =>
+    (stretch[i + byteShift] << bitShift) | (bitShift ? stretch[i + byteShift + 1] >>> (8 - bitShift) : 0)
+  );
+
+  /** HASH(K, A) over the associated data */
+  const hash = (data: Uint8Array) => {
+    const full = data.length - (data.length % BLOCK_SIZE);
+    const { all, last } = offsets(new Uint8Array(BLOCK_SIZE), full / BLOCK_SIZE);
+    const sum = fold(encipher(xorInto(new Uint8Array(data.subarray(0, full)), all)));
+    if (full < data.length) {
+      xorInto(sum, encipher(xorInto(padded(data.subarray(full)), xorInto(last.slice(), lStar))));
+    }
+    return sum;
+  };
+
+  /** Processes the message in either direction and returns the output and tag */
+  const run = (input: Uint8Array, ad: Uint8Array, encrypt: boolean) => {
+    const full = input.length - (input.length % BLOCK_SIZE);
+    const { all, last } = offsets(initialOffset, full / BLOCK_SIZE);
+    const output = new Uint8Array(input.length);
+
+    const blocks = xorInto(new Uint8Array(input.subarray(0, full)), all);
+    output.set(xorInto(encrypt ? encipher(blocks) : decipher(blocks), all));
+    const checksum = fold((encrypt ? input : output).subarray(0, full));
+
+    let finalOffset = last;
+    if (full < input.length) {
+      finalOffset = xorInto(last.slice(), lStar);
+      const pad = encipher(finalOffset);
+      const rest = xorInto(new Uint8Array(input.subarray(full)), pad.subarray(0, input.length - full));
+      output.set(rest, full);
+      xorInto(checksum, padded((encrypt ? input : output).subarray(full)));
+    }
+
+    const tag = xorInto(encipher(xorInto(xorInto(checksum, finalOffset), lDollar)), hash(ad));
+    return { output, tag };
+  };
+
+  return {
+    encrypt: (plaintext: Uint8Array, ad: Uint8Array) => {
+      const { output, tag } = run(plaintext, ad, true);
+      return concatBytes(output, tag);
+    },
+    decrypt: (sealed: Uint8Array, ad: Uint8Array) => {
+      const { output, tag } = run(sealed.subarray(0, -AEAD_TAG_LENGTH), ad, false);
+      return equalBytes(tag, sealed.subarray(-AEAD_TAG_LENGTH)) ? output : null;
+    },
+  };
+}
+
+/**
+ * Sets up EAX for one key and nonce
+ */
+function eax(key: Uint8Array, nonce: Uint8Array) {
+  /** OMAC with the domain `t` prepended as a full block */
+  const omac = (t: number, data: Uint8Array) => {
+    const block = new Uint8Array(BLOCK_SIZE);
+    block[BLOCK_SIZE - 1] = t;
+    return cmac(concatBytes(block, data), key);
+  };
+  const nonceMac = omac(0, nonce);
+  const tagOf = (ciphertext: Uint8Array, ad: Uint8Array) => xorInto(xorInto(omac(2, ciphertext), nonceMac), omac(1, ad));
+
+  return {
+    encrypt: (plaintext: Uint8Array, ad: Uint8Array) => {
+      const ciphertext = ctr(key, nonceMac).encrypt(plaintext);
+      return concatBytes(ciphertext, tagOf(ciphertext, ad));
+    },
+    decrypt: (sealed: Uint8Array, ad: Uint8Array) => {
+      const ciphertext = sealed.subarray(0, -AEAD_TAG_LENGTH);
+      if (!equalBytes(tagOf(ciphertext, ad), sealed.subarray(-AEAD_TAG_LENGTH))) return null;
+      return ctr(key, nonceMac).decrypt(ciphertext);
+    },
+  };
+}
+
+/**
+ * Encrypts and authenticates a message
+ *
+ * @param mode - The AEAD mode
+ * @param key - AES key (16, 24 or 32 bytes)
+ * @param nonce - Nonce of the mode's length
+ * @param plaintext - The message
+ * @param ad - Associated data covered by the tag
+ * @returns The ciphertext followed by the 16-byte tag
+ */
+export function aeadEncrypt(mode: AeadMode, key: Uint8Array, nonce: Uint8Array, plaintext: Uint8Array, ad: Uint8Array): Uint8Array {
+  if (mode === 'gcm') return gcm(key, nonce, ad).encrypt(plaintext);
+  return (mode === 'ocb' ? ocb(key, nonce) : eax(key, nonce)).encrypt(plaintext, ad);
+}
+
+/**
+ * Checks and decrypts a message
+ *
+ * @param mode - The AEAD mode
+ * @param key - AES key (16, 24 or 32 bytes)
+ * @param nonce - Nonce of the mode's length
+ * @param sealed - The ciphertext followed by the 16-byte tag
+ * @param ad - Associated data covered by the tag
+ * @returns The plaintext, or null if the tag does not match
+ */
+export function aeadDecrypt(mode: AeadMode, key: Uint8Array, nonce: Uint8Array, sealed: Uint8Array, ad: Uint8Array): Uint8Array | null {
+  if (sealed.length < AEAD_TAG_LENGTH) return null;
+  if (mode !== 'gcm') return (mode === 'ocb' ? ocb(key, nonce) : eax(key, nonce)).decrypt(sealed, ad);
+  try {
+    return gcm(key, nonce, ad).decrypt(sealed);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * age Tests
+ *
+ * Decryption is checked against the C2SP community test vectors for age
+ * v1 (the `cctv-age` package); encryption by round trips through the
+ * decryptor, in both binary and armored form.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as vectors from 'cctv-age';
+
+import {
+  concatBytes,
+  createAgeDecryptStream,
+  createAgeEncryptStream,
+  formatAgeRecipient,
+  generateIdentity,
+  isAgeFile,
+  parseAgeRecipient,
+  streamToBlob,
+  type KdfOptions,
+} from './index';
+
+const FAST_KDF: KdfOptions = { id: 'pbkdf2-sha256', iterations: 1000 };
+
+/** Identity used by most test vectors, and its recipient */
+const SECRET_KEY = 'AGE-SECRET-KEY-1EGTZVFFV20835NWYV6270LXYVK2VKNX2MMDKWYKLMGR48UAWX40Q2P2LM0';
+const RECIPIENT = 'age1xmwwc06ly3ee5rytxm9mflaz2u56jjj36s0mypdrwsvlul66mv4q47ryef';
+
+/**
+ * A parsed test vector: its fields and the age file
+ */
+interface Vector {
+  expect: string;
+  payload?: string;
+  identities: string[];
+  passphrases: string[];
+  file: Uint8Array;
+}
+
+/** Splits a vector into its fields and the (decompressed) age file */
+async function parseVector(bytes: Uint8Array): Promise<Vector> {
+  const split = bytes.findIndex((b, i) => b === 0x0a && bytes[i + 1] === 0x0a);
+  const fields = new TextDecoder().decode(bytes.subarray(0, split)).split('\n').map(line => {
+    const colon = line.indexOf(': ');
+    return [line.slice(0, colon), line.slice(colon + 2)] as const;
+  });
+  const values = (name: string) => fields.filter(([key]) => key === name).map(([, value]) => value);
+
+  let file = bytes.subarray(split + 2);
+  if (values('compressed')[0] === 'zlib') {
+    const blob = await streamToBlob(new Blob([file]).stream().pipeThrough(new DecompressionStream('deflate')));
+    file = new Uint8Array(await blob.arrayBuffer());
+  }
+
+  return {
+    expect: values('expect')[0],
+    payload: values('payload')[0],
+    identities: values('identity'),
+    passphrases: values('passphrase'),
+    file,
+  };
+}
+
+/** Decrypts bytes with the given passphrase and age secret keys */
+async function decrypt(file: Uint8Array | Blob, passphrase: string, secretKeys: string[] = []): Promise<Uint8Array> {
+  const blob = await streamToBlob(
+    new Blob([file]).stream().pipeThrough(createAgeDecryptStream(passphrase, { secretKeys }))
+  );
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/** Encrypts bytes into an age file */
+async function encrypt(data: Uint8Array, passphrase: string | null, options: Parameters<typeof createAgeEncryptStream>[1]): Promise<Blob> {
+  return streamToBlob(new Blob([data]).stream().pipeThrough(createAgeEncryptStream(passphrase, options)));
+}
+
+/** Lowercase hex SHA-256 of some bytes */
+async function sha256(bytes: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return Array.from(digest, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+test('community test vectors', async (t) => {
+  for (const [name, bytes] of Object.entries(vectors)) {
+    if (!(bytes instanceof Uint8Array)) continue;
+    const vector = await parseVector(bytes);
+
+    // Post-quantum hybrid recipients are not supported
+    if (vector.identities.some(identity => identity.startsWith('AGE-SECRET-KEY-PQ-'))) continue;
+
+    await t.test(name, async () => {
+      // Each scrypt stanza is tried with one passphrase at a time
+      const attempts = vector.passphrases.length > 0 ? vector.passphrases : [''];
+      const results = await Promise.allSettled(attempts.map(passphrase => decrypt(vector.file, passphrase, vector.identities)));
+
+      if (vector.expect === 'success') {
+        const result = results.find(r => r.status === 'fulfilled');
+        assert.ok(result, (results[0] as PromiseRejectedResult).reason?.message);
+        assert.equal(await sha256(result.value), vector.payload);
+      } else {
+        assert.ok(results.every(r => r.status === 'rejected'), `expected ${vector.expect}`);
+      }
+    });
+  }
+});
+
+test('passphrase files round trip in binary and armored form', async () => {
+  const data = Uint8Array.from({ length: 150_000 }, (_, i) => i % 251);
+
+  for (const armor of [false, true]) {
+    for (const plaintext of [new Uint8Array(0), data]) {
+      const file = await encrypt(plaintext, 'correct horse', { armor, workFactor: 10 });
+      assert.equal(await isAgeFile(file), true);
+
+      const text = new TextDecoder().decode(await file.slice(0, 40).arrayBuffer());
+      assert.ok(text.startsWith(armor ? '-----BEGIN AGE ENCRYPTED FILE-----\n' : 'age-encryption.org/v1\n-> scrypt '));
+
+      assert.deepEqual(await decrypt(file, 'correct horse'), plaintext);
+      await assert.rejects(decrypt(file, 'wrong horse'), /Incorrect passphrase/);
+    }
+  }
+});
+
+test('recipient files open with age secret keys and LockMe identities', async () => {
+  const data = new TextEncoder().encode('quarterly numbers');
+  const identity = await generateIdentity('identity passphrase', FAST_KDF);
+
+  const file = await encrypt(data, null, { recipients: [parseAgeRecipient(RECIPIENT), identity.publicKey], armor: true });
+
+  assert.deepEqual(await decrypt(file, '', [SECRET_KEY]), data);
+
+  const blob = await streamToBlob(
+    file.stream().pipeThrough(createAgeDecryptStream('identity passphrase', { identities: [identity] }))
+  );
+  assert.deepEqual(new Uint8Array(await blob.arrayBuffer()), data);
+
+  await assert.rejects(decrypt(file, 'identity passphrase'), /None of your keys can open it/);
+});
+
+test('recipients are encoded as bech32 and validated', () => {
+  const publicKey = Buffer.from(Uint8Array.from({ length: 32 }, (_, i) => i)).toString('base64');
+  const recipient = formatAgeRecipient(publicKey);
+
+  assert.match(recipient, /^age1[02-9ac-hj-np-z]{58}$/);
+  assert.equal(parseAgeRecipient(recipient), publicKey);
+  assert.equal(parseAgeRecipient(recipient.toUpperCase()), publicKey);
+
+  const typo = recipient.slice(0, -1) + (recipient.endsWith('q') ? 'p' : 'q');
+  assert.throws(() => parseAgeRecipient(typo), /Invalid age recipient/);
+  assert.throws(() => parseAgeRecipient(SECRET_KEY), /Invalid age recipient/);
+});
+
+test('a passphrase cannot be combined with recipients', async () => {
+  const identity = await generateIdentity('identity passphrase', FAST_KDF);
+  assert.throws(() => createAgeEncryptStream('passphrase', { recipients: [identity.publicKey] }), /either a passphrase or recipients/);
+  assert.throws(() => createAgeEncryptStream(null), /passphrase or at least one recipient/);
+
+  // Trailing bytes after the final chunk are rejected
+  const file = new Uint8Array(await (await encrypt(new Uint8Array(10), 'passphrase', { workFactor: 10 })).arrayBuffer());
+  await assert.rejects(decrypt(concatBytes(file, new Uint8Array(1)), 'passphrase'), /corrupted or truncated/);
+});
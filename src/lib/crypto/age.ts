@@ -0,0 +1,796 @@
+/**
+ * age v1 Files
+ *
+ * Reads and writes the age file format (https://age-encryption.org/v1)
+ * so files move freely between LockMe and the `age` command-line tool:
+ *
+ *   age-encryption.org/v1
+ *   -> X25519 <ephemeral share>      one stanza per recipient,
+ *   <wrapped file key>                or a single scrypt stanza
+ *   --- <header MAC>
+ *   nonce(16) | payload
+ *
+ * A random 16-byte file key is wrapped in every stanza: under an scrypt
+ * key for a passphrase, or an X25519 + HKDF key for a recipient. LockMe
+ * identities are X25519 keys, so their public keys work as `age1…`
+ * recipients. The header is authenticated with an HMAC keyed from the file
+ * key; the payload is a ChaCha20-Poly1305 STREAM in 64 KiB chunks under a
+ * key derived from the file key and the nonce.
+ *
+ * Armored files wrap the binary file in PEM-style Base64 lines. Parsing
+ * follows the specification strictly: non-canonical Base64, malformed
+ * stanzas and truncated or extended payloads are all rejected, as checked
+ * against the community test vectors (C2SP CCTV).
+ */
+
+import { chacha20poly1305 } from '@noble/ciphers/chacha.js';
+import { scrypt } from 'hash-wasm';
+
+import { bech32Decode, bech32Encode } from './bech32';
+import { base64ToBytes, bytesToBase64, concatBytes } from './encoding';
+import { importPublicKey, unlockIdentity, x25519Unsupported, type RecipientIdentity } from './recipients';
+import { attachTransform, ByteQueue, type AttachedTransform } from './stream';
+
+/** First line of every age v1 header */
+const AGE_VERSION_LINE = 'age-encryption.org/v1';
+
+/** Armor boundaries */
+const ARMOR_BEGIN = '-----BEGIN AGE ENCRYPTED FILE-----';
+const ARMOR_END = '-----END AGE ENCRYPTED FILE-----';
+
+/** Bech32 prefixes of recipients and identities */
+const RECIPIENT_PREFIX = 'age';
+const IDENTITY_PREFIX = 'age-secret-key-';
+
+/** File key length in bytes */
+const FILE_KEY_LENGTH = 16;
+
+/** ChaCha20-Poly1305 tag length in bytes */
+const TAG_LENGTH = 16;
+
+/** Payload nonce length in bytes */
+const NONCE_LENGTH = 16;
+
+/** Plaintext bytes per payload chunk */
+const CHUNK_SIZE = 64 * 1024;
+
+/** Columns of stanza body and armor lines */
+const LINE_LENGTH = 64;
+
+/** Bytes of binary data per armor line */
+const ARMOR_LINE_BYTES = 48;
+
+/** Raw X25519 key length in bytes */
+const X25519_KEY_LENGTH = 32;
+
+/** scrypt salt length in bytes */
+const SCRYPT_SALT_LENGTH = 16;
+
+/** Default scrypt work factor (log2 N) for new files, as used by the age CLI */
+export const AGE_SCRYPT_WORK_FACTOR = 18;
+
+/** Highest scrypt work factor accepted from a header; higher values take too long */
+const MAX_SCRYPT_WORK_FACTOR = 22;
+
+/** Largest header read before giving up on finding its end */
+const MAX_HEADER_SIZE = 1024 * 1024;
+
+/** HKDF and scrypt labels */
+const SCRYPT_LABEL = 'age-encryption.org/v1/scrypt';
+const X25519_LABEL = 'age-encryption.org/v1/X25519';
+
+/** PKCS#8 prefix of a raw X25519 private key (RFC 8410) */
+const X25519_PKCS8_PREFIX = Uint8Array.from([
+  0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x6e, 0x04, 0x22, 0x04, 0x20,
+]);
+
+/** The X25519 base point, u = 9 */
+const X25519_BASE_POINT = Uint8Array.from({ length: X25519_KEY_LENGTH }, (_, i) => (i === 0 ? 9 : 0));
+
+/**
+ * A recipient stanza of the header
+ */
+interface Stanza {
+  /** Stanza type, e.g. "X25519" or "scrypt" */
+  type: string;
+
+  /** Further arguments on the stanza line */
+  args: string[];
+
+  /** Decoded body */
+  body: Uint8Array;
+}
+
+/**
+ * An X25519 key pair that can open X25519 stanzas
+ */
+interface X25519Identity {
+  privateKey: CryptoKey;
+  publicKey: Uint8Array;
+}
+
+/**
+ * Options of `createAgeEncryptStream` besides the passphrase
+ */
+export interface AgeEncryptOptions {
+  /** Base64 raw X25519 public keys to encrypt to (see `parseAgeRecipient`) */
+  recipients?: string[];
+
+  /** Output the armored text form instead of binary */
+  armor?: boolean;
+
+  /** scrypt work factor (log2 N) for a passphrase */
+  workFactor?: number;
+}
+
+/**
+ * Options of `createAgeDecryptStream` besides the passphrase
+ */
+export interface AgeDecryptOptions {
+  /** The user's identities, unlocked with the passphrase for X25519 stanzas */
+  identities?: RecipientIdentity[];
+
+  /** Native age identities (`AGE-SECRET-KEY-1…`) */
+  secretKeys?: string[];
+}
+
+/**
+ * Creates the error used for any malformed header
+ */
+function corruptHeader(detail?: string): Error {
+  return new Error(detail ? `Corrupt age header: ${detail}.` : "Corrupt age header.");
+}
+
+/**
+ * Encodes bytes as Base64 without padding, as used inside headers
+ */
+function encodeUnpadded(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/=+$/, '');
+}
+
+/**
+ * Decodes Base64 that must be in canonical form
+ *
+ * @param text - The encoded text
+ * @param padded - Whether padding is required (armor) or forbidden (headers)
+ * @returns The bytes, or null if the text is not canonical Base64
+ */
+function decodeCanonical(text: string, padded: boolean): Uint8Array | null {
+  if (padded ? !/^[A-Za-z0-9+/]*={0,2}$/.test(text) || text.length % 4 !== 0 : !/^[A-Za-z0-9+/]*$/.test(text)) {
+    return null;
+  }
+  if (text.length % 4 === 1) return null;
+
+  const bytes = base64ToBytes(padded ? text : text.padEnd(Math.ceil(text.length / 4) * 4, '='));
+  // Reject set padding bits, which would give several encodings of the same bytes
+  return (padded ? bytesToBase64(bytes) : encodeUnpadded(bytes)) === text ? bytes : null;
+}
+
+/**
+ * Derives key material with HKDF-SHA256
+ */
+async function hkdf(ikm: Uint8Array, salt: Uint8Array, info: string): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(info) },
+    key,
+    256
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * Imports the HMAC key that authenticates the header
+ */
+async function headerMacKey(fileKey: Uint8Array): Promise<CryptoKey> {
+  const raw = await hkdf(fileKey, new Uint8Array(0), 'header');
+  try {
+    return await crypto.subtle.importKey('raw', raw, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+  } finally {
+    raw.fill(0);
+  }
+}
+
+/**
+ * Wraps a file key with ChaCha20-Poly1305 under a single-use key
+ */
+function wrapFileKey(key: Uint8Array, fileKey: Uint8Array): Uint8Array {
+  return chacha20poly1305(key, new Uint8Array(12)).encrypt(fileKey);
+}
+
+/**
+ * Unwraps a stanza body
+ *
+ * @returns The file key, or null if the key is wrong
+ */
+function unwrapFileKey(key: Uint8Array, body: Uint8Array): Uint8Array | null {
+  if (body.length !== FILE_KEY_LENGTH + TAG_LENGTH) {
+    throw corruptHeader("invalid stanza body");
+  }
+  try {
+    return chacha20poly1305(key, new Uint8Array(12)).decrypt(body);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Derives the key that wraps a file key for a passphrase
+ */
+async function scryptKey(passphrase: string, salt: Uint8Array, workFactor: number): Promise<Uint8Array> {
+  return scrypt({
+    password: passphrase,
+    salt: concatBytes(new TextEncoder().encode(SCRYPT_LABEL), salt),
+    costFactor: 2 ** workFactor,
+    blockSize: 8,
+    parallelism: 1,
+    hashLength: 32,
+    outputType: 'binary',
+  });
+}
+
+/**
+ * Derives the key that wraps a file key for an X25519 recipient
+ *
+ * @param privateKey - The ephemeral (sender) or identity (recipient) private key
+ * @param publicKey - The other side's raw public key
+ * @param share - The ephemeral public key written to the stanza
+ * @param recipient - The recipient's raw public key
+ */
+async function x25519WrapKey(
+  privateKey: CryptoKey,
+  publicKey: Uint8Array,
+  share: Uint8Array,
+  recipient: Uint8Array
+): Promise<Uint8Array> {
+  const other = await importPublicKey(publicKey);
+  let shared: Uint8Array;
+  try {
+    shared = new Uint8Array(await crypto.subtle.deriveBits({ name: 'X25519', public: other }, privateKey, 256));
+  } catch {
+    // Some implementations reject low-order points outright
+    throw corruptHeader("invalid X25519 share");
+  }
+
+  // An all-zero shared secret means a low-order point was supplied
+  if (shared.every(b => b === 0)) {
+    throw corruptHeader("invalid X25519 share");
+  }
+  try {
+    return await hkdf(shared, concatBytes(share, recipient), X25519_LABEL);
+  } finally {
+    shared.fill(0);
+  }
+}
+
+/**
+ * Formats a public key as an age recipient
+ *
+ * @param publicKey - Base64-encoded raw X25519 public key
+ * @returns The `age1…` recipient string
+ */
+export function formatAgeRecipient(publicKey: string): string {
+  return bech32Encode(RECIPIENT_PREFIX, base64ToBytes(publicKey));
+}
+
+/**
+ * Parses an age recipient
+ *
+ * @param recipient - An `age1…` recipient string
+ * @returns The Base64-encoded raw X25519 public key
+ * @throws Error if the string is not a valid X25519 recipient
+ */
+export function parseAgeRecipient(recipient: string): string {
+  const decoded = bech32Decode(recipient.trim());
+  if (!decoded || decoded.prefix !== RECIPIENT_PREFIX || decoded.data.length !== X25519_KEY_LENGTH) {
+    throw new Error("Invalid age recipient.");
+  }
+  return bytesToBase64(decoded.data);
+}
+
+/**
+ * Checks whether text looks like a native age identity
+ *
+ * @param text - The text to check, e.g. a pasted secret key
+ * @returns True if it starts like `AGE-SECRET-KEY-1…`
+ */
+export function isAgeSecretKey(text: string): boolean {
+  return text.trim().toUpperCase().startsWith('AGE-SECRET-KEY-1');
+}
+
+/**
+ * Imports a native age identity
+ */
+async function importAgeSecretKey(secretKey: string): Promise<X25519Identity> {
+  const decoded = bech32Decode(secretKey.trim());
+  if (!decoded || decoded.prefix !== IDENTITY_PREFIX || decoded.data.length !== X25519_KEY_LENGTH) {
+    throw new Error("Invalid age secret key.");
+  }
+
+  const pkcs8 = concatBytes(X25519_PKCS8_PREFIX, decoded.data);
+  try {
+    const privateKey = await crypto.subtle.importKey('pkcs8', pkcs8, { name: 'X25519' }, false, ['deriveBits']);
+    const publicKey = new Uint8Array(
+      await crypto.subtle.deriveBits({ name: 'X25519', public: await importPublicKey(X25519_BASE_POINT) }, privateKey, 256)
+    );
+    return { privateKey, publicKey };
+  } catch (error) {
+    x25519Unsupported(error);
+  } finally {
+    pkcs8.fill(0);
+    decoded.data.fill(0);
+  }
+}
+
+/**
+ * Encodes one stanza, wrapping its body at 64 columns
+ */
+function encodeStanza({ type, args, body }: Stanza): string {
+  const encoded = encodeUnpadded(body);
+  const lines: string[] = encoded.match(/.{1,64}/g) ?? [];
+  // The body always ends with a line shorter than 64 columns, possibly empty
+  if (encoded.length % LINE_LENGTH === 0) lines.push('');
+  return `-> ${[type, ...args].join(' ')}\n${lines.join('\n')}\n`;
+}
+
+/**
+ * Parses a complete header, up to and including the MAC line's newline
+ *
+ * @param bytes - The header bytes
+ * @returns The stanzas, the MAC, and the bytes the MAC covers
+ */
+function parseHeader(bytes: Uint8Array): { stanzas: Stanza[]; mac: Uint8Array; macInput: Uint8Array } {
+  if (bytes.some(b => (b < 0x20 || b > 0x7e) && b !== 0x0a)) {
+    throw corruptHeader("invalid character");
+  }
+
+  const lines = new TextDecoder().decode(bytes.subarray(0, -1)).split('\n');
+  if (lines[0] !== AGE_VERSION_LINE) {
+    throw new Error(`Unsupported age version: ${lines[0].slice(0, 40)}.`);
+  }
+
+  const stanzas: Stanza[] = [];
+  let index = 1;
+  while (index < lines.length - 1) {
+    if (!lines[index].startsWith('-> ')) throw corruptHeader("malformed stanza");
+
+    const [type, ...args] = lines[index++].slice(3).split(' ');
+    if (![type, ...args].every(arg => /^[\x21-\x7e]+$/.test(arg))) {
+      throw corruptHeader("malformed stanza");
+    }
+
+    let encoded = '';
+    for (;;) {
+      const line = lines[index++];
+      // Running into the MAC line means the body never ended
+      if (index > lines.length - 1 || line.length > LINE_LENGTH) {
+        throw corruptHeader("malformed stanza");
+      }
+      encoded += line;
+      if (line.length < LINE_LENGTH) break;
+    }
+
+    const body = decodeCanonical(encoded, false);
+    if (!body) throw corruptHeader("malformed stanza");
+    stanzas.push({ type, args, body });
+  }
+
+  const footer = lines[lines.length - 1];
+  const mac = footer.startsWith('--- ') ? decodeCanonical(footer.slice(4), false) : null;
+  if (stanzas.length === 0 || !mac || mac.length !== 32) {
+    throw corruptHeader();
+  }
+
+  // The MAC covers everything up to and including "---"
+  return { stanzas, mac, macInput: bytes.subarray(0, bytes.length - footer.length + 2) };
+}
+
+/**
+ * Finds the end of the header in the bytes read so far
+ *
+ * @returns The length of the header including the MAC line, or -1 if it
+ *   has not ended yet
+ */
+function findHeaderEnd(bytes: Uint8Array): number {
+  for (let i = 0; i + 4 <= bytes.length; i++) {
+    // The MAC line is the first line starting with "---"
+    if (bytes[i] === 0x0a && bytes[i + 1] === 0x2d && bytes[i + 2] === 0x2d && bytes[i + 3] === 0x2d) {
+      const end = bytes.indexOf(0x0a, i + 4);
+      return end === -1 ? -1 : end + 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Recovers the file key from the header's stanzas
+ *
+ * @param stanzas - The parsed stanzas
+ * @param passphrase - Passphrase for an scrypt stanza
+ * @param loadIdentities - Returns the identities to try on X25519 stanzas
+ * @returns The file key
+ */
+async function openStanzas(
+  stanzas: Stanza[],
+  passphrase: string,
+  loadIdentities: () => Promise<X25519Identity[]>
+): Promise<Uint8Array> {
+  if (stanzas.some(stanza => stanza.type === 'scrypt')) {
+    // A passphrase must be the only way in, or anyone holding it could
+    // swap the file for one that a recipient believes came from the sender
+    if (stanzas.length !== 1) throw corruptHeader("an scrypt stanza must be the only one");
+
+    const [salt, workFactor, ...rest] = stanzas[0].args;
+    const saltBytes = salt === undefined ? null : decodeCanonical(salt, false);
+    if (rest.length > 0 || !saltBytes || saltBytes.length !== SCRYPT_SALT_LENGTH || !/^[1-9][0-9]*$/.test(workFactor ?? '')) {
+      throw corruptHeader("invalid scrypt stanza");
+    }
+    if (Number(workFactor) > MAX_SCRYPT_WORK_FACTOR) {
+      throw corruptHeader("scrypt work factor is too high");
+    }
+    if (stanzas[0].body.length !== FILE_KEY_LENGTH + TAG_LENGTH) {
+      throw corruptHeader("invalid stanza body");
+    }
+
+    const key = await scryptKey(passphrase, saltBytes, Number(workFactor));
+    const fileKey = unwrapFileKey(key, stanzas[0].body);
+    key.fill(0);
+    if (!fileKey) throw new Error("Incorrect passphrase or corrupted file.");
+    return fileKey;
+  }
+
+  const x25519 = stanzas.filter(stanza => stanza.type === 'X25519');
+  for (const { args, body } of x25519) {
+    const share = args.length === 1 ? decodeCanonical(args[0], false) : null;
+    if (!share || share.length !== X25519_KEY_LENGTH || body.length !== FILE_KEY_LENGTH + TAG_LENGTH) {
+      throw corruptHeader("invalid X25519 stanza");
+    }
+  }
+
+  if (x25519.length > 0) {
+    for (const identity of await loadIdentities()) {
+      for (const { args, body } of x25519) {
+        const share = decodeCanonical(args[0], false)!;
+        const key = await x25519WrapKey(identity.privateKey, share, share, identity.publicKey);
+        const fileKey = unwrapFileKey(key, body);
+        key.fill(0);
+        if (fileKey) return fileKey;
+      }
+    }
+  }
+
+  throw new Error("This file was encrypted for other recipients. None of your keys can open it.");
+}
+
+/**
+ * Builds the 12-byte nonce of one payload chunk
+ *
+ * @param counter - Zero-based chunk index, as an 11-byte big-endian number
+ * @param last - Whether this is the final chunk
+ */
+function chunkNonce(counter: number, last: boolean): Uint8Array {
+  const nonce = new Uint8Array(12);
+  for (let i = 10, rest = counter; rest > 0; i--, rest = Math.floor(rest / 256)) {
+    nonce[i] = rest % 256;
+  }
+  nonce[11] = last ? 1 : 0;
+  return nonce;
+}
+
+/**
+ * Creates a transform that encodes binary age output as armored text
+ */
+function createArmorStream(): TransformStream<Uint8Array, Uint8Array> {
+  const encoder = new TextEncoder();
+  const queue = new ByteQueue();
+  const lines = (bytes: Uint8Array) => encoder.encode(`${bytesToBase64(bytes).match(/.{1,64}/g)!.join('\n')}\n`);
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(`${ARMOR_BEGIN}\n`));
+    },
+    transform(chunk, controller) {
+      queue.push(chunk);
+      const whole = queue.length - (queue.length % ARMOR_LINE_BYTES);
+      if (whole > 0) controller.enqueue(lines(queue.take(whole)));
+    },
+    flush(controller) {
+      if (queue.length > 0) controller.enqueue(lines(queue.take(queue.length)));
+      controller.enqueue(encoder.encode(`${ARMOR_END}\n`));
+    },
+  });
+}
+
+/**
+ * Creates a transform that decodes armored text into the binary file
+ *
+ * Whitespace around the armor and CRLF line endings are accepted; every
+ * other deviation from the canonical form is an error.
+ */
+function createDearmorStream(): TransformStream<Uint8Array, Uint8Array> {
+  const decoder = new TextDecoder();
+  let pending = '';
+  let state: 'begin' | 'body' | 'end' = 'begin';
+  let sawLastLine = false;
+
+  const invalid = () => new Error("Invalid age armor.");
+
+  const readLine = (line: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (state === 'end') {
+      if (line.trim() !== '') throw invalid();
+      return;
+    }
+    if (line.endsWith('\r')) line = line.slice(0, -1);
+
+    if (state === 'begin') {
+      if (line !== ARMOR_BEGIN) throw invalid();
+      state = 'body';
+      return;
+    }
+    if (line === ARMOR_END) {
+      state = 'end';
+      return;
+    }
+
+    // Only the last line may be shorter than 64 columns or padded
+    const bytes = sawLastLine || line.length > LINE_LENGTH ? null : decodeCanonical(line, true);
+    if (!bytes || bytes.length === 0) throw invalid();
+    sawLastLine = line.length < LINE_LENGTH || line.endsWith('=');
+    controller.enqueue(bytes);
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      pending += decoder.decode(chunk, { stream: true });
+      if (state === 'begin') pending = pending.trimStart();
+
+      let newline: number;
+      while ((newline = pending.indexOf('\n')) !== -1) {
+        readLine(pending.slice(0, newline), controller);
+        pending = pending.slice(newline + 1);
+      }
+      if (state !== 'end' && pending.length > ARMOR_END.length + LINE_LENGTH) throw invalid();
+    },
+    flush(controller) {
+      pending += decoder.decode();
+      if (state === 'begin') pending = pending.trimStart();
+      if (pending.length > 0) readLine(pending, controller);
+      if (state !== 'end') throw invalid();
+    },
+  });
+}
+
+/**
+ * Checks whether a file is an age file, binary or armored
+ *
+ * @param file - The file to check
+ * @returns True if it starts with an age header or armor line
+ */
+export async function isAgeFile(file: Blob): Promise<boolean> {
+  const text = new TextDecoder().decode(await file.slice(0, 256).arrayBuffer()).trimStart();
+  return text.startsWith(`${AGE_VERSION_LINE}\n`) || text.startsWith(ARMOR_BEGIN);
+}
+
+/**
+ * Creates a transform that encrypts a byte stream into an age file
+ *
+ * A passphrase becomes a single scrypt stanza; age does not allow it
+ * alongside recipients. Each recipient gets an X25519 stanza.
+ *
+ * @param passphrase - The passphrase that opens the file, or null to
+ *   encrypt for recipients only
+ * @param options - Recipients, armoring and scrypt work factor
+ * @returns A TransformStream from plaintext to the age file
+ */
+export function createAgeEncryptStream(
+  passphrase: string | null,
+  options: AgeEncryptOptions = {}
+): TransformStream<Uint8Array, Uint8Array> {
+  const recipients = options.recipients ?? [];
+  if (passphrase !== null && recipients.length > 0) {
+    throw new Error("An age file opens with either a passphrase or recipients, not both.");
+  }
+  if (passphrase === null && recipients.length === 0) {
+    throw new Error("A passphrase or at least one recipient is required.");
+  }
+
+  const queue = new ByteQueue();
+  let payloadKey: Uint8Array;
+  let counter = 0;
+
+  const seal = (plaintext: Uint8Array, last: boolean) =>
+    chacha20poly1305(payloadKey, chunkNonce(counter++, last)).encrypt(plaintext);
+
+  const encrypt = new TransformStream<Uint8Array, Uint8Array>({
+    async start(controller) {
+      const fileKey = crypto.getRandomValues(new Uint8Array(FILE_KEY_LENGTH));
+      try {
+        const stanzas: Stanza[] = [];
+        if (passphrase !== null) {
+          const salt = crypto.getRandomValues(new Uint8Array(SCRYPT_SALT_LENGTH));
+          const workFactor = options.workFactor ?? AGE_SCRYPT_WORK_FACTOR;
+          const key = await scryptKey(passphrase, salt, workFactor);
+          stanzas.push({ type: 'scrypt', args: [encodeUnpadded(salt), String(workFactor)], body: wrapFileKey(key, fileKey) });
+          key.fill(0);
+        }
+        for (const recipient of recipients) {
+          const recipientKey = base64ToBytes(recipient);
+          let ephemeral: CryptoKeyPair;
+          try {
+            ephemeral = (await crypto.subtle.generateKey({ name: 'X25519' }, true, ['deriveBits'])) as CryptoKeyPair;
+          } catch (error) {
+            x25519Unsupported(error);
+          }
+          const share = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+          const key = await x25519WrapKey(ephemeral.privateKey, recipientKey, share, recipientKey);
+          stanzas.push({ type: 'X25519', args: [encodeUnpadded(share)], body: wrapFileKey(key, fileKey) });
+          key.fill(0);
+        }
+
+        const macInput = new TextEncoder().encode(`${AGE_VERSION_LINE}\n${stanzas.map(encodeStanza).join('')}---`);
+        const mac = await crypto.subtle.sign('HMAC', await headerMacKey(fileKey), macInput);
+        const nonce = crypto.getRandomValues(new Uint8Array(NONCE_LENGTH));
+        payloadKey = await hkdf(fileKey, nonce, 'payload');
+
+        controller.enqueue(concatBytes(macInput, new TextEncoder().encode(` ${encodeUnpadded(new Uint8Array(mac))}\n`), nonce));
+      } finally {
+        fileKey.fill(0);
+      }
+    },
+    transform(chunk, controller) {
+      queue.push(chunk);
+      // A full chunk is only sealed as non-final once more plaintext follows it
+      while (queue.length > CHUNK_SIZE) {
+        controller.enqueue(seal(queue.take(CHUNK_SIZE), false));
+      }
+    },
+    flush(controller) {
+      controller.enqueue(seal(queue.take(queue.length), true));
+      payloadKey.fill(0);
+    },
+  });
+
+  if (!options.armor) return encrypt;
+  const armor = createArmorStream();
+  return { writable: encrypt.writable, readable: encrypt.readable.pipeThrough(armor) };
+}
+
+/**
+ * Creates the transform that decrypts a binary age file
+ */
+function createBinaryDecryptStream(
+  passphrase: string,
+  options: AgeDecryptOptions
+): TransformStream<Uint8Array, Uint8Array> {
+  const queue = new ByteQueue();
+  let state: 'header' | 'nonce' | 'payload' = 'header';
+  let fileKey: Uint8Array;
+  let payloadKey: Uint8Array;
+  let counter = 0;
+
+  const loadIdentities = async (): Promise<X25519Identity[]> => {
+    const result: X25519Identity[] = [];
+    for (const secretKey of options.secretKeys ?? []) {
+      result.push(await importAgeSecretKey(secretKey));
+    }
+    for (const identity of options.identities ?? []) {
+      const privateKey = await unlockIdentity(identity, passphrase);
+      if (privateKey) result.push({ privateKey, publicKey: base64ToBytes(identity.publicKey) });
+    }
+    return result;
+  };
+
+  const open = (sealed: Uint8Array, last: boolean) => {
+    try {
+      return chacha20poly1305(payloadKey, chunkNonce(counter++, last)).decrypt(sealed);
+    } catch {
+      throw new Error("File is corrupted or truncated.");
+    }
+  };
+
+  /** Consumes the header once it has fully arrived; returns false if more is needed */
+  const readHeader = async (): Promise<boolean> => {
+    const buffered = queue.peek(Math.min(queue.length, MAX_HEADER_SIZE));
+    const prefix = new TextEncoder().encode(`${AGE_VERSION_LINE}\n`);
+    if (!prefix.subarray(0, buffered.length).every((b, i) => b === buffered[i])) {
+      throw new Error("Not an age file, or an unsupported age version.");
+    }
+
+    const headerEnd = findHeaderEnd(buffered);
+    if (headerEnd === -1) {
+      if (buffered.length >= MAX_HEADER_SIZE) throw corruptHeader("header is too large");
+      return false;
+    }
+
+    const { stanzas, mac, macInput } = parseHeader(queue.take(headerEnd));
+    fileKey = await openStanzas(stanzas, passphrase, loadIdentities);
+    const valid = await crypto.subtle.verify('HMAC', await headerMacKey(fileKey), mac, macInput);
+    if (!valid) throw corruptHeader("authentication failed");
+
+    state = 'nonce';
+    return true;
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      queue.push(chunk);
+
+      if (state === 'header' && !(await readHeader())) return;
+      if (state === 'nonce') {
+        if (queue.length < NONCE_LENGTH) return;
+        payloadKey = await hkdf(fileKey, queue.take(NONCE_LENGTH), 'payload');
+        fileKey.fill(0);
+        state = 'payload';
+      }
+
+      // A full chunk is only known to be non-final once more bytes follow it
+      while (queue.length > CHUNK_SIZE + TAG_LENGTH) {
+        controller.enqueue(open(queue.take(CHUNK_SIZE + TAG_LENGTH), false));
+      }
+    },
+    flush(controller) {
+      if (state === 'header') {
+        throw queue.length === 0 ? new Error("Not an age file, or an unsupported age version.") : corruptHeader();
+      }
+      if (state === 'nonce') {
+        throw corruptHeader("missing payload nonce");
+      }
+      // Only an empty payload is sealed as a single empty chunk
+      if (queue.length < TAG_LENGTH || (queue.length === TAG_LENGTH && counter > 0)) {
+        throw new Error("File is corrupted or truncated.");
+      }
+      controller.enqueue(open(queue.take(queue.length), true));
+      payloadKey.fill(0);
+    },
+  });
+}
+
+/**
+ * Creates a transform that decrypts an age file, binary or armored
+ *
+ * The first non-whitespace byte tells the two forms apart. X25519 stanzas
+ * are tried with the native secret keys and with the user's identities
+ * that the passphrase unlocks; an scrypt stanza is opened with the
+ * passphrase itself.
+ *
+ * @param passphrase - The passphrase of an scrypt stanza, or to unlock identities with
+ * @param options - The user's identities and native age secret keys
+ * @returns A TransformStream from the age file to plaintext
+ */
+export function createAgeDecryptStream(
+  passphrase: string,
+  options: AgeDecryptOptions = {}
+): TransformStream<Uint8Array, Uint8Array> {
+  let inner: AttachedTransform | null = null;
+  let skipped: Uint8Array[] = [];
+
+  /** Picks the binary or armored path from the first non-whitespace byte */
+  const choose = (byte: number | undefined, controller: TransformStreamDefaultController<Uint8Array>) => {
+    const binary = createBinaryDecryptStream(passphrase, options);
+    if (byte !== 0x2d) return attachTransform(binary, controller);
+
+    const dearmor = createDearmorStream();
+    return attachTransform({ writable: dearmor.writable, readable: dearmor.readable.pipeThrough(binary) }, controller);
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      if (!inner) {
+        const start = chunk.findIndex(b => b !== 0x20 && b !== 0x09 && b !== 0x0a && b !== 0x0d);
+        if (start === -1) {
+          skipped.push(chunk);
+          return;
+        }
+        inner = choose(chunk[start], controller);
+        for (const part of skipped) await inner.write(part);
+        skipped = [];
+      }
+      await inner.write(chunk);
+    },
+    async flush(controller) {
+      inner ??= choose(undefined, controller);
+      for (const part of skipped) await inner.write(part);
+      await inner.close();
+    },
+  });
+}
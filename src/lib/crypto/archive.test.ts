@@ -0,0 +1,96 @@
+/**
+ * Archive Tests
+ *
+ * Covers building, encrypting, listing and extracting multi-file archives.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  ARCHIVE_TYPE,
+  archiveName,
+  archiveSourcesFromFiles,
+  createArchiveStream,
+  createDecryptStream,
+  createEncryptStream,
+  extractArchiveEntry,
+  normalizeArchivePath,
+  readArchiveIndex,
+  streamToBlob,
+  type ArchiveSource,
+  type FileMetadata,
+  type KdfOptions,
+} from './index';
+
+const PASSPHRASE = 'correct horse battery staple';
+const FAST_KDF: KdfOptions = { id: 'pbkdf2-sha256', iterations: 1000 };
+
+/** Creates a File as if it had been picked from a folder */
+function folderFile(relativePath: string, contents: string, lastModified = 1700000000000): File {
+  const file = new File([contents], relativePath.split('/').pop()!, { type: 'text/plain', lastModified });
+  Object.defineProperty(file, 'webkitRelativePath', { value: relativePath });
+  return file;
+}
+
+test('archives round trip through encryption with paths and timestamps', async () => {
+  const sources = archiveSourcesFromFiles([
+    folderFile('project/README.md', '# Project'),
+    folderFile('project/src/index.ts', 'export {};', 1600000000000),
+    folderFile('project/empty.txt', ''),
+  ]);
+  assert.equal(archiveName(sources), 'project');
+
+  const metadata: FileMetadata = { name: 'project', type: ARCHIVE_TYPE };
+  const encrypted = await streamToBlob(
+    createArchiveStream(sources).pipeThrough(createEncryptStream(PASSPHRASE, { kdf: FAST_KDF, metadata, chunkSize: 16 }))
+  );
+
+  let restored: FileMetadata | undefined;
+  const archive = await streamToBlob(
+    encrypted.stream().pipeThrough(createDecryptStream(PASSPHRASE, { onMetadata: m => (restored = m) }))
+  );
+  assert.equal(restored?.type, ARCHIVE_TYPE);
+
+  const entries = await readArchiveIndex(archive);
+  assert.deepEqual(entries.map(e => [e.path, e.size]), [
+    ['project/README.md', 9],
+    ['project/src/index.ts', 10],
+    ['project/empty.txt', 0],
+  ]);
+
+  const extracted = extractArchiveEntry(archive, entries[1]);
+  assert.equal(extracted.name, 'index.ts');
+  assert.equal(extracted.lastModified, 1600000000000);
+  assert.equal(await extracted.text(), 'export {};');
+});
+
+test('clashing paths are renamed and unsafe paths are refused', () => {
+  const sources = archiveSourcesFromFiles([
+    new File(['a'], 'notes.txt'),
+    new File(['b'], 'notes.txt'),
+    new File(['c'], 'Makefile'),
+    new File(['d'], 'Makefile'),
+  ]);
+  assert.deepEqual(sources.map(s => s.entry.path), ['notes.txt', 'notes (2).txt', 'Makefile', 'Makefile (2)']);
+  assert.equal(archiveName(sources), 'archive');
+
+  assert.equal(normalizeArchivePath('a\\b/./c'), 'a/b/c');
+  assert.throws(() => normalizeArchivePath('../etc/passwd'), /Invalid path/);
+  assert.throws(() => normalizeArchivePath('/'), /Invalid path/);
+});
+
+test('a file whose size changed while archiving fails the stream', async () => {
+  const sources: ArchiveSource[] = [
+    { entry: { path: 'grown.txt', size: 3, lastModified: 0 }, file: new Blob(['four']) },
+  ];
+  await assert.rejects(streamToBlob(createArchiveStream(sources)), /changed while it was being read/);
+});
+
+test('archives whose contents do not match the index are rejected', async () => {
+  const sources = archiveSourcesFromFiles([new File(['hello'], 'hello.txt')]);
+  const archive = await streamToBlob(createArchiveStream(sources));
+
+  await assert.rejects(readArchiveIndex(archive.slice(0, archive.size - 1)), /do not match/);
+  await assert.rejects(readArchiveIndex(new Blob([new Uint8Array([0, 0, 0, 2]), '{}'])), /Corrupt archive index/);
+});
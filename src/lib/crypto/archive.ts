@@ -0,0 +1,277 @@
+/**
+ * LockMe Archives
+ *
+ * Several files, such as a whole project folder, can be encrypted into a
+ * single `.lockme`. The metadata record then carries `ARCHIVE_TYPE` and the
+ * rest of the plaintext is a simple tar-like archive:
+ *
+ *   u32 (big-endian) index length N | N bytes of UTF-8 JSON index | contents
+ *
+ * The index lists each entry's relative path, size and timestamp in the
+ * order their contents follow, so offsets are implied by the sizes. It
+ * comes first because every size is known before encryption starts; the
+ * contents can then be streamed, and an archive can be listed without
+ * reading any file data.
+ */
+
+/** MIME type recorded in the metadata of archive containers */
+export const ARCHIVE_TYPE = 'application/vnd.lockme.archive';
+
+/** Maximum number of entries in one archive */
+export const MAX_ARCHIVE_ENTRIES = 10000;
+
+/** Upper bound for the JSON index */
+const MAX_INDEX_LENGTH = 16 * 1024 * 1024;
+
+/**
+ * A file stored in an archive
+ */
+export interface ArchiveEntry {
+  /** Relative path using `/` separators, e.g. "src/index.ts" */
+  path: string;
+
+  /** Size in bytes */
+  size: number;
+
+  /** Last-modified time (ms since epoch) */
+  lastModified: number;
+
+  /** MIME type, if the browser reported one */
+  type?: string;
+}
+
+/**
+ * A file about to be written into an archive
+ */
+export interface ArchiveSource {
+  /** Index entry describing the file */
+  entry: ArchiveEntry;
+
+  /** The file contents */
+  file: Blob;
+}
+
+/**
+ * An entry read back from an archive, with the position of its contents
+ */
+export interface IndexedArchiveEntry extends ArchiveEntry {
+  /** Byte offset of the contents within the archive */
+  offset: number;
+}
+
+/**
+ * Normalizes a relative path for storage and validates it
+ *
+ * @param path - A relative path with `/` or `\` separators
+ * @returns The path with `/` separators and no empty or `.` segments
+ * @throws Error if the path is empty or escapes the archive root
+ */
+export function normalizeArchivePath(path: string): string {
+  const segments = path.split(/[\\/]/).filter(segment => segment !== '' && segment !== '.');
+  if (segments.length === 0 || segments.includes('..')) {
+    throw new Error(`Invalid path in archive: ${path}`);
+  }
+  return segments.join('/');
+}
+
+/**
+ * Builds archive sources from browser files
+ *
+ * Files picked from a folder keep their `webkitRelativePath`; loose files
+ * are stored at the archive root. Clashing paths get a numbered suffix.
+ *
+ * @param files - The files to archive
+ * @returns One source per file, in the given order
+ */
+export function archiveSourcesFromFiles(files: File[]): ArchiveSource[] {
+  if (files.length > MAX_ARCHIVE_ENTRIES) {
+    throw new Error(`Archives are limited to ${MAX_ARCHIVE_ENTRIES} files.`);
+  }
+
+  const used = new Set<string>();
+
+  return files.map(file => {
+    const path = normalizeArchivePath(file.webkitRelativePath || file.name);
+    let unique = path;
+
+    for (let n = 2; used.has(unique); n++) {
+      const dot = path.lastIndexOf('.');
+      const slash = path.lastIndexOf('/');
+      unique = dot > slash + 1
+        ? `${path.slice(0, dot)} (${n})${path.slice(dot)}`
+        : `${path} (${n})`;
+    }
+    used.add(unique);
+
+    return {
+      entry: { path: unique, size: file.size, lastModified: file.lastModified, type: file.type || undefined },
+      file,
+    };
+  });
+}
+
+/**
+ * Suggests a name for an archive
+ *
+ * @param sources - The archive contents
+ * @returns The shared top-level folder name, or "archive"
+ */
+export function archiveName(sources: ArchiveSource[]): string {
+  const roots = new Set(sources.map(({ entry }) => entry.path.split('/')[0]));
+  const [root] = roots;
+  const isFolder = roots.size === 1 && sources.every(({ entry }) => entry.path.includes('/'));
+  return isFolder ? root : 'archive';
+}
+
+/**
+ * Serializes the archive index, length prefix included
+ *
+ * @param entries - The entries in content order
+ * @returns The bytes that start the archive
+ */
+export function encodeArchiveIndex(entries: ArchiveEntry[]): Uint8Array {
+  const json = new TextEncoder().encode(JSON.stringify({ entries }));
+  if (json.length > MAX_INDEX_LENGTH) {
+    throw new Error("Archive index is too large.");
+  }
+
+  const index = new Uint8Array(4 + json.length);
+  new DataView(index.buffer).setUint32(0, json.length);
+  index.set(json, 4);
+  return index;
+}
+
+/**
+ * Streams an archive: the index followed by every file's contents
+ *
+ * Files are read one at a time, so memory use does not grow with the
+ * archive size.
+ *
+ * @param sources - The files to archive
+ * @returns A stream of archive bytes, ready to be encrypted
+ * @throws Error (through the stream) if a file's size changes while it is read
+ */
+export function createArchiveStream(sources: ArchiveSource[]): ReadableStream<Uint8Array> {
+  let current = -1;
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  let remaining = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encodeArchiveIndex(sources.map(source => source.entry)));
+    },
+    async pull(controller) {
+      for (;;) {
+        if (!reader) {
+          current++;
+          if (current === sources.length) {
+            controller.close();
+            return;
+          }
+          reader = sources[current].file.stream().getReader();
+          remaining = sources[current].entry.size;
+        }
+
+        const { done, value } = await reader.read();
+        if (done) {
+          reader = null;
+          if (remaining !== 0) {
+            throw new Error(`${sources[current].entry.path} changed while it was being read.`);
+          }
+          continue;
+        }
+
+        remaining -= value.length;
+        if (remaining < 0) {
+          throw new Error(`${sources[current].entry.path} changed while it was being read.`);
+        }
+        controller.enqueue(value);
+        return;
+      }
+    },
+    cancel(reason) {
+      return reader?.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Validates one entry read from an index
+ */
+function assertValidEntry(entry: ArchiveEntry): void {
+  if (
+    !entry ||
+    typeof entry.path !== 'string' ||
+    normalizeArchivePath(entry.path) !== entry.path ||
+    !Number.isSafeInteger(entry.size) ||
+    entry.size < 0 ||
+    !Number.isFinite(entry.lastModified) ||
+    (entry.type !== undefined && typeof entry.type !== 'string')
+  ) {
+    throw new Error("Corrupt archive index.");
+  }
+}
+
+/**
+ * Reads the index of a decrypted archive
+ *
+ * Only the index bytes are read; file contents stay untouched in the Blob.
+ *
+ * @param archive - The decrypted archive
+ * @returns Every entry with the offset of its contents
+ * @throws Error if the index is malformed or does not match the archive size
+ */
+export async function readArchiveIndex(archive: Blob): Promise<IndexedArchiveEntry[]> {
+  if (archive.size < 4) {
+    throw new Error("Corrupt archive index.");
+  }
+
+  const length = new DataView(await archive.slice(0, 4).arrayBuffer()).getUint32(0);
+  if (length > MAX_INDEX_LENGTH || 4 + length > archive.size) {
+    throw new Error("Corrupt archive index.");
+  }
+
+  let entries: ArchiveEntry[];
+  try {
+    entries = JSON.parse(await archive.slice(4, 4 + length).text()).entries;
+  } catch {
+    throw new Error("Corrupt archive index.");
+  }
+  if (!Array.isArray(entries) || entries.length > MAX_ARCHIVE_ENTRIES) {
+    throw new Error("Corrupt archive index.");
+  }
+
+  let offset = 4 + length;
+  const indexed = entries.map(entry => {
+    assertValidEntry(entry);
+    const item: IndexedArchiveEntry = {
+      path: entry.path,
+      size: entry.size,
+      lastModified: entry.lastModified,
+      type: entry.type,
+      offset,
+    };
+    offset += entry.size;
+    return item;
+  });
+
+  if (offset !== archive.size) {
+    throw new Error("Archive contents do not match its index.");
+  }
+  return indexed;
+}
+
+/**
+ * Extracts one entry from a decrypted archive without copying its data
+ *
+ * @param archive - The decrypted archive
+ * @param entry - An entry returned by `readArchiveIndex`
+ * @returns A File named after the entry's last path segment
+ */
+export function extractArchiveEntry(archive: Blob, entry: IndexedArchiveEntry): File {
+  const contents = archive.slice(entry.offset, entry.offset + entry.size);
+  return new File([contents], entry.path.split('/').pop()!, {
+    type: entry.type ?? '',
+    lastModified: entry.lastModified,
+  });
+}
@@ -0,0 +1,126 @@
+/**
+ * Armored Text Messages
+ *
+ * Wraps a `.lockme` container in copyable text so short secrets (a
+ * connection string, an API token) can be pasted into chat or email:
+ *
+ *   -----BEGIN LOCKME MESSAGE-----
+ *   Version: LockMe
+ *   Content: text/plain
+ *
+ *   <Base64 container, 64 columns>
+ *   -----END LOCKME MESSAGE-----
+ *
+ * The container authenticates itself, so no armor checksum is added.
+ * Reading is lenient about what chat apps do to pasted text: surrounding
+ * words, indentation, CRLF line endings and re-wrapped Base64 lines.
+ */
+
+import { isContainer } from './container';
+import { base64ToBytes, bytesToBase64 } from './encoding';
+import type { KdfOptions } from './kdf';
+import type { SlotCredentials, UnlockCredentials } from './slots';
+import { decryptBytes, encryptBytes } from './stream';
+
+/** Armor boundaries */
+export const LOCKME_ARMOR_BEGIN = '-----BEGIN LOCKME MESSAGE-----';
+export const LOCKME_ARMOR_END = '-----END LOCKME MESSAGE-----';
+
+/** Headers written into new messages */
+const DEFAULT_HEADERS: Record<string, string> = { Version: 'LockMe', Content: 'text/plain' };
+
+/** Base64 characters per armor line */
+const LINE_LENGTH = 64;
+
+/**
+ * Checks whether text contains an armored LockMe message
+ *
+ * @param text - Pasted text
+ * @returns True if the begin line appears in it
+ */
+export function isArmoredMessage(text: string): boolean {
+  return text.includes(LOCKME_ARMOR_BEGIN);
+}
+
+/**
+ * Wraps container bytes in LockMe message armor
+ *
+ * @param container - The `.lockme` container
+ * @param headers - Header lines written after the begin line
+ * @returns The armored text, ending with a newline
+ */
+export function armorContainer(container: Uint8Array, headers: Record<string, string> = DEFAULT_HEADERS): string {
+  const lines = bytesToBase64(container).match(new RegExp(`.{1,${LINE_LENGTH}}`, 'g')) ?? [];
+  return [
+    LOCKME_ARMOR_BEGIN,
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    ...lines,
+    LOCKME_ARMOR_END,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Extracts the container from armored text
+ *
+ * @param text - Text holding one armored message, possibly among other words
+ * @returns The container bytes
+ * @throws Error if the armor is missing, incomplete or does not hold a container
+ */
+export function dearmorContainer(text: string): Uint8Array {
+  const begin = text.indexOf(LOCKME_ARMOR_BEGIN);
+  if (begin === -1) throw new Error("No LockMe message found. Paste the whole block, including the BEGIN and END lines.");
+  const end = text.indexOf(LOCKME_ARMOR_END, begin);
+  if (end === -1) throw new Error("The LockMe message is incomplete. The END line is missing.");
+
+  const lines = text.slice(begin + LOCKME_ARMOR_BEGIN.length, end).split(/\r?\n/).map(line => line.trim());
+  // Header lines come first; a blank line usually ends them
+  const body = lines.filter(line => line !== '' && !/^[A-Za-z][A-Za-z0-9-]*: /.test(line)).join('');
+
+  const base64 = body.replace(/\s+/g, '');
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(base64) || base64.length % 4 !== 0) {
+    throw new Error("Invalid LockMe message armor.");
+  }
+
+  const container = base64ToBytes(base64);
+  if (!isContainer(container)) throw new Error("Invalid LockMe message armor.");
+  return container;
+}
+
+/**
+ * Encrypts text into an armored LockMe message
+ *
+ * @param text - The plaintext
+ * @param passphrase - The passphrase to derive the key from, or null when
+ *   only other credentials should open it
+ * @param kdf - Optional KDF choice; defaults to Argon2id
+ * @param credentials - Further credentials, such as extra passphrases
+ * @returns A Promise resolving to the armored message
+ */
+export async function encryptText(
+  text: string,
+  passphrase: string | null,
+  kdf?: KdfOptions,
+  credentials?: SlotCredentials
+): Promise<string> {
+  const container = await encryptBytes(new TextEncoder().encode(text), passphrase, kdf, credentials);
+  return armorContainer(container);
+}
+
+/**
+ * Decrypts an armored LockMe message back into text
+ *
+ * @param armored - Text holding the armored message
+ * @param passphrase - The passphrase to derive the key from
+ * @param credentials - Further credentials, such as a passkey evaluation
+ * @returns A Promise resolving to the plaintext
+ */
+export async function decryptText(
+  armored: string,
+  passphrase: string,
+  credentials?: Omit<UnlockCredentials, 'passphrase'>
+): Promise<string> {
+  const plaintext = await decryptBytes(dearmorContainer(armored), passphrase, credentials);
+  return new TextDecoder().decode(plaintext);
+}
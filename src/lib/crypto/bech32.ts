@@ -0,0 +1,111 @@
+/**
+ * Bech32
+ *
+ * The checksummed text encoding (BIP 173) of age recipients (`age1…`) and
+ * identities (`AGE-SECRET-KEY-1…`). As in age, strings are not limited to
+ * 90 characters; mixed case is rejected.
+ */
+
+/** The 32 characters, indexed by 5-bit value */
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+/** BCH code generator coefficients */
+const GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+/** Number of checksum characters */
+const CHECKSUM_LENGTH = 6;
+
+/**
+ * Computes the BCH checksum state over 5-bit values
+ */
+function polymod(values: number[]): number {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) checksum ^= GENERATOR[i];
+    }
+  }
+  return checksum;
+}
+
+/**
+ * Expands the human-readable part for checksumming
+ */
+function expandPrefix(prefix: string): number[] {
+  const codes = Array.from(prefix, c => c.charCodeAt(0));
+  return [...codes.map(c => c >> 5), 0, ...codes.map(c => c & 31)];
+}
+
+/**
+ * Regroups bits, e.g. bytes into 5-bit words and back
+ *
+ * @returns The regrouped values, or null if the padding is not all zeros
+ */
+function convertBits(values: ArrayLike<number>, from: number, to: number, pad: boolean): number[] | null {
+  const max = (1 << to) - 1;
+  const result: number[] = [];
+  let accumulator = 0;
+  let bits = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    accumulator = ((accumulator << from) | values[i]) & 0xffff;
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      result.push((accumulator >> bits) & max);
+    }
+  }
+
+  if (pad) {
+    if (bits > 0) result.push((accumulator << (to - bits)) & max);
+  } else if (bits >= from || ((accumulator << (to - bits)) & max)) {
+    return null;
+  }
+  return result;
+}
+
+/**
+ * Encodes bytes as a lowercase Bech32 string
+ *
+ * @param prefix - The human-readable part, e.g. "age"
+ * @param data - The bytes to encode
+ * @returns The encoded string
+ */
+export function bech32Encode(prefix: string, data: Uint8Array): string {
+  const words = convertBits(data, 8, 5, true)!;
+  const checksum = polymod([...expandPrefix(prefix), ...words, ...new Array(CHECKSUM_LENGTH).fill(0)]) ^ 1;
+  const checksumWords = Array.from({ length: CHECKSUM_LENGTH }, (_, i) => (checksum >>> (5 * (CHECKSUM_LENGTH - 1 - i))) & 31);
+
+  return `${prefix}1${[...words, ...checksumWords].map(word => CHARSET[word]).join('')}`;
+}
+
+/**
+ * Decodes a Bech32 string
+ *
+ * @param text - The encoded string, all lowercase or all uppercase
+ * @returns The lowercase human-readable part and the bytes, or null if the
+ *   string is malformed or its checksum does not match
+ */
+export function bech32Decode(text: string): { prefix: string; data: Uint8Array } | null {
+  if (text !== text.toLowerCase() && text !== text.toUpperCase()) return null;
+
+  const lower = text.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 1 + CHECKSUM_LENGTH > lower.length) return null;
+
+  const prefix = lower.slice(0, separator);
+  if (!/^[\x21-\x7e]+$/.test(prefix)) return null;
+
+  const words: number[] = [];
+  for (const char of lower.slice(separator + 1)) {
+    const word = CHARSET.indexOf(char);
+    if (word === -1) return null;
+    words.push(word);
+  }
+  if (polymod([...expandPrefix(prefix), ...words]) !== 1) return null;
+
+  const bytes = convertBits(words.slice(0, -CHECKSUM_LENGTH), 5, 8, false);
+  return bytes ? { prefix, data: Uint8Array.from(bytes) } : null;
+}
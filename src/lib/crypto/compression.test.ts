@@ -0,0 +1,133 @@
+/**
+ * Compression Tests
+ *
+ * Covers compressed round trips, skipping already compressed types, and
+ * the header field that records the format.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  concatBytes,
+  createDecryptStream,
+  createEncryptStream,
+  generateSigningIdentity,
+  parseContainer,
+  readContainerHeader,
+  streamToBlob,
+  unlockSigningIdentity,
+  type CompressionId,
+  type FileMetadata,
+  type KdfOptions,
+  type SignatureCheck,
+  type SigningKey,
+} from './index';
+
+const FAST_KDF: KdfOptions = { id: 'pbkdf2-sha256', iterations: 1000 };
+const PASSPHRASE = 'compress me';
+
+/** Repetitive CSV text that compresses well */
+const CSV = new TextEncoder().encode('id,name,amount\n' + Array.from({ length: 500 }, (_, i) => `${i},customer,${i % 7}.00\n`).join(''));
+
+/** Builds a container prefix and header with the given version */
+function encodeHeader(header: object, version: number): Uint8Array {
+  const json = new TextEncoder().encode(JSON.stringify(header));
+  const prefix = new Uint8Array(11);
+  prefix.set(new TextEncoder().encode('LOCKME'));
+  prefix[6] = version;
+  new DataView(prefix.buffer).setUint32(7, json.length);
+  return concatBytes(prefix, json);
+}
+
+/** Encrypts with the given compression and metadata */
+async function encrypt(
+  data: Uint8Array,
+  compression?: CompressionId,
+  metadata: FileMetadata = { name: 'export.csv', type: 'text/csv' },
+  signer?: SigningKey
+): Promise<Blob> {
+  return streamToBlob(
+    new Blob([data]).stream().pipeThrough(createEncryptStream(PASSPHRASE, { kdf: FAST_KDF, compression, metadata, signer, chunkSize: 256 }))
+  );
+}
+
+/** Decrypts and returns the plaintext, metadata and signature check */
+async function decrypt(file: Blob): Promise<{ plaintext: Uint8Array; metadata?: FileMetadata; check?: SignatureCheck }> {
+  let metadata: FileMetadata | undefined;
+  let check: SignatureCheck | undefined;
+  const blob = await streamToBlob(
+    file.stream().pipeThrough(createDecryptStream(PASSPHRASE, { onMetadata: m => { metadata = m; }, onSignature: c => { check = c; } }))
+  );
+  return { plaintext: new Uint8Array(await blob.arrayBuffer()), metadata, check };
+}
+
+for (const compression of ['gzip', 'deflate'] as const) {
+  test(`${compression} content is recorded in the header and decompressed`, async () => {
+    for (const data of [new Uint8Array(0), CSV]) {
+      const file = await encrypt(data, compression);
+      assert.equal((await readContainerHeader(file)).header.compression, compression);
+
+      const { plaintext, metadata } = await decrypt(file);
+      assert.deepEqual(plaintext, data);
+      assert.equal(metadata?.name, 'export.csv');
+    }
+
+    const uncompressed = await encrypt(CSV);
+    assert.ok((await encrypt(CSV, compression)).size * 5 < uncompressed.size);
+  });
+}
+
+test('content expanding past the recorded size is rejected', async () => {
+  // Megabytes of zeros shrink to a few kilobytes, while the metadata claims a small file
+  const zeros = new Uint8Array(4 * 1024 * 1024);
+  const bomb = await encrypt(zeros, 'gzip', { name: 'notes.txt', type: 'text/plain', size: 1024 });
+  assert.ok(bomb.size < 16 * 1024);
+  await assert.rejects(decrypt(bomb), /expands past the size recorded/);
+
+  const honest = await encrypt(zeros, 'gzip', { name: 'notes.txt', type: 'text/plain', size: zeros.length });
+  assert.equal((await decrypt(honest)).plaintext.length, zeros.length);
+});
+
+test('already compressed types are stored as they are', async () => {
+  for (const metadata of [{ name: 'photo.jpg', type: 'image/jpeg' }, { name: 'backup.zip' }, { name: 'clip.mp4', type: 'video/mp4' }]) {
+    const file = await encrypt(CSV, 'gzip', metadata);
+    assert.equal((await readContainerHeader(file)).header.compression, undefined, metadata.name);
+    assert.deepEqual((await decrypt(file)).plaintext, CSV);
+  }
+});
+
+test('uncompressed audio is compressed, compressed audio is not', async () => {
+  for (const metadata of [{ name: 'take.wav', type: 'audio/wav' }, { name: 'take.wav', type: 'audio/x-wav' }, { name: 'take.aiff', type: 'audio/aiff' }, { name: 'take.wav' }]) {
+    const file = await encrypt(CSV, 'gzip', metadata);
+    assert.equal((await readContainerHeader(file)).header.compression, 'gzip', metadata.name);
+  }
+  for (const metadata of [{ name: 'song.mp3', type: 'audio/mpeg' }, { name: 'voice.ogg', type: 'audio/ogg' }, { name: 'album.flac', type: 'audio/flac' }]) {
+    const file = await encrypt(CSV, 'gzip', metadata);
+    assert.equal((await readContainerHeader(file)).header.compression, undefined, metadata.name);
+  }
+});
+
+test('signatures cover compressed content', async () => {
+  const identity = await generateSigningIdentity('ed25519', 'signing passphrase', FAST_KDF);
+  const signer = (await unlockSigningIdentity(identity, 'signing passphrase'))!;
+
+  const { plaintext, check } = await decrypt(await encrypt(CSV, 'gzip', undefined, signer));
+  assert.deepEqual(plaintext, CSV);
+  assert.equal(check?.valid, true);
+});
+
+test('the compression field is authenticated and version checked', async () => {
+  const bytes = new Uint8Array(await (await encrypt(CSV, 'gzip')).arrayBuffer());
+  const { version, header, payload } = parseContainer(bytes);
+
+  // Dropping the field would hand out compressed bytes as the plaintext
+  const stripped = new Blob([encodeHeader({ ...header, compression: undefined }, version), payload]);
+  await assert.rejects(decrypt(stripped), /Incorrect passphrase or corrupted file/);
+
+  const older = encodeHeader(header, 5);
+  assert.throws(() => parseContainer(older), /invalid compression/);
+
+  const unknown = encodeHeader({ ...header, compression: 'zstd' as CompressionId }, version);
+  assert.throws(() => parseContainer(unknown), /Unsupported compression/);
+});
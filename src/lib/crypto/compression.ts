@@ -0,0 +1,69 @@
+/**
+ * Compression
+ *
+ * Optional compression of the file contents before encryption, using the
+ * Compression Streams API built into browsers and Node 18+. The format is
+ * recorded in the container header (`header.compression`, v6+) and the
+ * decryptor reverses it. The metadata record stays uncompressed, and a
+ * signature covers the compressed bytes that were encrypted.
+ *
+ * Ciphertext does not compress, so this is the only point where text, CSV
+ * or database dumps can shrink. Contents that are already compressed
+ * (images, video, compressed audio, archives) are left alone; uncompressed
+ * audio such as WAV or AIFF is still compressed.
+ */
+
+import type { FileMetadata } from './metadata';
+
+/** Supported formats, named as in the Compression Streams API */
+export type CompressionId = 'gzip' | 'deflate';
+
+/** All supported formats, for validation and pickers */
+export const COMPRESSION_IDS: readonly CompressionId[] = ['gzip', 'deflate'];
+
+/** MIME types (or type prefixes ending in "/") whose content is already compressed */
+const COMPRESSED_TYPES = [
+  'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/avif', 'image/heic',
+  'video/', 'audio/mpeg', 'audio/mp4', 'audio/aac', 'audio/x-m4a', 'audio/ogg', 'audio/opus',
+  'audio/flac', 'audio/x-flac', 'audio/webm',
+  'application/zip', 'application/gzip', 'application/x-gzip', 'application/zstd',
+  'application/x-7z-compressed', 'application/vnd.rar', 'application/x-rar-compressed',
+  'application/x-bzip2', 'application/x-xz', 'application/pdf',
+  'application/vnd.openxmlformats-officedocument.', 'application/epub+zip',
+];
+
+/** Extensions of already compressed files, for files without a MIME type */
+const COMPRESSED_EXTENSIONS = new Set([
+  'jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'heic',
+  'mp4', 'm4v', 'mov', 'mkv', 'webm', 'avi', 'mp3', 'm4a', 'aac', 'ogg', 'opus', 'flac',
+  'zip', 'gz', 'tgz', 'zst', '7z', 'rar', 'bz2', 'xz', 'pdf',
+  'docx', 'xlsx', 'pptx', 'epub', 'jar', 'apk', 'lockme',
+]);
+
+/**
+ * Checks whether a file's contents are already compressed
+ *
+ * @param metadata - The file's name and type, if known
+ * @returns True if compressing it again would not help
+ */
+export function isAlreadyCompressed(metadata: FileMetadata = {}): boolean {
+  const type = metadata.type?.toLowerCase() ?? '';
+  if (type && COMPRESSED_TYPES.some(prefix => prefix.endsWith('/') || prefix.endsWith('.') ? type.startsWith(prefix) : type === prefix)) {
+    return true;
+  }
+
+  const extension = metadata.name?.toLowerCase().split('.').pop();
+  return !!extension && metadata.name!.includes('.') && COMPRESSED_EXTENSIONS.has(extension);
+}
+
+/**
+ * Validates the compression named in a parsed header
+ *
+ * @param compression - The parsed value
+ * @throws Error if the format is not supported
+ */
+export function assertValidCompression(compression: CompressionId): void {
+  if (!COMPRESSION_IDS.includes(compression)) {
+    throw new Error(`Unsupported compression: ${String(compression)}.`);
+  }
+}
@@ -0,0 +1,330 @@
+/**
+ * LockMe Container Format
+ *
+ * Defines the self-describing `.lockme` file layout and the routines that
+ * read and write its header.
+ *
+ * Layout:
+ *
+ *   offset  size  field
+ *   0       6     magic "LOCKME"
+ *   6       1     format version
+ *   7       4     header length N (big-endian uint32)
+ *   11      N     header (UTF-8 JSON, see `ContainerHeader`)
+ *   11+N    ...   payload
+ *
+ * The header is passed to AES-GCM as additional authenticated data, so any
+ * change to it (KDF cost, nonce, version) causes decryption to fail instead
+ * of silently using other parameters. Up to v3 that is everything before
+ * the payload; from v4 the key slots are left out (see `payloadAad`) so
+ * they can change without re-encrypting the payload.
+ *
+ * Payload by version:
+ * - v1: a single AES-GCM ciphertext + tag, using `header.iv`.
+ * - v2: a sequence of independently authenticated chunks (see `stream.ts`),
+ *   described by `header.stream`.
+ * - v3: as v2, but the plaintext starts with an encrypted metadata record
+ *   holding the original file name, type, size and mtime (see `metadata.ts`).
+ * - v4: as v3, but encrypted under a random data key that `header.slots`
+ *   wraps for each passphrase or recipient (see `slots.ts`).
+ * - v5: as v4; when `header.signer` is set, the plaintext ends with the
+ *   signer's signature (see `signing.ts`).
+ * - v6: as v5; when `header.compression` is set, the content after the
+ *   metadata record is compressed (see `compression.ts`).
+ *
+ * Files produced before the container existed are a bare
+ * `salt(16) | iv(12) | ciphertext` concatenation. They have no magic bytes
+ * and are still accepted through a legacy path.
+ */
+
+import { base64ToBytes, bytesToBase64, concatBytes } from './encoding';
+import {
+  assertValidKdfParams,
+  deriveKey,
+  PBKDF2_ITERATIONS,
+  SALT_LENGTH,
+  type KdfParams,
+} from './kdf';
+import { assertValidCompression, type CompressionId } from './compression';
+import { assertValidSigner, type SignerInfo } from './signing';
+import { assertValidSlots, type KeySlot } from './slots';
+
+/** Magic bytes identifying a LockMe container */
+export const CONTAINER_MAGIC = new Uint8Array([0x4c, 0x4f, 0x43, 0x4b, 0x4d, 0x45]); // "LOCKME"
+
+/** Container format version written by this build */
+export const CONTAINER_VERSION = 6;
+
+/** AES-GCM initialization vector length in bytes */
+export const IV_LENGTH = 12;
+
+/** Upper bound for the JSON header, guards against reading garbage lengths */
+const MAX_HEADER_LENGTH = 64 * 1024;
+
+/** Size of the fixed prefix: magic + version + header length */
+export const PREFIX_LENGTH = CONTAINER_MAGIC.length + 1 + 4;
+
+/** Supported payload ciphers */
+export type CipherId = 'aes-256-gcm';
+
+/**
+ * Parameters of a chunked (STREAM) payload
+ */
+export interface StreamParams {
+  /** Plaintext bytes per chunk; every chunk but the last is exactly this size */
+  chunkSize: number;
+
+  /** Base64-encoded random nonce prefix shared by all chunks */
+  noncePrefix: string;
+}
+
+/**
+ * JSON header stored in every container
+ */
+export interface ContainerHeader {
+  /** Key derivation function and its parameters (v1 to v3) */
+  kdf?: KdfParams;
+
+  /** Data key slots (v4 and later) */
+  slots?: KeySlot[];
+
+  /** Cipher used for the payload */
+  cipher: CipherId;
+
+  /** Base64-encoded AES-GCM IV of a single-shot payload (v1 only) */
+  iv?: string;
+
+  /** Chunking parameters of a streamed payload (v2 and later) */
+  stream?: StreamParams;
+
+  /** Key that signed the plaintext (v5 and later, optional) */
+  signer?: SignerInfo;
+
+  /** Compression applied to the content before encryption (v6 and later, optional) */
+  compression?: CompressionId;
+}
+
+/**
+ * Result of parsing a container
+ */
+export interface ParsedContainer {
+  /** Format version read from the prefix */
+  version: number;
+
+  /** Decoded header */
+  header: ContainerHeader;
+
+  /** Raw prefix and header bytes, used as AES-GCM additional data */
+  headerBytes: Uint8Array;
+
+  /** Encrypted payload following the header */
+  payload: Uint8Array;
+}
+
+/**
+ * Checks whether a buffer starts with the container magic bytes
+ *
+ * @param bytes - The file contents (or at least its first bytes)
+ * @returns True if the buffer looks like a versioned container
+ */
+export function isContainer(bytes: Uint8Array): boolean {
+  if (bytes.length < CONTAINER_MAGIC.length) return false;
+  return CONTAINER_MAGIC.every((value, index) => bytes[index] === value);
+}
+
+/**
+ * Serializes a header into the prefix + JSON bytes written at the start of a file
+ *
+ * @param header - The header to encode
+ * @param version - Format version to record; defaults to the current one
+ * @returns The bytes to write before the payload
+ */
+export function encodeContainerHeader(header: ContainerHeader, version = CONTAINER_VERSION): Uint8Array {
+  const json = new TextEncoder().encode(JSON.stringify(header));
+  const prefix = new Uint8Array(PREFIX_LENGTH);
+
+  prefix.set(CONTAINER_MAGIC, 0);
+  prefix[CONTAINER_MAGIC.length] = version;
+  new DataView(prefix.buffer).setUint32(CONTAINER_MAGIC.length + 1, json.length);
+
+  return concatBytes(prefix, json);
+}
+
+/**
+ * Validates a decoded header before any of its values are used
+ *
+ * @param header - The header parsed from JSON
+ * @param version - The format version the header was read with
+ * @throws Error if a required field is missing or unsupported
+ */
+function assertValidHeader(header: ContainerHeader, version: number): void {
+  if (!header || typeof header !== 'object') {
+    throw new Error("Corrupt file header.");
+  }
+  if (version >= 4) {
+    assertValidSlots(header.slots!);
+  } else {
+    assertValidKdfParams(header.kdf!);
+  }
+  if (header.cipher !== 'aes-256-gcm') {
+    throw new Error(`Unsupported cipher: ${String(header.cipher)}.`);
+  }
+  if (header.signer !== undefined) {
+    if (version < 5) {
+      throw new Error("Corrupt file header: invalid signer.");
+    }
+    assertValidSigner(header.signer);
+  }
+  if (header.compression !== undefined) {
+    if (version < 6) {
+      throw new Error("Corrupt file header: invalid compression.");
+    }
+    assertValidCompression(header.compression);
+  }
+
+  if (version === 1) {
+    if (decodedLength(header.iv) !== IV_LENGTH) {
+      throw new Error("Corrupt file header: invalid IV.");
+    }
+    return;
+  }
+
+  const { stream } = header;
+  if (
+    !stream ||
+    !Number.isInteger(stream.chunkSize) ||
+    stream.chunkSize < 1 ||
+    stream.chunkSize > 16 * 1024 * 1024 ||
+    decodedLength(stream.noncePrefix) === null
+  ) {
+    throw new Error("Corrupt file header: invalid stream parameters.");
+  }
+}
+
+/**
+ * Returns the byte length of a Base64 header field, or null when the field
+ * is not a string or not valid Base64 (which `atob` reports as a DOMException)
+ */
+function decodedLength(field: unknown): number | null {
+  if (typeof field !== 'string') return null;
+  try {
+    return base64ToBytes(field).length;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Computes the additional authenticated data for a container's payload
+ *
+ * Up to v3 this is the raw prefix and header. From v4 it is the magic,
+ * version and the header JSON without `slots`, so slots can be added or
+ * removed while everything else stays bound to the payload.
+ *
+ * @param version - The container version
+ * @param header - The decoded header
+ * @param headerBytes - The raw prefix and header bytes
+ * @returns The bytes to pass as AES-GCM additional data
+ */
+export function payloadAad(version: number, header: ContainerHeader, headerBytes: Uint8Array): Uint8Array {
+  if (version < 4) return headerBytes;
+
+  const authenticated = new TextEncoder().encode(JSON.stringify({ ...header, slots: undefined }));
+  return concatBytes(CONTAINER_MAGIC, new Uint8Array([version]), authenticated);
+}
+
+/**
+ * Reads the fixed prefix of a container
+ *
+ * @param bytes - At least the first `PREFIX_LENGTH` bytes of the file
+ * @returns The format version and the total length of prefix + header
+ * @throws Error if the prefix is malformed or the version is unsupported
+ */
+export function readContainerPrefix(bytes: Uint8Array): { version: number; headerEnd: number } {
+  if (!isContainer(bytes) || bytes.length < PREFIX_LENGTH) {
+    throw new Error("Not a LockMe container.");
+  }
+
+  const version = bytes[CONTAINER_MAGIC.length];
+  if (version < 1 || version > CONTAINER_VERSION) {
+    throw new Error(`File uses format version ${version}, which this version of LockMe cannot read.`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerLength = view.getUint32(CONTAINER_MAGIC.length + 1);
+  if (headerLength > MAX_HEADER_LENGTH) {
+    throw new Error("Corrupt file header: invalid length.");
+  }
+
+  return { version, headerEnd: PREFIX_LENGTH + headerLength };
+}
+
+/**
+ * Parses a versioned container
+ *
+ * @param bytes - The file contents, at least up to the end of the header
+ * @returns The parsed header, its raw bytes and whatever payload follows it
+ * @throws Error if the data is not a valid container of a supported version
+ */
+export function parseContainer(bytes: Uint8Array): ParsedContainer {
+  const { version, headerEnd } = readContainerPrefix(bytes);
+  if (headerEnd > bytes.length) {
+    throw new Error("Corrupt file header: invalid length.");
+  }
+
+  let header: ContainerHeader;
+  try {
+    header = JSON.parse(new TextDecoder().decode(bytes.subarray(PREFIX_LENGTH, headerEnd)));
+  } catch {
+    throw new Error("Corrupt file header.");
+  }
+  assertValidHeader(header, version);
+
+  return {
+    version,
+    header,
+    headerBytes: bytes.subarray(0, headerEnd),
+    payload: bytes.subarray(headerEnd),
+  };
+}
+
+/**
+ * Decrypts a payload that was encrypted in one piece
+ *
+ * Handles both v1 containers and legacy headerless files. Newer files are
+ * streamed instead, see `createDecryptStream`.
+ *
+ * @param bytes - The complete file contents
+ * @param passphrase - The passphrase used when the file was created
+ * @returns The decrypted plaintext
+ */
+export async function decryptSingleShot(bytes: Uint8Array, passphrase: string): Promise<ArrayBuffer> {
+  if (isContainer(bytes)) {
+    const { header, headerBytes, payload } = parseContainer(bytes);
+    const key = await deriveKey(passphrase, header.kdf!, ['decrypt']);
+
+    return crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(header.iv!), additionalData: headerBytes },
+      key,
+      payload
+    );
+  }
+
+  // Legacy layout: salt | iv | ciphertext, PBKDF2 at the original cost
+  if (bytes.length < SALT_LENGTH + IV_LENGTH) {
+    throw new Error("Invalid encrypted file format.");
+  }
+
+  const kdf: KdfParams = {
+    id: 'pbkdf2-sha256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: bytesToBase64(bytes.subarray(0, SALT_LENGTH)),
+  };
+  const key = await deriveKey(passphrase, kdf, ['decrypt']);
+
+  return crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: bytes.subarray(SALT_LENGTH, SALT_LENGTH + IV_LENGTH) },
+    key,
+    bytes.subarray(SALT_LENGTH + IV_LENGTH)
+  );
+}
@@ -0,0 +1,282 @@
+/**
+ * Crypto Core Tests
+ *
+ * Node-runnable suite (`npm test`) covering known-answer vectors for every
+ * container version, round trips, tamper detection and wrong passphrases.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCipheriv, createDecipheriv, pbkdf2Sync } from 'node:crypto';
+
+import {
+  base64ToBytes,
+  bytesToBase64,
+  concatBytes,
+  createDecryptStream,
+  createEncryptStream,
+  decryptBytes,
+  decryptFromBase64,
+  encryptBytes,
+  encryptToBase64,
+  parseContainer,
+  streamToBlob,
+  type FileMetadata,
+  type KdfOptions,
+  type SignatureCheck,
+} from './index';
+
+const PASSPHRASE = 'correct horse battery staple';
+const PLAINTEXT = 'LockMe known-answer vector';
+
+/** Cheap KDF settings so round-trip tests stay fast */
+const FAST_KDF: KdfOptions = { id: 'pbkdf2-sha256', iterations: 1000 };
+
+/** Fixed files produced by earlier builds; decrypting them must keep working */
+const VECTORS = {
+  v6Gzip: 'TE9DS01FBgAAAUB7ImNpcGhlciI6ImFlcy0yNTYtZ2NtIiwic3RyZWFtIjp7ImNodW5rU2l6ZSI6NjU1MzYsIm5vbmNlUHJlZml4IjoiZ2VET3h6QWFIZz09In0sImNvbXByZXNzaW9uIjoiZ3ppcCIsInNsb3RzIjpbeyJ0eXBlIjoicGFzc3BocmFzZSIsImtkZiI6eyJpZCI6InBia2RmMi1zaGEyNTYiLCJpdGVyYXRpb25zIjoxMDAwLCJzYWx0IjoicFgyb2FQbGw4NndmTDcybjV0SlpqUT09In0sIml2IjoiRjJaT3lJdmJFaXA4MWRzUyIsImNpcGhlcnRleHQiOiJHL0N5VkpPQmFmMnVkUmsxMHhVb0J0cGlkbi9QZzZCTjRXZ1pyNURBWWFMeEFnaXlwZjF3VmdVVVZEL1kwMVBCIn1dfeq3ALlghZRGkCOSpqV1k65WLSD9n1fNpIl/aPJ0B0jFJCLy/fkg1/Ab4K6+DVAAPP1tawocVkzB3db9jVEWRV1JeyVk',
+  v5Signed: 'TE9DS01FBQAAAbh7ImNpcGhlciI6ImFlcy0yNTYtZ2NtIiwic3RyZWFtIjp7ImNodW5rU2l6ZSI6NjU1MzYsIm5vbmNlUHJlZml4IjoiejU5eDJPciswZz09In0sInNpZ25lciI6eyJhbGdvcml0aG0iOiJlZDI1NTE5IiwicHVibGljS2V5IjoicFVFMVQ1MnQ1Z1V6bWRJUmN3V1YzK2VHR0tKbDVYalJ5eHpiVG82ZUFLcz0iLCJmaW5nZXJwcmludCI6ImU0MTY0MjVmZmFkMjljZjQ1YTVlODllYzc3YjkxYzVlIn0sInNsb3RzIjpbeyJ0eXBlIjoicGFzc3BocmFzZSIsImtkZiI6eyJpZCI6InBia2RmMi1zaGEyNTYiLCJpdGVyYXRpb25zIjoxMDAwLCJzYWx0IjoicjRPVlVmQ2c1aklCNzZsVWVFUFl6dz09In0sIml2IjoiWnI3NTlUaFAvS0N4M1QzVyIsImNpcGhlcnRleHQiOiI2MDdUd0piZmE3aVFHUk5MZ1BYc2tUZTBBTXp1d1I2OXlURkN5RDB5Ti85eTA4cXc5N0tSWEgyb3lDLzVZV1ZaIn1dfYS26Dg/3m5saE+i0sfh0OMZq9hgpnFGiZzg7jLQq62QDcTg94axzprIQTs3crCfeMf7Pfsppv35qvz0e1cxVDsgDaBX59ptC5m1KYQogxrAataupszE314NFgTQCJSau5OiCiDl16dKwe84/b6EjkE=',
+  v4Slots: 'TE9DS01FBAAAASt7ImNpcGhlciI6ImFlcy0yNTYtZ2NtIiwic3RyZWFtIjp7ImNodW5rU2l6ZSI6NjU1MzYsIm5vbmNlUHJlZml4IjoiRStBQkw4KzhiQT09In0sInNsb3RzIjpbeyJ0eXBlIjoicGFzc3BocmFzZSIsImtkZiI6eyJpZCI6InBia2RmMi1zaGEyNTYiLCJpdGVyYXRpb25zIjoxMDAwLCJzYWx0IjoiWXFqR1hkV3JNNDhIeGt1blZkcVNTZz09In0sIml2IjoicjdQeWhHMlBJTXc5Z0NkZyIsImNpcGhlcnRleHQiOiI1T3NjdjlxR1VWZC8yQWk4M3YwL0daTWc5QmhSd3N3ZVdEc1U3L0V4RWpxWi96YXdxMnlxcGNEOTRyOThvdHRJIn1dfSGO6REtb+r+RP2LXTWHeyQ001sA+AwIyqyQmqBpMt2Lel7w2AqDL8MunGxp/3UPQQ==',
+  v3Pbkdf2: 'TE9DS01FAwAAAKN7ImtkZiI6eyJpZCI6InBia2RmMi1zaGEyNTYiLCJpdGVyYXRpb25zIjoxMDAwLCJzYWx0Ijoid1VUczZmb05TcDdVSG5YOHBPSUFHdz09In0sImNpcGhlciI6ImFlcy0yNTYtZ2NtIiwic3RyZWFtIjp7ImNodW5rU2l6ZSI6NjU1MzYsIm5vbmNlUHJlZml4IjoiN0pWZG9LeForQT09In19lL0rtavf6nrZFooCl+iSElh6tbMykXRUVnXoPyw8dqzF3T30aJizSOlXcNskBq/4',
+  v2Pbkdf2: 'TE9DS01FAgAAAKN7ImtkZiI6eyJpZCI6InBia2RmMi1zaGEyNTYiLCJpdGVyYXRpb25zIjoxMDAwLCJzYWx0IjoiZElUR2NYZFg5U1E2MGdZQ21xbUR3UT09In0sImNpcGhlciI6ImFlcy0yNTYtZ2NtIiwic3RyZWFtIjp7ImNodW5rU2l6ZSI6NjU1MzYsIm5vbmNlUHJlZml4IjoiK3hIV01EYm1BQT09In19LGpldq4Ic7fvzAJRRNdOpQrKGM5k3P92ymh37bycrvDzbvsJi2C3JFRW',
+  v2Argon2id: 'TE9DS01FAgAAALl7ImtkZiI6eyJpZCI6ImFyZ29uMmlkIiwibWVtb3J5Ijo4MTkyLCJpdGVyYXRpb25zIjoxLCJwYXJhbGxlbGlzbSI6MSwic2FsdCI6ImtWNWs0TnRWS0xtd2g2M0Y4RU0rUlE9PSJ9LCJjaXBoZXIiOiJhZXMtMjU2LWdjbSIsInN0cmVhbSI6eyJjaHVua1NpemUiOjY1NTM2LCJub25jZVByZWZpeCI6IllPUEx1MFh3NWc9PSJ9ffOP7EGjlQmggXWoUOjVs0yAFVnuKmShKFHDcgdKJPtg/FJsgcsX40/wHg==',
+  v1: 'TE9DS01FAQAAAIF7ImtkZiI6eyJpZCI6InBia2RmMi1zaGEyNTYiLCJpdGVyYXRpb25zIjoxMDAwLCJzYWx0IjoiQUFFQ0F3UUZCZ2NJQ1FvTERBME9Edz09In0sImNpcGhlciI6ImFlcy0yNTYtZ2NtIiwiaXYiOiJaR1ZtWjJocGFtdHNiVzV2In2p/oCF/R4nTHf4IjXMCf6jACJF2hmsJk/3bpsvdT9JZ1b29/vy6rB9Zi8=',
+  legacy: 'AAECAwQFBgcICQoLDA0OD2RlZmdoaWprbG1ub6bS8uP5iuukl8e69LLypFBZ/qE1ZEcjcegJx7zpofu1Q8+iU6hyB0T/IA==',
+};
+
+/** Deterministic, non-repeating-per-chunk test data */
+function sampleBytes(length: number): Uint8Array {
+  return new Uint8Array(length).map((_, i) => (i * 31 + (i >> 8)) & 0xff);
+}
+
+/** Encrypts with a custom segment size */
+async function encryptWithChunkSize(data: Uint8Array, chunkSize: number): Promise<Uint8Array> {
+  const blob = await streamToBlob(
+    new Blob([data]).stream().pipeThrough(createEncryptStream(PASSPHRASE, { kdf: FAST_KDF, chunkSize }))
+  );
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+test('known-answer vectors decrypt for every container version', async () => {
+  for (const [name, vector] of Object.entries(VECTORS)) {
+    const plaintext = await decryptBytes(base64ToBytes(vector), PASSPHRASE);
+    assert.equal(new TextDecoder().decode(plaintext), PLAINTEXT, name);
+  }
+});
+
+test('the v5 and v6 vectors keep their signature and compression', async () => {
+  const v6 = parseContainer(base64ToBytes(VECTORS.v6Gzip));
+  assert.equal(v6.version, 6);
+  assert.equal(v6.header.compression, 'gzip');
+
+  const v5 = base64ToBytes(VECTORS.v5Signed);
+  assert.equal(parseContainer(v5).version, 5);
+  let signature: SignatureCheck | undefined;
+  const blob = await streamToBlob(
+    new Blob([v5]).stream().pipeThrough(createDecryptStream(PASSPHRASE, { onSignature: check => { signature = check; } }))
+  );
+  assert.equal(await blob.text(), PLAINTEXT);
+  assert.equal(signature?.valid, true);
+  assert.equal(signature?.signer.algorithm, 'ed25519');
+});
+
+test('the v4 vector opens through a passphrase slot outside the payload AAD', async () => {
+  const container = base64ToBytes(VECTORS.v4Slots);
+  const { version, header } = parseContainer(container);
+  assert.equal(version, 4);
+  assert.deepEqual(header.slots!.map(slot => slot.type), ['passphrase']);
+
+  // Slots are outside the payload AAD, so adding one leaves the payload readable
+  const { headerBytes } = parseContainer(container);
+  const json = JSON.parse(new TextDecoder().decode(headerBytes.subarray(11)));
+  json.slots.push({ ...json.slots[0] });
+  const grown = new TextEncoder().encode(JSON.stringify(json));
+  const prefix = headerBytes.slice(0, 11);
+  new DataView(prefix.buffer).setUint32(7, grown.length);
+  const withExtraSlot = concatBytes(prefix, grown, container.subarray(headerBytes.length));
+  assert.equal(new TextDecoder().decode(await decryptBytes(withExtraSlot, PASSPHRASE)), PLAINTEXT);
+});
+
+test('the v4 vector matches an independent reading of the STREAM format', () => {
+  // Prefix and header, read by hand: magic(6) | version(1) | length(4, big-endian) | JSON
+  const bytes = Buffer.from(base64ToBytes(VECTORS.v4Slots));
+  assert.equal(bytes.subarray(0, 6).toString('latin1'), 'LOCKME');
+  const version = bytes[6];
+  const headerEnd = 11 + bytes.readUInt32BE(7);
+  const header = JSON.parse(bytes.subarray(11, headerEnd).toString('utf8'));
+  const payload = bytes.subarray(headerEnd);
+
+  // The passphrase slot wraps the data key with AES-256-GCM under a PBKDF2 key
+  const [slot] = header.slots;
+  const kek = pbkdf2Sync(PASSPHRASE, Buffer.from(slot.kdf.salt, 'base64'), slot.kdf.iterations, 32, 'sha256');
+  const wrapped = Buffer.from(slot.ciphertext, 'base64');
+  const unwrap = createDecipheriv('aes-256-gcm', kek, Buffer.from(slot.iv, 'base64'));
+  unwrap.setAuthTag(wrapped.subarray(-16));
+  const dataKey = Buffer.concat([unwrap.update(wrapped.subarray(0, -16)), unwrap.final()]);
+
+  // v4+ AAD: magic | version | header JSON without the slots
+  const aad = Buffer.concat([bytes.subarray(0, 6), Buffer.from([version]), Buffer.from(JSON.stringify({ ...header, slots: undefined }))]);
+
+  // The only segment is the last: noncePrefix(7) | counter(4) = 0 | lastFlag(1) = 1
+  const nonce = Buffer.concat([Buffer.from(header.stream.noncePrefix, 'base64'), Buffer.from([0, 0, 0, 0, 1])]);
+  const open = createDecipheriv('aes-256-gcm', dataKey, nonce);
+  open.setAAD(aad);
+  open.setAuthTag(payload.subarray(-16));
+  const plaintext = Buffer.concat([open.update(payload.subarray(0, -16)), open.final()]);
+
+  // The plaintext is the metadata record (length(4) | JSON) followed by the content
+  const recordEnd = 4 + plaintext.readUInt32BE(0);
+  assert.equal(plaintext.subarray(recordEnd).toString('utf8'), PLAINTEXT);
+
+  // Sealing the plaintext again reproduces the payload byte for byte
+  const seal = createCipheriv('aes-256-gcm', dataKey, nonce);
+  seal.setAAD(aad);
+  assert.deepEqual(Buffer.concat([seal.update(plaintext), seal.final(), seal.getAuthTag()]), payload);
+});
+
+test('legacy vector matches an independent PBKDF2 + AES-GCM implementation', () => {
+  const bytes = base64ToBytes(VECTORS.legacy);
+  const salt = bytes.subarray(0, 16);
+  const iv = bytes.subarray(16, 28);
+  const key = pbkdf2Sync(PASSPHRASE, salt, 100000, 32, 'sha256');
+
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const expected = Buffer.concat([cipher.update(PLAINTEXT, 'utf8'), cipher.final(), cipher.getAuthTag()]);
+
+  assert.deepEqual(Buffer.from(bytes.subarray(28)), expected);
+});
+
+test('header records the key slot KDF and stream parameters', async () => {
+  const container = await encryptBytes(sampleBytes(10), PASSPHRASE, FAST_KDF);
+  const { version, header } = parseContainer(container);
+  const [slot] = header.slots!;
+
+  assert.equal(version, 6);
+  assert.equal(header.slots!.length, 1);
+  assert.equal(slot.type, 'passphrase');
+  assert.ok(slot.type === 'passphrase' && slot.kdf.id === 'pbkdf2-sha256' && slot.kdf.iterations === 1000);
+  assert.equal(header.cipher, 'aes-256-gcm');
+  assert.ok(header.stream && header.stream.chunkSize > 0);
+});
+
+test('round trips empty, single-segment and multi-segment inputs', async () => {
+  for (const length of [0, 1, 64, 65, 200]) {
+    const data = sampleBytes(length);
+    const container = await encryptWithChunkSize(data, 64);
+    assert.deepEqual(await decryptBytes(container, PASSPHRASE), data, `length ${length}`);
+  }
+});
+
+test('round trips with Argon2id', async () => {
+  const data = sampleBytes(100);
+  const container = await encryptBytes(data, PASSPHRASE, { id: 'argon2id', memory: 8192, iterations: 1, parallelism: 1 });
+  const [slot] = parseContainer(container).header.slots!;
+  assert.ok(slot.type === 'passphrase' && slot.kdf.id === 'argon2id');
+  assert.deepEqual(await decryptBytes(container, PASSPHRASE), data);
+});
+
+test('original file metadata is encrypted and restored', async () => {
+  const metadata: FileMetadata = { name: 'tax return.pdf', type: 'application/pdf', size: 200, lastModified: 1700000000000 };
+  const data = sampleBytes(200);
+  const blob = await streamToBlob(
+    new Blob([data]).stream().pipeThrough(createEncryptStream(PASSPHRASE, { kdf: FAST_KDF, metadata, chunkSize: 16 }))
+  );
+  const container = new Uint8Array(await blob.arrayBuffer());
+  assert.ok(!new TextDecoder().decode(container).includes('tax return'));
+
+  let restored: FileMetadata | undefined;
+  const decrypted = await streamToBlob(
+    new Blob([container]).stream().pipeThrough(createDecryptStream(PASSPHRASE, { onMetadata: (m) => (restored = m) }))
+  );
+  assert.deepEqual(restored, metadata);
+  assert.deepEqual(new Uint8Array(await decrypted.arrayBuffer()), data);
+});
+
+test('Base64 helpers round trip text and large buffers', async () => {
+  const large = sampleBytes(200_000);
+  assert.deepEqual(base64ToBytes(bytesToBase64(large)), large);
+
+  const encrypted = await encryptToBase64('postgres://user:secret@db/app', PASSPHRASE, FAST_KDF);
+  assert.equal(await decryptFromBase64(encrypted, PASSPHRASE), 'postgres://user:secret@db/app');
+});
+
+test('wrong passphrase is rejected for every container version', async () => {
+  for (const [name, vector] of Object.entries(VECTORS)) {
+    await assert.rejects(decryptBytes(base64ToBytes(vector), 'wrong passphrase'), Error, name);
+  }
+});
+
+test('tampering with the header is detected', async () => {
+  const container = await encryptBytes(sampleBytes(32), PASSPHRASE, FAST_KDF);
+  const { headerBytes } = parseContainer(container);
+
+  // Change the recorded chunk size without breaking the JSON
+  const json = new TextDecoder().decode(headerBytes.subarray(11)).replace('"chunkSize":65536', '"chunkSize":65535');
+  const forgedJson = new TextEncoder().encode(json);
+  const forged = concatBytes(headerBytes.subarray(0, 11), forgedJson, container.subarray(headerBytes.length));
+
+  await assert.rejects(decryptBytes(forged, PASSPHRASE));
+});
+
+test('tampering with, truncating or reordering segments is detected', async () => {
+  const container = await encryptWithChunkSize(sampleBytes(200), 64);
+  const headerLength = parseContainer(container).headerBytes.length;
+  const sealed = 64 + 16;
+  const segment = (i: number) => container.subarray(headerLength + i * sealed, headerLength + (i + 1) * sealed);
+
+  const flipped = container.slice();
+  flipped[headerLength + sealed + 5] ^= 0x01;
+  await assert.rejects(decryptBytes(flipped, PASSPHRASE), /corrupted/);
+
+  const truncated = container.subarray(0, headerLength + 2 * sealed);
+  await assert.rejects(decryptBytes(truncated, PASSPHRASE), /truncated/);
+
+  const reordered = concatBytes(
+    container.subarray(0, headerLength),
+    segment(1),
+    segment(0),
+    container.subarray(headerLength + 2 * sealed)
+  );
+  await assert.rejects(decryptBytes(reordered, PASSPHRASE));
+
+  const extended = concatBytes(container, sampleBytes(20));
+  await assert.rejects(decryptBytes(extended, PASSPHRASE));
+});
+
+test('invalid Base64 in the header is reported as a corrupt header', async () => {
+  /** Rewrites a container's header JSON, fixing up its length */
+  const withHeader = (container: Uint8Array, edit: (header: { iv?: string; stream?: { noncePrefix: string } }) => void) => {
+    const { headerBytes } = parseContainer(container);
+    const header = JSON.parse(new TextDecoder().decode(headerBytes.subarray(11)));
+    edit(header);
+    const json = new TextEncoder().encode(JSON.stringify(header));
+    const prefix = headerBytes.slice(0, 11);
+    new DataView(prefix.buffer).setUint32(7, json.length);
+    return concatBytes(prefix, json, container.subarray(headerBytes.length));
+  };
+
+  const v1 = withHeader(base64ToBytes(VECTORS.v1), header => { header.iv = '*not base64*'; });
+  assert.throws(() => parseContainer(v1), /Corrupt file header: invalid IV/);
+
+  const current = withHeader(await encryptBytes(sampleBytes(8), PASSPHRASE, FAST_KDF), header => {
+    header.stream!.noncePrefix = '*not base64*';
+  });
+  assert.throws(() => parseContainer(current), /Corrupt file header: invalid stream parameters/);
+});
+
+test('unsupported versions and out-of-range KDF parameters are refused', async () => {
+  const container = await encryptBytes(sampleBytes(8), PASSPHRASE, FAST_KDF);
+
+  const future = container.slice();
+  future[6] = 99;
+  assert.throws(() => parseContainer(future), /format version 99/);
+
+  const { headerBytes } = parseContainer(container);
+  const header = JSON.parse(new TextDecoder().decode(headerBytes.subarray(11)));
+  header.slots[0].kdf = { id: 'argon2id', memory: 64 * 1024 * 1024, iterations: 1, parallelism: 1, salt: header.slots[0].kdf.salt };
+  const json = new TextEncoder().encode(JSON.stringify(header));
+  const prefix = headerBytes.slice(0, 11);
+  new DataView(prefix.buffer).setUint32(7, json.length);
+
+  assert.throws(() => parseContainer(concatBytes(prefix, json)), /Argon2id/);
+});
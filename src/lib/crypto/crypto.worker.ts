@@ -0,0 +1,140 @@
+/**
+ * Crypto Worker
+ *
+ * Dedicated worker entry point used by `CryptoWorkerPool`. Streams the
+ * input file (or an archive built from several files) through the
+ * encrypt/decrypt transforms and posts every output chunk back to the pool
+ * as a transferred ArrayBuffer, or writes it to the job's output file when
+ * one is given. Verify jobs decrypt the same way but only
+ * count the output; re-key jobs stream the file through `createRekeyStream`.
+ * age files and OpenPGP messages are encrypted on request and recognised
+ * by their first bytes when decrypting.
+ */
+
+import { createAgeDecryptStream, createAgeEncryptStream, isAgeFile, isAgeSecretKey } from './age';
+import { createArchiveStream } from './archive';
+import { createOpenPgpDecryptStream, createOpenPgpEncryptStream, isOpenPgpFile } from './openpgp';
+import { createRekeyStream } from './rekey';
+import { createDecryptStream, createEncryptStream, createProgressStream } from './stream';
+import type { WorkerRequest, WorkerResponse } from './workerPool';
+
+/**
+ * Posts a response to the pool, transferring any listed buffers
+ */
+function reply(message: WorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
+
+/**
+ * Returns a buffer that can be transferred without exposing unrelated memory
+ *
+ * @param chunk - An output chunk from the crypto transform
+ * @returns An ArrayBuffer holding exactly the chunk's bytes
+ */
+function ownedBuffer(chunk: Uint8Array): ArrayBuffer {
+  if (chunk.byteOffset === 0 && chunk.byteLength === chunk.buffer.byteLength) {
+    return chunk.buffer as ArrayBuffer;
+  }
+  return chunk.slice().buffer as ArrayBuffer;
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const {
+    jobId, operation, input, passphrase, kdf, passphrases, keyfile,
+    recipients, identities, passkey, fallbacks, signer, metadata,
+    compression, newPassphrase, reencrypt, format, output,
+  } = event.data;
+
+  let writable: FileSystemWritableFileStream | null = null;
+  try {
+    reply({ type: 'stage', jobId, stage: 'deriving-key' });
+    const ageOutput = operation === 'encrypt' && (format === 'age' || format === 'age-armored');
+    const pgpOutput = operation === 'encrypt' && (format === 'openpgp' || format === 'openpgp-armored');
+    const ageInput = !Array.isArray(input) && operation !== 'encrypt' && await isAgeFile(input);
+    const pgpInput = !Array.isArray(input) && operation !== 'encrypt' && !ageInput && await isOpenPgpFile(input);
+    if (ageOutput && (passphrases?.length || keyfile || passkey || signer)) {
+      throw new Error("age files open with one passphrase or with recipients. Keyfiles, passkeys, signatures and extra passphrases are not available.");
+    }
+    if (pgpOutput && (!passphrase || keyfile || passkey || signer || recipients?.length)) {
+      throw new Error("OpenPGP messages open with passphrases only. Keyfiles, passkeys, signatures and recipients are not available.");
+    }
+    if (ageInput && operation === 'rekey') {
+      throw new Error("Changing the passphrase of age files is not supported.");
+    }
+    if (pgpInput && operation === 'rekey') {
+      throw new Error("Changing the passphrase of OpenPGP messages is not supported.");
+    }
+
+    const source = Array.isArray(input) ? createArchiveStream(input) : input.stream();
+    const total = Array.isArray(input)
+      ? input.reduce((sum, { entry }) => sum + entry.size, 0)
+      : input.size;
+
+    // A pasted AGE-SECRET-KEY-1… in the passphrase field is used as an identity
+    const ageSecretKey = ageInput && isAgeSecretKey(passphrase ?? '');
+
+    const transform = ageOutput
+      ? createAgeEncryptStream(passphrase, { recipients, armor: format === 'age-armored' })
+      : pgpOutput
+      ? createOpenPgpEncryptStream(passphrase!, { passphrases, armor: format === 'openpgp-armored', metadata })
+      : ageInput
+      ? createAgeDecryptStream(ageSecretKey ? '' : passphrase ?? '', {
+          identities,
+          secretKeys: ageSecretKey ? [passphrase!] : [],
+        })
+      : pgpInput
+      ? createOpenPgpDecryptStream(passphrase ?? '', {
+          onMetadata: restored => reply({ type: 'metadata', jobId, metadata: restored }),
+        })
+      : operation === 'encrypt'
+      ? createEncryptStream(passphrase, {
+          kdf, passphrases, keyfile, recipients, passkey, fallbacks, signer, metadata, compression,
+        })
+      : operation === 'rekey'
+      ? createRekeyStream(passphrase ?? '', newPassphrase ?? '', { kdf, keyfile, identities, passkey, reencrypt })
+      : createDecryptStream(passphrase ?? '', {
+          identities,
+          keyfile,
+          passkey,
+          onMetadata: restored => reply({ type: 'metadata', jobId, metadata: restored }),
+          onSignature: signature => reply({ type: 'signature', jobId, signature }),
+        });
+
+    // The file only replaces its old contents once the writable is closed
+    writable = output ? await output.createWritable() : null;
+
+    const reader = source
+      .pipeThrough(createProgressStream(total, percent => reply({ type: 'progress', jobId, percent })))
+      .pipeThrough(transform)
+      .getReader();
+
+    // The first output follows key derivation (and the first segment)
+    let verifiedBytes = 0;
+    let started = false;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (!started) {
+        started = true;
+        reply({ type: 'stage', jobId, stage: 'processing' });
+      }
+
+      if (operation === 'verify') {
+        verifiedBytes += value.length;
+        continue;
+      }
+      if (writable) {
+        await writable.write(value);
+        continue;
+      }
+      const chunk = ownedBuffer(value);
+      reply({ type: 'chunk', jobId, chunk }, [chunk]);
+    }
+
+    await writable?.close();
+    reply({ type: 'done', jobId, ...(operation === 'verify' && { verifiedBytes }) });
+  } catch (error) {
+    await writable?.abort().catch(() => undefined);
+    reply({ type: 'error', jobId, message: (error as Error).message || `Error processing.` });
+  }
+};
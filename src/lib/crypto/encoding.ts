@@ -0,0 +1,62 @@
+/**
+ * Byte Encoding Helpers
+ *
+ * Small, dependency-free conversions between binary data and the text
+ * representations used inside LockMe containers and Firestore documents.
+ */
+
+/**
+ * Encodes bytes as standard (padded) Base64
+ *
+ * Works in fixed-size chunks so large buffers do not overflow the call stack
+ * the way `String.fromCharCode(...bytes)` does.
+ *
+ * @param bytes - The bytes to encode
+ * @returns The Base64 string
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+
+  return btoa(binary);
+}
+
+/**
+ * Decodes a standard Base64 string into bytes
+ *
+ * @param base64 - The Base64 string to decode
+ * @returns The decoded bytes
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return bytes;
+}
+
+/**
+ * Concatenates several byte arrays into a single new array
+ *
+ * @param parts - The byte arrays to join, in order
+ * @returns A new Uint8Array containing every part back to back
+ */
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+
+  return result;
+}
@@ -0,0 +1,71 @@
+/**
+ * Error Reason Tests
+ *
+ * Produces real failures from the decrypt stream and checks the reason
+ * each one is sorted under.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  createDecryptStream,
+  createEncryptStream,
+  cryptoErrorReason,
+  generateKeyfile,
+  hashKeyfile,
+  streamToBlob,
+  type KdfOptions,
+} from './index';
+
+const FAST_KDF: KdfOptions = { id: 'pbkdf2-sha256', iterations: 1000 };
+const PLAINTEXT = new TextEncoder().encode('queued for the batch '.repeat(10));
+
+/** Encrypts the test plaintext with small segments */
+async function encrypt(options: Parameters<typeof createEncryptStream>[1] = {}): Promise<Uint8Array> {
+  const blob = await streamToBlob(
+    new Blob([PLAINTEXT]).stream().pipeThrough(createEncryptStream('batch passphrase', { kdf: FAST_KDF, chunkSize: 64, ...options }))
+  );
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/** Decrypts and returns the error it fails with */
+async function failure(file: Uint8Array, passphrase: string, options: Parameters<typeof createDecryptStream>[1] = {}): Promise<Error> {
+  try {
+    await streamToBlob(new Blob([file]).stream().pipeThrough(createDecryptStream(passphrase, options)));
+  } catch (error) {
+    return error as Error;
+  }
+  assert.fail('decryption succeeded');
+}
+
+test('credential failures are told apart', async () => {
+  const file = await encrypt();
+  assert.equal(cryptoErrorReason(await failure(file, 'wrong passphrase')), 'wrong-passphrase');
+
+  const keyfile = await hashKeyfile(new Blob([generateKeyfile()]));
+  const withKeyfile = await encrypt({ keyfile });
+  assert.equal(cryptoErrorReason(await failure(withKeyfile, 'batch passphrase')), 'keyfile-required');
+});
+
+test('damaged files are told apart from wrong passphrases', async () => {
+  const file = await encrypt();
+  const cutHeader = file.subarray(0, 20);
+  assert.equal(cryptoErrorReason(await failure(cutHeader, 'batch passphrase')), 'corrupt-header');
+
+  const truncated = file.subarray(0, file.length - 40);
+  assert.equal(cryptoErrorReason(await failure(truncated, 'batch passphrase')), 'corrupt-data');
+});
+
+test('damaged age and OpenPGP files are corrupt, not too large', () => {
+  assert.equal(cryptoErrorReason('Corrupt age header: header is too large.'), 'corrupt-header');
+  assert.equal(cryptoErrorReason('Corrupt age header.'), 'corrupt-header');
+  assert.equal(cryptoErrorReason('Corrupt OpenPGP message: packet too large.'), 'corrupt-header');
+  assert.equal(cryptoErrorReason('Archive index is too large.'), 'corrupt-data');
+});
+
+test('unmatched messages are unknown', () => {
+  assert.equal(cryptoErrorReason(new Error('Crypto worker crashed.')), 'unknown');
+  assert.equal(cryptoErrorReason('File is too large for the stream format.'), 'too-large');
+  assert.equal(cryptoErrorReason(undefined), 'unknown');
+});
@@ -0,0 +1,61 @@
+/**
+ * Error Reasons
+ *
+ * Sorts the errors thrown while encrypting or decrypting into a few
+ * reasons a user can act on, for the batch job list. The messages
+ * themselves stay the source of truth and are shown next to the reason;
+ * this only groups them by matching the wording used across the crypto
+ * modules.
+ */
+
+/** Why a job failed */
+export type CryptoErrorReason =
+  | 'wrong-passphrase'
+  | 'keyfile-required'
+  | 'not-a-recipient'
+  | 'corrupt-header'
+  | 'corrupt-data'
+  | 'too-large'
+  | 'unsupported'
+  | 'unknown';
+
+/** Short description of each reason */
+export const CRYPTO_ERROR_LABELS: Record<CryptoErrorReason, string> = {
+  'wrong-passphrase': "Wrong passphrase",
+  'keyfile-required': "Keyfile required",
+  'not-a-recipient': "Not a recipient",
+  'corrupt-header': "Corrupt header",
+  'corrupt-data': "Corrupted or truncated",
+  'too-large': "Too large",
+  'unsupported': "Unsupported file",
+  'unknown': "Failed",
+};
+
+/**
+ * Reasons and the message patterns that identify them, checked in order
+ *
+ * "Incorrect passphrase or corrupted file." is reported when no key slot
+ * opens, which is almost always a wrong passphrase, so it is matched
+ * before the corruption patterns. Damaged input can also be "too large"
+ * (an oversized header or packet), so sizes are only matched after it.
+ */
+const PATTERNS: [CryptoErrorReason, RegExp][] = [
+  ['keyfile-required', /requires a keyfile/i],
+  ['wrong-passphrase', /incorrect passphrase|passkey cannot unlock|locked with a passkey/i],
+  ['not-a-recipient', /encrypted for other recipients|encrypted to a public key/i],
+  ['corrupt-header', /corrupt (file|age) header|corrupt openpgp message|corrupt wrapped key|invalid encrypted file format|missing key derivation salt|invalid (pbkdf2|argon2id)/i],
+  ['corrupt-data', /corrupt|truncated|archive index is too large/i],
+  ['too-large', /file is too large/i],
+  ['unsupported', /not a lockme container|not an? (age|openpgp)|not supported|unsupported|older format|no integrity protection|exceed the supported limits/i],
+];
+
+/**
+ * Finds the reason behind an encryption or decryption error
+ *
+ * @param error - The thrown error, or its message
+ * @returns The matching reason; 'unknown' when none matches
+ */
+export function cryptoErrorReason(error: unknown): CryptoErrorReason {
+  const message = typeof error === 'string' ? error : (error as Error | undefined)?.message ?? '';
+  return PATTERNS.find(([, pattern]) => pattern.test(message))?.[0] ?? 'unknown';
+}
@@ -0,0 +1,259 @@
+/**
+ * LockMe Crypto Core
+ *
+ * Framework-agnostic public API for key derivation, AES-GCM encryption and
+ * the `.lockme` container format. Runs anywhere WebCrypto is available:
+ * browsers, Web Workers and Node 20+.
+ *
+ * Features:
+ * - Passphrase key derivation (Argon2id or PBKDF2) with recorded parameters
+ * - Byte-level encrypt/decrypt to and from `.lockme` containers
+ * - Base64 helpers for storing ciphertext in text fields (e.g. Firestore)
+ * - Container parsing for inspection without decrypting
+ * - Streaming transforms for large files
+ * - Original file name and type kept inside the encrypted payload
+ * - Multi-file archives with an index of paths, sizes and timestamps
+ * - Key slots: a random data key wrapped per passphrase or X25519 recipient
+ * - Adding and removing slots on existing files without re-encrypting
+ * - Keyfiles as a second factor for passphrase slots
+ * - Passkey (WebAuthn PRF) slots with a sealed passphrase fallback
+ * - Ed25519 / ECDSA P-256 sender signatures, checked while decrypting
+ * - File inspection: header summary, key slots and sizes
+ * - Changing a file's passphrase by rewrapping its key or re-encrypting
+ * - Optional gzip/deflate compression of the content before encryption
+ * - age v1 files (scrypt and X25519 recipients, binary or armored)
+ * - Passphrase-encrypted OpenPGP messages (`gpg --symmetric`), binary or armored
+ * - Armored text messages (`-----BEGIN LOCKME MESSAGE-----`) for pasting into chat
+ * - Share links: an upload copy opened by a secret kept in the URL fragment
+ * - Shamir secret sharing of passphrases and data keys over GF(256)
+ * - Self-decrypting HTML pages that open a file offline without LockMe
+ * - ZIP bundles of batch outputs with a manifest
+ * - Error reasons (wrong passphrase, corrupt header...) for failed jobs
+ */
+
+import { base64ToBytes, bytesToBase64 } from './encoding';
+import { deriveKey, type KdfOptions, type KdfParams } from './kdf';
+import type { SlotCredentials, UnlockCredentials } from './slots';
+import { decryptBytes, encryptBytes } from './stream';
+
+export { base64ToBytes, bytesToBase64, concatBytes } from './encoding';
+export {
+  AGE_SCRYPT_WORK_FACTOR,
+  createAgeDecryptStream,
+  createAgeEncryptStream,
+  formatAgeRecipient,
+  isAgeFile,
+  isAgeSecretKey,
+  parseAgeRecipient,
+  type AgeDecryptOptions,
+  type AgeEncryptOptions,
+} from './age';
+export {
+  createOpenPgpDecryptStream,
+  createOpenPgpEncryptStream,
+  isOpenPgpFile,
+  OPENPGP_S2K_COUNT,
+  type OpenPgpDecryptOptions,
+  type OpenPgpEncryptOptions,
+} from './openpgp';
+export {
+  ARGON2_DEFAULTS,
+  ARGON2_LIMITS,
+  createKdfParams,
+  DEFAULT_KDF_OPTIONS,
+  deriveKey,
+  PBKDF2_ITERATIONS,
+  type Argon2idParams,
+  type KdfOptions,
+  type KdfParams,
+  type Pbkdf2Params,
+} from './kdf';
+export {
+  COMPRESSION_IDS,
+  isAlreadyCompressed,
+  type CompressionId,
+} from './compression';
+export {
+  CONTAINER_VERSION,
+  isContainer,
+  parseContainer,
+  type ContainerHeader,
+  type ParsedContainer,
+} from './container';
+export {
+  ARCHIVE_TYPE,
+  archiveName,
+  archiveSourcesFromFiles,
+  createArchiveStream,
+  extractArchiveEntry,
+  MAX_ARCHIVE_ENTRIES,
+  normalizeArchivePath,
+  readArchiveIndex,
+  type ArchiveEntry,
+  type ArchiveSource,
+  type IndexedArchiveEntry,
+} from './archive';
+export {
+  decodeMetadataRecord,
+  encodeMetadataRecord,
+  metadataFromFile,
+  safeFileName,
+  type FileMetadata,
+} from './metadata';
+export {
+  formatFingerprint,
+  generateIdentity,
+  keyFingerprint,
+  unlockIdentity,
+  type RecipientIdentity,
+  type RecipientSlot,
+  type SealedSlot,
+} from './recipients';
+export {
+  generatePrfSalt,
+  PRF_SALT_LENGTH,
+  prfRequests,
+  type PasskeyEvaluation,
+  type PrfSlot,
+} from './prf';
+export { inspectContainer, type ContainerInspection } from './inspect';
+export {
+  formatSigningPublicKey,
+  generateSigningIdentity,
+  parseSigningPublicKey,
+  unlockSigningIdentity,
+  type SignatureAlgorithm,
+  type SignatureCheck,
+  type SignerInfo,
+  type SigningIdentity,
+  type SigningKey,
+} from './signing';
+export {
+  combineWithKeyfile,
+  generateKeyfile,
+  hashKeyfile,
+  KEYFILE_LENGTH,
+  MAX_KEYFILE_SIZE,
+} from './keyfile';
+export {
+  createKeySlots,
+  createPassphraseSlot,
+  MAX_KEY_SLOTS,
+  unlockDataKey,
+  type KeySlot,
+  type PassphraseSlot,
+  type SlotCredentials,
+  type UnlockCredentials,
+} from './slots';
+export {
+  addPassphraseSlot,
+  readContainerHeader,
+  readDataKey,
+  removeKeySlot,
+  restorePassphraseSlot,
+  type ContainerHeaderInfo,
+} from './rewrap';
+export { createRekeyStream, replacePassphraseSlots, type RekeyOptions } from './rekey';
+export { type WrappedSecret } from './keyWrap';
+export {
+  createDecryptStream,
+  createEncryptStream,
+  createProgressStream,
+  decryptBytes,
+  encryptBytes,
+  STREAM_CHUNK_SIZE,
+  streamToBlob,
+  verifyDataKey,
+} from './stream';
+export {
+  armorContainer,
+  dearmorContainer,
+  decryptText,
+  encryptText,
+  isArmoredMessage,
+  LOCKME_ARMOR_BEGIN,
+  LOCKME_ARMOR_END,
+} from './armor';
+export {
+  createShareCopy,
+  createShareSecret,
+  formatShareLink,
+  isValidShareId,
+  parseShareFragment,
+  SHARE_ID_LENGTH,
+  SHARE_KDF,
+  SHARE_SECRET_LENGTH,
+  type ShareSecret,
+} from './share';
+export {
+  combineShares,
+  decodeShare,
+  encodeShare,
+  SHAMIR_MAX_SHARES,
+  SHAMIR_SHARE_PREFIX,
+  splitSecret,
+  type ShamirSecretKind,
+  type ShamirShare,
+} from './shamir';
+export { createSelfDecryptingHtml, MAX_SELF_DECRYPTING_SIZE } from './selfDecrypting';
+export { CRYPTO_ERROR_LABELS, cryptoErrorReason, type CryptoErrorReason } from './errors';
+export { crc32, ZIP_MANIFEST_NAME, ZipWriter, type ZipManifestEntry } from './zip';
+
+/**
+ * Encrypts a UTF-8 string into a Base64-encoded container
+ *
+ * @param text - The plaintext string
+ * @param passphrase - The passphrase to derive the key from, or null when
+ *   only other credentials should open it
+ * @param kdf - Optional KDF choice; defaults to Argon2id
+ * @param credentials - Further credentials, such as a passkey
+ * @returns A Promise resolving to the Base64 container
+ */
+export async function encryptToBase64(
+  text: string,
+  passphrase: string | null,
+  kdf?: KdfOptions,
+  credentials?: SlotCredentials
+): Promise<string> {
+  const container = await encryptBytes(new TextEncoder().encode(text), passphrase, kdf, credentials);
+  return bytesToBase64(container);
+}
+
+/**
+ * Decrypts a Base64-encoded container back into a UTF-8 string
+ *
+ * @param base64 - The Base64 container
+ * @param passphrase - The passphrase to derive the key from
+ * @param credentials - Further credentials, such as a passkey evaluation
+ * @returns A Promise resolving to the plaintext string
+ */
+export async function decryptFromBase64(
+  base64: string,
+  passphrase: string,
+  credentials?: Omit<UnlockCredentials, 'passphrase'>
+): Promise<string> {
+  const plaintext = await decryptBytes(base64ToBytes(base64), passphrase, credentials);
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Decrypts a bare AES-GCM ciphertext whose IV and KDF parameters are stored elsewhere
+ *
+ * Used for data written before everything was wrapped in a container,
+ * such as snippets that keep `iv` and `salt` in separate fields.
+ *
+ * @param ciphertext - AES-GCM ciphertext including the tag
+ * @param iv - The 12-byte IV
+ * @param kdf - KDF parameters used at encryption time
+ * @param passphrase - The passphrase to derive the key from
+ * @returns A Promise resolving to the plaintext bytes
+ */
+export async function decryptDetached(
+  ciphertext: Uint8Array,
+  iv: Uint8Array,
+  kdf: KdfParams,
+  passphrase: string
+): Promise<Uint8Array> {
+  const key = await deriveKey(passphrase, kdf, ['decrypt']);
+  return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext));
+}
@@ -0,0 +1,49 @@
+/**
+ * Inspection Tests
+ *
+ * Covers the summary read from a container header and the detection of
+ * headerless legacy files.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createEncryptStream, inspectContainer, streamToBlob, type KdfOptions } from './index';
+
+const FAST_KDF: KdfOptions = { id: 'pbkdf2-sha256', iterations: 1000 };
+
+test('streamed containers are described from their header', async () => {
+  const data = Uint8Array.from({ length: 200 }, (_, i) => i);
+  const file = await streamToBlob(
+    new Blob([data]).stream().pipeThrough(createEncryptStream('passphrase', { kdf: FAST_KDF, chunkSize: 64 }))
+  );
+
+  const inspection = await inspectContainer(file);
+  assert.equal(inspection.format, 'container');
+  assert.equal(inspection.version, 6);
+  assert.equal(inspection.header!.cipher, 'aes-256-gcm');
+  assert.equal(inspection.header!.stream!.chunkSize, 64);
+  assert.equal(inspection.header!.slots!.length, 1);
+  assert.equal(inspection.headerSize + inspection.payloadSize, file.size);
+
+  // Full segments are 64 bytes plus a 16-byte tag; only the last is shorter
+  const segments = inspection.segments!;
+  assert.ok(segments >= Math.ceil(200 / 64));
+  assert.ok(inspection.payloadSize > (segments - 1) * 80 && inspection.payloadSize <= segments * 80);
+});
+
+test('headerless files are reported as legacy', async () => {
+  const legacy = new Blob([crypto.getRandomValues(new Uint8Array(16 + 12 + 40))]);
+
+  const inspection = await inspectContainer(legacy);
+  assert.deepEqual(inspection, {
+    format: 'legacy',
+    version: null,
+    header: null,
+    headerSize: 28,
+    payloadSize: 40,
+    segments: null,
+  });
+
+  await assert.rejects(inspectContainer(new Blob([new Uint8Array(30)])), /Invalid encrypted file format/);
+});
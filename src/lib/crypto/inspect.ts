@@ -0,0 +1,68 @@
+/**
+ * File Inspection
+ *
+ * Describes a `.lockme` file from its header alone: format version, key
+ * derivation or key slots, cipher, chunking and sizes. Nothing is
+ * decrypted; checking that a passphrase works and the contents are intact
+ * is a full decrypt pass whose output is discarded (see the worker pool's
+ * `verify` operation).
+ */
+
+import { IV_LENGTH, isContainer, PREFIX_LENGTH, type ContainerHeader } from './container';
+import { SALT_LENGTH } from './kdf';
+import { readContainerHeader } from './rewrap';
+
+/** AES-GCM authentication tag length in bytes */
+const TAG_LENGTH = 16;
+
+/**
+ * What a file's header says about it
+ */
+export interface ContainerInspection {
+  /** Versioned container, or a headerless file from before containers existed */
+  format: 'container' | 'legacy';
+
+  /** Format version; null for legacy files */
+  version: number | null;
+
+  /** Decoded header; null for legacy files */
+  header: ContainerHeader | null;
+
+  /** Bytes before the payload (prefix and header, or legacy salt and IV) */
+  headerSize: number;
+
+  /** Bytes of encrypted payload */
+  payloadSize: number;
+
+  /** Number of authenticated segments in a streamed payload */
+  segments: number | null;
+}
+
+/**
+ * Reads a file's header and describes it
+ *
+ * @param file - The `.lockme` file
+ * @returns The inspection result
+ * @throws Error if the file is too short or its header is invalid
+ */
+export async function inspectContainer(file: Blob): Promise<ContainerInspection> {
+  const magic = new Uint8Array(await file.slice(0, PREFIX_LENGTH).arrayBuffer());
+
+  if (!isContainer(magic)) {
+    const headerSize = SALT_LENGTH + IV_LENGTH;
+    if (file.size < headerSize + TAG_LENGTH) {
+      throw new Error("Invalid encrypted file format.");
+    }
+    return { format: 'legacy', version: null, header: null, headerSize, payloadSize: file.size - headerSize, segments: null };
+  }
+
+  const { version, header, headerEnd } = await readContainerHeader(file);
+  const payloadSize = file.size - headerEnd;
+
+  // Every segment but the last is exactly chunkSize plus a tag
+  const segments = header.stream
+    ? Math.max(1, Math.ceil(payloadSize / (header.stream.chunkSize + TAG_LENGTH)))
+    : null;
+
+  return { format: 'container', version, header, headerSize: headerEnd, payloadSize, segments };
+}
@@ -0,0 +1,184 @@
+/**
+ * Key Derivation
+ *
+ * Turns a user passphrase into an AES-GCM key. The parameters used are
+ * always described by a `KdfParams` object so they can be stored next to
+ * the ciphertext and replayed exactly on decryption.
+ *
+ * Supported functions:
+ * - Argon2id (memory-hard, via the hash-wasm WebAssembly build); default
+ * - PBKDF2-HMAC-SHA256 (WebCrypto); kept for compatibility
+ */
+
+import { argon2id } from 'hash-wasm';
+import { base64ToBytes, bytesToBase64 } from './encoding';
+
+/** Salt length in bytes for newly generated KDF parameters */
+export const SALT_LENGTH = 16;
+
+/** PBKDF2 iteration count used for new files and by the legacy layout */
+export const PBKDF2_ITERATIONS = 100000;
+
+/** Default Argon2id cost: 64 MiB, 3 passes, 1 lane */
+export const ARGON2_DEFAULTS = {
+  memory: 64 * 1024,
+  iterations: 3,
+  parallelism: 1,
+} as const;
+
+/** Accepted Argon2id cost ranges; also bounds what an untrusted header may ask for */
+export const ARGON2_LIMITS = {
+  memory: { min: 8 * 1024, max: 1024 * 1024 },
+  iterations: { min: 1, max: 20 },
+  parallelism: { min: 1, max: 16 },
+} as const;
+
+/**
+ * PBKDF2-HMAC-SHA256 parameters
+ */
+export interface Pbkdf2Params {
+  /** KDF identifier */
+  id: 'pbkdf2-sha256';
+
+  /** Number of PBKDF2 iterations */
+  iterations: number;
+
+  /** Base64-encoded salt */
+  salt: string;
+}
+
+/**
+ * Argon2id parameters
+ */
+export interface Argon2idParams {
+  /** KDF identifier */
+  id: 'argon2id';
+
+  /** Memory cost in KiB */
+  memory: number;
+
+  /** Number of passes over memory */
+  iterations: number;
+
+  /** Degree of parallelism (lanes) */
+  parallelism: number;
+
+  /** Base64-encoded salt */
+  salt: string;
+}
+
+/** Union of all supported KDF parameter sets */
+export type KdfParams = Pbkdf2Params | Argon2idParams;
+
+/** KDF choice and cost, without a salt; used to request new parameters */
+export type KdfOptions =
+  | Omit<Pbkdf2Params, 'salt'>
+  | Omit<Argon2idParams, 'salt'>;
+
+/** KDF used when the caller does not choose one */
+export const DEFAULT_KDF_OPTIONS: KdfOptions = { id: 'argon2id', ...ARGON2_DEFAULTS };
+
+/**
+ * Creates fresh KDF parameters with a random salt
+ *
+ * @param options - KDF and cost to use; defaults to Argon2id
+ * @returns Parameters ready to be recorded alongside the ciphertext
+ */
+export function createKdfParams(options: KdfOptions = DEFAULT_KDF_OPTIONS): KdfParams {
+  const salt = bytesToBase64(crypto.getRandomValues(new Uint8Array(SALT_LENGTH)));
+  const params = { ...options, salt } as KdfParams;
+  assertValidKdfParams(params);
+  return params;
+}
+
+/**
+ * Checks that a value is an integer within an inclusive range
+ */
+function inRange(value: unknown, range: { min: number; max: number }): boolean {
+  return Number.isInteger(value) && (value as number) >= range.min && (value as number) <= range.max;
+}
+
+/**
+ * Validates KDF parameters read from an untrusted header
+ *
+ * @param params - The parsed parameters
+ * @throws Error if the KDF is unknown or its parameters are out of range
+ */
+export function assertValidKdfParams(params: KdfParams): void {
+  if (typeof params?.salt !== 'string' || params.salt.length === 0) {
+    throw new Error("Missing key derivation salt.");
+  }
+
+  switch (params.id) {
+    case 'pbkdf2-sha256':
+      if (!inRange(params.iterations, { min: 1000, max: 10_000_000 })) {
+        throw new Error("Invalid PBKDF2 iteration count.");
+      }
+      return;
+    case 'argon2id':
+      if (
+        !inRange(params.memory, ARGON2_LIMITS.memory) ||
+        !inRange(params.iterations, ARGON2_LIMITS.iterations) ||
+        !inRange(params.parallelism, ARGON2_LIMITS.parallelism)
+      ) {
+        throw new Error("Invalid Argon2id parameters.");
+      }
+      return;
+    default:
+      throw new Error(`Unsupported key derivation function: ${String((params as { id?: unknown })?.id)}.`);
+  }
+}
+
+/**
+ * Derives an AES-256-GCM key from a passphrase
+ *
+ * @param passphrase - The user's passphrase, or raw secret bytes such as a
+ *   passphrase combined with a keyfile (see `keyfile.ts`)
+ * @param params - KDF parameters (algorithm, cost and salt)
+ * @param usages - Key usages to grant on the derived key
+ * @returns A Promise resolving to the derived CryptoKey
+ */
+export async function deriveKey(
+  passphrase: string | Uint8Array,
+  params: KdfParams,
+  usages: KeyUsage[] = ['encrypt', 'decrypt']
+): Promise<CryptoKey> {
+  if (params.id === 'argon2id') {
+    const keyBytes = await argon2id({
+      password: passphrase,
+      salt: base64ToBytes(params.salt),
+      memorySize: params.memory,
+      iterations: params.iterations,
+      parallelism: params.parallelism,
+      hashLength: 32,
+      outputType: 'binary',
+    });
+
+    try {
+      return await crypto.subtle.importKey('raw', keyBytes, { name: 'AES-GCM' }, false, usages);
+    } finally {
+      keyBytes.fill(0);
+    }
+  }
+
+  const passphraseKey = await crypto.subtle.importKey(
+    'raw',
+    typeof passphrase === 'string' ? new TextEncoder().encode(passphrase) : passphrase,
+    { name: 'PBKDF2' },
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      salt: base64ToBytes(params.salt),
+      iterations: params.iterations,
+      hash: 'SHA-256',
+    },
+    passphraseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    usages
+  );
+}
@@ -0,0 +1,110 @@
+/**
+ * Key Wrapping
+ *
+ * Small secrets (random data keys, private keys) are stored encrypted under
+ * a key-encryption key with AES-256-GCM. The KEK either comes from a
+ * passphrase via the KDF, or from another secret such as an X25519 shared
+ * secret.
+ */
+
+import { base64ToBytes, bytesToBase64 } from './encoding';
+import { assertValidKdfParams, createKdfParams, deriveKey, type KdfOptions, type KdfParams } from './kdf';
+
+/** AES-GCM IV length used for wrapped secrets */
+const WRAP_IV_LENGTH = 12;
+
+/**
+ * A secret encrypted under a passphrase-derived key
+ */
+export interface WrappedSecret {
+  /** KDF and parameters that turn the passphrase into the KEK */
+  kdf: KdfParams;
+
+  /** Base64-encoded AES-GCM IV */
+  iv: string;
+
+  /** Base64-encoded AES-GCM ciphertext + tag of the secret */
+  ciphertext: string;
+}
+
+/**
+ * Encrypts a secret under an AES-GCM key
+ *
+ * @param secret - The bytes to wrap
+ * @param kek - The key-encryption key
+ * @returns The Base64 IV and ciphertext
+ */
+export async function wrapWithKey(secret: Uint8Array, kek: CryptoKey): Promise<{ iv: string; ciphertext: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(WRAP_IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, kek, secret);
+  return { iv: bytesToBase64(iv), ciphertext: bytesToBase64(new Uint8Array(ciphertext)) };
+}
+
+/**
+ * Decrypts a secret wrapped by `wrapWithKey`
+ *
+ * @param wrapped - The Base64 IV and ciphertext
+ * @param kek - The key-encryption key
+ * @returns The secret, or null if the key does not match
+ */
+export async function unwrapWithKey(
+  wrapped: { iv: string; ciphertext: string },
+  kek: CryptoKey
+): Promise<Uint8Array | null> {
+  try {
+    const secret = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(wrapped.iv) },
+      kek,
+      base64ToBytes(wrapped.ciphertext)
+    );
+    return new Uint8Array(secret);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Encrypts a secret under a passphrase
+ *
+ * @param secret - The bytes to wrap
+ * @param passphrase - The passphrase (or combined secret) to derive the KEK from
+ * @param kdf - KDF choice and cost; defaults to Argon2id
+ * @returns The wrapped secret, including the KDF parameters
+ */
+export async function wrapWithPassphrase(
+  secret: Uint8Array,
+  passphrase: string | Uint8Array,
+  kdf?: KdfOptions
+): Promise<WrappedSecret> {
+  const params = createKdfParams(kdf);
+  const kek = await deriveKey(passphrase, params, ['encrypt']);
+  return { kdf: params, ...(await wrapWithKey(secret, kek)) };
+}
+
+/**
+ * Decrypts a secret wrapped by `wrapWithPassphrase`
+ *
+ * @param wrapped - The wrapped secret
+ * @param passphrase - The passphrase (or combined secret) to try
+ * @returns The secret, or null if the passphrase is wrong
+ */
+export async function unwrapWithPassphrase(
+  wrapped: WrappedSecret,
+  passphrase: string | Uint8Array
+): Promise<Uint8Array | null> {
+  const kek = await deriveKey(passphrase, wrapped.kdf, ['decrypt']);
+  return unwrapWithKey(wrapped, kek);
+}
+
+/**
+ * Validates a wrapped secret read from untrusted input
+ *
+ * @param wrapped - The parsed value
+ * @throws Error if a field is missing or the KDF parameters are out of range
+ */
+export function assertValidWrappedSecret(wrapped: WrappedSecret): void {
+  if (!wrapped || typeof wrapped.iv !== 'string' || typeof wrapped.ciphertext !== 'string') {
+    throw new Error("Corrupt wrapped key.");
+  }
+  assertValidKdfParams(wrapped.kdf);
+}
@@ -0,0 +1,59 @@
+/**
+ * Keyfiles
+ *
+ * A keyfile is a second factor for passphrase slots: any file the user
+ * picks, or random bytes generated by LockMe. Its SHA-256 digest is
+ * combined with the passphrase before key derivation, so the slot only
+ * opens with both:
+ *
+ *   secret = SHA-256(keyfile) | UTF-8(passphrase)
+ *   KEK = KDF(secret, salt)
+ *
+ * Slots created this way are flagged with `keyfile: true` in the header,
+ * so decryption can tell the user a keyfile is needed.
+ */
+
+import { concatBytes } from './encoding';
+
+/** Length of keyfiles generated by LockMe, in bytes */
+export const KEYFILE_LENGTH = 64;
+
+/** Largest accepted keyfile; it is hashed in one piece */
+export const MAX_KEYFILE_SIZE = 64 * 1024 * 1024;
+
+/**
+ * Generates random keyfile contents
+ *
+ * @returns Fresh random bytes to save as a keyfile
+ */
+export function generateKeyfile(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(KEYFILE_LENGTH));
+}
+
+/**
+ * Hashes a keyfile for use as a second factor
+ *
+ * @param keyfile - The keyfile chosen by the user
+ * @returns Its SHA-256 digest
+ * @throws Error if the keyfile is empty or too large
+ */
+export async function hashKeyfile(keyfile: Blob): Promise<Uint8Array> {
+  if (keyfile.size === 0) {
+    throw new Error("The keyfile is empty.");
+  }
+  if (keyfile.size > MAX_KEYFILE_SIZE) {
+    throw new Error(`Keyfiles larger than ${MAX_KEYFILE_SIZE / (1024 * 1024)} MB are not supported.`);
+  }
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', await keyfile.arrayBuffer()));
+}
+
+/**
+ * Combines a passphrase with a keyfile digest into the secret passed to the KDF
+ *
+ * @param passphrase - The user's passphrase
+ * @param keyfileDigest - The digest from `hashKeyfile`
+ * @returns The combined secret
+ */
+export function combineWithKeyfile(passphrase: string, keyfileDigest: Uint8Array): Uint8Array {
+  return concatBytes(keyfileDigest, new TextEncoder().encode(passphrase));
+}
@@ -0,0 +1,115 @@
+/**
+ * Encrypted File Metadata
+ *
+ * From container version 3 on, the encrypted payload starts with a small
+ * metadata record describing the original file:
+ *
+ *   u32 (big-endian) record length N | N bytes of UTF-8 JSON | file contents
+ *
+ * Because the record is part of the ciphertext it is both hidden and
+ * authenticated, so the original name and type survive renaming of the
+ * `.lockme` file and never leak through it.
+ */
+
+/** Upper bound for the metadata record */
+export const MAX_METADATA_LENGTH = 64 * 1024;
+
+/**
+ * Original file attributes restored on decryption
+ */
+export interface FileMetadata {
+  /** Original file name (no directories) */
+  name?: string;
+
+  /** Original MIME type */
+  type?: string;
+
+  /** Original size in bytes */
+  size?: number;
+
+  /** Original last-modified time (ms since epoch) */
+  lastModified?: number;
+}
+
+/**
+ * Captures the metadata of a browser File
+ *
+ * @param file - The file about to be encrypted
+ * @returns Its name, type, size and modification time
+ */
+export function metadataFromFile(file: File): FileMetadata {
+  return {
+    name: file.name,
+    type: file.type || undefined,
+    size: file.size,
+    lastModified: file.lastModified,
+  };
+}
+
+/**
+ * Serializes a metadata record, length prefix included
+ *
+ * @param metadata - The metadata to store
+ * @returns The bytes to place at the start of the plaintext
+ */
+export function encodeMetadataRecord(metadata: FileMetadata = {}): Uint8Array {
+  const json = new TextEncoder().encode(JSON.stringify(metadata));
+  if (json.length > MAX_METADATA_LENGTH) {
+    throw new Error("File metadata is too large.");
+  }
+
+  const record = new Uint8Array(4 + json.length);
+  new DataView(record.buffer).setUint32(0, json.length);
+  record.set(json, 4);
+  return record;
+}
+
+/**
+ * Reads the length prefix of a metadata record
+ *
+ * @param bytes - At least the first four plaintext bytes
+ * @returns Total record length including the prefix
+ * @throws Error if the declared length is out of range
+ */
+export function metadataRecordLength(bytes: Uint8Array): number {
+  const length = new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0);
+  if (length > MAX_METADATA_LENGTH) {
+    throw new Error("Corrupt file metadata.");
+  }
+  return 4 + length;
+}
+
+/**
+ * Parses a complete metadata record
+ *
+ * Only well-typed fields are kept; anything else is ignored.
+ *
+ * @param record - The record bytes, length prefix included
+ * @returns The decoded metadata
+ */
+export function decodeMetadataRecord(record: Uint8Array): FileMetadata {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(new TextDecoder().decode(record.subarray(4)));
+  } catch {
+    throw new Error("Corrupt file metadata.");
+  }
+
+  const metadata: FileMetadata = {};
+  if (typeof raw?.name === 'string') metadata.name = raw.name;
+  if (typeof raw?.type === 'string') metadata.type = raw.type;
+  if (Number.isFinite(raw?.size)) metadata.size = raw.size as number;
+  if (Number.isFinite(raw?.lastModified)) metadata.lastModified = raw.lastModified as number;
+  return metadata;
+}
+
+/**
+ * Reduces a stored name to a safe download file name
+ *
+ * @param name - The name read from metadata
+ * @returns The final path segment, or null if nothing usable remains
+ */
+export function safeFileName(name: string | undefined): string | null {
+  const base = name?.split(/[\\/]/).pop()?.trim();
+  return base && base !== '.' && base !== '..' ? base : null;
+}
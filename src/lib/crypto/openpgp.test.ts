@@ -0,0 +1,247 @@
+/**
+ * OpenPGP Tests
+ *
+ * Decryption is checked against messages written by GnuPG 2.2 and against
+ * version 6 SKESK / version 2 SEIPD messages assembled here from Node's
+ * own OCB and GCM; encryption by round trips through the decryptor.
+ * GnuPG itself reads the exported messages, which needs a local `gpg`
+ * and is not part of the suite.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCipheriv, createHash, hkdfSync } from 'node:crypto';
+
+import { aeadDecrypt, aeadEncrypt } from './aead';
+import {
+  base64ToBytes,
+  concatBytes,
+  createEncryptStream,
+  createOpenPgpDecryptStream,
+  createOpenPgpEncryptStream,
+  isOpenPgpFile,
+  streamToBlob,
+  type KdfOptions,
+} from './index';
+
+const FAST_KDF: KdfOptions = { id: 'pbkdf2-sha256', iterations: 1000 };
+
+/** Passphrase and content of the GnuPG messages below */
+const GPG_PASSPHRASE = 'partner-secret';
+const GPG_CONTENT = 'Quarterly numbers from GnuPG\n';
+
+/** `gpg --symmetric hello.txt`: AES-256, SEIPD v1, ZIP compression */
+const GPG_DEFAULT = 'jA0ECQMCNpiOEjSx25D/0lsBqqJ6imm+iaYNkjZpUr11cWtCAvgqveKjD7S2zwK7/WG03JwDvfJw8WqX9I+EZ4fHb2+/CV5cys3E5URKwukVa4Y/bhZ6sdjXcje+ZFG05Er9MdVBgWuSSw4g';
+
+/** `gpg --symmetric --compress-algo zlib hello.txt` */
+const GPG_ZLIB = 'jA0ECQMC2+DmRcct5un/0mEBh9BJv6gFhGJsrKHWzEXofbpo5946XyUkYI/URu/n+bJJg3jrG3nxNRbsqPPXtMOe1rAY76YXu9jX+8GcMB4CS/Gz6zoRVfj5DK06BrvlaFudndFc9KElYlARykem+qfe';
+
+/** `gpg --symmetric -z 0 --cipher-algo AES128 --s2k-digest-algo SHA512 hello.txt` */
+const GPG_UNCOMPRESSED = 'jA0EBwMK4gfFTKDDylH/0lcBzQuCFAvbGY31kTIZQKoMLtE0rGdBueWqcbSvD0LLsE0H1vuHK2qk59QjHjzb+Gy7KTvi2b4Y0I5wAkPM5ADRdJeMZnhGzU9IeVB4Z+s/YEsYuORllcc=';
+
+/** `gpg --symmetric --armor hello.txt` */
+const GPG_ARMORED = `-----BEGIN PGP MESSAGE-----
+
+jA0ECQMCsbVanQhVaaz/0lsBzU79q2KUVNvVUCCEjxdfx9YRFXlQTlnlk9zGM7tV
+Y8TaS4cPzlHNOkvgXTepM+SAW4evrMLz2r6IZeZcKlNkhnyvNxo7VYTGNHdxMGLq
+wbaC9zsqhCK6MJBW
+=KXdg
+-----END PGP MESSAGE-----
+`;
+
+/** Decrypts a message, optionally fed in small chunks, and returns the content and metadata */
+async function decrypt(message: Uint8Array | string, passphrase: string, chunkSize = Infinity) {
+  const bytes = typeof message === 'string' ? new TextEncoder().encode(message) : message;
+  const source = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += Math.min(chunkSize, bytes.length)) {
+        controller.enqueue(bytes.slice(i, i + chunkSize));
+      }
+      controller.close();
+    },
+  });
+
+  let metadata: { name?: string; lastModified?: number } | undefined;
+  const blob = await streamToBlob(source.pipeThrough(createOpenPgpDecryptStream(passphrase, { onMetadata: m => { metadata = m; } })));
+  return { content: new Uint8Array(await blob.arrayBuffer()), metadata };
+}
+
+/** Encrypts bytes into an OpenPGP message */
+async function encrypt(data: Uint8Array, passphrase: string, options: Parameters<typeof createOpenPgpEncryptStream>[1]): Promise<Uint8Array> {
+  const blob = await streamToBlob(new Blob([data]).stream().pipeThrough(createOpenPgpEncryptStream(passphrase, options)));
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/** A new-format packet with a five-octet length */
+function packet(tag: number, body: Uint8Array): Uint8Array {
+  const header = new Uint8Array(6);
+  header[0] = 0xc0 | tag;
+  header[1] = 0xff;
+  new DataView(header.buffer).setUint32(2, body.length);
+  return concatBytes(header, body);
+}
+
+/** 8 big-endian bytes */
+function uint64(n: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigUint64(0, BigInt(n));
+  return bytes;
+}
+
+/** AES-256 OCB or GCM from Node, with the tag appended */
+function seal(mode: 'ocb' | 'gcm', key: Uint8Array, nonce: Uint8Array, plaintext: Uint8Array, ad: Uint8Array): Uint8Array {
+  const cipher = mode === 'ocb'
+    ? createCipheriv('aes-256-ocb', key, nonce, { authTagLength: 16 })
+    : createCipheriv('aes-256-gcm', key, nonce);
+  cipher.setAAD(ad, { plaintextLength: plaintext.length });
+  return concatBytes(cipher.update(plaintext), cipher.final(), cipher.getAuthTag());
+}
+
+/**
+ * Assembles an RFC 9580 message: a v6 SKESK (iterated SHA-256 S2K) and a
+ * v2 SEIPD packet with 64-byte chunks around a literal packet
+ */
+function buildV6Message(mode: 'ocb' | 'gcm', passphrase: string, content: Uint8Array, truncate = false): Uint8Array {
+  const aead = mode === 'ocb' ? 2 : 3;
+  const nonceLength = mode === 'ocb' ? 15 : 12;
+  const sessionKey = crypto.getRandomValues(new Uint8Array(32));
+
+  // S2K type 3, count octet 0 (1024 bytes)
+  const salt = crypto.getRandomValues(new Uint8Array(8));
+  const s2k = concatBytes(Uint8Array.of(3, 8), salt, Uint8Array.of(0));
+  const repeated = Buffer.alloc(1024, concatBytes(salt, new TextEncoder().encode(passphrase)));
+  const derived = createHash('sha256').update(repeated).digest();
+
+  const skeskInfo = Uint8Array.of(0xc3, 6, 9, aead);
+  const kek = new Uint8Array(hkdfSync('sha256', derived, new Uint8Array(0), skeskInfo, 32));
+  const iv = crypto.getRandomValues(new Uint8Array(nonceLength));
+  const skesk = concatBytes(
+    Uint8Array.of(6, 3 + s2k.length + nonceLength, 9, aead, s2k.length),
+    s2k,
+    iv,
+    seal(mode, kek, iv, sessionKey, skeskInfo)
+  );
+
+  const literalBody = concatBytes(Uint8Array.of(0x62, 8), new TextEncoder().encode('plan.txt'), Uint8Array.of(0x65, 0, 0, 0), content);
+  const plaintext = packet(11, literalBody);
+
+  const info = Uint8Array.of(0xd2, 2, 9, aead, 0);
+  const seipdSalt = crypto.getRandomValues(new Uint8Array(32));
+  const keys = new Uint8Array(hkdfSync('sha256', sessionKey, seipdSalt, info, 32 + nonceLength - 8));
+  const messageKey = keys.subarray(0, 32);
+  const nonce = (index: number) => concatBytes(keys.subarray(32), uint64(index));
+
+  const chunks: Uint8Array[] = [];
+  let index = 0;
+  for (; index * 64 < plaintext.length; index++) {
+    chunks.push(seal(mode, messageKey, nonce(index), plaintext.subarray(index * 64, (index + 1) * 64), info));
+  }
+  if (!truncate) chunks.push(seal(mode, messageKey, nonce(index), new Uint8Array(0), concatBytes(info, uint64(plaintext.length))));
+
+  return concatBytes(packet(3, skesk), packet(18, concatBytes(Uint8Array.of(2, 9, aead, 0), seipdSalt, ...chunks)));
+}
+
+test('messages written by GnuPG decrypt with their file name', async () => {
+  for (const message of [GPG_DEFAULT, GPG_ZLIB, GPG_UNCOMPRESSED]) {
+    const bytes = base64ToBytes(message);
+    assert.equal(await isOpenPgpFile(new Blob([bytes])), true);
+
+    for (const chunkSize of [Infinity, 3]) {
+      const { content, metadata } = await decrypt(bytes, GPG_PASSPHRASE, chunkSize);
+      assert.equal(new TextDecoder().decode(content), GPG_CONTENT);
+      assert.equal(metadata?.name, 'hello.txt');
+    }
+  }
+
+  assert.equal(await isOpenPgpFile(new Blob([GPG_ARMORED])), true);
+  const { content } = await decrypt(GPG_ARMORED.replace(/\n/g, '\r\n'), GPG_PASSPHRASE, 5);
+  assert.equal(new TextDecoder().decode(content), GPG_CONTENT);
+
+  await assert.rejects(decrypt(base64ToBytes(GPG_DEFAULT), 'wrong'), /Incorrect passphrase/);
+});
+
+test('exported messages round trip in binary and armored form', async () => {
+  const data = Uint8Array.from({ length: 150_000 }, (_, i) => i % 251);
+  const metadata = { name: 'report.pdf', lastModified: 1_700_000_000_000 };
+
+  for (const armor of [false, true]) {
+    for (const plaintext of [new Uint8Array(0), data]) {
+      const message = await encrypt(plaintext, 'correct horse', { armor, metadata, passphrases: ['team horse'], s2kCount: 1024 });
+      assert.equal(await isOpenPgpFile(new Blob([message])), true);
+      if (armor) assert.match(new TextDecoder().decode(message), /^-----BEGIN PGP MESSAGE-----\n\n[\s\S]*\n=[A-Za-z0-9+/]{4}\n-----END PGP MESSAGE-----\n$/);
+
+      for (const passphrase of ['correct horse', 'team horse']) {
+        const result = await decrypt(message, passphrase, 1000);
+        assert.deepEqual(result.content, plaintext);
+        assert.deepEqual(result.metadata, metadata);
+      }
+      await assert.rejects(decrypt(message, 'wrong horse'), /Incorrect passphrase/);
+    }
+  }
+});
+
+test('tampered, truncated and unprotected messages are rejected', async () => {
+  const message = await encrypt(new Uint8Array(1000).fill(7), 'passphrase', { s2kCount: 1024 });
+
+  const flipped = message.slice();
+  flipped[flipped.length - 30] ^= 1;
+  await assert.rejects(decrypt(flipped, 'passphrase'), /corrupted or truncated/);
+  await assert.rejects(decrypt(message.subarray(0, -1), 'passphrase'), /corrupted or truncated/);
+  await assert.rejects(decrypt(concatBytes(message, Uint8Array.of(0)), 'passphrase'), /Corrupt OpenPGP|corrupted or truncated/);
+
+  // A symmetrically encrypted data packet (tag 9) has no MDC
+  const skesk = message.subarray(0, 2 + message[1]);
+  await assert.rejects(decrypt(concatBytes(skesk, Uint8Array.of(0xc9, 1, 0)), 'passphrase'), /no integrity protection/);
+
+  const armored = new TextDecoder().decode(await encrypt(new Uint8Array(10), 'passphrase', { armor: true, s2kCount: 1024 }));
+  await assert.rejects(decrypt(armored.replace(/\n=.{4}\n/, '\n=AAAA\n'), 'passphrase'), /Invalid OpenPGP armor/);
+});
+
+test('RFC 9580 v6 SKESK and v2 SEIPD messages decrypt with OCB and GCM', async () => {
+  const content = Uint8Array.from({ length: 300 }, (_, i) => i);
+
+  for (const mode of ['ocb', 'gcm'] as const) {
+    const message = buildV6Message(mode, 'v6 passphrase', content);
+    assert.equal(await isOpenPgpFile(new Blob([message])), true);
+
+    const result = await decrypt(message, 'v6 passphrase', 50);
+    assert.deepEqual(result.content, content);
+    assert.equal(result.metadata?.name, 'plan.txt');
+
+    await assert.rejects(decrypt(message, 'wrong'), /Incorrect passphrase/);
+    await assert.rejects(decrypt(buildV6Message(mode, 'v6 passphrase', content, true), 'v6 passphrase'), /corrupted or truncated/);
+  }
+});
+
+test('EAX matches the published test vector and OCB matches Node', () => {
+  // From the EAX paper (Bellare, Rogaway and Wagner), 2-byte message
+  const hex = (s: string) => new Uint8Array(Buffer.from(s, 'hex'));
+  const key = hex('91945d3f4dcbee0bf45ef52255f095a4');
+  const nonce = hex('becaf043b0a23d843194ba972c66debd');
+  const header = hex('fa3bfd4806eb53fa');
+  const sealed = aeadEncrypt('eax', key, nonce, hex('f7fb'), header);
+  assert.equal(Buffer.from(sealed).toString('hex'), '19dd5c4c9331049d0bdab0277408f67967e5');
+  assert.deepEqual(aeadDecrypt('eax', key, nonce, sealed, header), hex('f7fb'));
+
+  sealed[0] ^= 1;
+  assert.equal(aeadDecrypt('eax', key, nonce, sealed, header), null);
+
+  for (const length of [0, 15, 16, 47, 100]) {
+    const ocbKey = crypto.getRandomValues(new Uint8Array(32));
+    const ocbNonce = crypto.getRandomValues(new Uint8Array(15));
+    const plaintext = crypto.getRandomValues(new Uint8Array(length));
+    const ad = crypto.getRandomValues(new Uint8Array(length + 3));
+    assert.deepEqual(aeadEncrypt('ocb', ocbKey, ocbNonce, plaintext, ad), seal('ocb', ocbKey, ocbNonce, plaintext, ad));
+  }
+});
+
+test('only OpenPGP messages are recognised', async () => {
+  const container = await streamToBlob(
+    new Blob([new Uint8Array(10)]).stream().pipeThrough(createEncryptStream('passphrase', { kdf: FAST_KDF }))
+  );
+  assert.equal(await isOpenPgpFile(container), false);
+  assert.equal(await isOpenPgpFile(new Blob(['age-encryption.org/v1\n'])), false);
+  assert.equal(await isOpenPgpFile(new Blob(['Quarterly numbers, unencrypted'])), false);
+
+  await assert.rejects(decrypt(new Uint8Array(0), 'passphrase'), /Not an OpenPGP message/);
+});
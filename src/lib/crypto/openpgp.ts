@@ -0,0 +1,1356 @@
+/**
+ * OpenPGP Messages
+ *
+ * Reads and writes passphrase-encrypted OpenPGP messages (RFC 9580, and
+ * RFC 4880 as written by `gpg --symmetric`) so files move freely between
+ * LockMe and GnuPG:
+ *
+ *   SKESK packet(s)          one per passphrase: S2K parameters and,
+ *                            optionally, the session key wrapped under
+ *                            the derived key
+ *   SEIPD packet             the message encrypted under the session key
+ *     [compressed packet]    GnuPG compresses by default
+ *       literal packet       file name, date and the content
+ *
+ * Decryption accepts v4, v5 and v6 SKESK packets; version 1 SEIPD (CFB
+ * with a SHA-1 modification detection code), version 2 SEIPD and GnuPG's
+ * AEAD packet (EAX, OCB or GCM chunks); ZIP and ZLIB compression; and
+ * ASCII armor. Messages encrypted to public keys, packets without
+ * integrity protection and bzip2 are rejected.
+ *
+ * Exported messages use what every GnuPG version reads: v4 SKESK packets
+ * with an iterated and salted SHA-256 S2K, AES-256, version 1 SEIPD and
+ * an uncompressed literal packet, streamed with partial body lengths. A
+ * version 1 SEIPD payload is only checked once its MDC arrives at the
+ * end; a failed check errors the stream, so the output is discarded.
+ * GnuPG 2.2 only tries the first SKESK packet, so extra passphrases need
+ * a newer GnuPG or LockMe.
+ */
+
+import { cfb } from '@noble/ciphers/aes.js';
+import {
+  argon2id, createMD5, createRIPEMD160, createSHA1, createSHA224, createSHA256, createSHA384, createSHA512,
+  type IHasher,
+} from 'hash-wasm';
+
+import { AEAD_NONCE_LENGTHS, AEAD_TAG_LENGTH, aeadDecrypt, type AeadMode } from './aead';
+import { base64ToBytes, bytesToBase64, concatBytes } from './encoding';
+import { ARGON2_LIMITS } from './kdf';
+import type { FileMetadata } from './metadata';
+import { attachTransform, ByteQueue, type AttachedTransform } from './stream';
+
+/** Armor boundaries */
+const ARMOR_BEGIN = '-----BEGIN PGP MESSAGE-----';
+const ARMOR_END = '-----END PGP MESSAGE-----';
+
+/** Packet tags */
+const TAG = {
+  publicKeySessionKey: 1,
+  signature: 2,
+  symmetricSessionKey: 3,
+  onePassSignature: 4,
+  compressed: 8,
+  symmetricallyEncrypted: 9,
+  marker: 10,
+  literal: 11,
+  integrityProtected: 18,
+  aeadEncrypted: 20,
+  padding: 21,
+} as const;
+
+/** Key lengths of the supported ciphers: AES-128, AES-192 and AES-256 */
+const CIPHER_KEY_LENGTHS: Record<number, number> = { 7: 16, 8: 24, 9: 32 };
+
+/** Cipher of exported messages (AES-256) */
+const EXPORT_CIPHER = 9;
+
+/** AEAD algorithm identifiers */
+const AEAD_MODES: Record<number, AeadMode> = { 1: 'eax', 2: 'ocb', 3: 'gcm' };
+
+/** Hashes usable in S2K specifiers, by identifier */
+const S2K_HASHES: Record<number, () => Promise<IHasher>> = {
+  1: createMD5,
+  2: createSHA1,
+  3: createRIPEMD160,
+  8: createSHA256,
+  9: createSHA384,
+  10: createSHA512,
+  11: createSHA224,
+};
+
+/** S2K hash of exported messages (SHA-256) */
+const EXPORT_S2K_HASH = 8;
+
+/** Salt length in bytes of salted S2K specifiers */
+const S2K_SALT_LENGTH = 8;
+
+/** Most bytes an iterated and salted S2K can hash; GnuPG's default */
+export const OPENPGP_S2K_COUNT = 65011712;
+
+/** Bytes of repeated salt and passphrase handed to the hash at once */
+const S2K_BUFFER_SIZE = 64 * 1024;
+
+/** Decompression formats of the compression algorithms: none, ZIP and ZLIB */
+const DECOMPRESSION_FORMATS: Record<number, CompressionFormat | null> = { 0: null, 1: 'deflate-raw', 2: 'deflate' };
+
+/** bzip2 compression identifier */
+const BZIP2 = 3;
+
+/** AES block size in bytes */
+const BLOCK_SIZE = 16;
+
+/** The MDC packet header closing a version 1 SEIPD payload, and the packet's length */
+const MDC_HEADER = Uint8Array.of(0xd3, 0x14);
+const MDC_LENGTH = 22;
+
+/** log2 of the partial body length exported packets are split into */
+const PARTIAL_EXPONENT = 16;
+
+/** Largest chunk size octet accepted in AEAD payloads (4 MiB chunks) */
+const MAX_CHUNK_SIZE_OCTET = 16;
+
+/** Largest session key, marker or padding packet read into memory */
+const MAX_PACKET_SIZE = 64 * 1024;
+
+/** CRC-24 of the armor checksum */
+const CRC24_INIT = 0xb704ce;
+const CRC24_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 16;
+    for (let bit = 0; bit < 8; bit++) {
+      crc <<= 1;
+      if (crc & 0x1000000) crc ^= 0x1864cfb;
+    }
+    table[i] = crc & 0xffffff;
+  }
+  return table;
+})();
+
+/**
+ * Options for exporting an OpenPGP message
+ */
+export interface OpenPgpEncryptOptions {
+  /** Further passphrases that open the message, one SKESK packet each */
+  passphrases?: string[];
+
+  /** Whether to ASCII-armor the output (`.asc`) instead of binary (`.gpg`) */
+  armor?: boolean;
+
+  /** File name and modification time stored in the literal packet */
+  metadata?: FileMetadata;
+
+  /** Bytes hashed by the S2K per passphrase; defaults to `OPENPGP_S2K_COUNT` */
+  s2kCount?: number;
+}
+
+/**
+ * Options for decrypting an OpenPGP message
+ */
+export interface OpenPgpDecryptOptions {
+  /** Receives the file name and date from the literal packet */
+  onMetadata?: (metadata: FileMetadata) => void;
+}
+
+/**
+ * How a passphrase becomes a key
+ */
+type S2K =
+  | { type: 0 | 1 | 3; hash: number; salt: Uint8Array; count: number }
+  | { type: 4; salt: Uint8Array; passes: number; parallelism: number; memoryExponent: number };
+
+/**
+ * A parsed symmetric-key encrypted session key (SKESK) packet
+ */
+interface SessionKeyPacket {
+  version: number;
+  cipher: number;
+  aead?: number;
+  s2k: S2K;
+  iv: Uint8Array;
+  encryptedKey: Uint8Array;
+}
+
+/**
+ * A session key recovered from an SKESK packet; v5 and v6 packets leave
+ * the cipher to the data packet
+ */
+interface SessionKey {
+  cipher?: number;
+  key: Uint8Array;
+}
+
+/**
+ * Length of a packet body, or of its next part
+ */
+interface BodyLength {
+  /** Bytes in this part; Infinity for an old-format indeterminate length */
+  length: number;
+
+  /** Whether another length follows this part */
+  partial: boolean;
+}
+
+/**
+ * A parsed packet header
+ */
+interface PacketHeader extends BodyLength {
+  tag: number;
+}
+
+/**
+ * Decrypts the body of an encrypted data packet as it arrives
+ */
+interface PayloadDecryptor {
+  /** Decrypts the next body bytes and returns the plaintext released so far */
+  update: (bytes: Uint8Array) => Promise<Uint8Array>;
+
+  /** Checks the end of the payload and returns the remaining plaintext */
+  final: () => Promise<Uint8Array>;
+}
+
+/**
+ * Creates the error for a malformed message
+ */
+function corrupt(detail?: string): Error {
+  return new Error(`Corrupt OpenPGP message${detail ? `: ${detail}` : ''}.`);
+}
+
+/**
+ * Creates the error for an algorithm or feature LockMe does not read
+ */
+function unsupported(what: string): Error {
+  return new Error(`Unsupported OpenPGP ${what}.`);
+}
+
+/**
+ * Encodes a number as 8 big-endian bytes
+ */
+function uint64(n: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, Math.floor(n / 2 ** 32));
+  view.setUint32(4, n >>> 0);
+  return bytes;
+}
+
+/**
+ * Reads 4 big-endian bytes
+ */
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(offset);
+}
+
+/**
+ * Updates a CRC-24 with more bytes
+ */
+function crc24(crc: number, bytes: Uint8Array): number {
+  for (let i = 0; i < bytes.length; i++) {
+    crc = ((crc << 8) ^ CRC24_TABLE[((crc >> 16) ^ bytes[i]) & 0xff]) & 0xffffff;
+  }
+  return crc;
+}
+
+/**
+ * Derives key material with HKDF-SHA256
+ */
+async function hkdf(ikm: Uint8Array, salt: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8);
+  return new Uint8Array(bits);
+}
+
+/**
+ * Parses a new-format body length
+ *
+ * @param bytes - Bytes holding the length
+ * @param offset - Where the length starts
+ * @returns The length and the number of bytes it took, or null if more
+ *   bytes are needed
+ */
+function parseBodyLength(bytes: Uint8Array, offset: number): { length: BodyLength; size: number } | null {
+  const first = bytes[offset];
+  if (first === undefined) return null;
+
+  if (first < 192) return { length: { length: first, partial: false }, size: 1 };
+  if (first < 224) {
+    if (bytes.length < offset + 2) return null;
+    return { length: { length: ((first - 192) << 8) + bytes[offset + 1] + 192, partial: false }, size: 2 };
+  }
+  if (first === 255) {
+    if (bytes.length < offset + 5) return null;
+    return { length: { length: readUint32(bytes, offset + 1), partial: false }, size: 5 };
+  }
+  return { length: { length: 1 << (first & 0x1f), partial: true }, size: 1 };
+}
+
+/**
+ * Parses a packet header in either the old or the new format
+ *
+ * @param bytes - Bytes starting at the header (up to 6 are read)
+ * @returns The header and its size, or null if more bytes are needed
+ */
+function parsePacketHeader(bytes: Uint8Array): { header: PacketHeader; size: number } | null {
+  if (bytes.length === 0) return null;
+  const first = bytes[0];
+  if (!(first & 0x80)) throw corrupt("invalid packet header");
+
+  if (first & 0x40) {
+    const parsed = parseBodyLength(bytes, 1);
+    return parsed && { header: { tag: first & 0x3f, ...parsed.length }, size: 1 + parsed.size };
+  }
+
+  const tag = (first >> 2) & 0x0f;
+  const lengthType = first & 0x03;
+  if (lengthType === 3) return { header: { tag, length: Infinity, partial: false }, size: 1 };
+
+  const octets = 1 << lengthType;
+  if (bytes.length < 1 + octets) return null;
+  let length = 0;
+  for (let i = 1; i <= octets; i++) length = length * 256 + bytes[i];
+  return { header: { tag, length, partial: false }, size: 1 + octets };
+}
+
+/**
+ * Encodes a new-format body length
+ */
+function encodeBodyLength(length: number): Uint8Array {
+  if (length < 192) return Uint8Array.of(length);
+  if (length < 8384) return Uint8Array.of(((length - 192) >> 8) + 192, (length - 192) & 0xff);
+  const bytes = new Uint8Array(5);
+  bytes[0] = 255;
+  new DataView(bytes.buffer).setUint32(1, length);
+  return bytes;
+}
+
+/**
+ * Encodes a whole packet in the new format
+ */
+function encodePacket(tag: number, body: Uint8Array): Uint8Array {
+  return concatBytes(Uint8Array.of(0xc0 | tag), encodeBodyLength(body.length), body);
+}
+
+/**
+ * Reads the body of one packet from a queue, across partial body lengths
+ */
+class PacketBody {
+  constructor(private remaining: number, private partial: boolean) {}
+
+  /** Whether the whole body has been read */
+  get done(): boolean {
+    return this.remaining === 0 && !this.partial;
+  }
+
+  /** Whether the body may end with the input: it is complete or has an indeterminate length */
+  get complete(): boolean {
+    return this.done || this.remaining === Infinity;
+  }
+
+  /** Takes the body bytes available in the queue */
+  read(queue: ByteQueue): Uint8Array {
+    const parts: Uint8Array[] = [];
+    while (queue.length > 0 && !this.done) {
+      if (this.remaining === 0) {
+        const next = parseBodyLength(queue.peek(Math.min(queue.length, 5)), 0);
+        if (!next) break;
+        queue.take(next.size);
+        ({ length: this.remaining, partial: this.partial } = next.length);
+        continue;
+      }
+      const part = queue.take(Math.min(this.remaining, queue.length));
+      this.remaining -= part.length;
+      parts.push(part);
+    }
+    return parts.length === 1 ? parts[0] : concatBytes(...parts);
+  }
+}
+
+/**
+ * Frames a streamed packet body with partial body lengths
+ */
+class PartialPacketWriter {
+  private queue = new ByteQueue();
+  private started = false;
+
+  constructor(private tag: number) {}
+
+  /** Adds body bytes and returns the framed output ready so far */
+  write(bytes: Uint8Array): Uint8Array {
+    this.queue.push(bytes);
+    const parts: Uint8Array[] = [];
+    // A part is only written as partial once more body follows it
+    while (this.queue.length > 1 << PARTIAL_EXPONENT) {
+      parts.push(this.header(), Uint8Array.of(0xe0 | PARTIAL_EXPONENT), this.queue.take(1 << PARTIAL_EXPONENT));
+    }
+    return concatBytes(...parts);
+  }
+
+  /** Ends the body and returns the rest of the packet */
+  end(): Uint8Array {
+    return concatBytes(this.header(), encodeBodyLength(this.queue.length), this.queue.take(this.queue.length));
+  }
+
+  /** The tag byte, before the first length only */
+  private header(): Uint8Array {
+    if (this.started) return new Uint8Array(0);
+    this.started = true;
+    return Uint8Array.of(0xc0 | this.tag);
+  }
+}
+
+/**
+ * AES in OpenPGP's CFB mode (zero IV, no resynchronisation), streamed
+ */
+class CfbStream {
+  private key: Uint8Array;
+  private iv = new Uint8Array(BLOCK_SIZE);
+  private pending = new ByteQueue();
+
+  constructor(key: Uint8Array, private direction: 'encrypt' | 'decrypt') {
+    this.key = key.slice();
+  }
+
+  /** Processes the whole blocks available and returns their output */
+  update(bytes: Uint8Array): Uint8Array {
+    this.pending.push(bytes);
+    return this.process(this.pending.take(this.pending.length - (this.pending.length % BLOCK_SIZE)));
+  }
+
+  /** Processes the final partial block and wipes the key */
+  final(): Uint8Array {
+    const output = this.process(this.pending.take(this.pending.length));
+    this.key.fill(0);
+    return output;
+  }
+
+  private process(input: Uint8Array): Uint8Array {
+    if (input.length === 0) return input;
+    const output = cfb(this.key, this.iv)[this.direction](input);
+    const ciphertext = this.direction === 'encrypt' ? output : input;
+    if (ciphertext.length >= BLOCK_SIZE) this.iv = ciphertext.slice(-BLOCK_SIZE);
+    return output;
+  }
+}
+
+/**
+ * Decodes the byte count of an iterated and salted S2K
+ */
+function decodeS2KCount(octet: number): number {
+  return (16 + (octet & 15)) << ((octet >> 4) + 6);
+}
+
+/**
+ * Finds the smallest encodable S2K count of at least `count` bytes
+ */
+function encodeS2KCount(count: number): number {
+  for (let octet = 0; octet < 255; octet++) {
+    if (decodeS2KCount(octet) >= count) return octet;
+  }
+  return 255;
+}
+
+/**
+ * Parses an S2K specifier
+ *
+ * @param bytes - The packet body
+ * @param offset - Where the specifier starts
+ * @returns The specifier and the offset after it
+ */
+function parseS2K(bytes: Uint8Array, offset: number): { s2k: S2K; end: number } {
+  const type = bytes[offset];
+  const sizes: Record<number, number> = { 0: 2, 1: 10, 3: 11, 4: 20 };
+  if (sizes[type] === undefined) throw unsupported("S2K specifier");
+  const end = offset + sizes[type];
+  if (end > bytes.length) throw corrupt("truncated S2K specifier");
+
+  if (type === 4) {
+    return {
+      s2k: {
+        type,
+        salt: bytes.slice(offset + 1, offset + 17),
+        passes: bytes[offset + 17],
+        parallelism: bytes[offset + 18],
+        memoryExponent: bytes[offset + 19],
+      },
+      end,
+    };
+  }
+  return {
+    s2k: {
+      type: type as 0 | 1 | 3,
+      hash: bytes[offset + 1],
+      salt: bytes.slice(offset + 2, offset + 2 + (type === 0 ? 0 : S2K_SALT_LENGTH)),
+      count: type === 3 ? decodeS2KCount(bytes[offset + 10]) : 0,
+    },
+    end,
+  };
+}
+
+/**
+ * Encodes an iterated and salted S2K specifier
+ */
+function encodeS2K(hash: number, salt: Uint8Array, count: number): Uint8Array {
+  return concatBytes(Uint8Array.of(3, hash), salt, Uint8Array.of(encodeS2KCount(count)));
+}
+
+/**
+ * Derives a key from a passphrase with an S2K specifier
+ *
+ * Hashed specifiers run one hash per needed digest, each preloaded with
+ * one more zero byte, over the salt and passphrase repeated to the count.
+ *
+ * @param s2k - The specifier
+ * @param passphrase - The passphrase, encoded as UTF-8
+ * @param keyLength - Key length in bytes
+ * @returns The derived key
+ */
+async function deriveS2K(s2k: S2K, passphrase: string, keyLength: number): Promise<Uint8Array> {
+  const password = new TextEncoder().encode(passphrase);
+
+  if (s2k.type === 4) {
+    if (
+      s2k.memoryExponent > 30 || 2 ** s2k.memoryExponent > ARGON2_LIMITS.memory.max
+      || s2k.passes > ARGON2_LIMITS.iterations.max || s2k.parallelism > ARGON2_LIMITS.parallelism.max
+    ) {
+      throw new Error("The Argon2 parameters of this message exceed the supported limits.");
+    }
+    return argon2id({
+      password,
+      salt: s2k.salt,
+      memorySize: 2 ** s2k.memoryExponent,
+      iterations: s2k.passes,
+      parallelism: s2k.parallelism,
+      hashLength: keyLength,
+      outputType: 'binary',
+    });
+  }
+
+  const createHasher = S2K_HASHES[s2k.hash];
+  if (!createHasher) throw unsupported("S2K hash");
+
+  const data = concatBytes(s2k.salt, password);
+  const total = Math.max(s2k.count, data.length);
+  // Repeat the data so the count is hashed in a few large updates
+  const repeated = data.length === 0
+    ? data
+    : concatBytes(...new Array<Uint8Array>(Math.max(1, Math.floor(S2K_BUFFER_SIZE / data.length))).fill(data));
+
+  const digests: Uint8Array[] = [];
+  for (let preload = 0, length = 0; length < keyLength; preload++) {
+    const hasher = (await createHasher()).init();
+    hasher.update(new Uint8Array(preload));
+    for (let remaining = total; remaining > 0; remaining -= repeated.length) {
+      hasher.update(repeated.subarray(0, Math.min(remaining, repeated.length)));
+    }
+    const digest = hasher.digest('binary');
+    digests.push(digest);
+    length += digest.length;
+  }
+
+  const key = concatBytes(...digests);
+  try {
+    return key.slice(0, keyLength);
+  } finally {
+    key.fill(0);
+    password.fill(0);
+  }
+}
+
+/**
+ * Parses the body of an SKESK packet
+ */
+function parseSessionKeyPacket(body: Uint8Array): SessionKeyPacket {
+  const version = body[0];
+
+  if (version === 4) {
+    const { s2k, end } = parseS2K(body, 2);
+    return { version, cipher: body[1], s2k, iv: new Uint8Array(0), encryptedKey: body.slice(end) };
+  }
+
+  if (version === 5 || version === 6) {
+    // Version 6 adds the length of the next fields and of the S2K specifier
+    let offset = version === 6 ? 2 : 1;
+    const cipher = body[offset];
+    const aead = body[offset + 1];
+    offset += version === 6 ? 3 : 2;
+
+    const { s2k, end } = parseS2K(body, offset);
+    const mode = AEAD_MODES[aead];
+    if (!mode) throw unsupported("AEAD algorithm");
+    const ivEnd = end + AEAD_NONCE_LENGTHS[mode];
+    if (body.length <= ivEnd + AEAD_TAG_LENGTH) throw corrupt("truncated session key packet");
+
+    return { version, cipher, aead, s2k, iv: body.slice(end, ivEnd), encryptedKey: body.slice(ivEnd) };
+  }
+
+  throw unsupported("session key packet version");
+}
+
+/**
+ * Recovers the session key from an SKESK packet
+ *
+ * @param packet - The parsed packet
+ * @param passphrase - The passphrase to try
+ * @returns The session key, or null if the passphrase is wrong; a v4
+ *   packet without an encrypted key always yields one, checked later
+ */
+async function openSessionKeyPacket(packet: SessionKeyPacket, passphrase: string): Promise<SessionKey | null> {
+  const keyLength = CIPHER_KEY_LENGTHS[packet.cipher];
+  if (!keyLength) throw unsupported("cipher");
+  const derived = await deriveS2K(packet.s2k, passphrase, keyLength);
+
+  try {
+    if (packet.version === 4) {
+      // Without an encrypted session key the derived key is the session key
+      if (packet.encryptedKey.length === 0) return { cipher: packet.cipher, key: derived.slice() };
+
+      const decrypted = cfb(derived, new Uint8Array(BLOCK_SIZE)).decrypt(packet.encryptedKey);
+      const cipher = decrypted[0];
+      const key = decrypted.slice(1);
+      decrypted.fill(0);
+      return CIPHER_KEY_LENGTHS[cipher] === key.length ? { cipher, key } : null;
+    }
+
+    const info = Uint8Array.of(0xc3, packet.version, packet.cipher, packet.aead!);
+    const kek = packet.version === 6 ? await hkdf(derived, new Uint8Array(0), info, keyLength) : derived;
+    const key = aeadDecrypt(AEAD_MODES[packet.aead!], kek, packet.iv, packet.encryptedKey, info);
+    kek.fill(0);
+    return key && { key };
+  } finally {
+    derived.fill(0);
+  }
+}
+
+/**
+ * Decrypts a version 1 SEIPD payload: CFB with a random prefix and a
+ * trailing SHA-1 MDC over everything before the hash
+ */
+function createCfbDecryptor(sessionKeys: SessionKey[]): PayloadDecryptor {
+  const start = new ByteQueue();
+  const held = new ByteQueue();
+  let cipher: CfbStream | null = null;
+  let hasher: IHasher;
+  let prefixLeft = BLOCK_SIZE + 2;
+
+  /** Hashes plaintext and releases all but the last bytes, which may be the MDC */
+  const release = (plaintext: Uint8Array) => {
+    held.push(plaintext);
+    if (held.length <= MDC_LENGTH) return new Uint8Array(0);
+    const output = held.take(held.length - MDC_LENGTH);
+    hasher.update(output);
+
+    const skip = Math.min(prefixLeft, output.length);
+    prefixLeft -= skip;
+    return output.subarray(skip);
+  };
+
+  /** Picks the session key whose prefix passes the quick check */
+  const choose = async () => {
+    const prefix = start.peek(BLOCK_SIZE + 2);
+    const sessionKey = sessionKeys.find(({ cipher, key }) => {
+      if (cipher === undefined || CIPHER_KEY_LENGTHS[cipher] !== key.length) return false;
+      const plaintext = cfb(key, new Uint8Array(BLOCK_SIZE)).decrypt(prefix);
+      return plaintext[BLOCK_SIZE - 2] === plaintext[BLOCK_SIZE] && plaintext[BLOCK_SIZE - 1] === plaintext[BLOCK_SIZE + 1];
+    });
+    if (!sessionKey) throw new Error("Incorrect passphrase or corrupted file.");
+
+    cipher = new CfbStream(sessionKey.key, 'decrypt');
+    hasher = await createSHA1();
+    return release(cipher.update(start.take(start.length)));
+  };
+
+  return {
+    update: async (bytes) => {
+      if (cipher) return release(cipher.update(bytes));
+      start.push(bytes);
+      return start.length < BLOCK_SIZE + 2 ? new Uint8Array(0) : choose();
+    },
+    final: async () => {
+      if (!cipher) throw new Error("File is corrupted or truncated.");
+      const output = release(cipher.final());
+      const mdc = held.take(held.length);
+      if (prefixLeft > 0 || mdc.length !== MDC_LENGTH || mdc[0] !== MDC_HEADER[0] || mdc[1] !== MDC_HEADER[1]) {
+        throw new Error("File is corrupted or truncated.");
+      }
+
+      hasher.update(MDC_HEADER);
+      const digest = hasher.digest('binary');
+      if (!digest.every((b, i) => b === mdc[2 + i])) throw new Error("File is corrupted or truncated.");
+      return output;
+    },
+  };
+}
+
+/**
+ * Decrypts AEAD chunks: full chunks with their tags, then a final tag
+ * over the total length that detects truncation
+ */
+function createChunkDecryptor(
+  mode: AeadMode,
+  key: Uint8Array,
+  chunkSizeOctet: number,
+  nonce: (index: number) => Uint8Array,
+  ad: (index: number, total?: number) => Uint8Array
+): PayloadDecryptor {
+  if (chunkSizeOctet > MAX_CHUNK_SIZE_OCTET) throw unsupported("chunk size");
+  const sealedChunkSize = 2 ** (chunkSizeOctet + 6) + AEAD_TAG_LENGTH;
+  const queue = new ByteQueue();
+  let index = 0;
+  let total = 0;
+
+  const open = (sealed: Uint8Array, associated: Uint8Array) => {
+    const plaintext = aeadDecrypt(mode, key, nonce(index), sealed, associated);
+    if (!plaintext) throw new Error("File is corrupted or truncated.");
+    return plaintext;
+  };
+
+  return {
+    update: async (bytes) => {
+      queue.push(bytes);
+      const chunks: Uint8Array[] = [];
+      // A full chunk is only known not to be the last once the final tag follows it
+      while (queue.length > sealedChunkSize + AEAD_TAG_LENGTH) {
+        const plaintext = open(queue.take(sealedChunkSize), ad(index));
+        chunks.push(plaintext);
+        total += plaintext.length;
+        index++;
+      }
+      return concatBytes(...chunks);
+    },
+    final: async () => {
+      const rest = queue.take(queue.length);
+      if (rest.length < AEAD_TAG_LENGTH || rest.length === 2 * AEAD_TAG_LENGTH) {
+        throw new Error("File is corrupted or truncated.");
+      }
+
+      let output: Uint8Array = new Uint8Array(0);
+      if (rest.length > AEAD_TAG_LENGTH) {
+        output = open(rest.subarray(0, -AEAD_TAG_LENGTH), ad(index));
+        total += output.length;
+        index++;
+      }
+      open(rest.subarray(-AEAD_TAG_LENGTH), ad(index, total));
+      key.fill(0);
+      return output;
+    },
+  };
+}
+
+/**
+ * Reads the fields in front of an encrypted payload and sets up its decryption
+ *
+ * @param tag - Tag of the data packet (SEIPD or AEAD)
+ * @param preamble - Body bytes read so far
+ * @param sessionKeys - Candidate session keys
+ * @returns The decryptor, with the preamble consumed, or null if more
+ *   bytes are needed
+ */
+async function createPayloadDecryptor(tag: number, preamble: ByteQueue, sessionKeys: SessionKey[]): Promise<PayloadDecryptor | null> {
+  const head = preamble.peek(Math.min(preamble.length, 4));
+  if (head.length === 0) return null;
+  const version = head[0];
+
+  if (tag === TAG.integrityProtected && version === 1) {
+    preamble.take(1);
+    return createCfbDecryptor(sessionKeys);
+  }
+
+  if (tag === TAG.integrityProtected ? version !== 2 : version !== 1) {
+    throw unsupported("encrypted data packet version");
+  }
+  if (head.length < 4) return null;
+
+  const [, cipher, aead, chunkSizeOctet] = head;
+  const keyLength = CIPHER_KEY_LENGTHS[cipher];
+  const mode = AEAD_MODES[aead];
+  if (!keyLength) throw unsupported("cipher");
+  if (!mode) throw unsupported("AEAD algorithm");
+
+  const nonceLength = AEAD_NONCE_LENGTHS[mode];
+  const saltLength = tag === TAG.integrityProtected ? 32 : nonceLength;
+  if (preamble.length < 4 + saltLength) return null;
+  const fields = preamble.take(4 + saltLength);
+  const info = fields.slice(0, 4);
+
+  const sessionKey = sessionKeys.find(key => key.key.length === keyLength && (key.cipher === undefined || key.cipher === cipher));
+  if (!sessionKey) throw new Error("Incorrect passphrase or corrupted file.");
+
+  if (tag === TAG.integrityProtected) {
+    // Version 2 SEIPD: message key and IV from HKDF, the chunk index appended to the IV
+    const associated = concatBytes(Uint8Array.of(0xc0 | tag), info);
+    const derived = await hkdf(sessionKey.key, fields.subarray(4), associated, keyLength + nonceLength - 8);
+    const iv = derived.slice(keyLength);
+    return createChunkDecryptor(
+      mode,
+      derived.subarray(0, keyLength),
+      chunkSizeOctet,
+      index => concatBytes(iv, uint64(index)),
+      (_, total) => (total === undefined ? associated : concatBytes(associated, uint64(total)))
+    );
+  }
+
+  // GnuPG's AEAD packet: the session key directly, the chunk index XORed into the IV
+  const iv = fields.subarray(4);
+  const header = concatBytes(Uint8Array.of(0xc0 | tag), info);
+  return createChunkDecryptor(
+    mode,
+    sessionKey.key.slice(),
+    chunkSizeOctet,
+    index => {
+      const nonce = iv.slice();
+      uint64(index).forEach((b, i) => { nonce[nonceLength - 8 + i] ^= b; });
+      return nonce;
+    },
+    (index, total) => concatBytes(header, uint64(index), ...(total === undefined ? [] : [uint64(total)]))
+  );
+}
+
+/**
+ * Creates the transform that reads the decrypted message: an optional
+ * compressed packet around one literal packet, whose content is output
+ *
+ * @param options - Receives the literal packet's file name and date
+ * @param nested - Whether this is the content of a compressed packet
+ */
+function createMessageStream(options: OpenPgpDecryptOptions, nested: boolean): TransformStream<Uint8Array, Uint8Array> {
+  const queue = new ByteQueue();
+  const fields = new ByteQueue();
+  let body: PacketBody | null = null;
+  let kind: 'literal-header' | 'literal' | 'compression' | 'compressed' | 'skip' = 'skip';
+  let content = 0;
+  let inner: AttachedTransform | null = null;
+
+  /** Starts reading the packet with the given header */
+  const startPacket = (header: PacketHeader) => {
+    body = new PacketBody(header.length, header.partial);
+    switch (header.tag) {
+      case TAG.literal:
+      case TAG.compressed:
+        if (++content > 1 || (nested && header.tag === TAG.compressed)) throw corrupt("unexpected packet");
+        kind = header.tag === TAG.literal ? 'literal-header' : 'compression';
+        return;
+      case TAG.onePassSignature:
+      case TAG.signature:
+      case TAG.marker:
+      case TAG.padding:
+        // Signatures of signed-and-encrypted messages are not checked
+        kind = 'skip';
+        return;
+      default:
+        throw corrupt("unexpected packet");
+    }
+  };
+
+  /** Handles body bytes of the current packet */
+  const consume = async (bytes: Uint8Array, controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (kind === 'literal') {
+      if (bytes.length > 0) controller.enqueue(bytes);
+    } else if (kind === 'compressed') {
+      if (bytes.length > 0) await inner!.write(bytes);
+    } else if (kind === 'literal-header') {
+      fields.push(bytes);
+      const head = fields.peek(Math.min(fields.length, 2));
+      if (head.length < 2 || fields.length < 6 + head[1]) return;
+
+      const header = fields.take(6 + head[1]);
+      const name = new TextDecoder().decode(header.subarray(2, 2 + head[1]));
+      const date = readUint32(header, 2 + head[1]);
+      const metadata: FileMetadata = {};
+      if (name && name !== '_CONSOLE') metadata.name = name;
+      if (date > 0) metadata.lastModified = date * 1000;
+      options.onMetadata?.(metadata);
+
+      kind = 'literal';
+      await consume(fields.take(fields.length), controller);
+    } else if (kind === 'compression') {
+      fields.push(bytes);
+      if (fields.length === 0) return;
+
+      const algorithm = fields.take(1)[0];
+      if (algorithm === BZIP2) throw new Error("bzip2-compressed OpenPGP messages are not supported.");
+      const format = DECOMPRESSION_FORMATS[algorithm];
+      if (format === undefined) throw unsupported("compression algorithm");
+
+      const message = createMessageStream(options, true);
+      if (format === null) {
+        inner = attachTransform(message, controller);
+      } else {
+        const decompress = new DecompressionStream(format);
+        inner = attachTransform({ writable: decompress.writable, readable: decompress.readable.pipeThrough(message) }, controller);
+      }
+      kind = 'compressed';
+      await consume(fields.take(fields.length), controller);
+    }
+  };
+
+  /** Ends the current packet once its body has been read */
+  const finishPacket = async () => {
+    if (kind === 'literal-header' || kind === 'compression') throw corrupt("truncated packet");
+    if (kind === 'compressed') await inner!.close();
+    body = null;
+  };
+
+  /** Reads as many packets as the queued bytes allow */
+  const run = async (controller: TransformStreamDefaultController<Uint8Array>) => {
+    for (;;) {
+      if (!body) {
+        const parsed = parsePacketHeader(queue.peek(Math.min(queue.length, 6)));
+        if (!parsed) return;
+        queue.take(parsed.size);
+        startPacket(parsed.header);
+      }
+      await consume(body!.read(queue), controller);
+      if (!body!.done) return;
+      await finishPacket();
+    }
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      queue.push(chunk);
+      await run(controller);
+    },
+    async flush(controller) {
+      await run(controller);
+      if (body) {
+        if (!(body as PacketBody).complete) throw new Error("File is corrupted or truncated.");
+        await finishPacket();
+      }
+      if (queue.length > 0) throw new Error("File is corrupted or truncated.");
+      if (content === 0) throw corrupt("no literal data");
+    },
+  });
+}
+
+/**
+ * Creates the transform that decrypts a binary OpenPGP message
+ */
+function createBinaryDecryptStream(
+  passphrase: string,
+  options: OpenPgpDecryptOptions
+): TransformStream<Uint8Array, Uint8Array> {
+  const queue = new ByteQueue();
+  const preamble = new ByteQueue();
+  const sessionKeyPackets: SessionKeyPacket[] = [];
+  let publicKeyPackets = 0;
+  let state: 'packets' | 'payload' | 'trailer' = 'packets';
+  let body: PacketBody;
+  let dataTag: number;
+  let sessionKeys: SessionKey[];
+  let decryptor: PayloadDecryptor | null = null;
+  let message: AttachedTransform;
+
+  /** Tries the passphrase on every SKESK packet */
+  const openSessionKeys = async (): Promise<SessionKey[]> => {
+    if (sessionKeyPackets.length === 0) {
+      throw publicKeyPackets > 0
+        ? new Error("This message was encrypted to a public key. Only passphrase-encrypted OpenPGP messages can be opened.")
+        : corrupt("no session key packet");
+    }
+
+    const keys: SessionKey[] = [];
+    let failure: Error | null = null;
+    for (const packet of sessionKeyPackets) {
+      try {
+        const key = await openSessionKeyPacket(packet, passphrase);
+        if (key) keys.push(key);
+      } catch (error) {
+        failure ??= error as Error;
+      }
+    }
+    if (keys.length === 0) throw failure ?? new Error("Incorrect passphrase or corrupted file.");
+    return keys;
+  };
+
+  /** Reads whole packets other than the data packet; returns false if more input is needed */
+  const readSmallPacket = (allowed: number[]): { tag: number; body: Uint8Array } | null => {
+    const parsed = parsePacketHeader(queue.peek(Math.min(queue.length, 6)));
+    if (!parsed) return null;
+    const { header, size } = parsed;
+    if (!allowed.includes(header.tag)) throw corrupt("unexpected packet");
+    if (header.partial || header.length > MAX_PACKET_SIZE) throw corrupt("packet too large");
+    if (queue.length < size + header.length) return null;
+    queue.take(size);
+    return { tag: header.tag, body: queue.take(header.length) };
+  };
+
+  /** Reads the packets in front of the encrypted data; returns false if more input is needed */
+  const readPackets = async (controller: TransformStreamDefaultController<Uint8Array>): Promise<boolean> => {
+    for (;;) {
+      const parsed = parsePacketHeader(queue.peek(Math.min(queue.length, 6)));
+      if (!parsed) return false;
+      const { header, size } = parsed;
+
+      if (header.tag === TAG.integrityProtected || header.tag === TAG.aeadEncrypted) {
+        queue.take(size);
+        body = new PacketBody(header.length, header.partial);
+        dataTag = header.tag;
+        sessionKeys = await openSessionKeys();
+        message = attachTransform(createMessageStream(options, false), controller);
+        state = 'payload';
+        return true;
+      }
+      if (header.tag === TAG.symmetricallyEncrypted) {
+        throw new Error("This OpenPGP message has no integrity protection and cannot be opened safely.");
+      }
+
+      const packet = readSmallPacket([TAG.symmetricSessionKey, TAG.publicKeySessionKey, TAG.marker, TAG.padding]);
+      if (!packet) return false;
+      if (packet.tag === TAG.symmetricSessionKey) sessionKeyPackets.push(parseSessionKeyPacket(packet.body));
+      if (packet.tag === TAG.publicKeySessionKey) publicKeyPackets++;
+    }
+  };
+
+  /** Decrypts the data packet's body bytes available */
+  const readPayload = async () => {
+    let bytes = body.read(queue);
+    if (!decryptor) {
+      preamble.push(bytes);
+      decryptor = await createPayloadDecryptor(dataTag, preamble, sessionKeys);
+      if (!decryptor) {
+        if (body.done) throw new Error("File is corrupted or truncated.");
+        return;
+      }
+      bytes = preamble.take(preamble.length);
+    }
+
+    const plaintext = await decryptor.update(bytes);
+    if (plaintext.length > 0) await message.write(plaintext);
+    if (body.done) await finishPayload();
+  };
+
+  /** Checks the end of the payload and of the message inside it */
+  const finishPayload = async () => {
+    if (!decryptor) throw new Error("File is corrupted or truncated.");
+    const plaintext = await decryptor.final();
+    if (plaintext.length > 0) await message.write(plaintext);
+    await message.close();
+    sessionKeys.forEach(({ key }) => key.fill(0));
+    state = 'trailer';
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      queue.push(chunk);
+      if (state === 'packets' && !(await readPackets(controller))) return;
+      if (state === 'payload') await readPayload();
+      // Only padding may follow the encrypted data
+      while (state === 'trailer' && readSmallPacket([TAG.padding]));
+    },
+    async flush() {
+      if (state === 'packets') {
+        throw sessionKeyPackets.length === 0 && publicKeyPackets === 0 && queue.length === 0
+          ? new Error("Not an OpenPGP message.")
+          : new Error("File is corrupted or truncated.");
+      }
+      if (state === 'payload') {
+        if (!body.complete) throw new Error("File is corrupted or truncated.");
+        await finishPayload();
+      }
+      if (queue.length > 0) throw new Error("File is corrupted or truncated.");
+    },
+  });
+}
+
+/**
+ * Creates a transform that encodes a binary message as ASCII armor
+ */
+function createArmorStream(): TransformStream<Uint8Array, Uint8Array> {
+  const encoder = new TextEncoder();
+  const queue = new ByteQueue();
+  let crc = CRC24_INIT;
+
+  const lines = (bytes: Uint8Array) => {
+    crc = crc24(crc, bytes);
+    return encoder.encode(`${bytesToBase64(bytes).match(/.{1,64}/g)!.join('\n')}\n`);
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(`${ARMOR_BEGIN}\n\n`));
+    },
+    transform(chunk, controller) {
+      queue.push(chunk);
+      // 48 bytes make one 64-column line
+      const whole = queue.length - (queue.length % 48);
+      if (whole > 0) controller.enqueue(lines(queue.take(whole)));
+    },
+    flush(controller) {
+      if (queue.length > 0) controller.enqueue(lines(queue.take(queue.length)));
+      const checksum = bytesToBase64(Uint8Array.of(crc >> 16, (crc >> 8) & 0xff, crc & 0xff));
+      controller.enqueue(encoder.encode(`=${checksum}\n${ARMOR_END}\n`));
+    },
+  });
+}
+
+/**
+ * Creates a transform that decodes ASCII armor into the binary message
+ *
+ * Armor headers are skipped and the CRC-24 checksum, when present, is
+ * verified. Whitespace around lines and CRLF line endings are accepted.
+ */
+function createDearmorStream(): TransformStream<Uint8Array, Uint8Array> {
+  const decoder = new TextDecoder();
+  let pending = '';
+  let state: 'begin' | 'headers' | 'body' | 'end' = 'begin';
+  let base64 = '';
+  let padded = false;
+  let checksum: string | null = null;
+  let crc = CRC24_INIT;
+
+  const invalid = () => new Error("Invalid OpenPGP armor.");
+
+  const readBody = (line: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (line === ARMOR_END) {
+      if (base64.length > 0) throw invalid();
+      if (checksum !== null && checksum !== bytesToBase64(Uint8Array.of(crc >> 16, (crc >> 8) & 0xff, crc & 0xff))) {
+        throw invalid();
+      }
+      state = 'end';
+      return;
+    }
+    if (line === '') return;
+    if (/^=[A-Za-z0-9+/]{4}$/.test(line) && checksum === null) {
+      checksum = line.slice(1);
+      return;
+    }
+    if (checksum !== null || padded || !/^[A-Za-z0-9+/]+={0,2}$/.test(line)) throw invalid();
+
+    padded = line.endsWith('=');
+    base64 += line;
+    const whole = base64.length - (base64.length % 4);
+    if (whole === 0) return;
+
+    let bytes: Uint8Array;
+    try {
+      bytes = base64ToBytes(base64.slice(0, whole));
+    } catch {
+      throw invalid();
+    }
+    base64 = base64.slice(whole);
+    crc = crc24(crc, bytes);
+    controller.enqueue(bytes);
+  };
+
+  const readLine = (raw: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+    const line = raw.trim();
+    if (state === 'begin') {
+      if (line === '') return;
+      if (line !== ARMOR_BEGIN) throw invalid();
+      state = 'headers';
+    } else if (state === 'headers') {
+      // Headers end at a blank line; tolerate writers that leave it out
+      if (line === '') state = 'body';
+      else if (!line.includes(': ')) {
+        state = 'body';
+        readBody(line, controller);
+      }
+    } else if (state === 'body') {
+      readBody(line, controller);
+    } else if (line !== '') {
+      throw invalid();
+    }
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      pending += decoder.decode(chunk, { stream: true });
+
+      let newline: number;
+      while ((newline = pending.indexOf('\n')) !== -1) {
+        readLine(pending.slice(0, newline), controller);
+        pending = pending.slice(newline + 1);
+      }
+      if (pending.length > 4096) throw invalid();
+    },
+    flush(controller) {
+      pending += decoder.decode();
+      if (pending.length > 0) readLine(pending, controller);
+      if (state !== 'end') throw invalid();
+    },
+  });
+}
+
+/**
+ * Checks whether a file is a passphrase- or key-encrypted OpenPGP message
+ *
+ * Binary messages are recognised by a well-formed first packet: a marker,
+ * an SKESK or a PKESK packet.
+ *
+ * @param file - The file to check
+ * @returns True if it starts with PGP message armor or such a packet
+ */
+export async function isOpenPgpFile(file: Blob): Promise<boolean> {
+  const head = new Uint8Array(await file.slice(0, 256).arrayBuffer());
+  if (new TextDecoder().decode(head).trimStart().startsWith(ARMOR_BEGIN)) return true;
+
+  try {
+    const parsed = parsePacketHeader(head);
+    if (!parsed || parsed.header.partial || parsed.size + parsed.header.length > head.length) return false;
+    const body = head.subarray(parsed.size, parsed.size + parsed.header.length);
+
+    switch (parsed.header.tag) {
+      case TAG.marker:
+        return new TextDecoder().decode(body) === 'PGP';
+      case TAG.symmetricSessionKey:
+        return CIPHER_KEY_LENGTHS[parseSessionKeyPacket(body).cipher] !== undefined;
+      case TAG.publicKeySessionKey:
+        return body.length > 10 && (body[0] === 3 || body[0] === 6);
+      default:
+        return false;
+    }
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Encodes the fields in front of the literal packet's content
+ */
+function encodeLiteralHeader(metadata?: FileMetadata): Uint8Array {
+  const encoder = new TextEncoder();
+  const characters = Array.from(metadata?.name ?? '');
+  while (encoder.encode(characters.join('')).length > 255) characters.pop();
+  const name = encoder.encode(characters.join(''));
+
+  const header = new Uint8Array(6 + name.length);
+  header[0] = 0x62; // 'b': binary data
+  header[1] = name.length;
+  header.set(name, 2);
+  const seconds = Math.floor((metadata?.lastModified ?? 0) / 1000);
+  new DataView(header.buffer).setUint32(2 + name.length, Math.min(Math.max(seconds, 0), 0xffffffff));
+  return header;
+}
+
+/**
+ * Builds the body of a v4 SKESK packet wrapping the session key
+ */
+async function sealSessionKey(sessionKey: Uint8Array, passphrase: string, count: number): Promise<Uint8Array> {
+  const salt = crypto.getRandomValues(new Uint8Array(S2K_SALT_LENGTH));
+  const specifier = encodeS2K(EXPORT_S2K_HASH, salt, count);
+  const { s2k } = parseS2K(specifier, 0);
+  const key = await deriveS2K(s2k, passphrase, sessionKey.length);
+  try {
+    const encrypted = cfb(key, new Uint8Array(BLOCK_SIZE)).encrypt(concatBytes(Uint8Array.of(EXPORT_CIPHER), sessionKey));
+    return concatBytes(Uint8Array.of(4, EXPORT_CIPHER), specifier, encrypted);
+  } finally {
+    key.fill(0);
+  }
+}
+
+/**
+ * Creates a transform that encrypts a byte stream into an OpenPGP message
+ *
+ * Every passphrase gets an SKESK packet wrapping the same random session
+ * key. The content is stored as one literal packet with the file name.
+ *
+ * @param passphrase - The passphrase that opens the message
+ * @param options - Further passphrases, armoring, file name and S2K cost
+ * @returns A TransformStream from plaintext to the message
+ */
+export function createOpenPgpEncryptStream(
+  passphrase: string,
+  options: OpenPgpEncryptOptions = {}
+): TransformStream<Uint8Array, Uint8Array> {
+  const passphrases = [passphrase, ...(options.passphrases ?? [])];
+  const literal = new PartialPacketWriter(TAG.literal);
+  const data = new PartialPacketWriter(TAG.integrityProtected);
+  let cipher: CfbStream;
+  let hasher: IHasher;
+
+  /** Hashes plaintext for the MDC and encrypts it into the SEIPD packet */
+  const seal = (plaintext: Uint8Array) => {
+    hasher.update(plaintext);
+    return data.write(cipher.update(plaintext));
+  };
+
+  const encrypt = new TransformStream<Uint8Array, Uint8Array>({
+    async start(controller) {
+      const sessionKey = crypto.getRandomValues(new Uint8Array(CIPHER_KEY_LENGTHS[EXPORT_CIPHER]));
+      const packets: Uint8Array[] = [];
+      try {
+        for (const each of passphrases) {
+          packets.push(encodePacket(TAG.symmetricSessionKey, await sealSessionKey(sessionKey, each, options.s2kCount ?? OPENPGP_S2K_COUNT)));
+        }
+        cipher = new CfbStream(sessionKey, 'encrypt');
+      } finally {
+        sessionKey.fill(0);
+      }
+      hasher = await createSHA1();
+
+      // A random block whose last two bytes repeat, for the quick check
+      const prefix = crypto.getRandomValues(new Uint8Array(BLOCK_SIZE + 2));
+      prefix.copyWithin(BLOCK_SIZE, BLOCK_SIZE - 2, BLOCK_SIZE);
+
+      controller.enqueue(concatBytes(
+        ...packets,
+        data.write(Uint8Array.of(1)),
+        seal(concatBytes(prefix, literal.write(encodeLiteralHeader(options.metadata))))
+      ));
+    },
+    transform(chunk, controller) {
+      const output = seal(literal.write(chunk));
+      if (output.length > 0) controller.enqueue(output);
+    },
+    flush(controller) {
+      const closing = concatBytes(literal.end(), MDC_HEADER);
+      hasher.update(closing);
+      const mdc = hasher.digest('binary');
+      controller.enqueue(concatBytes(data.write(concatBytes(cipher.update(closing), cipher.update(mdc), cipher.final())), data.end()));
+    },
+  });
+
+  if (!options.armor) return encrypt;
+  return { writable: encrypt.writable, readable: encrypt.readable.pipeThrough(createArmorStream()) };
+}
+
+/**
+ * Creates a transform that decrypts a passphrase-encrypted OpenPGP
+ * message, binary or armored
+ *
+ * The first non-whitespace byte tells the two forms apart. The output is
+ * the content of the literal packet; its file name and date go to
+ * `onMetadata`.
+ *
+ * @param passphrase - The passphrase to try on the SKESK packets
+ * @param options - Metadata callback
+ * @returns A TransformStream from the message to plaintext
+ */
+export function createOpenPgpDecryptStream(
+  passphrase: string,
+  options: OpenPgpDecryptOptions = {}
+): TransformStream<Uint8Array, Uint8Array> {
+  let inner: AttachedTransform | null = null;
+  let skipped: Uint8Array[] = [];
+
+  /** Picks the binary or armored path from the first non-whitespace byte */
+  const choose = (byte: number | undefined, controller: TransformStreamDefaultController<Uint8Array>) => {
+    const binary = createBinaryDecryptStream(passphrase, options);
+    if (byte !== 0x2d) return attachTransform(binary, controller);
+
+    const dearmor = createDearmorStream();
+    return attachTransform({ writable: dearmor.writable, readable: dearmor.readable.pipeThrough(binary) }, controller);
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      if (!inner) {
+        const start = chunk.findIndex(b => b !== 0x20 && b !== 0x09 && b !== 0x0a && b !== 0x0d);
+        if (start === -1) {
+          skipped.push(chunk);
+          return;
+        }
+        // Whitespace only comes before armor; binary messages start with a packet
+        inner = choose(chunk[start], controller);
+        for (const part of skipped) await inner.write(part);
+        skipped = [];
+      }
+      await inner.write(chunk);
+    },
+    async flush(controller) {
+      inner ??= choose(undefined, controller);
+      for (const part of skipped) await inner.write(part);
+      await inner.close();
+    },
+  });
+}
@@ -0,0 +1,64 @@
+/**
+ * Passkey Slot Tests
+ *
+ * Covers PRF-wrapped data keys and the sealed passphrase fallback. The PRF
+ * outputs are stand-ins for what an authenticator would return; the
+ * WebAuthn calls themselves live in `@/lib/passkeys`.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  decryptBytes,
+  encryptBytes,
+  generateIdentity,
+  generatePrfSalt,
+  parseContainer,
+  prfRequests,
+  type KdfOptions,
+  type PasskeyEvaluation,
+  type PrfSlot,
+} from './index';
+
+const FAST_KDF: KdfOptions = { id: 'pbkdf2-sha256', iterations: 1000 };
+const PLAINTEXT = new TextEncoder().encode('unlocked by touch');
+
+/** Simulates a PRF evaluation for a credential and salt */
+function evaluation(credential: string, salt: Uint8Array, secret = 1): PasskeyEvaluation {
+  return { credential, salt, output: new Uint8Array(32).fill(secret) };
+}
+
+test('passkey slots open with the same PRF evaluation only', async () => {
+  const salt = generatePrfSalt();
+  const container = await encryptBytes(PLAINTEXT, null, FAST_KDF, { passkey: evaluation('Y3JlZA==', salt) });
+
+  const slots = parseContainer(container).header.slots as PrfSlot[];
+  assert.deepEqual(slots.map(slot => slot.type), ['prf']);
+
+  const [request] = prfRequests(slots);
+  assert.equal(request.credential, 'Y3JlZA==');
+  assert.deepEqual(request.salt, salt);
+
+  assert.deepEqual(await decryptBytes(container, '', { passkey: evaluation('Y3JlZA==', salt) }), PLAINTEXT);
+  await assert.rejects(
+    decryptBytes(container, '', { passkey: evaluation('Y3JlZA==', salt, 2) }),
+    /passkey cannot unlock/
+  );
+  await assert.rejects(decryptBytes(container, 'anything'), /locked with a passkey/);
+});
+
+test('the sealed fallback opens with its passphrase without it being entered at encryption', async () => {
+  const fallback = await generateIdentity('fallback passphrase', FAST_KDF);
+  const salt = generatePrfSalt();
+  const container = await encryptBytes(PLAINTEXT, null, FAST_KDF, {
+    passkey: evaluation('Y3JlZA==', salt),
+    fallbacks: [fallback],
+  });
+
+  assert.deepEqual(parseContainer(container).header.slots!.map(slot => slot.type), ['prf', 'sealed']);
+  assert.deepEqual(await decryptBytes(container, 'fallback passphrase'), PLAINTEXT);
+  assert.deepEqual(await decryptBytes(container, '', { passkey: evaluation('Y3JlZA==', salt) }), PLAINTEXT);
+  await assert.rejects(decryptBytes(container, 'wrong'), /Incorrect passphrase/);
+  await assert.rejects(decryptBytes(container, ''), /passkey or its fallback passphrase/);
+});
@@ -0,0 +1,130 @@
+/**
+ * Passkey (WebAuthn PRF) Slots
+ *
+ * Lets a passkey unlock a file instead of a passphrase. The WebAuthn PRF
+ * extension evaluates a secret, per-credential pseudo-random function on a
+ * salt chosen by LockMe; its 32-byte output never leaves the browser and
+ * is turned into the key-encryption key:
+ *
+ *   output = PRF(credential, salt)
+ *   KEK = HKDF-SHA256(output, salt, info = "lockme prf")
+ *   slot = AES-GCM(KEK, data key)
+ *
+ * The slot records the credential ID and salt, so decryption knows which
+ * passkey to ask for and what to evaluate. Talking to the authenticator is
+ * the browser's job and lives outside the crypto core (see
+ * `@/lib/passkeys`); this module only works with the PRF outputs.
+ */
+
+import { base64ToBytes, bytesToBase64 } from './encoding';
+import { unwrapWithKey, wrapWithKey } from './keyWrap';
+
+/** Length of the PRF input salt in bytes */
+export const PRF_SALT_LENGTH = 32;
+
+/** Length of a PRF output in bytes */
+const PRF_OUTPUT_LENGTH = 32;
+
+/** HKDF context string for passkey KEKs */
+const HKDF_INFO = new TextEncoder().encode('lockme prf');
+
+/**
+ * Header slot wrapping the data key under a passkey's PRF output
+ */
+export interface PrfSlot {
+  /** Slot type */
+  type: 'prf';
+
+  /** Base64-encoded WebAuthn credential ID */
+  credential: string;
+
+  /** Base64-encoded PRF input */
+  salt: string;
+
+  /** Base64-encoded AES-GCM IV */
+  iv: string;
+
+  /** Base64-encoded wrapped data key */
+  ciphertext: string;
+}
+
+/**
+ * Result of evaluating a passkey's PRF
+ */
+export interface PasskeyEvaluation {
+  /** Base64-encoded ID of the credential that answered */
+  credential: string;
+
+  /** The PRF input that was evaluated */
+  salt: Uint8Array;
+
+  /** The PRF output */
+  output: Uint8Array;
+}
+
+/**
+ * Generates a fresh PRF input
+ *
+ * @returns Random salt bytes
+ */
+export function generatePrfSalt(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(PRF_SALT_LENGTH));
+}
+
+/**
+ * Derives the AES-GCM key that wraps a data key for a passkey
+ */
+async function prfKek(evaluation: PasskeyEvaluation): Promise<CryptoKey> {
+  if (evaluation.output.length !== PRF_OUTPUT_LENGTH) {
+    throw new Error("The passkey returned an invalid PRF result.");
+  }
+
+  const ikm = await crypto.subtle.importKey('raw', evaluation.output, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: evaluation.salt, info: HKDF_INFO },
+    ikm,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Wraps a data key under a passkey's PRF output
+ *
+ * @param dataKey - The file's random data key
+ * @param evaluation - The PRF evaluation of a fresh salt
+ * @returns The header slot
+ */
+export async function createPrfSlot(dataKey: Uint8Array, evaluation: PasskeyEvaluation): Promise<PrfSlot> {
+  return {
+    type: 'prf',
+    credential: evaluation.credential,
+    salt: bytesToBase64(evaluation.salt),
+    ...(await wrapWithKey(dataKey, await prfKek(evaluation))),
+  };
+}
+
+/**
+ * Opens a passkey slot
+ *
+ * @param slot - The header slot
+ * @param evaluation - The PRF evaluation of the slot's salt
+ * @returns The data key, or null if the evaluation is for another slot or passkey
+ */
+export async function openPrfSlot(slot: PrfSlot, evaluation: PasskeyEvaluation): Promise<Uint8Array | null> {
+  if (slot.credential !== evaluation.credential || slot.salt !== bytesToBase64(evaluation.salt)) {
+    return null;
+  }
+  return unwrapWithKey(slot, await prfKek(evaluation));
+}
+
+/**
+ * Lists the credential IDs and salts a file's passkey slots need evaluated
+ *
+ * @param slots - The passkey slots of a header
+ * @returns One entry per slot, with decoded salts
+ */
+export function prfRequests(slots: PrfSlot[]): { credential: string; salt: Uint8Array }[] {
+  return slots.map(slot => ({ credential: slot.credential, salt: base64ToBytes(slot.salt) }));
+}
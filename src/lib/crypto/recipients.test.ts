@@ -0,0 +1,85 @@
+/**
+ * Recipient Tests
+ *
+ * Covers X25519 identities and encrypting files to recipients' public keys.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  concatBytes,
+  createDecryptStream,
+  createEncryptStream,
+  generateIdentity,
+  parseContainer,
+  streamToBlob,
+  unlockIdentity,
+  type KdfOptions,
+  type RecipientIdentity,
+} from './index';
+
+const FAST_KDF: KdfOptions = { id: 'pbkdf2-sha256', iterations: 1000 };
+const PLAINTEXT = new TextEncoder().encode('for your eyes only');
+
+/** Encrypts the test plaintext with the given credentials */
+async function encrypt(passphrase: string | null, recipients: string[]): Promise<Uint8Array> {
+  const blob = await streamToBlob(
+    new Blob([PLAINTEXT]).stream().pipeThrough(createEncryptStream(passphrase, { kdf: FAST_KDF, recipients }))
+  );
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/** Decrypts with a passphrase and optional identities */
+async function decrypt(data: Uint8Array, passphrase: string, identities?: RecipientIdentity[]): Promise<Uint8Array> {
+  const blob = await streamToBlob(
+    new Blob([data]).stream().pipeThrough(createDecryptStream(passphrase, { identities }))
+  );
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+test('identities keep their private key wrapped under the passphrase', async () => {
+  const identity = await generateIdentity('alice key passphrase', FAST_KDF);
+
+  assert.match(identity.fingerprint, /^[0-9a-f]{32}$/);
+  assert.ok(await unlockIdentity(identity, 'alice key passphrase'));
+  assert.equal(await unlockIdentity(identity, 'wrong'), null);
+});
+
+test('files encrypted to recipients open with each recipient key only', async () => {
+  const alice = await generateIdentity('alice key passphrase', FAST_KDF);
+  const bob = await generateIdentity('bob key passphrase', FAST_KDF);
+  const mallory = await generateIdentity('mallory key passphrase', FAST_KDF);
+
+  const container = await encrypt(null, [alice.publicKey, bob.publicKey]);
+  const { header } = parseContainer(container);
+  assert.deepEqual(header.slots!.map(slot => slot.type), ['x25519', 'x25519']);
+
+  assert.deepEqual(await decrypt(container, 'alice key passphrase', [alice]), PLAINTEXT);
+  assert.deepEqual(await decrypt(container, 'bob key passphrase', [bob]), PLAINTEXT);
+
+  await assert.rejects(decrypt(container, 'mallory key passphrase', [mallory]), /other recipients/);
+  await assert.rejects(decrypt(container, 'wrong', [alice]), /Incorrect passphrase/);
+});
+
+test('a passphrase slot and recipient slots can coexist', async () => {
+  const alice = await generateIdentity('alice key passphrase', FAST_KDF);
+  const container = await encrypt('shared passphrase', [alice.publicKey]);
+
+  assert.deepEqual(await decrypt(container, 'shared passphrase'), PLAINTEXT);
+  assert.deepEqual(await decrypt(container, 'alice key passphrase', [alice]), PLAINTEXT);
+});
+
+test('slot contents cannot be swapped to another file', async () => {
+  const alice = await generateIdentity('alice key passphrase', FAST_KDF);
+  const first = parseContainer(await encrypt(null, [alice.publicKey]));
+  const second = parseContainer(await encrypt(null, [alice.publicKey]));
+
+  // Graft the first file's slots onto the second file's payload
+  const header = { ...second.header, slots: first.header.slots };
+  const json = new TextEncoder().encode(JSON.stringify(header));
+  const prefix = second.headerBytes.slice(0, 11);
+  new DataView(prefix.buffer).setUint32(7, json.length);
+
+  await assert.rejects(decrypt(concatBytes(prefix, json, second.payload), 'alice key passphrase', [alice]));
+});
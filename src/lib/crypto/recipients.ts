@@ -0,0 +1,287 @@
+/**
+ * X25519 Recipients
+ *
+ * Lets a file be encrypted to other people's public keys. Every user owns
+ * an identity: an X25519 key pair whose private half is stored wrapped
+ * under their passphrase, and whose public half is published so others can
+ * encrypt to it.
+ *
+ * A recipient slot wraps the file's data key for one public key:
+ *
+ *   ephemeral key pair E, shared = X25519(E.private, recipient)
+ *   KEK = HKDF-SHA256(shared, salt = E.public | recipient, info = "lockme x25519")
+ *   slot = AES-GCM(KEK, data key)
+ *
+ * Only the holder of the recipient's private key can recompute the KEK.
+ *
+ * A sealed slot is a recipient slot that also carries the recipient's
+ * passphrase-wrapped private key. It opens with that passphrase alone, yet
+ * can be created by anyone holding the identity, without the passphrase;
+ * passkey-encrypted files use it as their passphrase fallback.
+ */
+
+import { base64ToBytes, bytesToBase64, concatBytes } from './encoding';
+import type { KdfOptions } from './kdf';
+import { unwrapWithKey, unwrapWithPassphrase, wrapWithKey, wrapWithPassphrase, type WrappedSecret } from './keyWrap';
+
+/** Raw X25519 public key length in bytes */
+const PUBLIC_KEY_LENGTH = 32;
+
+/** HKDF context string for recipient KEKs */
+const HKDF_INFO = new TextEncoder().encode('lockme x25519');
+
+/**
+ * A user's key pair as stored and published
+ */
+export interface RecipientIdentity {
+  /** Base64-encoded raw X25519 public key */
+  publicKey: string;
+
+  /** Short identifier of the public key, see `keyFingerprint` */
+  fingerprint: string;
+
+  /** PKCS#8 private key, wrapped under the owner's passphrase */
+  wrappedPrivateKey: WrappedSecret;
+}
+
+/**
+ * Header slot wrapping the data key for one recipient
+ */
+export interface RecipientSlot {
+  /** Slot type */
+  type: 'x25519';
+
+  /** Fingerprint of the recipient's public key */
+  recipient: string;
+
+  /** Base64-encoded raw ephemeral public key */
+  ephemeralKey: string;
+
+  /** Base64-encoded AES-GCM IV */
+  iv: string;
+
+  /** Base64-encoded wrapped data key */
+  ciphertext: string;
+}
+
+/**
+ * Recipient slot that embeds the identity needed to open it
+ */
+export interface SealedSlot extends Omit<RecipientSlot, 'type'> {
+  /** Slot type */
+  type: 'sealed';
+
+  /** Base64-encoded raw X25519 public key of the embedded identity */
+  publicKey: string;
+
+  /** The identity's private key, wrapped under its passphrase */
+  wrappedPrivateKey: WrappedSecret;
+}
+
+/**
+ * Throws a clear error when the browser lacks WebCrypto X25519
+ */
+export function x25519Unsupported(error: unknown): never {
+  console.error("X25519 operation failed:", error);
+  throw new Error("This browser does not support X25519 keys. Please update it to use recipient encryption.");
+}
+
+/**
+ * Computes the fingerprint of a public key
+ *
+ * @param publicKey - Base64-encoded raw X25519 public key
+ * @returns The first 16 bytes of its SHA-256 hash, as lowercase hex
+ */
+export async function keyFingerprint(publicKey: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', base64ToBytes(publicKey)));
+  return Array.from(digest.subarray(0, 16), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Formats a fingerprint for display, e.g. "a1b2 c3d4 ..."
+ *
+ * @param fingerprint - Hex fingerprint
+ * @returns The fingerprint in groups of four characters
+ */
+export function formatFingerprint(fingerprint: string): string {
+  return fingerprint.match(/.{1,4}/g)?.join(' ') ?? fingerprint;
+}
+
+/**
+ * Generates a new identity for the current user
+ *
+ * @param passphrase - Passphrase protecting the private key
+ * @param kdf - KDF choice and cost for wrapping the private key
+ * @returns The identity to store and publish
+ */
+export async function generateIdentity(passphrase: string, kdf?: KdfOptions): Promise<RecipientIdentity> {
+  let pair: CryptoKeyPair;
+  try {
+    pair = (await crypto.subtle.generateKey({ name: 'X25519' }, true, ['deriveBits'])) as CryptoKeyPair;
+  } catch (error) {
+    x25519Unsupported(error);
+  }
+
+  const publicKey = bytesToBase64(new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey)));
+  const privateKey = new Uint8Array(await crypto.subtle.exportKey('pkcs8', pair.privateKey));
+
+  try {
+    return {
+      publicKey,
+      fingerprint: await keyFingerprint(publicKey),
+      wrappedPrivateKey: await wrapWithPassphrase(privateKey, passphrase, kdf),
+    };
+  } finally {
+    privateKey.fill(0);
+  }
+}
+
+/**
+ * Unlocks an identity's private key
+ *
+ * @param identity - The stored identity
+ * @param passphrase - The passphrase protecting it
+ * @returns The private key, or null if the passphrase is wrong
+ */
+export async function unlockIdentity(identity: RecipientIdentity, passphrase: string): Promise<CryptoKey | null> {
+  const pkcs8 = await unwrapWithPassphrase(identity.wrappedPrivateKey, passphrase);
+  if (!pkcs8) return null;
+
+  try {
+    return await crypto.subtle.importKey('pkcs8', pkcs8, { name: 'X25519' }, false, ['deriveBits']);
+  } catch (error) {
+    x25519Unsupported(error);
+  } finally {
+    pkcs8.fill(0);
+  }
+}
+
+/**
+ * Derives the AES-GCM key that wraps a data key for one recipient
+ */
+async function recipientKek(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  ephemeralKey: Uint8Array,
+  recipientKey: Uint8Array
+): Promise<CryptoKey> {
+  const shared = await crypto.subtle.deriveBits({ name: 'X25519', public: publicKey }, privateKey, 256);
+
+  // An all-zero shared secret means a low-order public key was supplied
+  if (new Uint8Array(shared).every(b => b === 0)) {
+    throw new Error("Invalid recipient key.");
+  }
+
+  const ikm = await crypto.subtle.importKey('raw', shared, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: concatBytes(ephemeralKey, recipientKey), info: HKDF_INFO },
+    ikm,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Imports a raw X25519 public key
+ */
+export async function importPublicKey(raw: Uint8Array): Promise<CryptoKey> {
+  if (raw.length !== PUBLIC_KEY_LENGTH) {
+    throw new Error("Invalid recipient key.");
+  }
+  try {
+    return await crypto.subtle.importKey('raw', raw, { name: 'X25519' }, true, []);
+  } catch (error) {
+    x25519Unsupported(error);
+  }
+}
+
+/**
+ * Wraps a data key for a recipient
+ *
+ * @param dataKey - The file's random data key
+ * @param publicKey - Base64-encoded raw X25519 public key of the recipient
+ * @returns The header slot
+ */
+export async function createRecipientSlot(dataKey: Uint8Array, publicKey: string): Promise<RecipientSlot> {
+  const recipientKey = base64ToBytes(publicKey);
+  const recipient = await importPublicKey(recipientKey);
+
+  let ephemeral: CryptoKeyPair;
+  try {
+    ephemeral = (await crypto.subtle.generateKey({ name: 'X25519' }, true, ['deriveBits'])) as CryptoKeyPair;
+  } catch (error) {
+    x25519Unsupported(error);
+  }
+  const ephemeralKey = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+
+  const kek = await recipientKek(ephemeral.privateKey, recipient, ephemeralKey, recipientKey);
+  return {
+    type: 'x25519',
+    recipient: await keyFingerprint(publicKey),
+    ephemeralKey: bytesToBase64(ephemeralKey),
+    ...(await wrapWithKey(dataKey, kek)),
+  };
+}
+
+/**
+ * Opens a recipient slot with an unlocked identity
+ *
+ * @param slot - The header slot
+ * @param identity - The recipient's stored identity (for its public key)
+ * @param privateKey - The identity's unlocked private key
+ * @returns The data key, or null if the slot is not for this identity
+ */
+export async function openRecipientSlot(
+  slot: RecipientSlot,
+  identity: RecipientIdentity,
+  privateKey: CryptoKey
+): Promise<Uint8Array | null> {
+  const ephemeralKey = base64ToBytes(slot.ephemeralKey);
+  const kek = await recipientKek(
+    privateKey,
+    await importPublicKey(ephemeralKey),
+    ephemeralKey,
+    base64ToBytes(identity.publicKey)
+  );
+  return unwrapWithKey(slot, kek);
+}
+
+/**
+ * Wraps a data key in a slot that opens with an identity's passphrase
+ *
+ * @param dataKey - The file's random data key
+ * @param identity - The identity to embed; its passphrase opens the slot
+ * @returns The header slot
+ */
+export async function createSealedSlot(dataKey: Uint8Array, identity: RecipientIdentity): Promise<SealedSlot> {
+  const { recipient, ephemeralKey, iv, ciphertext } = await createRecipientSlot(dataKey, identity.publicKey);
+  return {
+    type: 'sealed',
+    recipient,
+    ephemeralKey,
+    iv,
+    ciphertext,
+    publicKey: identity.publicKey,
+    wrappedPrivateKey: identity.wrappedPrivateKey,
+  };
+}
+
+/**
+ * Opens a sealed slot with the passphrase of its embedded identity
+ *
+ * @param slot - The header slot
+ * @param passphrase - The passphrase to try
+ * @returns The data key, or null if the passphrase is wrong
+ */
+export async function openSealedSlot(slot: SealedSlot, passphrase: string): Promise<Uint8Array | null> {
+  const identity: RecipientIdentity = {
+    publicKey: slot.publicKey,
+    fingerprint: slot.recipient,
+    wrappedPrivateKey: slot.wrappedPrivateKey,
+  };
+  const privateKey = await unlockIdentity(identity, passphrase);
+  if (!privateKey) return null;
+
+  return openRecipientSlot({ ...slot, type: 'x25519' }, identity, privateKey);
+}
@@ -0,0 +1,115 @@
+/**
+ * Re-keying Tests
+ *
+ * Covers rewrapping the passphrase slots of current files, re-encrypting
+ * them under a new data key, and re-encrypting files from before key
+ * slots existed.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  base64ToBytes,
+  createDecryptStream,
+  createEncryptStream,
+  createRekeyStream,
+  generateKeyfile,
+  hashKeyfile,
+  readContainerHeader,
+  streamToBlob,
+  type FileMetadata,
+  type KdfOptions,
+  type RekeyOptions,
+} from './index';
+
+const FAST_KDF: KdfOptions = { id: 'pbkdf2-sha256', iterations: 1000 };
+const PLAINTEXT = new TextEncoder().encode('rotate me');
+
+/** A v3 file and a headerless file, both for 'correct horse battery staple' */
+const OLD_FILES = {
+  v3: 'TE9DS01FAwAAAKN7ImtkZiI6eyJpZCI6InBia2RmMi1zaGEyNTYiLCJpdGVyYXRpb25zIjoxMDAwLCJzYWx0Ijoid1VUczZmb05TcDdVSG5YOHBPSUFHdz09In0sImNpcGhlciI6ImFlcy0yNTYtZ2NtIiwic3RyZWFtIjp7ImNodW5rU2l6ZSI6NjU1MzYsIm5vbmNlUHJlZml4IjoiN0pWZG9LeForQT09In19lL0rtavf6nrZFooCl+iSElh6tbMykXRUVnXoPyw8dqzF3T30aJizSOlXcNskBq/4',
+  legacy: 'AAECAwQFBgcICQoLDA0OD2RlZmdoaWprbG1ub6bS8uP5iuukl8e69LLypFBZ/qE1ZEcjcegJx7zpofu1Q8+iU6hyB0T/IA==',
+};
+
+/** Encrypts the test plaintext with small segments */
+async function encrypt(passphrase: string, passphrases: string[] = [], keyfile?: Uint8Array): Promise<Blob> {
+  return streamToBlob(
+    new Blob([PLAINTEXT]).stream().pipeThrough(createEncryptStream(passphrase, {
+      kdf: FAST_KDF,
+      passphrases,
+      keyfile,
+      chunkSize: 4,
+      metadata: { name: 'notes.txt', type: 'text/plain' },
+    }))
+  );
+}
+
+/** Changes a file's passphrase */
+function rekey(file: Blob, passphrase: string, newPassphrase: string, options: RekeyOptions = {}): Promise<Blob> {
+  return streamToBlob(file.stream().pipeThrough(createRekeyStream(passphrase, newPassphrase, { kdf: FAST_KDF, ...options })));
+}
+
+/** Decrypts and returns the plaintext with its metadata */
+async function decrypt(file: Blob, passphrase: string, keyfile?: Uint8Array): Promise<{ plaintext: Uint8Array; metadata?: FileMetadata }> {
+  let metadata: FileMetadata | undefined;
+  const blob = await streamToBlob(
+    file.stream().pipeThrough(createDecryptStream(passphrase, { keyfile, onMetadata: m => { metadata = m; } }))
+  );
+  return { plaintext: new Uint8Array(await blob.arrayBuffer()), metadata };
+}
+
+/** Returns the payload bytes after the header */
+async function payloadOf(file: Blob): Promise<Uint8Array> {
+  const { headerEnd } = await readContainerHeader(file);
+  return new Uint8Array(await file.slice(headerEnd).arrayBuffer());
+}
+
+test('rekeying a slotted file rewraps only the matching passphrase slot', async () => {
+  const file = await encrypt('old passphrase', ['team passphrase']);
+  const rekeyed = await rekey(file, 'old passphrase', 'new passphrase');
+
+  assert.deepEqual(await payloadOf(rekeyed), await payloadOf(file));
+  assert.equal((await readContainerHeader(rekeyed)).header.slots!.length, 2);
+
+  assert.deepEqual((await decrypt(rekeyed, 'new passphrase')).plaintext, PLAINTEXT);
+  assert.deepEqual((await decrypt(rekeyed, 'team passphrase')).plaintext, PLAINTEXT);
+  await assert.rejects(decrypt(rekeyed, 'old passphrase'), /Incorrect passphrase/);
+  await assert.rejects(rekey(file, 'wrong', 'new passphrase'), /Incorrect passphrase/);
+});
+
+test('keyfile slots keep requiring the keyfile after rekeying', async () => {
+  const keyfile = await hashKeyfile(new Blob([generateKeyfile()]));
+  const file = await encrypt('old passphrase', [], keyfile);
+
+  await assert.rejects(rekey(file, 'old passphrase', 'new passphrase'), /requires a keyfile/);
+  const rekeyed = await rekey(file, 'old passphrase', 'new passphrase', { keyfile });
+
+  assert.deepEqual((await decrypt(rekeyed, 'new passphrase', keyfile)).plaintext, PLAINTEXT);
+  await assert.rejects(decrypt(rekeyed, 'new passphrase'), /requires a keyfile/);
+});
+
+test('re-encrypting replaces the data key and keeps the metadata', async () => {
+  const file = await encrypt('old passphrase', ['team passphrase']);
+  const rekeyed = await rekey(file, 'old passphrase', 'new passphrase', { reencrypt: true });
+
+  assert.notDeepEqual(await payloadOf(rekeyed), await payloadOf(file));
+  assert.equal((await readContainerHeader(rekeyed)).header.slots!.length, 1);
+
+  const { plaintext, metadata } = await decrypt(rekeyed, 'new passphrase');
+  assert.deepEqual(plaintext, PLAINTEXT);
+  assert.equal(metadata?.name, 'notes.txt');
+  await assert.rejects(decrypt(rekeyed, 'team passphrase'), /Incorrect passphrase/);
+});
+
+test('files without key slots are re-encrypted as current containers', async () => {
+  for (const [name, vector] of Object.entries(OLD_FILES)) {
+    const rekeyed = await rekey(new Blob([base64ToBytes(vector)]), 'correct horse battery staple', 'new passphrase');
+
+    assert.equal((await readContainerHeader(rekeyed)).version, 6, name);
+    const { plaintext } = await decrypt(rekeyed, 'new passphrase');
+    assert.equal(new TextDecoder().decode(plaintext), 'LockMe known-answer vector', name);
+  }
+
+  await assert.rejects(rekey(new Blob([base64ToBytes(OLD_FILES.legacy)]), 'wrong', 'new passphrase'), Error);
+});
@@ -0,0 +1,206 @@
+/**
+ * Re-keying
+ *
+ * Changes the passphrase of an existing file without writing its
+ * plaintext anywhere. Containers with key slots (v4+) only get a new
+ * header: every passphrase slot the old passphrase opens is replaced by a
+ * slot for the new one, and the payload is copied unchanged. Older files,
+ * or any file when a new data key is requested, are decrypted and
+ * re-encrypted segment by segment, so at most a few segments of plaintext
+ * are held in memory at once.
+ *
+ * Rewrapping keeps the data key, which someone who already held the file
+ * and the old passphrase may have recovered. Re-encrypting replaces it, at
+ * the cost of processing the whole file and keeping only the new
+ * passphrase (and keyfile) as a way in.
+ */
+
+import {
+  encodeContainerHeader,
+  isContainer,
+  parseContainer,
+  PREFIX_LENGTH,
+  readContainerPrefix,
+} from './container';
+import { concatBytes } from './encoding';
+import type { KdfOptions } from './kdf';
+import type { FileMetadata } from './metadata';
+import {
+  createPassphraseSlot,
+  openPassphraseSlot,
+  unlockDataKey,
+  type KeySlot,
+  type UnlockCredentials,
+} from './slots';
+import { attachTransform, createDecryptStream, createEncryptStream, type AttachedTransform } from './stream';
+
+/**
+ * Options for changing a file's passphrase
+ */
+export interface RekeyOptions extends Omit<UnlockCredentials, 'passphrase'> {
+  /** KDF choice and cost for the new passphrase */
+  kdf?: KdfOptions;
+
+  /** Re-encrypt under a new data key even when the header could be rewritten */
+  reencrypt?: boolean;
+}
+
+/**
+ * Replaces every passphrase slot the old passphrase opens
+ *
+ * Slots that needed a keyfile keep needing it. Recipient, passkey and
+ * sealed slots are left as they are.
+ *
+ * @param slots - The header's key slots
+ * @param passphrase - The old passphrase
+ * @param newPassphrase - The new passphrase
+ * @param keyfile - Digest of the keyfile the slots need, if any
+ * @param kdf - KDF choice and cost for the new slots
+ * @returns The updated slots
+ * @throws Error if the old passphrase opens no passphrase slot
+ */
+export async function replacePassphraseSlots(
+  slots: KeySlot[],
+  passphrase: string,
+  newPassphrase: string,
+  keyfile?: Uint8Array,
+  kdf?: KdfOptions
+): Promise<KeySlot[]> {
+  const updated: KeySlot[] = [];
+  let replaced = 0;
+
+  for (const slot of slots) {
+    const dataKey = slot.type === 'passphrase' && (!slot.keyfile || keyfile)
+      ? await openPassphraseSlot(slot, passphrase, keyfile!)
+      : null;
+    if (!dataKey) {
+      updated.push(slot);
+      continue;
+    }
+
+    try {
+      updated.push(await createPassphraseSlot(dataKey, newPassphrase, kdf, slot.type === 'passphrase' && slot.keyfile ? keyfile : undefined));
+      replaced++;
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  if (replaced === 0) {
+    // Reports a wrong passphrase, a missing keyfile or a passkey-only file
+    (await unlockDataKey(slots, { passphrase, keyfile })).fill(0);
+    throw new Error("This passphrase opens the file through a recipient key or passkey fallback, not a passphrase slot. Only passphrase slots can be re-keyed.");
+  }
+  return updated;
+}
+
+/**
+ * Wraps a transform that is created when its first input arrives, so its
+ * options can depend on what earlier stages reported
+ */
+function deferTransform(create: () => TransformStream<Uint8Array, Uint8Array>): TransformStream<Uint8Array, Uint8Array> {
+  let inner: AttachedTransform | null = null;
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      inner ??= attachTransform(create(), controller);
+      await inner.write(chunk);
+    },
+    async flush(controller) {
+      inner ??= attachTransform(create(), controller);
+      await inner.close();
+    },
+  });
+}
+
+/**
+ * Creates a transform that decrypts a file and encrypts it again
+ *
+ * The metadata record of v3+ files is decoded before any content comes
+ * out of the decryptor, so the encryptor is created on its first chunk
+ * and carries the original name and type over.
+ */
+function createReencryptStream(
+  passphrase: string,
+  newPassphrase: string,
+  options: RekeyOptions
+): ReadableWritablePair<Uint8Array, Uint8Array> {
+  const { identities, keyfile, passkey, kdf } = options;
+  let metadata: FileMetadata | undefined;
+
+  const decrypt = createDecryptStream(passphrase, { identities, keyfile, passkey, onMetadata: restored => { metadata = restored; } });
+  const encrypt = deferTransform(() => createEncryptStream(newPassphrase, { kdf, keyfile, metadata }));
+  return { writable: decrypt.writable, readable: decrypt.readable.pipeThrough(encrypt) };
+}
+
+/**
+ * Creates a transform that changes the passphrase of a `.lockme` file
+ *
+ * The first bytes decide the path: a v4+ container has its header
+ * rewritten and its payload passed through; anything else (or any file
+ * with `reencrypt` set) is decrypted and re-encrypted as a current
+ * container.
+ *
+ * @param passphrase - The old passphrase
+ * @param newPassphrase - The new passphrase
+ * @param options - Keyfile and other credentials for the old file, KDF
+ *   for the new passphrase and whether to replace the data key
+ * @returns A TransformStream from the old file to the re-keyed one
+ */
+export function createRekeyStream(
+  passphrase: string,
+  newPassphrase: string,
+  options: RekeyOptions = {}
+): TransformStream<Uint8Array, Uint8Array> {
+  let buffered: Uint8Array = new Uint8Array(0);
+  let forward: AttachedTransform | null = null;
+
+  /**
+   * Chooses a path once enough of the file has arrived
+   *
+   * @returns Whether the path was chosen
+   */
+  const choose = async (controller: TransformStreamDefaultController<Uint8Array>, end: boolean): Promise<boolean> => {
+    if (buffered.length < PREFIX_LENGTH && !end) return false;
+
+    const prefix = buffered.subarray(0, PREFIX_LENGTH);
+    const rewrap = !options.reencrypt && prefix.length === PREFIX_LENGTH && isContainer(prefix) && readContainerPrefix(prefix).version >= 4;
+
+    if (!rewrap) {
+      forward = attachTransform(createReencryptStream(passphrase, newPassphrase, options), controller);
+      await forward.write(buffered);
+      return true;
+    }
+
+    const { version, headerEnd } = readContainerPrefix(prefix);
+    if (buffered.length < headerEnd && !end) return false;
+
+    // A truncated header fails to parse here
+    const { header } = parseContainer(buffered.subarray(0, headerEnd));
+    const slots = await replacePassphraseSlots(header.slots!, passphrase, newPassphrase, options.keyfile, options.kdf);
+    controller.enqueue(encodeContainerHeader({ ...header, slots }, version));
+    controller.enqueue(buffered.slice(headerEnd));
+    forward = {
+      write: async chunk => controller.enqueue(chunk),
+      close: async () => {},
+    };
+    return true;
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      if (forward) {
+        await forward.write(chunk);
+        return;
+      }
+      buffered = concatBytes(buffered, chunk);
+      if (await choose(controller, false)) {
+        buffered = new Uint8Array(0);
+      }
+    },
+    async flush(controller) {
+      if (!forward) await choose(controller, true);
+      await forward!.close();
+    },
+  });
+}
@@ -0,0 +1,184 @@
+/**
+ * Key Slot Editing
+ *
+ * Adds and removes key slots on an existing file. Because the payload of a
+ * v4+ container is bound to its header without the slots (see
+ * `payloadAad`), only the header is rewritten; the encrypted payload is
+ * copied over byte for byte and never decrypted.
+ *
+ * The data key itself can also be read out, for example to split it into
+ * Shamir shares, and a recovered key can add a passphrase slot again.
+ */
+
+import {
+  encodeContainerHeader,
+  parseContainer,
+  PREFIX_LENGTH,
+  readContainerPrefix,
+  type ContainerHeader,
+} from './container';
+import type { KdfOptions } from './kdf';
+import { verifyDataKey } from './stream';
+import {
+  createPassphraseSlot,
+  MAX_KEY_SLOTS,
+  unlockDataKey,
+  type KeySlot,
+  type UnlockCredentials,
+} from './slots';
+
+/**
+ * Header of a container read from a file
+ */
+export interface ContainerHeaderInfo {
+  /** Format version read from the prefix */
+  version: number;
+
+  /** Decoded and validated header */
+  header: ContainerHeader;
+
+  /** Offset of the first payload byte */
+  headerEnd: number;
+}
+
+/**
+ * Reads and validates a container header without loading the payload
+ *
+ * @param file - The `.lockme` file
+ * @returns The version, header and payload offset
+ * @throws Error if the file is not a valid container
+ */
+export async function readContainerHeader(file: Blob): Promise<ContainerHeaderInfo> {
+  const prefix = new Uint8Array(await file.slice(0, PREFIX_LENGTH).arrayBuffer());
+  const { headerEnd } = readContainerPrefix(prefix);
+  const { version, header } = parseContainer(new Uint8Array(await file.slice(0, headerEnd).arrayBuffer()));
+  return { version, header, headerEnd };
+}
+
+/**
+ * Reads a header whose slots can be edited
+ */
+async function readEditableHeader(file: Blob): Promise<ContainerHeaderInfo> {
+  const info = await readContainerHeader(file);
+  if (info.version < 4) {
+    throw new Error("This file uses an older format without key slots. Decrypt and re-encrypt it to manage its passphrases.");
+  }
+  return info;
+}
+
+/**
+ * Builds a copy of the file with new slots and the original payload
+ */
+function withSlots(file: Blob, info: ContainerHeaderInfo, slots: KeySlot[]): Blob {
+  const header: ContainerHeader = { ...info.header, slots };
+  return new Blob([encodeContainerHeader(header, info.version), file.slice(info.headerEnd)], {
+    type: file.type || 'application/octet-stream',
+  });
+}
+
+/**
+ * Adds a passphrase slot to a file
+ *
+ * @param file - The `.lockme` file
+ * @param credentials - Any credential that already opens the file
+ * @param passphrase - The passphrase to add
+ * @param kdf - KDF choice and cost for the new slot
+ * @param keyfile - Keyfile digest the new slot additionally requires
+ * @returns The file with the extra slot
+ * @throws Error if the credentials do not open the file or it has no room left
+ */
+export async function addPassphraseSlot(
+  file: Blob,
+  credentials: UnlockCredentials,
+  passphrase: string,
+  kdf?: KdfOptions,
+  keyfile?: Uint8Array
+): Promise<Blob> {
+  const info = await readEditableHeader(file);
+  const slots = info.header.slots!;
+  if (slots.length >= MAX_KEY_SLOTS) {
+    throw new Error(`A file can have at most ${MAX_KEY_SLOTS} key slots.`);
+  }
+
+  const dataKey = await unlockDataKey(slots, credentials);
+  try {
+    const slot = await createPassphraseSlot(dataKey, passphrase, kdf, keyfile);
+    return withSlots(file, info, [...slots, slot]);
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+/**
+ * Removes a key slot from a file
+ *
+ * Removal needs a working credential as well, so a file cannot be locked
+ * by someone who could not open it in the first place.
+ *
+ * @param file - The `.lockme` file
+ * @param index - Position of the slot in the header
+ * @param credentials - Any credential that opens the file
+ * @returns The file without the slot
+ * @throws Error if the credentials do not open the file or the slot is the last one
+ */
+export async function removeKeySlot(file: Blob, index: number, credentials: UnlockCredentials): Promise<Blob> {
+  const info = await readEditableHeader(file);
+  const slots = info.header.slots!;
+  if (!Number.isInteger(index) || index < 0 || index >= slots.length) {
+    throw new Error("No such key slot.");
+  }
+  if (slots.length === 1) {
+    throw new Error("The last key slot cannot be removed.");
+  }
+
+  (await unlockDataKey(slots, credentials)).fill(0);
+  return withSlots(file, info, slots.filter((_, i) => i !== index));
+}
+
+/**
+ * Reads a file's data key
+ *
+ * The key opens the file on its own, like any slot's credential. Callers
+ * should clear it with `fill(0)` once done.
+ *
+ * @param file - The `.lockme` file
+ * @param credentials - Any credential that opens the file
+ * @returns The raw data key
+ * @throws Error if the credentials do not open the file
+ */
+export async function readDataKey(file: Blob, credentials: UnlockCredentials): Promise<Uint8Array> {
+  const info = await readEditableHeader(file);
+  return unlockDataKey(info.header.slots!, credentials);
+}
+
+/**
+ * Adds a passphrase slot using a data key recovered outside the file
+ *
+ * The key is checked against the payload first, so a key from another
+ * file cannot add a slot that opens nothing.
+ *
+ * @param file - The `.lockme` file
+ * @param dataKey - The recovered data key
+ * @param passphrase - The passphrase to add
+ * @param kdf - KDF choice and cost for the new slot
+ * @returns The file with the extra slot
+ * @throws Error if the key does not belong to the file or it has no room left
+ */
+export async function restorePassphraseSlot(
+  file: Blob,
+  dataKey: Uint8Array,
+  passphrase: string,
+  kdf?: KdfOptions
+): Promise<Blob> {
+  const info = await readEditableHeader(file);
+  const slots = info.header.slots!;
+  if (slots.length >= MAX_KEY_SLOTS) {
+    throw new Error(`A file can have at most ${MAX_KEY_SLOTS} key slots.`);
+  }
+  if (!(await verifyDataKey(file, dataKey))) {
+    throw new Error("The recovered key does not open this file.");
+  }
+
+  const slot = await createPassphraseSlot(dataKey, passphrase, kdf);
+  return withSlots(file, info, [...slots, slot]);
+}
@@ -0,0 +1,125 @@
+/**
+ * Self-Decrypting HTML Tests
+ *
+ * Covers the inline Argon2id against hash-wasm, and opening exported pages
+ * with the embedded runtime exactly as a browser would run it.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { argon2id as referenceArgon2id } from 'hash-wasm';
+
+import {
+  createEncryptStream,
+  createSelfDecryptingHtml,
+  generateIdentity,
+  generateKeyfile,
+  generateSigningIdentity,
+  hashKeyfile,
+  streamToBlob,
+  unlockSigningIdentity,
+  type KdfOptions,
+} from './index';
+import { SELF_DECRYPTING_RUNTIME } from './selfDecryptingRuntime';
+
+const FAST_KDF: KdfOptions = { id: 'pbkdf2-sha256', iterations: 1000 };
+const SMALL_ARGON2: KdfOptions = { id: 'argon2id', memory: 8 * 1024, iterations: 1, parallelism: 1 };
+const PLAINTEXT = new TextEncoder().encode('offline recipients welcome '.repeat(20));
+
+interface Runtime {
+  argon2id(password: Uint8Array, salt: Uint8Array, memory: number, passes: number, lanes: number): Promise<Uint8Array>;
+  openContainer(
+    bytes: Uint8Array,
+    passphrase: string,
+    keyfile: Uint8Array | null
+  ): Promise<{ metadata: { name?: string; type?: string }; content: Uint8Array; signed: boolean }>;
+}
+
+/** Evaluates a page script the way the browser would, minus the page wiring */
+function loadRuntime(script: string): Runtime {
+  return new Function(`${script}\nreturn { argon2id, openContainer };`)() as Runtime;
+}
+
+/** Splits an exported page into its CSP, script and embedded file */
+async function readPage(page: Blob): Promise<{ csp: string; script: string; file: Uint8Array }> {
+  const html = await page.text();
+  const csp = html.match(/http-equiv="Content-Security-Policy" content="([^"]+)"/)![1];
+  const data = html.match(/<script type="application\/octet-stream" id="lockme-data">([\s\S]*?)<\/script>/)![1];
+  const script = html.match(/<script>([\s\S]*?)<\/script>/)![1];
+  return { csp, script, file: Uint8Array.from(atob(data.replace(/\s+/g, '')), c => c.charCodeAt(0)) };
+}
+
+/** Encrypts the test plaintext with small segments */
+async function encrypt(options: Parameters<typeof createEncryptStream>[1]): Promise<Blob> {
+  return streamToBlob(
+    new Blob([PLAINTEXT]).stream().pipeThrough(createEncryptStream('offline passphrase', {
+      chunkSize: 64,
+      metadata: { name: 'letter.txt', type: 'text/plain' },
+      ...options,
+    }))
+  );
+}
+
+test('the inline Argon2id matches hash-wasm', async () => {
+  const { argon2id } = loadRuntime(SELF_DECRYPTING_RUNTIME);
+  const password = new TextEncoder().encode('correct horse');
+  const salt = Uint8Array.from({ length: 16 }, (_, i) => i);
+
+  for (const [memory, passes, lanes] of [[8 * 1024, 1, 1], [8 * 1024, 2, 2], [8 * 1024 + 100, 3, 3]]) {
+    const expected = await referenceArgon2id({
+      password,
+      salt,
+      memorySize: memory,
+      iterations: passes,
+      parallelism: lanes,
+      hashLength: 32,
+      outputType: 'binary',
+    });
+    assert.deepEqual(await argon2id(password, salt, memory, passes, lanes), expected, `m=${memory} t=${passes} p=${lanes}`);
+  }
+});
+
+test('an exported page opens with the passphrase', async () => {
+  const file = await encrypt({ kdf: SMALL_ARGON2, compression: 'gzip' });
+  const page = await createSelfDecryptingHtml(file);
+  assert.equal(page.type, 'text/html');
+
+  const { csp, script, file: embedded } = await readPage(page);
+  assert.deepEqual(embedded, new Uint8Array(await file.arrayBuffer()));
+  assert.match(csp, /default-src 'none'/);
+  const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(script)));
+  assert.ok(csp.includes(`'sha256-${Buffer.from(hash).toString('base64')}'`));
+
+  const { openContainer } = loadRuntime(script);
+  const opened = await openContainer(embedded, 'offline passphrase', null);
+  assert.deepEqual(opened.content, PLAINTEXT);
+  assert.deepEqual(opened.metadata, { name: 'letter.txt', type: 'text/plain' });
+  assert.equal(opened.signed, false);
+  await assert.rejects(openContainer(embedded, 'wrong', null), /Incorrect passphrase/);
+
+  embedded[embedded.length - 100] ^= 1;
+  await assert.rejects(openContainer(embedded, 'offline passphrase', null), /corrupted/);
+});
+
+test('exported pages handle keyfiles and signed files', async () => {
+  const { openContainer } = loadRuntime(SELF_DECRYPTING_RUNTIME);
+  const keyfile = await hashKeyfile(new Blob([generateKeyfile()]));
+  const identity = await generateSigningIdentity('ed25519', 'signing passphrase', FAST_KDF);
+  const signer = (await unlockSigningIdentity(identity, 'signing passphrase'))!;
+
+  const { file } = await readPage(await createSelfDecryptingHtml(await encrypt({ kdf: FAST_KDF, keyfile, signer })));
+  await assert.rejects(openContainer(file, 'offline passphrase', null), /requires a keyfile/);
+  const opened = await openContainer(file, 'offline passphrase', keyfile);
+  assert.deepEqual(opened.content, PLAINTEXT);
+  assert.equal(opened.signed, true);
+});
+
+test('only passphrase-locked containers can be exported', async () => {
+  await assert.rejects(createSelfDecryptingHtml(new Blob([PLAINTEXT])), /Not a LockMe container/);
+
+  const identity = await generateIdentity('identity passphrase', FAST_KDF);
+  const recipientOnly = await streamToBlob(
+    new Blob([PLAINTEXT]).stream().pipeThrough(createEncryptStream(null, { recipients: [identity.publicKey] }))
+  );
+  await assert.rejects(createSelfDecryptingHtml(recipientOnly), /open with a passphrase/);
+});
@@ -0,0 +1,113 @@
+/**
+ * Self-Decrypting HTML Export
+ *
+ * Wraps a `.lockme` file in one standalone HTML page for recipients who
+ * have no LockMe account or cannot reach the site. The page embeds the
+ * unchanged container as Base64 next to a small WebCrypto decryptor (see
+ * `selfDecryptingRuntime.ts`) and a passphrase prompt, so it opens offline
+ * from `file://` with the same format and KDF as the file itself. The
+ * embedded file can also be saved back out and opened in LockMe.
+ *
+ * A Content-Security-Policy pins the inline script by hash and blocks
+ * every network request, so the page cannot load or send anything.
+ */
+
+import { bytesToBase64 } from './encoding';
+import { readContainerHeader } from './rewrap';
+import { SELF_DECRYPTING_RUNTIME } from './selfDecryptingRuntime';
+
+/** Largest file that can be exported; the page decrypts in memory */
+export const MAX_SELF_DECRYPTING_SIZE = 100 * 1024 * 1024;
+
+/** Bytes Base64-encoded per line of the embedded file (a multiple of 3) */
+const EMBED_SLICE_SIZE = 3 * 256 * 1024;
+
+/** Page styles; kept small and theme-neutral */
+const PAGE_STYLE = `
+body { font-family: system-ui, sans-serif; background: #f6f7f9; color: #1f2328; margin: 0; }
+@media (prefers-color-scheme: dark) { body { background: #16181d; color: #e6e8eb; } }
+main { max-width: 28rem; margin: 10vh auto; padding: 2rem; border: 1px solid #8884; border-radius: 12px; }
+h1 { margin-top: 0; font-size: 1.5rem; }
+label { display: block; margin: 1rem 0 0.25rem; font-weight: 600; }
+input { width: 100%; box-sizing: border-box; padding: 0.5rem; font: inherit; }
+button { margin-top: 1rem; width: 100%; padding: 0.6rem; font: inherit; font-weight: 600; cursor: pointer; }
+#status { min-height: 1.5em; }
+.small { font-size: 0.8rem; opacity: 0.75; }
+`;
+
+/**
+ * Computes the CSP source expression allowing exactly the inline script
+ */
+async function scriptHash(script: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(script));
+  return `'sha256-${bytesToBase64(new Uint8Array(digest))}'`;
+}
+
+/**
+ * Builds a self-decrypting HTML page around an encrypted file
+ *
+ * Only the file's passphrase slots can be opened by the page; files that
+ * are also locked to recipients or passkeys keep those slots, but the page
+ * ignores them.
+ *
+ * @param file - A `.lockme` file (container version 2 or later)
+ * @returns The HTML page as a Blob
+ * @throws Error if the file is too large, not a container, or has no passphrase slot
+ */
+export async function createSelfDecryptingHtml(file: Blob): Promise<Blob> {
+  if (file.size > MAX_SELF_DECRYPTING_SIZE) {
+    throw new Error(`Files larger than ${MAX_SELF_DECRYPTING_SIZE / 1024 / 1024} MB cannot be exported as HTML.`);
+  }
+
+  const { version, header } = await readContainerHeader(file);
+  if (version < 2) {
+    throw new Error("Files in format version 1 cannot be exported as HTML. Change their passphrase to upgrade them first.");
+  }
+  if (version >= 4 && !header.slots!.some(slot => slot.type === 'passphrase')) {
+    throw new Error("Only files that open with a passphrase can be exported as HTML.");
+  }
+
+  const embedded: string[] = [];
+  for (let offset = 0; offset < file.size; offset += EMBED_SLICE_SIZE) {
+    const slice = new Uint8Array(await file.slice(offset, offset + EMBED_SLICE_SIZE).arrayBuffer());
+    embedded.push(bytesToBase64(slice), '\n');
+  }
+
+  const csp = `default-src 'none'; style-src 'unsafe-inline'; script-src ${await scriptHash(SELF_DECRYPTING_RUNTIME)}`;
+  const head = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta http-equiv="Content-Security-Policy" content="${csp}">
+<meta name="generator" content="LockMe">
+<title>Encrypted file</title>
+<style>${PAGE_STYLE}</style>
+</head>
+<body>
+<main>
+<h1>Encrypted file</h1>
+<p>This page holds an encrypted file. Enter its passphrase to decrypt it in this browser. Nothing is uploaded, and the page works offline.</p>
+<form id="unlock">
+<label for="passphrase">Passphrase</label>
+<input id="passphrase" type="password" autocomplete="off" required autofocus>
+<div id="keyfile-field" hidden>
+<label for="keyfile">Keyfile</label>
+<input id="keyfile" type="file">
+</div>
+<button id="decrypt" type="submit">Decrypt</button>
+</form>
+<p id="status" role="status"></p>
+<p><a id="save" hidden></a></p>
+<p class="small">Have LockMe? <a id="save-container" download="encrypted.lockme">Save the .lockme file</a> and open it there instead.</p>
+</main>
+<script type="application/octet-stream" id="lockme-data">
+`;
+  const tail = `</script>
+<script>${SELF_DECRYPTING_RUNTIME}</script>
+</body>
+</html>
+`;
+
+  return new Blob([head, ...embedded, tail], { type: 'text/html' });
+}
@@ -0,0 +1,493 @@
+/**
+ * Self-Decrypting HTML Runtime
+ *
+ * Source of the script embedded in self-decrypting HTML exports (see
+ * `selfDecrypting.ts`). It has to run from a saved file with no network
+ * and no LockMe code, so it is plain ES2017 in a string and re-implements
+ * just enough of the container format to open a passphrase slot:
+ *
+ * - BLAKE2b and Argon2id (RFC 7693, RFC 9106) in pure JavaScript, since
+ *   the hash-wasm build used elsewhere cannot be inlined; PBKDF2 and
+ *   AES-GCM come from WebCrypto
+ * - Container v2 to v6: passphrase (and keyfile) slots, STREAM segments,
+ *   the metadata record, compression; signatures are stripped unchecked
+ *
+ * The page wiring at the end only runs when a `document` exists, so tests
+ * can evaluate the script and call `argon2id` and `openContainer` directly.
+ * The script must never contain a closing script tag.
+ */
+
+export const SELF_DECRYPTING_RUNTIME = String.raw`"use strict";
+
+/* BLAKE2b (RFC 7693). 64-bit words are stored as [low, high] pairs in Uint32Arrays. */
+
+var BLAKE2B_IV = new Uint32Array([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372, 0x5f1d36f1, 0xa54ff53a,
+  0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c, 0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19
+]);
+
+var SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0]
+];
+
+/* v[a] += v[b] */
+function add64(v, a, b) {
+  var lo = v[2 * a] + v[2 * b];
+  v[2 * a + 1] = v[2 * a + 1] + v[2 * b + 1] + (lo >= 0x100000000 ? 1 : 0);
+  v[2 * a] = lo;
+}
+
+/* v[a] += m[x] */
+function add64m(v, a, m, x) {
+  var lo = v[2 * a] + m[2 * x];
+  v[2 * a + 1] = v[2 * a + 1] + m[2 * x + 1] + (lo >= 0x100000000 ? 1 : 0);
+  v[2 * a] = lo;
+}
+
+/* v[d] = (v[d] ^ v[a]) rotated right by n bits */
+function xorRotr(v, d, a, n) {
+  var lo = v[2 * d] ^ v[2 * a], hi = v[2 * d + 1] ^ v[2 * a + 1], t;
+  if (n >= 32) { t = lo; lo = hi; hi = t; n -= 32; }
+  if (n > 0) { t = (lo >>> n) | (hi << (32 - n)); hi = (hi >>> n) | (lo << (32 - n)); lo = t; }
+  v[2 * d] = lo;
+  v[2 * d + 1] = hi;
+}
+
+function blake2bMix(v, m, a, b, c, d, x, y) {
+  add64(v, a, b); add64m(v, a, m, x); xorRotr(v, d, a, 32);
+  add64(v, c, d); xorRotr(v, b, c, 24);
+  add64(v, a, b); add64m(v, a, m, y); xorRotr(v, d, a, 16);
+  add64(v, c, d); xorRotr(v, b, c, 63);
+}
+
+function blake2bCompress(h, block, t, last) {
+  var v = new Uint32Array(32), m = new Uint32Array(32), i, r, s;
+  for (i = 0; i < 16; i++) { v[i] = h[i]; v[i + 16] = BLAKE2B_IV[i]; }
+  v[24] ^= t >>> 0;
+  v[25] ^= (t / 0x100000000) >>> 0;
+  if (last) { v[28] = ~v[28]; v[29] = ~v[29]; }
+  for (i = 0; i < 32; i++) {
+    m[i] = block[4 * i] | (block[4 * i + 1] << 8) | (block[4 * i + 2] << 16) | (block[4 * i + 3] << 24);
+  }
+  for (r = 0; r < 12; r++) {
+    s = SIGMA[r % 10];
+    blake2bMix(v, m, 0, 4, 8, 12, s[0], s[1]);
+    blake2bMix(v, m, 1, 5, 9, 13, s[2], s[3]);
+    blake2bMix(v, m, 2, 6, 10, 14, s[4], s[5]);
+    blake2bMix(v, m, 3, 7, 11, 15, s[6], s[7]);
+    blake2bMix(v, m, 0, 5, 10, 15, s[8], s[9]);
+    blake2bMix(v, m, 1, 6, 11, 12, s[10], s[11]);
+    blake2bMix(v, m, 2, 7, 8, 13, s[12], s[13]);
+    blake2bMix(v, m, 3, 4, 9, 14, s[14], s[15]);
+  }
+  for (i = 0; i < 16; i++) h[i] ^= v[i] ^ v[i + 16];
+}
+
+function blake2b(input, outLength) {
+  var h = new Uint32Array(BLAKE2B_IV), block = new Uint8Array(128), t = 0, offset = 0, out, i;
+  h[0] ^= 0x01010000 ^ outLength;
+  while (input.length - offset > 128) {
+    t += 128;
+    blake2bCompress(h, input.subarray(offset, offset + 128), t, false);
+    offset += 128;
+  }
+  block.set(input.subarray(offset));
+  t += input.length - offset;
+  blake2bCompress(h, block, t, true);
+  out = new Uint8Array(outLength);
+  for (i = 0; i < outLength; i++) out[i] = h[i >> 2] >>> (8 * (i & 3));
+  return out;
+}
+
+/* Argon2id (RFC 9106), version 0x13, without secret or associated data */
+
+function le32(n) {
+  return new Uint8Array([n & 0xff, (n >>> 8) & 0xff, (n >>> 16) & 0xff, (n >>> 24) & 0xff]);
+}
+
+function concatBytes(parts) {
+  var length = 0, offset = 0, out, i;
+  for (i = 0; i < parts.length; i++) length += parts[i].length;
+  out = new Uint8Array(length);
+  for (i = 0; i < parts.length; i++) { out.set(parts[i], offset); offset += parts[i].length; }
+  return out;
+}
+
+/* Variable-length hash H' */
+function hashLong(input, outLength) {
+  var prefixed = concatBytes([le32(outLength), input]), out, v, position = 0;
+  if (outLength <= 64) return blake2b(prefixed, outLength);
+  out = new Uint8Array(outLength);
+  v = blake2b(prefixed, 64);
+  while (outLength - position > 64) {
+    out.set(v.subarray(0, 32), position);
+    position += 32;
+    v = blake2b(v, Math.min(64, outLength - position));
+  }
+  out.set(v, position);
+  return out;
+}
+
+/* High 32 bits of the 64-bit product of two 32-bit numbers */
+function mulHi32(a, b) {
+  var a0 = a & 0xffff, a1 = a >>> 16, b0 = b & 0xffff, b1 = b >>> 16;
+  var p00 = a0 * b0, p01 = a0 * b1, p10 = a1 * b0;
+  var mid = (p00 >>> 16) + (p01 & 0xffff) + (p10 & 0xffff);
+  return a1 * b1 + (p01 >>> 16) + (p10 >>> 16) + Math.floor(mid / 0x10000);
+}
+
+/* v[a] += v[b] + 2 * low32(v[a]) * low32(v[b]) */
+function fBlaMka(v, a, b) {
+  var al = v[2 * a], bl = v[2 * b];
+  var a0 = al & 0xffff, a1 = al >>> 16, b0 = bl & 0xffff, b1 = bl >>> 16;
+  var p00 = a0 * b0, p01 = a0 * b1, p10 = a1 * b0;
+  var mid = (p00 >>> 16) + (p01 & 0xffff) + (p10 & 0xffff);
+  var productLo = (((mid & 0xffff) << 16) | (p00 & 0xffff)) >>> 0;
+  var productHi = a1 * b1 + (p01 >>> 16) + (p10 >>> 16) + Math.floor(mid / 0x10000);
+  var lo = al + bl + ((productLo << 1) >>> 0);
+  v[2 * a + 1] = v[2 * a + 1] + v[2 * b + 1] + (((productHi << 1) | (productLo >>> 31)) >>> 0) + Math.floor(lo / 0x100000000);
+  v[2 * a] = lo;
+}
+
+function argonMix(v, a, b, c, d) {
+  fBlaMka(v, a, b); xorRotr(v, d, a, 32);
+  fBlaMka(v, c, d); xorRotr(v, b, c, 24);
+  fBlaMka(v, a, b); xorRotr(v, d, a, 16);
+  fBlaMka(v, c, d); xorRotr(v, b, c, 63);
+}
+
+/* Word indexes of the 8 rows and 8 columns the permutation P is applied to */
+var ARGON_ROUNDS = (function () {
+  var rounds = [], r, c, i, column;
+  for (r = 0; r < 8; r++) {
+    rounds.push([]);
+    for (i = 0; i < 16; i++) rounds[r].push(16 * r + i);
+  }
+  for (c = 0; c < 8; c++) {
+    column = [];
+    for (i = 0; i < 8; i++) column.push(2 * c + 16 * i, 2 * c + 16 * i + 1);
+    rounds.push(column);
+  }
+  return rounds;
+})();
+
+var BLOCK_R = new Uint32Array(256), BLOCK_T = new Uint32Array(256);
+
+/* next = G(prev, ref), XORed into the old next block when withXor is set */
+function fillBlock(prev, ref, next, withXor) {
+  var r = BLOCK_R, t = BLOCK_T, i, w;
+  for (i = 0; i < 256; i++) r[i] = prev[i] ^ ref[i];
+  t.set(r);
+  if (withXor) for (i = 0; i < 256; i++) t[i] ^= next[i];
+  for (i = 0; i < 16; i++) {
+    w = ARGON_ROUNDS[i];
+    argonMix(r, w[0], w[4], w[8], w[12]);
+    argonMix(r, w[1], w[5], w[9], w[13]);
+    argonMix(r, w[2], w[6], w[10], w[14]);
+    argonMix(r, w[3], w[7], w[11], w[15]);
+    argonMix(r, w[0], w[5], w[10], w[15]);
+    argonMix(r, w[1], w[6], w[11], w[12]);
+    argonMix(r, w[2], w[7], w[8], w[13]);
+    argonMix(r, w[3], w[4], w[9], w[14]);
+  }
+  for (i = 0; i < 256; i++) next[i] = r[i] ^ t[i];
+}
+
+function bytesToWords(bytes) {
+  var words = new Uint32Array(bytes.length / 4), i;
+  for (i = 0; i < words.length; i++) {
+    words[i] = bytes[4 * i] | (bytes[4 * i + 1] << 8) | (bytes[4 * i + 2] << 16) | (bytes[4 * i + 3] << 24);
+  }
+  return words;
+}
+
+function wordsToBytes(words) {
+  var bytes = new Uint8Array(words.length * 4), i;
+  for (i = 0; i < bytes.length; i++) bytes[i] = words[i >> 2] >>> (8 * (i & 3));
+  return bytes;
+}
+
+/*
+ * Derives a 32-byte Argon2id hash. memory is in KiB (1 KiB blocks);
+ * onProgress receives a percentage after every slice.
+ */
+async function argon2id(password, salt, memory, passes, lanes, onProgress) {
+  var h0 = blake2b(concatBytes([
+    le32(lanes), le32(32), le32(memory), le32(passes), le32(0x13), le32(2),
+    le32(password.length), password, le32(salt.length), salt, le32(0), le32(0)
+  ]), 64);
+  var segmentLength = Math.floor(memory / (4 * lanes));
+  var laneLength = 4 * segmentLength, blockCount = lanes * laneLength;
+  var mem = new Uint32Array(blockCount * 256);
+  var zero = new Uint32Array(256), input = new Uint32Array(256), address = new Uint32Array(256);
+  var block = function (index) { return mem.subarray(index * 256, index * 256 + 256); };
+  var pass, slice, lane, l, i, start, independent, current, previous, random, refLane, area, relative, refIndex, final, tag;
+
+  var nextAddresses = function () {
+    input[12]++;
+    fillBlock(zero, input, address, false);
+    fillBlock(zero, address, address, false);
+  };
+
+  try {
+    for (l = 0; l < lanes; l++) {
+      block(l * laneLength).set(bytesToWords(hashLong(concatBytes([h0, le32(0), le32(l)]), 1024)));
+      block(l * laneLength + 1).set(bytesToWords(hashLong(concatBytes([h0, le32(1), le32(l)]), 1024)));
+    }
+
+    for (pass = 0; pass < passes; pass++) {
+      for (slice = 0; slice < 4; slice++) {
+        for (lane = 0; lane < lanes; lane++) {
+          independent = pass === 0 && slice < 2;
+          if (independent) {
+            input.fill(0);
+            input[0] = pass; input[2] = lane; input[4] = slice;
+            input[6] = blockCount; input[8] = passes; input[10] = 2;
+          }
+          start = pass === 0 && slice === 0 ? 2 : 0;
+          if (independent && start === 2) nextAddresses();
+
+          current = lane * laneLength + slice * segmentLength + start;
+          previous = current % laneLength === 0 ? current + laneLength - 1 : current - 1;
+          for (i = start; i < segmentLength; i++, current++, previous++) {
+            if (current % laneLength === 1) previous = current - 1;
+            if (independent) {
+              if (i % 128 === 0) nextAddresses();
+              random = [address[2 * (i % 128)], address[2 * (i % 128) + 1]];
+            } else {
+              random = [mem[previous * 256], mem[previous * 256 + 1]];
+            }
+
+            refLane = pass === 0 && slice === 0 ? lane : random[1] % lanes;
+            if (pass === 0) {
+              area = slice === 0
+                ? i - 1
+                : slice * segmentLength + (refLane === lane ? i - 1 : (i === 0 ? -1 : 0));
+            } else {
+              area = laneLength - segmentLength + (refLane === lane ? i - 1 : (i === 0 ? -1 : 0));
+            }
+            relative = area - 1 - mulHi32(area, mulHi32(random[0], random[0]));
+            refIndex = ((pass === 0 || slice === 3 ? 0 : (slice + 1) * segmentLength) + relative) % laneLength;
+
+            fillBlock(block(previous), block(refLane * laneLength + refIndex), block(current), pass > 0);
+          }
+        }
+        if (onProgress) onProgress(Math.round(((pass * 4 + slice + 1) / (passes * 4)) * 100));
+        // Let the page repaint between slices
+        await new Promise(function (resolve) { setTimeout(resolve, 0); });
+      }
+    }
+
+    final = new Uint32Array(block(laneLength - 1));
+    for (l = 1; l < lanes; l++) {
+      current = block(l * laneLength + laneLength - 1);
+      for (i = 0; i < 256; i++) final[i] ^= current[i];
+    }
+    tag = hashLong(wordsToBytes(final), 32);
+    final.fill(0);
+    return tag;
+  } finally {
+    mem.fill(0);
+  }
+}
+
+/* LockMe container (see container.ts, slots.ts, stream.ts and metadata.ts) */
+
+var MAGIC = new Uint8Array([0x4c, 0x4f, 0x43, 0x4b, 0x4d, 0x45]);
+var TAG_LENGTH = 16;
+var SIGNATURE_LENGTH = 64;
+
+function fromBase64(text) {
+  var binary = atob(text), bytes = new Uint8Array(binary.length), i;
+  for (i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function readHeader(bytes) {
+  var i, version, headerEnd;
+  for (i = 0; i < MAGIC.length; i++) {
+    if (bytes[i] !== MAGIC[i]) throw new Error("The embedded data is not a LockMe file.");
+  }
+  version = bytes[6];
+  if (version < 2 || version > 6) throw new Error("This page cannot open format version " + version + ".");
+  headerEnd = 11 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(7);
+  return { version: version, header: JSON.parse(new TextDecoder().decode(bytes.subarray(11, headerEnd))), headerEnd: headerEnd };
+}
+
+async function deriveKey(secret, kdf, onProgress) {
+  var salt = fromBase64(kdf.salt), raw, base;
+  if (kdf.id === "argon2id") {
+    if (!(kdf.memory >= 8 * 1024 && kdf.memory <= 1024 * 1024 && kdf.iterations >= 1 && kdf.iterations <= 20 &&
+        kdf.parallelism >= 1 && kdf.parallelism <= 16)) {
+      throw new Error("Invalid Argon2id parameters.");
+    }
+    raw = await argon2id(secret, salt, kdf.memory, kdf.iterations, kdf.parallelism, onProgress);
+    try {
+      return await crypto.subtle.importKey("raw", raw, { name: "AES-GCM" }, false, ["decrypt"]);
+    } finally {
+      raw.fill(0);
+    }
+  }
+  if (kdf.id === "pbkdf2-sha256") {
+    base = await crypto.subtle.importKey("raw", secret, { name: "PBKDF2" }, false, ["deriveKey"]);
+    return crypto.subtle.deriveKey(
+      { name: "PBKDF2", salt: salt, iterations: kdf.iterations, hash: "SHA-256" },
+      base, { name: "AES-GCM", length: 256 }, false, ["decrypt"]
+    );
+  }
+  throw new Error("Unsupported key derivation function: " + kdf.id + ".");
+}
+
+async function unlockPayloadKey(info, passphrase, keyfile, onProgress) {
+  var secret = new TextEncoder().encode(passphrase), slots, i, slotSecret, kek, dataKey;
+  if (info.version < 4) return deriveKey(secret, info.header.kdf, onProgress);
+
+  slots = (info.header.slots || []).filter(function (slot) { return slot.type === "passphrase"; });
+  if (slots.length === 0) throw new Error("This file does not open with a passphrase. Open it in LockMe instead.");
+  for (i = 0; i < slots.length && !dataKey; i++) {
+    if (slots[i].keyfile && !keyfile) continue;
+    slotSecret = slots[i].keyfile ? concatBytes([keyfile, secret]) : secret;
+    kek = await deriveKey(slotSecret, slots[i].kdf, onProgress);
+    try {
+      dataKey = new Uint8Array(await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64(slots[i].iv) }, kek, fromBase64(slots[i].ciphertext)
+      ));
+    } catch (error) {
+      // Wrong passphrase for this slot; try the next one
+    }
+  }
+  if (!dataKey) {
+    throw new Error(!keyfile && slots.every(function (slot) { return slot.keyfile; })
+      ? "This file requires a keyfile. Select the keyfile it was encrypted with."
+      : "Incorrect passphrase or corrupted file.");
+  }
+  try {
+    return await crypto.subtle.importKey("raw", dataKey, { name: "AES-GCM" }, false, ["decrypt"]);
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+/*
+ * Decrypts a container held in memory. keyfile is the SHA-256 digest of the
+ * keyfile, or null. Resolves to { metadata, content, signed }.
+ */
+async function openContainer(bytes, passphrase, keyfile, onProgress) {
+  var info = readHeader(bytes), header = info.header, version = info.version;
+  var aad = version < 4
+    ? bytes.subarray(0, info.headerEnd)
+    : concatBytes([MAGIC, new Uint8Array([version]),
+      new TextEncoder().encode(JSON.stringify(Object.assign({}, header, { slots: undefined })))]);
+  var key = await unlockPayloadKey(info, passphrase, keyfile, onProgress);
+  var noncePrefix = fromBase64(header.stream.noncePrefix), sealedSize = header.stream.chunkSize + TAG_LENGTH;
+  var payload = bytes.subarray(info.headerEnd), parts = [], offset = 0, counter = 0, last = false;
+  var sealed, nonce, plaintext, metadata = {}, recordLength;
+
+  while (!last) {
+    last = payload.length - offset <= sealedSize;
+    sealed = payload.subarray(offset, last ? payload.length : offset + sealedSize);
+    if (sealed.length < TAG_LENGTH) throw new Error("File is corrupted or truncated.");
+    nonce = new Uint8Array(12);
+    nonce.set(noncePrefix);
+    new DataView(nonce.buffer).setUint32(7, counter);
+    nonce[11] = last ? 1 : 0;
+    try {
+      parts.push(new Uint8Array(await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: nonce, additionalData: aad }, key, sealed
+      )));
+    } catch (error) {
+      throw new Error(counter === 0 ? "Incorrect passphrase or corrupted file." : "File is corrupted or truncated.");
+    }
+    counter++;
+    offset += sealed.length;
+  }
+
+  plaintext = concatBytes(parts);
+  if (header.signer) {
+    if (plaintext.length < SIGNATURE_LENGTH) throw new Error("Corrupt file signature.");
+    plaintext = plaintext.subarray(0, plaintext.length - SIGNATURE_LENGTH);
+  }
+  if (version >= 3) {
+    recordLength = 4 + new DataView(plaintext.buffer, plaintext.byteOffset).getUint32(0);
+    metadata = JSON.parse(new TextDecoder().decode(plaintext.subarray(4, recordLength)));
+    plaintext = plaintext.subarray(recordLength);
+  }
+  if (header.compression) {
+    plaintext = new Uint8Array(await new Response(
+      new Blob([plaintext]).stream().pipeThrough(new DecompressionStream(header.compression))
+    ).arrayBuffer());
+  }
+  return { metadata: metadata, content: plaintext, signed: !!header.signer };
+}
+
+/* Page wiring */
+
+if (typeof document !== "undefined") {
+  (function () {
+    var form = document.getElementById("unlock");
+    var passphrase = document.getElementById("passphrase");
+    var keyfileInput = document.getElementById("keyfile");
+    var button = document.getElementById("decrypt");
+    var status = document.getElementById("status");
+    var save = document.getElementById("save");
+    var bytes = fromBase64(document.getElementById("lockme-data").textContent);
+    var containerLink = document.getElementById("save-container");
+    var header;
+
+    containerLink.href = URL.createObjectURL(new Blob([bytes], { type: "application/octet-stream" }));
+    try {
+      header = readHeader(bytes).header;
+      if ((header.slots || []).some(function (slot) { return slot.keyfile; })) {
+        document.getElementById("keyfile-field").hidden = false;
+      }
+    } catch (error) {
+      status.textContent = error.message;
+      button.disabled = true;
+    }
+    if (!window.crypto || !crypto.subtle) {
+      status.textContent = "This browser cannot decrypt files here. Save the .lockme file and open it in LockMe.";
+      button.disabled = true;
+    }
+
+    form.addEventListener("submit", async function (event) {
+      event.preventDefault();
+      button.disabled = true;
+      status.textContent = "Unlocking...";
+      try {
+        var keyfile = keyfileInput.files && keyfileInput.files[0]
+          ? new Uint8Array(await crypto.subtle.digest("SHA-256", await keyfileInput.files[0].arrayBuffer()))
+          : null;
+        var result = await openContainer(bytes, passphrase.value, keyfile, function (percent) {
+          status.textContent = "Unlocking... " + percent + "%";
+        });
+        var name = String(result.metadata.name || "").split(/[\\/]/).pop().trim();
+        if (!name || name === "." || name === "..") name = "decrypted-file";
+
+        if (save.href) URL.revokeObjectURL(save.href);
+        save.href = URL.createObjectURL(new Blob([result.content], { type: result.metadata.type || "application/octet-stream" }));
+        save.download = name;
+        save.textContent = "Save " + name;
+        save.hidden = false;
+        save.click();
+        status.textContent = result.signed
+          ? "Decrypted. The sender's signature was not checked here; open the .lockme file in LockMe to verify it."
+          : "Decrypted.";
+        passphrase.value = "";
+      } catch (error) {
+        status.textContent = error.message || "The file could not be decrypted.";
+      } finally {
+        button.disabled = false;
+      }
+    });
+  })();
+}
+`;
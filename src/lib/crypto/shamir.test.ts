@@ -0,0 +1,107 @@
+/**
+ * Shamir Secret Sharing Tests
+ *
+ * Covers splitting and combining with every threshold subset, the share
+ * text and its checksum, and recovering a file's data key from shares.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  combineShares,
+  createDecryptStream,
+  createEncryptStream,
+  decodeShare,
+  encodeShare,
+  readDataKey,
+  restorePassphraseSlot,
+  splitSecret,
+  streamToBlob,
+  verifyDataKey,
+  type KdfOptions,
+  type ShamirShare,
+} from './index';
+
+const FAST_KDF: KdfOptions = { id: 'pbkdf2-sha256', iterations: 1000 };
+const SECRET = new TextEncoder().encode('break glass: correct horse battery staple');
+
+/** Every way of picking k items from a list */
+function subsets<T>(items: T[], k: number): T[][] {
+  if (k === 0) return [[]];
+  return items.flatMap((item, i) => subsets(items.slice(i + 1), k - 1).map(rest => [item, ...rest]));
+}
+
+test('any threshold of shares rebuilds the secret', () => {
+  const shares = splitSecret(SECRET, 5, 3);
+  assert.deepEqual(shares.map(share => share.index), [1, 2, 3, 4, 5]);
+
+  for (const subset of subsets(shares, 3)) {
+    assert.deepEqual(combineShares(subset), SECRET);
+    assert.deepEqual(combineShares([...subset].reverse()), SECRET);
+  }
+  assert.deepEqual(combineShares(shares), SECRET);
+
+  assert.throws(() => combineShares(shares.slice(0, 2)), /3 shares are needed/);
+  assert.throws(() => combineShares([shares[0], shares[0], shares[1]]), /entered twice/);
+  assert.throws(() => combineShares([...shares.slice(0, 2), splitSecret(SECRET, 5, 3)[2]]), /different splits/);
+
+  assert.throws(() => splitSecret(SECRET, 1, 1), /number of shares/);
+  assert.throws(() => splitSecret(SECRET, 3, 4), /threshold/);
+  assert.throws(() => splitSecret(new Uint8Array(0), 3, 2), /empty/);
+});
+
+test('combining matches a hand-computed GF(256) split', () => {
+  // f(x) = 0x53 ^ 0xca·x over the AES field: 0xca·1 = 0xca, 0xca·2 = 0x8f
+  const share = (index: number, y: number): ShamirShare => ({
+    kind: 'passphrase',
+    threshold: 2,
+    index,
+    setId: new Uint8Array(4),
+    data: Uint8Array.of(y),
+  });
+  assert.deepEqual(combineShares([share(1, 0x53 ^ 0xca), share(2, 0x53 ^ 0x8f)]), Uint8Array.of(0x53));
+});
+
+test('share text round trips and catches typos', async () => {
+  const [share] = splitSecret(SECRET, 3, 2, 'data-key');
+  const text = await encodeShare(share);
+  assert.match(text, /^LMS1-([A-Z2-7]{1,5}-)*[A-Z2-7]{1,5}$/);
+
+  const decoded = await decodeShare(`  ${text.toLowerCase().replace(/-/g, ' ')}\n`);
+  assert.equal(decoded.kind, 'data-key');
+  assert.equal(decoded.threshold, 2);
+  assert.equal(decoded.index, 1);
+  assert.deepEqual(decoded.setId, share.setId);
+  assert.deepEqual(decoded.data, share.data);
+
+  // Change one character of the data
+  const position = text.length - 3;
+  const typo = text.slice(0, position) + (text[position] === 'A' ? 'B' : 'A') + text.slice(position + 1);
+  await assert.rejects(decodeShare(typo), /typo/);
+  await assert.rejects(decodeShare(text.slice(0, -6)), /typo|incomplete/);
+  await assert.rejects(decodeShare('LMS1-0000'), /invalid characters/);
+  await assert.rejects(decodeShare('hello'), /Not a LockMe share/);
+});
+
+test('a data key recovered from shares restores access to a file', async () => {
+  const plaintext = new TextEncoder().encode('vault contents');
+  const file = await streamToBlob(
+    new Blob([plaintext]).stream().pipeThrough(createEncryptStream('lost passphrase', { kdf: FAST_KDF }))
+  );
+
+  const dataKey = await readDataKey(file, { passphrase: 'lost passphrase' });
+  const shares = await Promise.all(splitSecret(dataKey, 3, 2, 'data-key').map(encodeShare));
+  await assert.rejects(readDataKey(file, { passphrase: 'wrong' }));
+
+  const recovered = combineShares(await Promise.all([shares[2], shares[0]].map(decodeShare)));
+  assert.deepEqual(recovered, dataKey);
+  assert.equal(await verifyDataKey(file, recovered), true);
+  assert.equal(await verifyDataKey(file, new Uint8Array(32)), false);
+
+  const restored = await restorePassphraseSlot(file, recovered, 'new passphrase', FAST_KDF);
+  const opened = await streamToBlob(restored.stream().pipeThrough(createDecryptStream('new passphrase')));
+  assert.deepEqual(new Uint8Array(await opened.arrayBuffer()), plaintext);
+
+  await assert.rejects(restorePassphraseSlot(file, new Uint8Array(32), 'new passphrase', FAST_KDF), /does not open this file/);
+});
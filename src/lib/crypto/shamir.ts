@@ -0,0 +1,296 @@
+/**
+ * Shamir's Secret Sharing
+ *
+ * Splits a secret into N shares so that any K of them rebuild it and
+ * fewer than K reveal nothing about it. Every byte of the secret is the
+ * constant term of its own random polynomial of degree K - 1 over GF(256)
+ * (the AES field, x^8 + x^4 + x^3 + x + 1); share i holds the values of
+ * all polynomials at x = i.
+ *
+ * Shares are written as text that survives printing and retyping:
+ *
+ *   LMS1-<Base32 groups of five>
+ *
+ * The Base32 data is `kind(1) | threshold(1) | index(1) | setId(4) | y |
+ * checksum(4)`, where the checksum is the start of SHA-256 over everything
+ * before it. A mistyped share fails its checksum, and shares from different
+ * splits are told apart by the random set ID.
+ */
+
+/** Prefix of every share */
+export const SHAMIR_SHARE_PREFIX = 'LMS1-';
+
+/** Most shares one split can produce (x runs from 1 to 255) */
+export const SHAMIR_MAX_SHARES = 255;
+
+/** What a split secret is */
+export type ShamirSecretKind = 'passphrase' | 'data-key';
+
+/**
+ * One share of a split secret
+ */
+export interface ShamirShare {
+  /** What the secret is, so combining knows how to present it */
+  kind: ShamirSecretKind;
+
+  /** Shares needed to rebuild the secret */
+  threshold: number;
+
+  /** x coordinate of the share, from 1 */
+  index: number;
+
+  /** Random ID shared by all shares of one split */
+  setId: Uint8Array;
+
+  /** Polynomial values, one byte per secret byte */
+  data: Uint8Array;
+}
+
+/** Bytes of the set ID */
+const SET_ID_LENGTH = 4;
+
+/** Bytes of the per-share checksum */
+const CHECKSUM_LENGTH = 4;
+
+/** Bytes before the share data */
+const SHARE_HEADER_LENGTH = 3 + SET_ID_LENGTH;
+
+/** Kind byte values */
+const KIND_IDS: Record<ShamirSecretKind, number> = { 'passphrase': 0, 'data-key': 1 };
+
+/** RFC 4648 Base32 alphabet */
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Exponent and logarithm tables of GF(256) with generator 3
+ */
+const [EXP, LOG] = (() => {
+  const exp = new Uint8Array(510);
+  const log = new Uint8Array(256);
+  let value = 1;
+  for (let i = 0; i < 255; i++) {
+    exp[i] = value;
+    log[value] = i;
+    // Multiply by 3: value * 2 (reduced modulo the AES polynomial) + value
+    value ^= (value << 1) ^ (value & 0x80 ? 0x11b : 0);
+  }
+  // Doubled so products of logarithms need no modulo
+  for (let i = 255; i < 510; i++) exp[i] = exp[i - 255];
+  return [exp, log];
+})();
+
+/** Multiplies two field elements */
+function gfMul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+/** Divides two field elements; b must not be zero */
+function gfDiv(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * Splits a secret into shares
+ *
+ * @param secret - The secret bytes
+ * @param total - Number of shares N
+ * @param threshold - Shares K needed to rebuild the secret
+ * @param kind - What the secret is
+ * @returns N shares with indexes 1 to N
+ * @throws Error if the counts are out of range or the secret is empty
+ */
+export function splitSecret(
+  secret: Uint8Array,
+  total: number,
+  threshold: number,
+  kind: ShamirSecretKind = 'passphrase'
+): ShamirShare[] {
+  if (secret.length === 0) {
+    throw new Error("The secret is empty.");
+  }
+  if (!Number.isInteger(total) || total < 2 || total > SHAMIR_MAX_SHARES) {
+    throw new Error(`The number of shares must be between 2 and ${SHAMIR_MAX_SHARES}.`);
+  }
+  if (!Number.isInteger(threshold) || threshold < 2 || threshold > total) {
+    throw new Error("The threshold must be at least 2 and at most the number of shares.");
+  }
+
+  const setId = crypto.getRandomValues(new Uint8Array(SET_ID_LENGTH));
+  const shares: ShamirShare[] = Array.from({ length: total }, (_, i) => ({
+    kind,
+    threshold,
+    index: i + 1,
+    setId,
+    data: new Uint8Array(secret.length),
+  }));
+
+  // coefficients[0] is the secret byte, the rest are random
+  const coefficients = new Uint8Array(threshold);
+  for (let byte = 0; byte < secret.length; byte++) {
+    coefficients[0] = secret[byte];
+    crypto.getRandomValues(coefficients.subarray(1));
+
+    for (const share of shares) {
+      // Horner's rule, from the highest coefficient down
+      let y = 0;
+      for (let c = threshold - 1; c >= 0; c--) {
+        y = gfMul(y, share.index) ^ coefficients[c];
+      }
+      share.data[byte] = y;
+    }
+  }
+  coefficients.fill(0);
+  return shares;
+}
+
+/**
+ * Rebuilds a secret from shares
+ *
+ * @param shares - At least `threshold` shares of one split
+ * @returns The secret bytes
+ * @throws Error if the shares are too few, repeated or from different splits
+ */
+export function combineShares(shares: ShamirShare[]): Uint8Array {
+  if (shares.length === 0) {
+    throw new Error("No shares given.");
+  }
+
+  const [first] = shares;
+  for (const share of shares) {
+    if (
+      share.kind !== first.kind ||
+      share.threshold !== first.threshold ||
+      share.data.length !== first.data.length ||
+      !share.setId.every((value, i) => value === first.setId[i])
+    ) {
+      throw new Error("These shares come from different splits.");
+    }
+  }
+
+  const indexes = new Set(shares.map(share => share.index));
+  if (indexes.size !== shares.length) {
+    throw new Error("The same share was entered twice.");
+  }
+  if (shares.length < first.threshold) {
+    throw new Error(`${first.threshold} shares are needed; ${shares.length} given.`);
+  }
+
+  // Lagrange interpolation at x = 0; in GF(2^8) subtraction is XOR
+  const used = shares.slice(0, first.threshold);
+  const weights = used.map(share => {
+    let weight = 1;
+    for (const other of used) {
+      if (other !== share) weight = gfMul(weight, gfDiv(other.index, other.index ^ share.index));
+    }
+    return weight;
+  });
+
+  const secret = new Uint8Array(first.data.length);
+  for (let byte = 0; byte < secret.length; byte++) {
+    let value = 0;
+    used.forEach((share, i) => { value ^= gfMul(share.data[byte], weights[i]); });
+    secret[byte] = value;
+  }
+  return secret;
+}
+
+/** Computes the checksum of encoded share bytes */
+async function shareChecksum(bytes: Uint8Array): Promise<Uint8Array> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return new Uint8Array(digest, 0, CHECKSUM_LENGTH);
+}
+
+/** Encodes bytes as unpadded Base32 */
+function toBase32(bytes: Uint8Array): string {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  return output;
+}
+
+/** Decodes unpadded Base32, or returns null on a foreign character */
+function fromBase32(text: string): Uint8Array | null {
+  const output: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of text) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) return null;
+    buffer = ((buffer << 5) | value) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      output.push((buffer >> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(output);
+}
+
+/**
+ * Writes a share as checksummed text
+ *
+ * @param share - The share
+ * @returns Text such as `LMS1-AEBAG-…`
+ */
+export async function encodeShare(share: ShamirShare): Promise<string> {
+  const body = new Uint8Array(SHARE_HEADER_LENGTH + share.data.length);
+  body.set([KIND_IDS[share.kind], share.threshold, share.index], 0);
+  body.set(share.setId, 3);
+  body.set(share.data, SHARE_HEADER_LENGTH);
+
+  const encoded = new Uint8Array(body.length + CHECKSUM_LENGTH);
+  encoded.set(body, 0);
+  encoded.set(await shareChecksum(body), body.length);
+  return SHAMIR_SHARE_PREFIX + (toBase32(encoded).match(/.{1,5}/g) ?? []).join('-');
+}
+
+/**
+ * Reads a share from text
+ *
+ * Case, spaces, line breaks and hyphens are ignored, so shares can be
+ * typed in from a printed card.
+ *
+ * @param text - The share text
+ * @returns The share
+ * @throws Error if the text is not a share or its checksum does not match
+ */
+export async function decodeShare(text: string): Promise<ShamirShare> {
+  const compact = text.toUpperCase().replace(/[\s-]+/g, '');
+  const prefix = SHAMIR_SHARE_PREFIX.replace('-', '');
+  if (!compact.startsWith(prefix)) {
+    throw new Error(`Not a LockMe share. Shares start with ${SHAMIR_SHARE_PREFIX}`);
+  }
+
+  const encoded = fromBase32(compact.slice(prefix.length));
+  if (!encoded || encoded.length <= SHARE_HEADER_LENGTH + CHECKSUM_LENGTH) {
+    throw new Error("This share is incomplete or contains invalid characters.");
+  }
+
+  const body = encoded.subarray(0, encoded.length - CHECKSUM_LENGTH);
+  const checksum = await shareChecksum(body);
+  if (!checksum.every((value, i) => value === encoded[body.length + i])) {
+    throw new Error("This share has a typo: its checksum does not match.");
+  }
+
+  const kind = (Object.keys(KIND_IDS) as ShamirSecretKind[]).find(k => KIND_IDS[k] === body[0]);
+  const [, threshold, index] = body;
+  if (!kind || threshold < 2 || index < 1) {
+    throw new Error("Unsupported share.");
+  }
+  return {
+    kind,
+    threshold,
+    index,
+    setId: body.slice(3, SHARE_HEADER_LENGTH),
+    data: body.slice(SHARE_HEADER_LENGTH),
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Share Link Tests
+ *
+ * Covers the upload copy opened only by the link secret, and building and
+ * reading the link itself.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  createDecryptStream,
+  createEncryptStream,
+  createShareCopy,
+  createShareSecret,
+  formatShareLink,
+  generateKeyfile,
+  hashKeyfile,
+  isValidShareId,
+  parseShareFragment,
+  readContainerHeader,
+  streamToBlob,
+  type FileMetadata,
+  type KdfOptions,
+} from './index';
+
+const FAST_KDF: KdfOptions = { id: 'pbkdf2-sha256', iterations: 1000 };
+const PLAINTEXT = new TextEncoder().encode('share me');
+
+/** Encrypts the test plaintext with small segments */
+async function encrypt(passphrase: string, keyfile?: Uint8Array): Promise<Blob> {
+  return streamToBlob(
+    new Blob([PLAINTEXT]).stream().pipeThrough(createEncryptStream(passphrase, {
+      kdf: FAST_KDF,
+      passphrases: ['team passphrase'],
+      keyfile,
+      chunkSize: 4,
+      metadata: { name: 'notes.txt', type: 'text/plain' },
+    }))
+  );
+}
+
+/** Decrypts and returns the plaintext with its metadata */
+async function decrypt(file: Blob, passphrase: string, keyfile?: Uint8Array): Promise<{ plaintext: Uint8Array; metadata?: FileMetadata }> {
+  let metadata: FileMetadata | undefined;
+  const blob = await streamToBlob(
+    file.stream().pipeThrough(createDecryptStream(passphrase, { keyfile, onMetadata: m => { metadata = m; } }))
+  );
+  return { plaintext: new Uint8Array(await blob.arrayBuffer()), metadata };
+}
+
+test('the share copy opens only with the link secret', async () => {
+  const keyfile = await hashKeyfile(new Blob([generateKeyfile()]));
+  const file = await encrypt('owner passphrase', keyfile);
+  const { secret } = createShareSecret();
+
+  const copy = await createShareCopy(file, { passphrase: 'owner passphrase', keyfile }, secret);
+  const { header } = await readContainerHeader(copy);
+  assert.equal(header.slots!.length, 1);
+
+  const { plaintext, metadata } = await decrypt(copy, secret);
+  assert.deepEqual(plaintext, PLAINTEXT);
+  assert.equal(metadata?.name, 'notes.txt');
+
+  await assert.rejects(decrypt(copy, 'owner passphrase', keyfile));
+  await assert.rejects(decrypt(copy, 'team passphrase'));
+  await assert.rejects(createShareCopy(file, { passphrase: 'owner passphrase' }, secret), /keyfile/);
+});
+
+test('share links keep the secret in the fragment', () => {
+  const { id, secret } = createShareSecret();
+  assert.equal(isValidShareId(id), true);
+  assert.notEqual(createShareSecret().secret, secret);
+
+  const link = formatShareLink('https://lockme.my/', id, secret);
+  assert.equal(link, `https://lockme.my/s/${id}#${secret}`);
+
+  const url = new URL(link);
+  assert.equal(url.pathname, `/s/${id}`);
+  assert.equal(parseShareFragment(url.hash), secret);
+
+  assert.equal(parseShareFragment(''), null);
+  assert.equal(parseShareFragment(`#${secret.slice(1)}`), null);
+  assert.equal(parseShareFragment(`#${secret.slice(1)}+`), null);
+  assert.equal(isValidShareId('../../etc'), false);
+});
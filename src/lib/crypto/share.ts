@@ -0,0 +1,123 @@
+/**
+ * Share Links
+ *
+ * A share link points at an uploaded copy of a `.lockme` file and carries
+ * the key to it in the URL fragment, which browsers never send to a server:
+ *
+ *   https://lockme.my/s/<id>#<secret>
+ *
+ * The uploaded copy holds a single passphrase slot for the random link
+ * secret; the owner's own slots are left out, so the stored ciphertext
+ * cannot be attacked through the owner's passphrase. Like other slot edits
+ * (see `rewrap.ts`), only the header is rewritten. The secret is 256
+ * random bits, so its slot uses the cheapest PBKDF2 setting.
+ */
+
+import { encodeContainerHeader } from './container';
+import { bytesToBase64 } from './encoding';
+import type { KdfOptions } from './kdf';
+import { readContainerHeader } from './rewrap';
+import { createPassphraseSlot, unlockDataKey, type UnlockCredentials } from './slots';
+
+/** Random bytes in a share ID */
+export const SHARE_ID_LENGTH = 16;
+
+/** Random bytes in a link secret */
+export const SHARE_SECRET_LENGTH = 32;
+
+/** KDF for the link secret's slot */
+export const SHARE_KDF: KdfOptions = { id: 'pbkdf2-sha256', iterations: 1000 };
+
+/**
+ * Identifier and key of a new share link
+ */
+export interface ShareSecret {
+  /** Public ID naming the upload; sent to the server */
+  id: string;
+
+  /** Key to the uploaded copy; only ever placed in the URL fragment */
+  secret: string;
+}
+
+/**
+ * Generates random bytes as unpadded Base64url, which needs no escaping in URLs
+ */
+function randomBase64Url(length: number): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Matches unpadded Base64url text for a given number of bytes
+ */
+function base64UrlPattern(length: number): RegExp {
+  return new RegExp(`^[A-Za-z0-9_-]{${Math.ceil((length * 4) / 3)}}$`);
+}
+
+/**
+ * Generates the ID and secret for a new share link
+ *
+ * @returns A random ID and link secret
+ */
+export function createShareSecret(): ShareSecret {
+  return { id: randomBase64Url(SHARE_ID_LENGTH), secret: randomBase64Url(SHARE_SECRET_LENGTH) };
+}
+
+/**
+ * Checks whether text has the shape of a share ID
+ *
+ * @param id - Text from a URL path
+ * @returns True if it could name a share
+ */
+export function isValidShareId(id: string): boolean {
+  return base64UrlPattern(SHARE_ID_LENGTH).test(id);
+}
+
+/**
+ * Builds a copy of a file that only the link secret opens
+ *
+ * @param file - The `.lockme` file
+ * @param credentials - Any credential that already opens the file
+ * @param secret - The link secret
+ * @returns The file with the link secret's slot as its only key slot
+ * @throws Error if the file has no key slots or the credentials do not open it
+ */
+export async function createShareCopy(file: Blob, credentials: UnlockCredentials, secret: string): Promise<Blob> {
+  const info = await readContainerHeader(file);
+  if (info.version < 4) {
+    throw new Error("This file uses an older format without key slots. Decrypt and re-encrypt it to share it by link.");
+  }
+
+  const dataKey = await unlockDataKey(info.header.slots!, credentials);
+  try {
+    const slot = await createPassphraseSlot(dataKey, secret, SHARE_KDF);
+    return new Blob([encodeContainerHeader({ ...info.header, slots: [slot] }, info.version), file.slice(info.headerEnd)], {
+      type: 'application/octet-stream',
+    });
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+/**
+ * Builds the link handed to recipients
+ *
+ * @param origin - Site origin, e.g. `https://lockme.my`
+ * @param id - The share ID
+ * @param secret - The link secret
+ * @returns The share link
+ */
+export function formatShareLink(origin: string, id: string, secret: string): string {
+  return `${origin.replace(/\/+$/, '')}/s/${id}#${secret}`;
+}
+
+/**
+ * Reads the link secret from a URL fragment
+ *
+ * @param hash - `location.hash`, with or without the leading `#`
+ * @returns The secret, or null if the fragment does not hold one
+ */
+export function parseShareFragment(hash: string): string | null {
+  const secret = hash.replace(/^#/, '').trim();
+  return base64UrlPattern(SHARE_SECRET_LENGTH).test(secret) ? secret : null;
+}
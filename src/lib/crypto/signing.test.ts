@@ -0,0 +1,103 @@
+/**
+ * Signature Tests
+ *
+ * Covers signing while encrypting, the check reported while decrypting,
+ * and a signature made with a key other than the one the header names.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  createDecryptStream,
+  createEncryptStream,
+  formatSigningPublicKey,
+  generateSigningIdentity,
+  parseContainer,
+  parseSigningPublicKey,
+  streamToBlob,
+  unlockSigningIdentity,
+  type KdfOptions,
+  type SignatureAlgorithm,
+  type SignatureCheck,
+  type SigningKey,
+} from './index';
+
+const FAST_KDF: KdfOptions = { id: 'pbkdf2-sha256', iterations: 1000 };
+const PASSPHRASE = 'shared passphrase';
+
+/** Returns deterministic test bytes of the given length */
+function sampleBytes(length: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => (i * 31) % 256);
+}
+
+/** Creates and unlocks a signing key */
+async function signingKey(algorithm: SignatureAlgorithm): Promise<SigningKey> {
+  const identity = await generateSigningIdentity(algorithm, 'signing passphrase', FAST_KDF);
+  assert.equal(await unlockSigningIdentity(identity, 'wrong'), null);
+  return (await unlockSigningIdentity(identity, 'signing passphrase'))!;
+}
+
+/** Encrypts with a signer and small segments */
+async function encrypt(data: Uint8Array, signer?: SigningKey): Promise<Uint8Array> {
+  const blob = await streamToBlob(
+    new Blob([data]).stream().pipeThrough(createEncryptStream(PASSPHRASE, { kdf: FAST_KDF, signer, chunkSize: 64 }))
+  );
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/** Decrypts and returns the plaintext with the reported signature check */
+async function decrypt(container: Uint8Array): Promise<{ plaintext: Uint8Array; check?: SignatureCheck }> {
+  let check: SignatureCheck | undefined;
+  const blob = await streamToBlob(
+    new Blob([container]).stream().pipeThrough(createDecryptStream(PASSPHRASE, { onSignature: c => { check = c; } }))
+  );
+  return { plaintext: new Uint8Array(await blob.arrayBuffer()), check };
+}
+
+for (const algorithm of ['ed25519', 'ecdsa-p256'] as const) {
+  test(`${algorithm} signatures are checked on decryption`, async () => {
+    const signer = await signingKey(algorithm);
+
+    for (const length of [0, 1, 63, 64, 200]) {
+      const data = sampleBytes(length);
+      const container = await encrypt(data, signer);
+      assert.equal(parseContainer(container).header.signer!.fingerprint, signer.fingerprint);
+
+      const { plaintext, check } = await decrypt(container);
+      assert.deepEqual(plaintext, data, `length ${length}`);
+      assert.equal(check?.valid, true, `length ${length}`);
+      assert.equal(check?.signer.fingerprint, signer.fingerprint);
+    }
+  });
+}
+
+test('unsigned files report no signature', async () => {
+  const container = await encrypt(sampleBytes(100));
+  assert.equal(parseContainer(container).header.signer, undefined);
+
+  const { plaintext, check } = await decrypt(container);
+  assert.deepEqual(plaintext, sampleBytes(100));
+  assert.equal(check, undefined);
+});
+
+test('a signature by another key than the named signer is invalid', async () => {
+  const claimed = await signingKey('ed25519');
+  const forger = await signingKey('ed25519');
+
+  // Someone holding the data key re-encrypts under the claimed signer's name
+  const container = await encrypt(sampleBytes(100), { ...claimed, privateKey: forger.privateKey });
+
+  const { plaintext, check } = await decrypt(container);
+  assert.deepEqual(plaintext, sampleBytes(100));
+  assert.equal(check?.valid, false);
+  assert.equal(check?.signer.fingerprint, claimed.fingerprint);
+});
+
+test('signing public keys round trip through their shared form', async () => {
+  const signer = await signingKey('ecdsa-p256');
+  const parsed = await parseSigningPublicKey(formatSigningPublicKey(signer));
+
+  assert.deepEqual(parsed, { algorithm: signer.algorithm, publicKey: signer.publicKey, fingerprint: signer.fingerprint });
+  await assert.rejects(parseSigningPublicKey('ed25519:AAAA'), /Invalid signing public key/);
+});
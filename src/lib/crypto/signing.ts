@@ -0,0 +1,314 @@
+/**
+ * Sender Signatures
+ *
+ * AES-GCM shows that a payload was sealed by someone holding the file's
+ * data key, which every recipient has. A signature shows who produced it:
+ * the header names the signer's public key (`header.signer`) and the
+ * plaintext ends with the signer's signature over
+ *
+ *   h(0) = SHA-256("lockme signature" | payload AAD)
+ *   h(i) = SHA-256(h(i-1) | block i | 0)     for every full 64 KiB block
+ *   digest = SHA-256(h(n) | last block | 1)
+ *
+ * where the blocks cover the plaintext before the signature (metadata
+ * record and content). Hashing block by block lets the stream transforms
+ * sign and verify without buffering the file, and the AAD ties the
+ * signature to this header. The signature itself is encrypted, so only
+ * readers of the file learn more than the signer's fingerprint.
+ *
+ * Signing keys are Ed25519 or ECDSA P-256 key pairs whose private half is
+ * stored wrapped under a passphrase, like recipient identities.
+ */
+
+import { base64ToBytes, bytesToBase64, concatBytes } from './encoding';
+import type { KdfOptions } from './kdf';
+import { unwrapWithPassphrase, wrapWithPassphrase, type WrappedSecret } from './keyWrap';
+import { keyFingerprint } from './recipients';
+
+/** Supported signature algorithms */
+export type SignatureAlgorithm = 'ed25519' | 'ecdsa-p256';
+
+/** Length of a signature in bytes (both algorithms produce 64) */
+export const SIGNATURE_LENGTH = 64;
+
+/** Plaintext bytes hashed per digest block */
+const DIGEST_BLOCK_SIZE = 64 * 1024;
+
+/** Domain separation prefix of the digest */
+const DIGEST_CONTEXT = new TextEncoder().encode('lockme signature');
+
+/** Raw public key length per algorithm */
+const PUBLIC_KEY_LENGTHS: Record<SignatureAlgorithm, number> = {
+  'ed25519': 32,
+  'ecdsa-p256': 65,
+};
+
+/**
+ * Signer named in a container header
+ */
+export interface SignerInfo {
+  /** Signature algorithm */
+  algorithm: SignatureAlgorithm;
+
+  /** Base64-encoded raw public key */
+  publicKey: string;
+
+  /** Short identifier of the public key, see `keyFingerprint` */
+  fingerprint: string;
+}
+
+/**
+ * A signing key pair as stored by its owner
+ */
+export interface SigningIdentity extends SignerInfo {
+  /** PKCS#8 private key, wrapped under the owner's passphrase */
+  wrappedPrivateKey: WrappedSecret;
+}
+
+/**
+ * A signing key unlocked for use
+ */
+export interface SigningKey extends SignerInfo {
+  /** The private key */
+  privateKey: CryptoKey;
+}
+
+/**
+ * Outcome of checking a file's signature
+ */
+export interface SignatureCheck {
+  /** The signer named in the header */
+  signer: SignerInfo;
+
+  /** Whether the signature matches the signer's key and the file contents */
+  valid: boolean;
+}
+
+/**
+ * Returns the WebCrypto parameters for an algorithm
+ */
+function algorithmParams(algorithm: SignatureAlgorithm): {
+  key: EcKeyImportParams | Algorithm;
+  sign: EcdsaParams | Algorithm;
+} {
+  return algorithm === 'ed25519'
+    ? { key: { name: 'Ed25519' }, sign: { name: 'Ed25519' } }
+    : { key: { name: 'ECDSA', namedCurve: 'P-256' }, sign: { name: 'ECDSA', hash: 'SHA-256' } };
+}
+
+/**
+ * Throws a clear error when the browser lacks an algorithm
+ */
+function algorithmUnsupported(algorithm: SignatureAlgorithm, error: unknown): never {
+  console.error("Signature operation failed:", error);
+  throw new Error(
+    algorithm === 'ed25519'
+      ? "This browser does not support Ed25519 keys. Please update it or use an ECDSA P-256 key."
+      : "This browser does not support ECDSA P-256 keys."
+  );
+}
+
+/**
+ * Generates a new signing key
+ *
+ * @param algorithm - Signature algorithm
+ * @param passphrase - Passphrase protecting the private key
+ * @param kdf - KDF choice and cost for wrapping the private key
+ * @returns The signing identity to store
+ */
+export async function generateSigningIdentity(
+  algorithm: SignatureAlgorithm,
+  passphrase: string,
+  kdf?: KdfOptions
+): Promise<SigningIdentity> {
+  let pair: CryptoKeyPair;
+  try {
+    pair = (await crypto.subtle.generateKey(algorithmParams(algorithm).key, true, ['sign', 'verify'])) as CryptoKeyPair;
+  } catch (error) {
+    algorithmUnsupported(algorithm, error);
+  }
+
+  const publicKey = bytesToBase64(new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey)));
+  const privateKey = new Uint8Array(await crypto.subtle.exportKey('pkcs8', pair.privateKey));
+
+  try {
+    return {
+      algorithm,
+      publicKey,
+      fingerprint: await keyFingerprint(publicKey),
+      wrappedPrivateKey: await wrapWithPassphrase(privateKey, passphrase, kdf),
+    };
+  } finally {
+    privateKey.fill(0);
+  }
+}
+
+/**
+ * Unlocks a signing key's private half
+ *
+ * @param identity - The stored signing identity
+ * @param passphrase - The passphrase protecting it
+ * @returns The unlocked key, or null if the passphrase is wrong
+ */
+export async function unlockSigningIdentity(identity: SigningIdentity, passphrase: string): Promise<SigningKey | null> {
+  const pkcs8 = await unwrapWithPassphrase(identity.wrappedPrivateKey, passphrase);
+  if (!pkcs8) return null;
+
+  try {
+    const privateKey = await crypto.subtle.importKey('pkcs8', pkcs8, algorithmParams(identity.algorithm).key, false, ['sign']);
+    return { algorithm: identity.algorithm, publicKey: identity.publicKey, fingerprint: identity.fingerprint, privateKey };
+  } catch (error) {
+    algorithmUnsupported(identity.algorithm, error);
+  } finally {
+    pkcs8.fill(0);
+  }
+}
+
+/**
+ * Formats a signer's public key for sharing, e.g. "ed25519:<base64>"
+ *
+ * @param signer - The signer
+ * @returns The shareable public key
+ */
+export function formatSigningPublicKey(signer: SignerInfo): string {
+  return `${signer.algorithm}:${signer.publicKey}`;
+}
+
+/**
+ * Checks that a public key has the raw length of its algorithm
+ */
+function isValidPublicKey(algorithm: unknown, publicKey: unknown): boolean {
+  if (typeof algorithm !== 'string' || !Object.hasOwn(PUBLIC_KEY_LENGTHS, algorithm) || typeof publicKey !== 'string') {
+    return false;
+  }
+  try {
+    return base64ToBytes(publicKey).length === PUBLIC_KEY_LENGTHS[algorithm as SignatureAlgorithm];
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parses a public key shared with `formatSigningPublicKey`
+ *
+ * @param text - The shared public key
+ * @returns The signer it names
+ * @throws Error if the text is not a valid signing public key
+ */
+export async function parseSigningPublicKey(text: string): Promise<SignerInfo> {
+  const [algorithm, publicKey] = text.trim().split(':');
+  if (!isValidPublicKey(algorithm, publicKey)) {
+    throw new Error("Invalid signing public key.");
+  }
+  return { algorithm: algorithm as SignatureAlgorithm, publicKey, fingerprint: await keyFingerprint(publicKey) };
+}
+
+/**
+ * Validates a signer read from untrusted input
+ *
+ * @param signer - The parsed value
+ * @throws Error if a field is missing or malformed
+ */
+export function assertValidSigner(signer: SignerInfo): void {
+  if (!signer || !isValidPublicKey(signer.algorithm, signer.publicKey) || typeof signer.fingerprint !== 'string') {
+    throw new Error("Corrupt file header: invalid signer.");
+  }
+}
+
+/**
+ * Returns the header entry naming a signing key
+ *
+ * @param key - The unlocked signing key
+ * @returns The signer without its private key
+ */
+export function signerInfo(key: SignerInfo): SignerInfo {
+  return { algorithm: key.algorithm, publicKey: key.publicKey, fingerprint: key.fingerprint };
+}
+
+/**
+ * Incremental digest of the signed plaintext
+ */
+export class ContentDigest {
+  private block = new Uint8Array(DIGEST_BLOCK_SIZE);
+  private filled = 0;
+
+  private constructor(private state: Uint8Array) {}
+
+  /**
+   * Starts a digest bound to a container's payload AAD
+   *
+   * @param aad - The payload's additional authenticated data
+   */
+  static async create(aad: Uint8Array): Promise<ContentDigest> {
+    return new ContentDigest(await sha256(concatBytes(DIGEST_CONTEXT, aad)));
+  }
+
+  /** Feeds the next plaintext bytes */
+  async update(bytes: Uint8Array): Promise<void> {
+    let offset = 0;
+    while (offset < bytes.length) {
+      const n = Math.min(DIGEST_BLOCK_SIZE - this.filled, bytes.length - offset);
+      this.block.set(bytes.subarray(offset, offset + n), this.filled);
+      this.filled += n;
+      offset += n;
+
+      if (this.filled === DIGEST_BLOCK_SIZE) {
+        this.state = await sha256(concatBytes(this.state, this.block, new Uint8Array([0])));
+        this.filled = 0;
+      }
+    }
+  }
+
+  /** Returns the digest of everything fed so far */
+  finish(): Promise<Uint8Array> {
+    return sha256(concatBytes(this.state, this.block.subarray(0, this.filled), new Uint8Array([1])));
+  }
+}
+
+/**
+ * Hashes bytes with SHA-256
+ */
+async function sha256(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+/**
+ * Signs a content digest
+ *
+ * @param key - The unlocked signing key
+ * @param digest - The result of `ContentDigest.finish`
+ * @returns The raw signature
+ */
+export async function signDigest(key: SigningKey, digest: Uint8Array): Promise<Uint8Array> {
+  const signature = await crypto.subtle.sign(algorithmParams(key.algorithm).sign, key.privateKey, digest);
+  return new Uint8Array(signature);
+}
+
+/**
+ * Verifies a signature over a content digest
+ *
+ * The fingerprint in the header is checked against the public key too, so
+ * a signer cannot pass itself off as another key's fingerprint.
+ *
+ * @param signer - The signer named in the header
+ * @param digest - The result of `ContentDigest.finish`
+ * @param signature - The raw signature
+ * @returns True if the signature is valid
+ */
+export async function verifySignature(signer: SignerInfo, digest: Uint8Array, signature: Uint8Array): Promise<boolean> {
+  if (signer.fingerprint !== (await keyFingerprint(signer.publicKey))) {
+    return false;
+  }
+
+  const params = algorithmParams(signer.algorithm);
+  let publicKey: CryptoKey;
+  try {
+    publicKey = await crypto.subtle.importKey('raw', base64ToBytes(signer.publicKey), params.key, false, ['verify']);
+  } catch (error) {
+    if ((error as Error).name === 'NotSupportedError') {
+      algorithmUnsupported(signer.algorithm, error);
+    }
+    return false;
+  }
+  return crypto.subtle.verify(params.sign, publicKey, signature, digest);
+}
@@ -0,0 +1,98 @@
+/**
+ * Key Slot Tests
+ *
+ * Covers files that open with several passphrases, keyfiles as a second
+ * factor, and adding or removing slots without touching the encrypted
+ * payload.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  addPassphraseSlot,
+  createDecryptStream,
+  createEncryptStream,
+  generateKeyfile,
+  hashKeyfile,
+  parseContainer,
+  readContainerHeader,
+  removeKeySlot,
+  streamToBlob,
+  type KdfOptions,
+} from './index';
+
+const FAST_KDF: KdfOptions = { id: 'pbkdf2-sha256', iterations: 1000 };
+const PLAINTEXT = new TextEncoder().encode('team secrets');
+
+/** Encrypts the test plaintext for the given passphrases and optional keyfile */
+async function encrypt(passphrase: string, passphrases: string[] = [], keyfile?: Uint8Array): Promise<Blob> {
+  return streamToBlob(
+    new Blob([PLAINTEXT]).stream().pipeThrough(createEncryptStream(passphrase, { kdf: FAST_KDF, passphrases, keyfile }))
+  );
+}
+
+/** Decrypts with a passphrase and optional keyfile */
+async function decrypt(file: Blob, passphrase: string, keyfile?: Uint8Array): Promise<Uint8Array> {
+  const blob = await streamToBlob(file.stream().pipeThrough(createDecryptStream(passphrase, { keyfile })));
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/** Returns the encrypted payload of a container */
+async function payloadOf(file: Blob): Promise<Uint8Array> {
+  return parseContainer(new Uint8Array(await file.arrayBuffer())).payload;
+}
+
+test('every passphrase slot opens the file', async () => {
+  const file = await encrypt('team passphrase', ['alice personal', 'bob personal']);
+
+  const { header } = await readContainerHeader(file);
+  assert.equal(header.slots!.length, 3);
+
+  for (const passphrase of ['team passphrase', 'alice personal', 'bob personal']) {
+    assert.deepEqual(await decrypt(file, passphrase), PLAINTEXT);
+  }
+  await assert.rejects(decrypt(file, 'wrong'), /Incorrect passphrase/);
+});
+
+test('a passphrase slot can be added without re-encrypting', async () => {
+  const file = await encrypt('team passphrase');
+
+  await assert.rejects(
+    addPassphraseSlot(file, { passphrase: 'wrong' }, 'carol personal', FAST_KDF),
+    /Incorrect passphrase/
+  );
+
+  const updated = await addPassphraseSlot(file, { passphrase: 'team passphrase' }, 'carol personal', FAST_KDF);
+
+  assert.deepEqual(await payloadOf(updated), await payloadOf(file));
+  assert.deepEqual(await decrypt(updated, 'carol personal'), PLAINTEXT);
+  assert.deepEqual(await decrypt(updated, 'team passphrase'), PLAINTEXT);
+});
+
+test('a key slot can be removed without re-encrypting', async () => {
+  const file = await encrypt('team passphrase', ['alice personal']);
+
+  const updated = await removeKeySlot(file, 1, { passphrase: 'team passphrase' });
+
+  assert.deepEqual(await payloadOf(updated), await payloadOf(file));
+  assert.deepEqual(await decrypt(updated, 'team passphrase'), PLAINTEXT);
+  await assert.rejects(decrypt(updated, 'alice personal'), /Incorrect passphrase/);
+
+  await assert.rejects(removeKeySlot(updated, 0, { passphrase: 'team passphrase' }), /last key slot/);
+  await assert.rejects(removeKeySlot(file, 0, { passphrase: 'wrong' }), /Incorrect passphrase/);
+});
+
+test('keyfile slots need both the passphrase and the keyfile', async () => {
+  const keyfile = await hashKeyfile(new Blob([generateKeyfile()]));
+  const otherKeyfile = await hashKeyfile(new Blob(['not the keyfile']));
+  const file = await encrypt('high value', [], keyfile);
+
+  const { header } = await readContainerHeader(file);
+  assert.equal(header.slots![0].type === 'passphrase' && header.slots![0].keyfile, true);
+
+  assert.deepEqual(await decrypt(file, 'high value', keyfile), PLAINTEXT);
+  await assert.rejects(decrypt(file, 'high value'), /requires a keyfile/);
+  await assert.rejects(decrypt(file, 'high value', otherKeyfile), /Incorrect passphrase or keyfile/);
+  await assert.rejects(decrypt(file, 'wrong', keyfile), /Incorrect passphrase or keyfile/);
+});
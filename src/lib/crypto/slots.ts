@@ -0,0 +1,308 @@
+/**
+ * Key Slots
+ *
+ * From container version 4 on, the payload is encrypted under a random
+ * data key, and the header carries one or more slots that each wrap that
+ * key under a different credential: a passphrase (optionally combined with
+ * a keyfile), a recipient's public key or a passkey. Any one slot is
+ * enough to decrypt, and slots can be added or removed without touching
+ * the payload.
+ */
+
+import type { KdfOptions } from './kdf';
+import { combineWithKeyfile } from './keyfile';
+import { assertValidWrappedSecret, unwrapWithPassphrase, wrapWithPassphrase, type WrappedSecret } from './keyWrap';
+import { createPrfSlot, openPrfSlot, type PasskeyEvaluation, type PrfSlot } from './prf';
+import {
+  createRecipientSlot,
+  createSealedSlot,
+  openRecipientSlot,
+  openSealedSlot,
+  unlockIdentity,
+  type RecipientIdentity,
+  type RecipientSlot,
+  type SealedSlot,
+} from './recipients';
+
+/** Data key length in bytes (AES-256) */
+export const DATA_KEY_LENGTH = 32;
+
+/** Upper bound for slots in one header */
+export const MAX_KEY_SLOTS = 32;
+
+/**
+ * Slot wrapping the data key under a passphrase
+ */
+export interface PassphraseSlot extends WrappedSecret {
+  /** Slot type */
+  type: 'passphrase';
+
+  /** Set when the slot also needs a keyfile */
+  keyfile?: true;
+}
+
+/** Any header key slot */
+export type KeySlot = PassphraseSlot | RecipientSlot | SealedSlot | PrfSlot;
+
+/**
+ * Credentials a new file is encrypted for
+ */
+export interface SlotCredentials {
+  /** Passphrases that can open the file, one slot each */
+  passphrases?: string[];
+
+  /** KDF choice and cost for passphrase slots */
+  kdf?: KdfOptions;
+
+  /** Keyfile digest every passphrase slot additionally requires */
+  keyfile?: Uint8Array;
+
+  /** Base64-encoded X25519 public keys that can open the file */
+  recipients?: string[];
+
+  /** PRF evaluation of a passkey that can open the file */
+  passkey?: PasskeyEvaluation;
+
+  /**
+   * Identities embedded as sealed slots, so their passphrase opens the file
+   * without being entered now (the passkey fallback)
+   */
+  fallbacks?: RecipientIdentity[];
+}
+
+/**
+ * Credentials tried when opening a file
+ */
+export interface UnlockCredentials {
+  /** The entered passphrase; also unlocks the user's identities */
+  passphrase?: string;
+
+  /** The user's stored identities, for recipient slots */
+  identities?: RecipientIdentity[];
+
+  /** Digest of the selected keyfile, for slots that need one */
+  keyfile?: Uint8Array;
+
+  /** PRF evaluation of one of the file's passkey slots */
+  passkey?: PasskeyEvaluation;
+}
+
+/**
+ * Wraps a data key under a passphrase, and a keyfile if one is given
+ *
+ * @param dataKey - The file's data key
+ * @param passphrase - The passphrase
+ * @param kdf - KDF choice and cost
+ * @param keyfile - Optional keyfile digest
+ * @returns The passphrase slot
+ */
+export async function createPassphraseSlot(
+  dataKey: Uint8Array,
+  passphrase: string,
+  kdf?: KdfOptions,
+  keyfile?: Uint8Array
+): Promise<PassphraseSlot> {
+  if (!keyfile) {
+    return { type: 'passphrase', ...(await wrapWithPassphrase(dataKey, passphrase, kdf)) };
+  }
+
+  const secret = combineWithKeyfile(passphrase, keyfile);
+  try {
+    return { type: 'passphrase', keyfile: true, ...(await wrapWithPassphrase(dataKey, secret, kdf)) };
+  } finally {
+    secret.fill(0);
+  }
+}
+
+/**
+ * Tries to open a passphrase slot
+ *
+ * @param slot - The passphrase slot
+ * @param passphrase - The entered passphrase
+ * @param keyfile - Keyfile digest, used when the slot needs one
+ * @returns The data key, or null if the passphrase (or keyfile) is wrong
+ */
+export async function openPassphraseSlot(
+  slot: PassphraseSlot,
+  passphrase: string,
+  keyfile: Uint8Array
+): Promise<Uint8Array | null> {
+  if (!slot.keyfile) {
+    return unwrapWithPassphrase(slot, passphrase);
+  }
+
+  const secret = combineWithKeyfile(passphrase, keyfile);
+  try {
+    return await unwrapWithPassphrase(slot, secret);
+  } finally {
+    secret.fill(0);
+  }
+}
+
+/**
+ * Generates a fresh random data key
+ */
+export function generateDataKey(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(DATA_KEY_LENGTH));
+}
+
+/**
+ * Imports a data key as the payload's AES-GCM key
+ *
+ * @param dataKey - The raw data key
+ * @returns A non-extractable AES-GCM key
+ */
+export function importDataKey(dataKey: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', dataKey, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Wraps a data key for every given credential
+ *
+ * @param dataKey - The file's data key
+ * @param credentials - Passphrases and recipient public keys
+ * @returns One slot per credential
+ * @throws Error if no credential was given
+ */
+export async function createKeySlots(dataKey: Uint8Array, credentials: SlotCredentials): Promise<KeySlot[]> {
+  const slots: KeySlot[] = [];
+
+  for (const passphrase of credentials.passphrases ?? []) {
+    slots.push(await createPassphraseSlot(dataKey, passphrase, credentials.kdf, credentials.keyfile));
+  }
+  for (const publicKey of credentials.recipients ?? []) {
+    slots.push(await createRecipientSlot(dataKey, publicKey));
+  }
+  if (credentials.passkey) {
+    slots.push(await createPrfSlot(dataKey, credentials.passkey));
+  }
+  for (const identity of credentials.fallbacks ?? []) {
+    slots.push(await createSealedSlot(dataKey, identity));
+  }
+
+  if (slots.length === 0) {
+    throw new Error("A passphrase, passkey or at least one recipient is required.");
+  }
+  if (slots.length > MAX_KEY_SLOTS) {
+    throw new Error(`A file can have at most ${MAX_KEY_SLOTS} key slots.`);
+  }
+  return slots;
+}
+
+/**
+ * Recovers the data key from whichever slot the credentials open
+ *
+ * A passkey evaluation is tried first, then recipient slots addressed to
+ * one of the user's identities, then every passphrase and sealed slot.
+ * Slots that need a keyfile are skipped when none was given.
+ *
+ * @param slots - The header's key slots
+ * @param credentials - Entered passphrase, the user's identities, keyfile and passkey
+ * @returns The data key
+ * @throws Error if no slot can be opened
+ */
+export async function unlockDataKey(slots: KeySlot[], credentials: UnlockCredentials): Promise<Uint8Array> {
+  const { passphrase, identities = [], keyfile, passkey } = credentials;
+  const recipientSlots = slots.filter((slot): slot is RecipientSlot => slot.type === 'x25519');
+  const passphraseSlots = slots.filter((slot): slot is PassphraseSlot => slot.type === 'passphrase');
+  const sealedSlots = slots.filter((slot): slot is SealedSlot => slot.type === 'sealed');
+  const prfSlots = slots.filter((slot): slot is PrfSlot => slot.type === 'prf');
+
+  if (passkey) {
+    for (const slot of prfSlots) {
+      const dataKey = await openPrfSlot(slot, passkey);
+      if (dataKey) return dataKey;
+    }
+  }
+
+  if (passphrase) {
+    for (const identity of identities) {
+      const addressed = recipientSlots.filter(slot => slot.recipient === identity.fingerprint);
+      if (addressed.length === 0) continue;
+
+      const privateKey = await unlockIdentity(identity, passphrase);
+      if (!privateKey) continue;
+
+      for (const slot of addressed) {
+        const dataKey = await openRecipientSlot(slot, identity, privateKey);
+        if (dataKey) return dataKey;
+      }
+    }
+
+    for (const slot of passphraseSlots) {
+      if (slot.keyfile && !keyfile) continue;
+      const dataKey = await openPassphraseSlot(slot, passphrase, keyfile!);
+      if (dataKey) return dataKey;
+    }
+
+    for (const slot of sealedSlots) {
+      const dataKey = await openSealedSlot(slot, passphrase);
+      if (dataKey) return dataKey;
+    }
+  }
+
+  const isRecipient = recipientSlots.some(slot => identities.some(id => id.fingerprint === slot.recipient));
+  const opensWithPassphrase = passphraseSlots.length > 0 || sealedSlots.length > 0;
+  if (passkey && prfSlots.length > 0) {
+    throw new Error("This passkey cannot unlock the file.");
+  }
+  if (prfSlots.length > 0 && (!passphrase || !opensWithPassphrase)) {
+    throw new Error(
+      opensWithPassphrase
+        ? "This file is locked with a passkey. Unlock it with your passkey or its fallback passphrase."
+        : "This file is locked with a passkey. Unlock it with your passkey."
+    );
+  }
+  if (!opensWithPassphrase && !isRecipient) {
+    throw new Error("This file was encrypted for other recipients. None of your keys can open it.");
+  }
+  if (sealedSlots.length === 0 && passphraseSlots.length > 0 && passphraseSlots.every(slot => slot.keyfile)) {
+    throw new Error(
+      keyfile
+        ? "Incorrect passphrase or keyfile, or corrupted file."
+        : "This file requires a keyfile. Select the keyfile it was encrypted with."
+    );
+  }
+  throw new Error("Incorrect passphrase or corrupted file.");
+}
+
+/**
+ * Validates the slots of a parsed header
+ *
+ * @param slots - The parsed slot list
+ * @throws Error if the list is empty, too long or holds a malformed slot
+ */
+export function assertValidSlots(slots: KeySlot[]): void {
+  if (!Array.isArray(slots) || slots.length === 0 || slots.length > MAX_KEY_SLOTS) {
+    throw new Error("Corrupt file header: invalid key slots.");
+  }
+
+  for (const slot of slots) {
+    if (slot?.type === 'passphrase') {
+      if (slot.keyfile !== undefined && slot.keyfile !== true) {
+        throw new Error("Corrupt file header: invalid key slots.");
+      }
+      assertValidWrappedSecret(slot);
+    } else if (slot?.type === 'prf') {
+      if (
+        typeof slot.credential !== 'string' ||
+        typeof slot.salt !== 'string' ||
+        typeof slot.iv !== 'string' ||
+        typeof slot.ciphertext !== 'string'
+      ) {
+        throw new Error("Corrupt file header: invalid key slots.");
+      }
+    } else if (
+      (slot?.type !== 'x25519' && slot?.type !== 'sealed') ||
+      (slot.type === 'sealed' && typeof slot.publicKey !== 'string') ||
+      typeof slot.recipient !== 'string' ||
+      typeof slot.ephemeralKey !== 'string' ||
+      typeof slot.iv !== 'string' ||
+      typeof slot.ciphertext !== 'string'
+    ) {
+      throw new Error("Corrupt file header: invalid key slots.");
+    } else if (slot.type === 'sealed') {
+      assertValidWrappedSecret(slot.wrappedPrivateKey);
+    }
+  }
+}
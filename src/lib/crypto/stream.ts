@@ -0,0 +1,701 @@
+/**
+ * Streaming Encryption
+ *
+ * Chunked, per-segment authenticated encryption for container version 2
+ * and later, following the STREAM construction (Hoang, Reyhanitabar, Rogaway, Vizár):
+ *
+ * - The plaintext is split into `chunkSize` segments; only the last one may
+ *   be shorter (or empty).
+ * - Each segment is sealed with AES-GCM under the nonce
+ *   `noncePrefix(7) | counter(4, big-endian) | lastFlag(1)`.
+ * - The container header (see `payloadAad`) is the additional data of
+ *   every segment.
+ *
+ * Reordering, dropping or duplicating segments changes the counter and
+ * fails authentication. Cutting the file at a segment boundary is caught
+ * because the new last segment was sealed with `lastFlag = 0`.
+ *
+ * Signed files (v5+) append the signature to the plaintext before it is
+ * split into segments; decryption holds back the last bytes until the end
+ * of input to check them (see `signing.ts`). Compressed files (v6+) pass
+ * the content through a compressor before the metadata record is
+ * prepended, and through a decompressor after it is split off. The
+ * decompressed content may not outgrow the size the metadata records.
+ *
+ * The transforms never hold more than a couple of segments in memory, so
+ * files can be processed straight from `File.stream()`.
+ */
+
+import { isAlreadyCompressed, type CompressionId } from './compression';
+import { base64ToBytes, bytesToBase64 } from './encoding';
+import { deriveKey, type KdfOptions } from './kdf';
+import {
+  createKeySlots,
+  generateDataKey,
+  importDataKey,
+  unlockDataKey,
+  type SlotCredentials,
+  type UnlockCredentials,
+} from './slots';
+import {
+  ContentDigest,
+  SIGNATURE_LENGTH,
+  signDigest,
+  signerInfo,
+  verifySignature,
+  type SignatureCheck,
+  type SigningKey,
+} from './signing';
+import {
+  decodeMetadataRecord,
+  encodeMetadataRecord,
+  metadataRecordLength,
+  type FileMetadata,
+} from './metadata';
+import {
+  CONTAINER_VERSION,
+  decryptSingleShot,
+  encodeContainerHeader,
+  isContainer,
+  parseContainer,
+  payloadAad,
+  PREFIX_LENGTH,
+  readContainerPrefix,
+  type ContainerHeader,
+} from './container';
+
+/** Default plaintext bytes per segment */
+export const STREAM_CHUNK_SIZE = 64 * 1024;
+
+/** Random nonce prefix length in bytes */
+const NONCE_PREFIX_LENGTH = 7;
+
+/** AES-GCM authentication tag length in bytes */
+const TAG_LENGTH = 16;
+
+/** Largest segment counter representable in the nonce */
+const MAX_COUNTER = 0xffffffff;
+
+/** Most a compressed file may expand to, whatever size its metadata records (10 GiB) */
+const MAX_DECOMPRESSED_SIZE = 10 * 1024 * 1024 * 1024;
+
+/** Error for compressed content that expands past its limit */
+const DECOMPRESSED_SIZE_ERROR = "Corrupt compressed data: it expands past the size recorded for the file.";
+
+/**
+ * FIFO byte buffer that avoids re-copying everything on each push
+ */
+export class ByteQueue {
+  private chunks: Uint8Array[] = [];
+  length = 0;
+
+  push(bytes: Uint8Array): void {
+    if (bytes.length === 0) return;
+    this.chunks.push(bytes);
+    this.length += bytes.length;
+  }
+
+  /** Returns the first `n` bytes without consuming them */
+  peek(n: number): Uint8Array {
+    const taken = this.take(n);
+    this.chunks.unshift(taken);
+    this.length += taken.length;
+    return taken;
+  }
+
+  /** Removes and returns the first `n` bytes */
+  take(n: number): Uint8Array {
+    const result = new Uint8Array(Math.min(n, this.length));
+    let offset = 0;
+
+    while (offset < result.length) {
+      const head = this.chunks[0];
+      const needed = result.length - offset;
+
+      if (head.length <= needed) {
+        result.set(head, offset);
+        offset += head.length;
+        this.chunks.shift();
+      } else {
+        result.set(head.subarray(0, needed), offset);
+        this.chunks[0] = head.subarray(needed);
+        offset += needed;
+      }
+    }
+
+    this.length -= result.length;
+    return result;
+  }
+}
+
+/**
+ * A transform fed chunk by chunk whose output goes to another stream
+ */
+export interface AttachedTransform {
+  /** Feeds the next chunk */
+  write: (chunk: Uint8Array) => Promise<void>;
+
+  /** Ends the input and waits for the remaining output */
+  close: () => Promise<void>;
+}
+
+/**
+ * Feeds chunks into a transform and forwards its output to a controller
+ *
+ * Lets a transform hand part of its work to another one that is only
+ * chosen after some input was read (e.g. from the header).
+ *
+ * @param transform - The inner transform
+ * @param controller - Controller of the outer transform receiving the output
+ * @returns Functions to write to and close the inner transform
+ */
+export function attachTransform(
+  transform: ReadableWritablePair<Uint8Array, Uint8Array>,
+  controller: TransformStreamDefaultController<Uint8Array>
+): AttachedTransform {
+  const writer = transform.writable.getWriter();
+  const drained = transform.readable.pipeTo(new WritableStream({
+    async write(chunk) {
+      await outputWanted(controller);
+      controller.enqueue(chunk);
+    },
+  }));
+  // Errors surface through the writer; this only silences the duplicate
+  drained.catch(() => {});
+
+  /** Runs a writer call, preferring the inner transform's own error over a closed-stream one */
+  const guard = async (call: () => Promise<void>) => {
+    try {
+      await call();
+    } catch (error) {
+      await drained;
+      throw error;
+    }
+  };
+
+  return {
+    write: chunk => guard(() => writer.write(chunk)),
+    close: async () => {
+      await guard(() => writer.close());
+      await drained;
+    },
+  };
+}
+
+/**
+ * Waits until the reader of a transform has taken its queued output
+ *
+ * The inner transform of `attachTransform` can produce output faster than
+ * it is read (a decompressor most of all), so its output is held back
+ * instead of piling up in the outer queue. A TransformStream's readable
+ * side has a high-water mark of 0, so a negative desired size means output
+ * is still waiting; once the stream is closed or errored, enqueueing
+ * throws and ends the wait.
+ *
+ * @param controller - Controller of the outer transform
+ */
+async function outputWanted(controller: TransformStreamDefaultController<Uint8Array>): Promise<void> {
+  while ((controller.desiredSize ?? 0) < 0) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+}
+
+/**
+ * Builds the 12-byte AES-GCM nonce of one segment
+ *
+ * @param prefix - The random per-file nonce prefix
+ * @param counter - Zero-based segment index
+ * @param last - Whether this is the final segment
+ * @returns The segment nonce
+ */
+function segmentNonce(prefix: Uint8Array, counter: number, last: boolean): Uint8Array {
+  if (counter > MAX_COUNTER) {
+    throw new Error("File is too large for the stream format.");
+  }
+
+  const nonce = new Uint8Array(NONCE_PREFIX_LENGTH + 5);
+  nonce.set(prefix, 0);
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_LENGTH, counter);
+  nonce[NONCE_PREFIX_LENGTH + 4] = last ? 1 : 0;
+  return nonce;
+}
+
+/**
+ * Options of `createEncryptStream` besides the credentials
+ */
+interface EncryptOptions {
+  /** Key that signs the plaintext */
+  signer?: SigningKey;
+
+  /** Original file attributes stored in the metadata record */
+  metadata?: FileMetadata;
+
+  /** Compression for the content; skipped for already compressed files */
+  compression?: CompressionId;
+
+  /** Segment size override */
+  chunkSize?: number;
+}
+
+/**
+ * Creates a transform that encrypts a plaintext byte stream into a container
+ *
+ * The container header is emitted first, followed by sealed segments as
+ * soon as enough plaintext has arrived. The first plaintext bytes are the
+ * encrypted metadata record. The payload key is random and wrapped in a
+ * header slot for each passphrase, recipient and passkey. With a signer,
+ * the signature follows the last plaintext byte. With compression, the
+ * content is compressed first, unless the metadata names a type that is
+ * already compressed.
+ *
+ * @param passphrase - The passphrase that opens the file, or null when only
+ *   other credentials should
+ * @param options - Further credentials (see `SlotCredentials`), the
+ *   signing key, original file metadata, compression and segment size
+ *   override
+ * @returns A TransformStream from plaintext to container bytes
+ */
+export function createEncryptStream(
+  passphrase: string | null,
+  options: SlotCredentials & EncryptOptions = {}
+): TransformStream<Uint8Array, Uint8Array> {
+  const compression = options.compression && !isAlreadyCompressed(options.metadata) ? options.compression : undefined;
+  const seal = createSealStream(passphrase, { ...options, compression });
+  if (!compression) return seal;
+
+  const compressor = new CompressionStream(compression);
+  return { writable: compressor.writable, readable: compressor.readable.pipeThrough(seal) };
+}
+
+/**
+ * Creates the transform that seals (possibly compressed) content into a container
+ */
+function createSealStream(
+  passphrase: string | null,
+  options: SlotCredentials & EncryptOptions
+): TransformStream<Uint8Array, Uint8Array> {
+  const chunkSize = options.chunkSize ?? STREAM_CHUNK_SIZE;
+  const noncePrefix = crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_LENGTH));
+  const queue = new ByteQueue();
+  let key: CryptoKey;
+  let aad: Uint8Array;
+  let digest: ContentDigest | null = null;
+  let counter = 0;
+
+  const seal = async (plaintext: Uint8Array, last: boolean) => {
+    const sealed = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: segmentNonce(noncePrefix, counter++, last), additionalData: aad },
+      key,
+      plaintext
+    );
+    return new Uint8Array(sealed);
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async start(controller) {
+      const dataKey = generateDataKey();
+      try {
+        const header: ContainerHeader = {
+          cipher: 'aes-256-gcm',
+          stream: { chunkSize, noncePrefix: bytesToBase64(noncePrefix) },
+          ...(options.signer && { signer: signerInfo(options.signer) }),
+          ...(options.compression && { compression: options.compression }),
+          slots: await createKeySlots(dataKey, {
+            ...options,
+            passphrases: [...(passphrase !== null ? [passphrase] : []), ...(options.passphrases ?? [])],
+          }),
+        };
+        const headerBytes = encodeContainerHeader(header);
+        aad = payloadAad(CONTAINER_VERSION, header, headerBytes);
+        key = await importDataKey(dataKey);
+        controller.enqueue(headerBytes);
+      } finally {
+        dataKey.fill(0);
+      }
+      if (options.signer) {
+        digest = await ContentDigest.create(aad);
+      }
+
+      const record = encodeMetadataRecord(options.metadata);
+      await digest?.update(record);
+      queue.push(record);
+    },
+    async transform(chunk, controller) {
+      await digest?.update(chunk);
+      queue.push(chunk);
+      // A full segment is only sealed as non-final once more plaintext follows it
+      while (queue.length > chunkSize) {
+        controller.enqueue(await seal(queue.take(chunkSize), false));
+      }
+    },
+    async flush(controller) {
+      if (digest) {
+        queue.push(await signDigest(options.signer!, await digest.finish()));
+      }
+      while (queue.length > chunkSize) {
+        controller.enqueue(await seal(queue.take(chunkSize), false));
+      }
+      controller.enqueue(await seal(queue.take(queue.length), true));
+    },
+  });
+}
+
+/**
+ * Creates a transform that decrypts any `.lockme` file
+ *
+ * Version 2+ containers are decrypted segment by segment; from version 3
+ * the leading metadata record is stripped from the output and reported
+ * through `onMetadata`. Signed v5+ files have their signature checked at
+ * the end of input and the outcome reported through `onSignature`; an
+ * invalid signature does not fail decryption, since the payload itself
+ * authenticated. Compressed v6+ content is decompressed on the way out.
+ * Version 1 and legacy headerless files were encrypted in one piece and
+ * are buffered until the end of input.
+ *
+ * @param passphrase - The passphrase to derive the key from, or to unlock identities with
+ * @param options - Further credentials for v4+ key slots (see
+ *   `UnlockCredentials`), and callbacks receiving the original file
+ *   metadata and the signature check
+ * @returns A TransformStream from container bytes to plaintext
+ */
+export function createDecryptStream(
+  passphrase: string,
+  options: Omit<UnlockCredentials, 'passphrase'> & {
+    onMetadata?: (metadata: FileMetadata) => void;
+    onSignature?: (check: SignatureCheck) => void;
+  } = {}
+): TransformStream<Uint8Array, Uint8Array> {
+  const queue = new ByteQueue();
+  const metadataQueue = new ByteQueue();
+  const signatureQueue = new ByteQueue();
+  let digest: ContentDigest | null = null;
+  let signer: SignatureCheck['signer'] | undefined;
+  let compression: CompressionId | undefined;
+  let decompressor: AttachedTransform | null = null;
+  let recordedSize: number | undefined;
+  let state: 'prefix' | 'segments' | 'buffered' = 'prefix';
+  let metadataPending = false;
+  let key: CryptoKey;
+  let aad: Uint8Array;
+  let noncePrefix: Uint8Array;
+  let sealedSize = 0;
+  let counter = 0;
+
+  const open = async (sealed: Uint8Array, last: boolean) => {
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: segmentNonce(noncePrefix, counter, last), additionalData: aad },
+        key,
+        sealed
+      );
+      counter++;
+      return new Uint8Array(plaintext);
+    } catch {
+      throw new Error(
+        counter === 0
+          ? "Incorrect passphrase or corrupted file."
+          : "File is corrupted or truncated."
+      );
+    }
+  };
+
+  /** Returns the decompressor of a compressed file, created on first use */
+  const decompressorFor = (controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (decompressor) return decompressor;
+
+    // A sender can compress gigabytes of zeros into a few bytes; output past
+    // the recorded size (or the overall cap) is rejected as it appears
+    const limit = Math.min(recordedSize ?? MAX_DECOMPRESSED_SIZE, MAX_DECOMPRESSED_SIZE);
+    let produced = 0;
+    const inflate = new DecompressionStream(compression!);
+    const capped = inflate.readable.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, inner) {
+        produced += chunk.length;
+        if (produced > limit) {
+          throw new Error(DECOMPRESSED_SIZE_ERROR);
+        }
+        inner.enqueue(chunk);
+      },
+    }));
+    decompressor = attachTransform({ writable: inflate.writable, readable: capped }, controller);
+    return decompressor;
+  };
+
+  /** Reports a decompression failure, keeping the size error apart from malformed data */
+  const decompressionError = (error: unknown) =>
+    new Error((error as Error)?.message === DECOMPRESSED_SIZE_ERROR ? DECOMPRESSED_SIZE_ERROR : "Corrupt compressed data.");
+
+  /** Outputs content, decompressing it if the file is compressed */
+  const deliver = async (content: Uint8Array, controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (!compression) {
+      controller.enqueue(content);
+      return;
+    }
+    try {
+      await decompressorFor(controller).write(content);
+    } catch (error) {
+      throw decompressionError(error);
+    }
+  };
+
+  /** Forwards plaintext, first splitting off the metadata record if one is expected */
+  const emit = async (plaintext: Uint8Array, controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (!metadataPending) {
+      await deliver(plaintext, controller);
+      return;
+    }
+
+    metadataQueue.push(plaintext);
+    if (metadataQueue.length < 4) return;
+
+    const recordLength = metadataRecordLength(metadataQueue.peek(4));
+    if (metadataQueue.length < recordLength) return;
+
+    const metadata = decodeMetadataRecord(metadataQueue.take(recordLength));
+    metadataPending = false;
+    recordedSize = metadata.size;
+    options.onMetadata?.(metadata);
+    if (metadataQueue.length > 0) {
+      await deliver(metadataQueue.take(metadataQueue.length), controller);
+    }
+  };
+
+  /** Hashes and forwards plaintext, holding back what may be the signature */
+  const release = async (plaintext: Uint8Array, controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (!digest) {
+      await emit(plaintext, controller);
+      return;
+    }
+
+    signatureQueue.push(plaintext);
+    if (signatureQueue.length <= SIGNATURE_LENGTH) return;
+
+    const signed = signatureQueue.take(signatureQueue.length - SIGNATURE_LENGTH);
+    await digest.update(signed);
+    await emit(signed, controller);
+  };
+
+  /** Consumes the header once enough bytes are queued; returns false if more are needed */
+  const readHeader = async (): Promise<boolean> => {
+    if (queue.length < PREFIX_LENGTH) return false;
+
+    const prefix = queue.peek(PREFIX_LENGTH);
+    if (!isContainer(prefix)) {
+      state = 'buffered';
+      return true;
+    }
+
+    const { version, headerEnd } = readContainerPrefix(prefix);
+    if (version === 1) {
+      state = 'buffered';
+      return true;
+    }
+    if (queue.length < headerEnd) return false;
+
+    const { header } = parseContainer(queue.peek(headerEnd));
+    aad = payloadAad(version, header, queue.take(headerEnd));
+    noncePrefix = base64ToBytes(header.stream!.noncePrefix);
+    if (noncePrefix.length !== NONCE_PREFIX_LENGTH) {
+      throw new Error("Corrupt file header: invalid stream parameters.");
+    }
+    sealedSize = header.stream!.chunkSize + TAG_LENGTH;
+
+    if (version >= 4) {
+      const dataKey = await unlockDataKey(header.slots!, { ...options, passphrase });
+      key = await importDataKey(dataKey);
+      dataKey.fill(0);
+    } else {
+      key = await deriveKey(passphrase, header.kdf!, ['decrypt']);
+    }
+    metadataPending = version >= 3;
+    if (header.signer) {
+      signer = header.signer;
+      digest = await ContentDigest.create(aad);
+    }
+    compression = header.compression;
+    state = 'segments';
+    return true;
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      queue.push(chunk);
+
+      if (state === 'prefix' && !(await readHeader())) return;
+      if (state !== 'segments') return;
+
+      // A full segment is only known to be non-final once more bytes follow it
+      while (queue.length > sealedSize) {
+        await release(await open(queue.take(sealedSize), false), controller);
+      }
+    },
+    async flush(controller) {
+      if (state === 'segments') {
+        if (queue.length < TAG_LENGTH) {
+          throw new Error("File is corrupted or truncated.");
+        }
+        await release(await open(queue.take(queue.length), true), controller);
+        if (metadataPending) {
+          throw new Error("Corrupt file metadata.");
+        }
+        if (digest) {
+          if (signatureQueue.length !== SIGNATURE_LENGTH) {
+            throw new Error("Corrupt file signature.");
+          }
+          const valid = await verifySignature(signer!, await digest.finish(), signatureQueue.take(SIGNATURE_LENGTH));
+          options.onSignature?.({ signer: signer!, valid });
+        }
+        if (compression) {
+          try {
+            await decompressorFor(controller).close();
+          } catch (error) {
+            throw decompressionError(error);
+          }
+        }
+        return;
+      }
+
+      // v1, legacy, or too short to hold a v2 header
+      controller.enqueue(new Uint8Array(await decryptSingleShot(queue.take(queue.length), passphrase)));
+    },
+  });
+}
+
+/**
+ * Creates a pass-through transform that reports how many bytes went through it
+ *
+ * @param total - Expected total bytes, used to compute a percentage
+ * @param onProgress - Callback receiving progress from 0 to 100
+ * @returns A TransformStream that forwards chunks unchanged
+ */
+export function createProgressStream(
+  total: number,
+  onProgress: (percent: number) => void
+): TransformStream<Uint8Array, Uint8Array> {
+  let processed = 0;
+  let lastReported = -1;
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      processed += chunk.length;
+      const percent = total > 0 ? Math.min(100, Math.round((processed / total) * 100)) : 100;
+      // Only report whole-percent changes; large files yield many chunks
+      if (percent !== lastReported) {
+        lastReported = percent;
+        onProgress(percent);
+      }
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+/**
+ * Collects a byte stream into a Blob without joining it into one buffer
+ *
+ * Every chunk stays in memory until the Blob is released; outputs too
+ * large for that should be piped to a file's writable stream instead.
+ *
+ * @param readable - The stream to drain
+ * @param type - MIME type of the resulting Blob
+ * @returns A Promise resolving to the Blob
+ */
+export async function streamToBlob(readable: ReadableStream<Uint8Array>, type = 'application/octet-stream'): Promise<Blob> {
+  const parts: Uint8Array[] = [];
+  const reader = readable.getReader();
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value);
+  }
+
+  return new Blob(parts, { type });
+}
+
+/**
+ * Runs bytes through a transform and returns the joined output
+ *
+ * @param data - The input bytes
+ * @param transform - The transform to apply
+ * @returns A Promise resolving to the transformed bytes
+ */
+async function transformBytes(
+  data: Uint8Array,
+  transform: TransformStream<Uint8Array, Uint8Array>
+): Promise<Uint8Array> {
+  const blob = await streamToBlob(new Blob([data]).stream().pipeThrough(transform));
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Encrypts an in-memory buffer into a container
+ *
+ * @param data - The plaintext bytes
+ * @param passphrase - The passphrase to derive the key from, or null when
+ *   only other credentials should open the container
+ * @param kdf - Optional KDF choice; defaults to Argon2id
+ * @param credentials - Further credentials, such as a passkey, and an
+ *   optional signing key
+ * @returns A Promise resolving to the container bytes
+ */
+export function encryptBytes(
+  data: Uint8Array,
+  passphrase: string | null,
+  kdf?: KdfOptions,
+  credentials: SlotCredentials & { signer?: SigningKey } = {}
+): Promise<Uint8Array> {
+  return transformBytes(data, createEncryptStream(passphrase, { ...credentials, kdf }));
+}
+
+/**
+ * Decrypts an in-memory `.lockme` buffer of any supported version
+ *
+ * @param data - The container bytes
+ * @param passphrase - The passphrase to derive the key from
+ * @param credentials - Further credentials, such as a passkey evaluation
+ * @returns A Promise resolving to the plaintext bytes
+ */
+export function decryptBytes(
+  data: Uint8Array,
+  passphrase: string,
+  credentials: Omit<UnlockCredentials, 'passphrase'> = {}
+): Promise<Uint8Array> {
+  return transformBytes(data, createDecryptStream(passphrase, credentials));
+}
+
+/**
+ * Checks a data key against a v4+ file by opening its first segment
+ *
+ * Slots only wrap the data key, so a key recovered another way (such as
+ * from Shamir shares) can only be confirmed against the payload itself.
+ *
+ * @param file - The `.lockme` file
+ * @param dataKey - The candidate data key
+ * @returns True if the key decrypts the file's first segment
+ * @throws Error if the file is not a container with key slots
+ */
+export async function verifyDataKey(file: Blob, dataKey: Uint8Array): Promise<boolean> {
+  const { version, headerEnd } = readContainerPrefix(new Uint8Array(await file.slice(0, PREFIX_LENGTH).arrayBuffer()));
+  if (version < 4) {
+    throw new Error("This file uses an older format without a data key.");
+  }
+
+  const headerBytes = new Uint8Array(await file.slice(0, headerEnd).arrayBuffer());
+  const { header } = parseContainer(headerBytes);
+  const { chunkSize, noncePrefix } = header.stream!;
+  const sealed = new Uint8Array(await file.slice(headerEnd, headerEnd + chunkSize + TAG_LENGTH).arrayBuffer());
+  const key = await importDataKey(dataKey);
+  const additionalData = payloadAad(version, header, headerBytes);
+
+  // The first segment is also the last one in files of up to one segment
+  for (const last of [false, true]) {
+    try {
+      const iv = segmentNonce(base64ToBytes(noncePrefix), 0, last);
+      await crypto.subtle.decrypt({ name: 'AES-GCM', iv, additionalData }, key, sealed);
+      return true;
+    } catch {
+      // Wrong key, or the other last flag
+    }
+  }
+  return false;
+}
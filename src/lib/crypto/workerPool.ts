@@ -0,0 +1,404 @@
+/**
+ * Crypto Worker Pool
+ *
+ * Runs file encryption and decryption in a fixed pool of dedicated Web
+ * Workers so key derivation and AES-GCM never block the main thread.
+ *
+ * Features:
+ * - Several files processed concurrently, one per worker
+ * - Multiple files can be packed into one encrypted archive per job
+ * - Input files are handed over as `File`/`Blob` handles (no data copy)
+ * - Output chunks are transferred back as ArrayBuffers (no data copy), or
+ *   written by the worker straight to a file the user picked, so outputs
+ *   larger than memory never collect in the page
+ * - Per-job progress callbacks, and the job's stage: deriving its key or
+ *   processing data
+ * - Verify jobs that decrypt and authenticate a file but discard the output
+ * - Re-key jobs that change a file's passphrase without exposing its plaintext
+ * - Original file metadata stored on encryption and returned on decryption
+ * - Optional sender signatures, with the check returned on decryption
+ * - Optional compression before encryption
+ * - age v1 output when encrypting; age files are recognised when decrypting
+ * - OpenPGP output when encrypting; passphrase-encrypted OpenPGP messages
+ *   are recognised when decrypting
+ * - Cancellation through `AbortSignal`; a running job's worker is
+ *   terminated and replaced so no work continues in the background
+ */
+
+import type { ArchiveSource } from './archive';
+import type { CompressionId } from './compression';
+import type { KdfOptions } from './kdf';
+import type { FileMetadata } from './metadata';
+import type { PasskeyEvaluation } from './prf';
+import type { RecipientIdentity } from './recipients';
+import type { SignatureCheck, SigningKey } from './signing';
+
+/**
+ * Operation performed by a job; `verify` decrypts without keeping the
+ * output and `rekey` changes the passphrase of an encrypted file
+ */
+export type CryptoOperation = 'encrypt' | 'decrypt' | 'verify' | 'rekey';
+
+/** File format written by encrypt jobs: a LockMe container, or a binary or armored age file or OpenPGP message */
+export type OutputFormat = 'lockme' | 'age' | 'age-armored' | 'openpgp' | 'openpgp-armored';
+
+/** Input of a job: a single file, or files to pack into an archive (encrypt only) */
+export type CryptoInput = Blob | ArchiveSource[];
+
+/**
+ * Stage of a running job: reading the header and deriving the key, then
+ * streaming data once the first output is produced
+ */
+export type JobStage = 'deriving-key' | 'processing';
+
+/**
+ * Message sent from the pool to a worker
+ */
+export interface WorkerRequest {
+  type: 'run';
+  jobId: number;
+  operation: CryptoOperation;
+  input: CryptoInput;
+  passphrase: string | null;
+  kdf?: KdfOptions;
+  passphrases?: string[];
+  keyfile?: Uint8Array;
+  recipients?: string[];
+  identities?: RecipientIdentity[];
+  passkey?: PasskeyEvaluation;
+  fallbacks?: RecipientIdentity[];
+  signer?: SigningKey;
+  metadata?: FileMetadata;
+  compression?: CompressionId;
+  newPassphrase?: string;
+  reencrypt?: boolean;
+  format?: OutputFormat;
+  output?: FileSystemFileHandle;
+}
+
+/**
+ * Messages sent from a worker back to the pool
+ */
+export type WorkerResponse =
+  | { type: 'progress'; jobId: number; percent: number }
+  | { type: 'stage'; jobId: number; stage: JobStage }
+  | { type: 'metadata'; jobId: number; metadata: FileMetadata }
+  | { type: 'signature'; jobId: number; signature: SignatureCheck }
+  | { type: 'chunk'; jobId: number; chunk: ArrayBuffer }
+  | { type: 'done'; jobId: number; verifiedBytes?: number }
+  | { type: 'error'; jobId: number; message: string };
+
+/**
+ * Options for a single pool job
+ */
+export interface RunOptions {
+  /** Receives progress from 0 to 100 */
+  onProgress?: (percent: number) => void;
+
+  /** Receives the job's stage once a worker picks it up */
+  onStage?: (stage: JobStage) => void;
+
+  /** Aborts the job when signalled */
+  signal?: AbortSignal;
+
+  /** MIME type of the resulting Blob when the file carries none */
+  outputType?: string;
+
+  /** Key derivation to use when encrypting */
+  kdf?: KdfOptions;
+
+  /** Further passphrases that open the encrypted file, one key slot each */
+  passphrases?: string[];
+
+  /** SHA-256 digest of the keyfile combined with every passphrase */
+  keyfile?: Uint8Array;
+
+  /** Base64 X25519 public keys to encrypt to */
+  recipients?: string[];
+
+  /** The user's identities, tried against recipient slots when decrypting */
+  identities?: RecipientIdentity[];
+
+  /** Passkey PRF evaluation that encrypts to, or opens, a passkey slot */
+  passkey?: PasskeyEvaluation;
+
+  /** Identities embedded as the passkey's passphrase fallback when encrypting */
+  fallbacks?: RecipientIdentity[];
+
+  /** Unlocked key that signs the file when encrypting */
+  signer?: SigningKey;
+
+  /** Original file attributes to store when encrypting */
+  metadata?: FileMetadata;
+
+  /** Compression applied before encrypting, unless the file is already compressed */
+  compression?: CompressionId;
+
+  /** Passphrase replacing the job's passphrase when re-keying */
+  newPassphrase?: string;
+
+  /** Re-encrypt under a new data key instead of rewrapping it when re-keying */
+  reencrypt?: boolean;
+
+  /** Format of the encrypted file; defaults to a LockMe container */
+  format?: OutputFormat;
+
+  /** File the worker writes the output to as it is produced, instead of sending it back */
+  output?: FileSystemFileHandle;
+}
+
+/**
+ * Outcome of a finished job
+ */
+export interface CryptoJobResult {
+  /** The encrypted or decrypted output; the written file for jobs with an `output` */
+  blob: Blob;
+
+  /** Original file attributes recovered while decrypting (v3+ files) */
+  metadata?: FileMetadata;
+
+  /** Signature check of a signed file, when decrypting or verifying */
+  signature?: SignatureCheck;
+
+  /** Plaintext bytes authenticated by a verify job; its blob stays empty */
+  verifiedBytes?: number;
+}
+
+/**
+ * Internal bookkeeping for a queued or running job
+ */
+interface Job {
+  request: WorkerRequest;
+  options: RunOptions;
+  parts: ArrayBuffer[];
+  metadata?: FileMetadata;
+  signature?: SignatureCheck;
+  verifiedBytes?: number;
+  resolve: (result: CryptoJobResult) => void;
+  reject: (error: Error) => void;
+  onAbort?: () => void;
+}
+
+/**
+ * A worker slot and the job it is currently running, if any
+ */
+interface Slot {
+  worker: Worker;
+  job: Job | null;
+}
+
+/**
+ * Creates the error used to reject cancelled jobs
+ */
+function abortError(): Error {
+  return new DOMException('The operation was cancelled.', 'AbortError');
+}
+
+/**
+ * Fixed-size pool of crypto workers
+ */
+export class CryptoWorkerPool {
+  private slots: Slot[] = [];
+  private queue: Job[] = [];
+  private nextJobId = 1;
+
+  /**
+   * @param size - Number of workers; defaults to the core count, capped at 4
+   */
+  constructor(size = Math.min(Math.max(navigator.hardwareConcurrency || 2, 1), 4)) {
+    for (let i = 0; i < size; i++) {
+      this.slots.push(this.createSlot());
+    }
+  }
+
+  /**
+   * Queues a file (or an archive of files) for encryption or decryption
+   *
+   * @param operation - Whether to encrypt, decrypt, or decrypt and discard (verify)
+   * @param input - The input file, or archive sources when encrypting
+   * @param passphrase - The passphrase for the operation; null to encrypt for recipients only
+   * @param options - Progress callback, abort signal, output MIME type, keys and metadata
+   * @returns A Promise resolving to the output Blob and any recovered metadata
+   */
+  run(
+    operation: CryptoOperation,
+    input: CryptoInput,
+    passphrase: string | null,
+    options: RunOptions = {}
+  ): Promise<CryptoJobResult> {
+    return new Promise<CryptoJobResult>((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const job: Job = {
+        request: {
+          type: 'run',
+          jobId: this.nextJobId++,
+          operation,
+          input,
+          passphrase,
+          kdf: options.kdf,
+          passphrases: options.passphrases,
+          keyfile: options.keyfile,
+          recipients: options.recipients,
+          identities: options.identities,
+          passkey: options.passkey,
+          fallbacks: options.fallbacks,
+          signer: options.signer,
+          metadata: options.metadata,
+          compression: options.compression,
+          newPassphrase: options.newPassphrase,
+          reencrypt: options.reencrypt,
+          format: options.format,
+          output: options.output,
+        },
+        options,
+        parts: [],
+        resolve,
+        reject,
+      };
+
+      job.onAbort = () => this.cancel(job);
+      options.signal?.addEventListener('abort', job.onAbort, { once: true });
+
+      this.queue.push(job);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stops all workers and rejects every pending job
+   */
+  terminate(): void {
+    for (const job of this.queue) this.settle(job, abortError());
+    this.queue = [];
+
+    for (const slot of this.slots) {
+      slot.worker.terminate();
+      if (slot.job) this.settle(slot.job, abortError());
+      slot.job = null;
+    }
+    this.slots = [];
+  }
+
+  /**
+   * Spawns a worker and wires up its message handling
+   */
+  private createSlot(): Slot {
+    const worker = new Worker(new URL('./crypto.worker.ts', import.meta.url), { type: 'module' });
+    const slot: Slot = { worker, job: null };
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(slot, event.data);
+    worker.onerror = (event) => {
+      event.preventDefault();
+      if (slot.job) this.finishSlot(slot, new Error(event.message || 'Crypto worker crashed.'));
+    };
+
+    return slot;
+  }
+
+  /**
+   * Handles a message from a worker about its current job
+   */
+  private handleMessage(slot: Slot, message: WorkerResponse): void {
+    const job = slot.job;
+    if (!job || job.request.jobId !== message.jobId) return;
+
+    switch (message.type) {
+      case 'progress':
+        job.options.onProgress?.(message.percent);
+        break;
+      case 'stage':
+        job.options.onStage?.(message.stage);
+        break;
+      case 'metadata':
+        job.metadata = message.metadata;
+        break;
+      case 'signature':
+        job.signature = message.signature;
+        break;
+      case 'chunk':
+        job.parts.push(message.chunk);
+        break;
+      case 'done':
+        job.verifiedBytes = message.verifiedBytes;
+        this.finishSlot(slot, null);
+        break;
+      case 'error':
+        this.finishSlot(slot, new Error(message.message));
+        break;
+    }
+  }
+
+  /**
+   * Settles a slot's job and hands the slot the next queued job
+   */
+  private finishSlot(slot: Slot, error: Error | null): void {
+    const job = slot.job!;
+    slot.job = null;
+    this.settle(job, error);
+    this.dispatch();
+  }
+
+  /**
+   * Resolves or rejects a job and detaches its abort listener
+   */
+  private settle(job: Job, error: Error | null): void {
+    if (job.onAbort) job.options.signal?.removeEventListener('abort', job.onAbort);
+
+    if (error) {
+      job.reject(error);
+      return;
+    }
+
+    const result = {
+      metadata: job.metadata,
+      signature: job.signature,
+      verifiedBytes: job.verifiedBytes,
+    };
+
+    // Written outputs are returned as the file on disk, not read back into memory
+    if (job.options.output) {
+      job.options.output.getFile().then(blob => job.resolve({ blob, ...result }), job.reject);
+      return;
+    }
+
+    const type = job.metadata?.type || job.options.outputType || 'application/octet-stream';
+    job.resolve({ blob: new Blob(job.parts, { type }), ...result });
+  }
+
+  /**
+   * Cancels a job, replacing its worker if it was already running
+   */
+  private cancel(job: Job): void {
+    const queuedIndex = this.queue.indexOf(job);
+    if (queuedIndex !== -1) {
+      this.queue.splice(queuedIndex, 1);
+      this.settle(job, abortError());
+      return;
+    }
+
+    const slotIndex = this.slots.findIndex(slot => slot.job === job);
+    if (slotIndex === -1) return;
+
+    this.slots[slotIndex].worker.terminate();
+    this.slots[slotIndex] = this.createSlot();
+    this.settle(job, abortError());
+    this.dispatch();
+  }
+
+  /**
+   * Starts queued jobs on idle workers
+   */
+  private dispatch(): void {
+    for (const slot of this.slots) {
+      if (slot.job || this.queue.length === 0) continue;
+
+      const job = this.queue.shift()!;
+      slot.job = job;
+      slot.worker.postMessage(job.request);
+    }
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * ZIP Bundle Tests
+ *
+ * Reads the written ZIP back through its central directory and checks
+ * names, sizes, checksums, contents and the manifest.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { crc32 as referenceCrc32 } from 'node:zlib';
+
+import { crc32, ZIP_MANIFEST_NAME, ZipWriter } from './index';
+
+/** An entry read back from a ZIP */
+interface ReadEntry {
+  name: string;
+  crc: number;
+  data: Uint8Array;
+}
+
+/** Lists a stored ZIP's entries through its end record and central directory */
+function readZip(bytes: Uint8Array): ReadEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  assert.equal(view.getUint32(end, true), 0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    assert.equal(view.getUint32(position, true), 0x02014b50);
+    assert.equal(view.getUint16(position + 8, true) & 0x0800, 0x0800);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 24, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(position + 46, position + 46 + nameLength));
+
+    assert.equal(view.getUint32(offset, true), 0x04034b50);
+    assert.equal(view.getUint32(offset + 14, true), crc);
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+    entries.push({ name, crc, data: bytes.subarray(dataStart, dataStart + size) });
+    position += 46 + nameLength + view.getUint16(position + 30, true) + view.getUint16(position + 32, true);
+  }
+  return entries;
+}
+
+test('crc32 matches zlib', async () => {
+  const data = new TextEncoder().encode('The quick brown fox jumps over the lazy dog');
+  assert.equal(await crc32(new Blob([data])), 0x414fa339);
+  assert.equal(await crc32(new Blob([])), 0);
+
+  const random = crypto.getRandomValues(new Uint8Array(65_536));
+  assert.equal(await crc32(new Blob([random])), referenceCrc32(random));
+});
+
+test('a bundle holds every output and the manifest', async () => {
+  const zip = new ZipWriter();
+  const first = crypto.getRandomValues(new Uint8Array(5000));
+  const second = new TextEncoder().encode('second file');
+
+  const names = await Promise.all([
+    zip.add('report.pdf.lockme', new Blob([first])),
+    zip.add('folder/report.pdf.lockme', new Blob([second])),
+    zip.add('ünïcode ☂.txt', new Blob([])),
+  ]);
+  assert.deepEqual(names, ['report.pdf.lockme', 'report.pdf (2).lockme', 'ünïcode ☂.txt']);
+
+  await zip.addManifest('encrypt', [
+    { input: 'report.pdf', output: names[0], status: 'succeeded' },
+    { input: 'broken.bin', status: 'failed', error: 'File is corrupted or truncated.' },
+  ]);
+  const blob = zip.finish();
+  assert.equal(blob.type, 'application/zip');
+  await assert.rejects(zip.add('late.txt', new Blob([])), /already finished/);
+
+  // Entries are written as their checksums complete, so look them up by name
+  const entries = new Map(readZip(new Uint8Array(await blob.arrayBuffer())).map(entry => [entry.name, entry]));
+  assert.deepEqual([...entries.keys()].sort(), [...names, ZIP_MANIFEST_NAME].sort());
+  assert.deepEqual(entries.get(names[0])!.data, first);
+  assert.deepEqual(entries.get(names[1])!.data, second);
+  assert.equal(entries.get(names[2])!.data.length, 0);
+  for (const entry of entries.values()) {
+    assert.equal(entry.crc, referenceCrc32(entry.data));
+  }
+
+  const manifest = JSON.parse(new TextDecoder().decode(entries.get(ZIP_MANIFEST_NAME)!.data));
+  assert.equal(manifest.mode, 'encrypt');
+  assert.equal(manifest.succeeded, 1);
+  assert.equal(manifest.failed, 1);
+  assert.deepEqual(manifest.files[1], { input: 'broken.bin', status: 'failed', error: 'File is corrupted or truncated.' });
+});
+
+test('a bundle with a sink writes each entry as it is added', async () => {
+  const received: Blob[] = [];
+  let closed = false;
+  const zip = new ZipWriter(new WritableStream<Blob | Uint8Array>({
+    write: part => { received.push(new Blob([part])); },
+    close: () => { closed = true; },
+  }));
+
+  const data = new TextEncoder().encode('written before the batch ends');
+  const name = await zip.add('early.txt.lockme', new Blob([data]));
+  const sizeBeforeClose = new Blob(received).size;
+  assert.ok(sizeBeforeClose >= 30 + name.length + data.length);
+  assert.throws(() => zip.finish(), /close it instead/);
+
+  await zip.addManifest('decrypt', [{ input: 'early.txt', output: name, status: 'succeeded' }]);
+  await zip.close();
+  assert.ok(closed);
+
+  const entries = readZip(new Uint8Array(await new Blob(received).arrayBuffer()));
+  assert.deepEqual(entries.map(entry => entry.name), [name, ZIP_MANIFEST_NAME]);
+  assert.deepEqual(entries[0].data, data);
+});
@@ -0,0 +1,344 @@
+/**
+ * ZIP Bundles
+ *
+ * Collects the outputs of a batch into one ZIP download instead of one
+ * download per file. Entries are stored without compression: encrypted
+ * outputs do not compress, and storing lets each entry reference the
+ * output Blob directly instead of copying it. Entries are appended as
+ * their jobs finish, and ZIP64 records are written once sizes or offsets
+ * pass 4 GiB. Given a sink, such as a file's writable stream, each entry
+ * is written out as soon as it is added instead of being held until the
+ * ZIP is finished.
+ *
+ * A `manifest.json` entry lists every input of the batch with its output
+ * name, or the reason it failed.
+ */
+
+/** Name of the manifest entry */
+export const ZIP_MANIFEST_NAME = 'manifest.json';
+
+/** Largest value of a 16-bit field */
+const MAX_UINT16 = 0xffff;
+
+/** Largest value of a 32-bit field; also the ZIP64 placeholder */
+const MAX_UINT32 = 0xffffffff;
+
+/** Version needed to extract: 2.0 for stored entries, 4.5 with ZIP64 */
+const VERSION_STORED = 20;
+const VERSION_ZIP64 = 45;
+
+/** General purpose flag: names are UTF-8 */
+const FLAG_UTF8 = 0x0800;
+
+/**
+ * Outcome of one batch input, as listed in the manifest
+ */
+export interface ZipManifestEntry {
+  /** Name of the input file or archive */
+  input: string;
+
+  /** Name of the output inside the ZIP, when the input succeeded */
+  output?: string;
+
+  /** How processing ended */
+  status: 'succeeded' | 'failed' | 'cancelled';
+
+  /** Why processing failed */
+  error?: string;
+}
+
+/**
+ * A written entry, kept for the central directory
+ */
+interface CentralEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+/** CRC-32 (IEEE) lookup table */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c;
+  }
+  return table;
+})();
+
+/**
+ * Computes the CRC-32 of a Blob, reading it as a stream
+ *
+ * @param data - The data to checksum
+ * @returns The CRC-32 as an unsigned integer
+ */
+export async function crc32(data: Blob): Promise<number> {
+  let crc = MAX_UINT32;
+  const reader = data.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    for (let i = 0; i < value.length; i++) {
+      crc = CRC_TABLE[(crc ^ value[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ MAX_UINT32) >>> 0;
+}
+
+/**
+ * Converts a date to MS-DOS time and date fields
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.min(Math.max(date.getFullYear(), 1980), 2107);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Makes a name safe to store: no directories, no control characters
+ */
+function entryName(name: string): string {
+  // eslint-disable-next-line no-control-regex
+  const base = name.split(/[\\/]/).pop()?.replace(/[\u0000-\u001f]/g, '').trim();
+  return base && base !== '.' && base !== '..' ? base : 'file';
+}
+
+/**
+ * Builds a ZIP file from Blobs added one at a time
+ *
+ * `add` may be called concurrently; entries are written in the order their
+ * checksums complete.
+ */
+export class ZipWriter {
+  private parts: (Blob | Uint8Array)[] = [];
+  private entries: CentralEntry[] = [];
+  private names = new Set<string>();
+  private offset = 0;
+  private finished = false;
+  private writer: WritableStreamDefaultWriter<Blob | Uint8Array> | null;
+  private written: Promise<void> = Promise.resolve();
+
+  /**
+   * @param sink - Stream the ZIP is written to as entries are added; without
+   *   one the ZIP is kept in memory and returned by `finish`
+   */
+  constructor(sink?: WritableStream<Blob | Uint8Array>) {
+    this.writer = sink ? sink.getWriter() : null;
+  }
+
+  /**
+   * Adds a file, renaming it if the name is already taken
+   *
+   * @param name - The file name; directories are stripped
+   * @param data - The file contents
+   * @param lastModified - Modification time recorded in the entry
+   * @returns The name the file was stored under, e.g. "report (2).pdf"
+   */
+  async add(name: string, data: Blob, lastModified = new Date()): Promise<string> {
+    const unique = this.reserveName(entryName(name));
+    const crc = await crc32(data);
+    if (this.finished) {
+      throw new Error("The ZIP file is already finished.");
+    }
+
+    const encodedName = new TextEncoder().encode(unique);
+    const { time, date } = dosDateTime(lastModified);
+    const zip64 = data.size >= MAX_UINT32;
+
+    const header = new Uint8Array(30 + encodedName.length + (zip64 ? 20 : 0));
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, zip64 ? VERSION_ZIP64 : VERSION_STORED, true);
+    view.setUint16(6, FLAG_UTF8, true);
+    view.setUint16(8, 0, true);
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    view.setUint32(14, crc, true);
+    view.setUint32(18, zip64 ? MAX_UINT32 : data.size, true);
+    view.setUint32(22, zip64 ? MAX_UINT32 : data.size, true);
+    view.setUint16(26, encodedName.length, true);
+    view.setUint16(28, zip64 ? 20 : 0, true);
+    header.set(encodedName, 30);
+    if (zip64) {
+      const extra = 30 + encodedName.length;
+      view.setUint16(extra, 0x0001, true);
+      view.setUint16(extra + 2, 16, true);
+      view.setBigUint64(extra + 4, BigInt(data.size), true);
+      view.setBigUint64(extra + 12, BigInt(data.size), true);
+    }
+
+    this.entries.push({ name: encodedName, crc, size: data.size, offset: this.offset, time, date });
+    this.offset += header.length + data.size;
+    await this.append([header, data]);
+    return unique;
+  }
+
+  /**
+   * Adds the batch manifest as `manifest.json`
+   *
+   * @param mode - Whether the batch encrypted or decrypted
+   * @param items - One entry per input, in input order
+   */
+  async addManifest(mode: 'encrypt' | 'decrypt', items: ZipManifestEntry[]): Promise<void> {
+    const manifest = {
+      createdAt: new Date().toISOString(),
+      mode,
+      succeeded: items.filter(item => item.status === 'succeeded').length,
+      failed: items.filter(item => item.status !== 'succeeded').length,
+      files: items,
+    };
+    await this.add(ZIP_MANIFEST_NAME, new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }));
+  }
+
+  /**
+   * Writes the central directory and returns the ZIP file
+   *
+   * @returns The complete ZIP file
+   * @throws Error if the ZIP is written to a sink; use `close` instead
+   */
+  finish(): Blob {
+    if (this.writer) {
+      throw new Error("This ZIP file is written to a stream; close it instead.");
+    }
+    this.finished = true;
+    this.parts.push(...this.trailer());
+    return new Blob(this.parts, { type: 'application/zip' });
+  }
+
+  /**
+   * Writes the central directory to the sink and closes it
+   */
+  async close(): Promise<void> {
+    this.finished = true;
+    await this.append(this.trailer());
+    await this.writer?.close();
+  }
+
+  /**
+   * Stops writing to the sink and discards what it received
+   */
+  async abort(): Promise<void> {
+    this.finished = true;
+    await this.written.catch(() => undefined);
+    await this.writer?.abort();
+  }
+
+  /**
+   * Queues parts behind the ones already added, writing them to the sink
+   * if there is one
+   */
+  private append(parts: (Blob | Uint8Array)[]): Promise<void> {
+    const writer = this.writer;
+    if (!writer) {
+      this.parts.push(...parts);
+      return Promise.resolve();
+    }
+
+    this.written = this.written.then(async () => {
+      for (const part of parts) await writer.write(part);
+    });
+    return this.written;
+  }
+
+  /**
+   * Builds the central directory and end records
+   */
+  private trailer(): Uint8Array[] {
+    const parts: Uint8Array[] = [];
+    const directoryOffset = this.offset;
+    let directorySize = 0;
+
+    for (const entry of this.entries) {
+      const needsSize = entry.size >= MAX_UINT32;
+      const needsOffset = entry.offset >= MAX_UINT32;
+      const extraLength = needsSize || needsOffset ? 4 + (needsSize ? 16 : 0) + (needsOffset ? 8 : 0) : 0;
+
+      const record = new Uint8Array(46 + entry.name.length + extraLength);
+      const view = new DataView(record.buffer);
+      const version = extraLength > 0 ? VERSION_ZIP64 : VERSION_STORED;
+      view.setUint32(0, 0x02014b50, true);
+      view.setUint16(4, version, true);
+      view.setUint16(6, version, true);
+      view.setUint16(8, FLAG_UTF8, true);
+      view.setUint16(10, 0, true);
+      view.setUint16(12, entry.time, true);
+      view.setUint16(14, entry.date, true);
+      view.setUint32(16, entry.crc, true);
+      view.setUint32(20, needsSize ? MAX_UINT32 : entry.size, true);
+      view.setUint32(24, needsSize ? MAX_UINT32 : entry.size, true);
+      view.setUint16(28, entry.name.length, true);
+      view.setUint16(30, extraLength, true);
+      view.setUint32(42, needsOffset ? MAX_UINT32 : entry.offset, true);
+      record.set(entry.name, 46);
+
+      if (extraLength > 0) {
+        let position = 46 + entry.name.length;
+        view.setUint16(position, 0x0001, true);
+        view.setUint16(position + 2, extraLength - 4, true);
+        position += 4;
+        if (needsSize) {
+          view.setBigUint64(position, BigInt(entry.size), true);
+          view.setBigUint64(position + 8, BigInt(entry.size), true);
+          position += 16;
+        }
+        if (needsOffset) {
+          view.setBigUint64(position, BigInt(entry.offset), true);
+        }
+      }
+
+      parts.push(record);
+      directorySize += record.length;
+    }
+
+    const count = this.entries.length;
+    const zip64 = count >= MAX_UINT16 || directoryOffset >= MAX_UINT32 || directorySize >= MAX_UINT32;
+    if (zip64) {
+      const record = new Uint8Array(56 + 20);
+      const view = new DataView(record.buffer);
+      view.setUint32(0, 0x06064b50, true);
+      view.setBigUint64(4, BigInt(44), true);
+      view.setUint16(12, VERSION_ZIP64, true);
+      view.setUint16(14, VERSION_ZIP64, true);
+      view.setBigUint64(24, BigInt(count), true);
+      view.setBigUint64(32, BigInt(count), true);
+      view.setBigUint64(40, BigInt(directorySize), true);
+      view.setBigUint64(48, BigInt(directoryOffset), true);
+      // Locator pointing at the ZIP64 end record
+      view.setUint32(56, 0x07064b50, true);
+      view.setBigUint64(64, BigInt(directoryOffset + directorySize), true);
+      view.setUint32(72, 1, true);
+      parts.push(record);
+    }
+
+    const end = new Uint8Array(22);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, Math.min(count, MAX_UINT16), true);
+    view.setUint16(10, Math.min(count, MAX_UINT16), true);
+    view.setUint32(12, Math.min(directorySize, MAX_UINT32), true);
+    view.setUint32(16, Math.min(directoryOffset, MAX_UINT32), true);
+    parts.push(end);
+    return parts;
+  }
+
+  /**
+   * Claims a unique entry name, appending " (2)", " (3)"... before the extension
+   */
+  private reserveName(name: string): string {
+    let candidate = name;
+    const dot = name.lastIndexOf('.');
+    const stem = dot > 0 ? name.slice(0, dot) : name;
+    const extension = dot > 0 ? name.slice(dot) : '';
+    for (let n = 2; this.names.has(candidate.toLowerCase()); n++) {
+      candidate = `${stem} (${n})${extension}`;
+    }
+    this.names.add(candidate.toLowerCase());
+    return candidate;
+  }
+}
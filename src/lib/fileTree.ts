@@ -0,0 +1,194 @@
+/**
+ * Folder Selection Helpers
+ *
+ * Turns dropped or picked folders into flat file lists that remember each
+ * file's path relative to the dropped folder, and groups such lists into a
+ * tree for display.
+ *
+ * Features:
+ * - Recursive walking through `getAsFileSystemHandle` where available,
+ *   falling back to `webkitGetAsEntry`
+ * - Relative paths exposed as `webkitRelativePath`, the same property a
+ *   `webkitdirectory` file input fills in
+ * - Folder tree with per-folder size totals
+ */
+
+/**
+ * Subset of the File System Access API used for walking dropped folders
+ */
+type WalkableHandle =
+  | { kind: 'file'; name: string; getFile(): Promise<File> }
+  | { kind: 'directory'; name: string; values(): AsyncIterable<WalkableHandle> };
+
+/**
+ * Drop item with the optional File System Access extension
+ */
+type HandleDataTransferItem = DataTransferItem & {
+  getAsFileSystemHandle?: () => Promise<WalkableHandle | null>;
+};
+
+/**
+ * A folder or file in a selection tree
+ */
+export interface FileTreeNode {
+  /** Last path segment */
+  name: string;
+
+  /** Full relative path */
+  path: string;
+
+  /** Total size of the file, or of everything below the folder */
+  size: number;
+
+  /** The file itself (files only) */
+  file?: File;
+
+  /** Every file at or below this node */
+  files: File[];
+
+  /** Child folders first, then files, each sorted by name (folders only) */
+  children: FileTreeNode[];
+}
+
+/**
+ * Returns the path of a file relative to its dropped or picked folder
+ *
+ * @param file - A file from a drop or file input
+ * @returns The relative path, or the plain name for loose files
+ */
+export function relativePathOf(file: File): string {
+  return file.webkitRelativePath || file.name;
+}
+
+/**
+ * Records a relative path on a file the way a folder picker would
+ *
+ * @param file - The file read from a directory
+ * @param path - Its path relative to the dropped folder
+ * @returns The same file
+ */
+function withRelativePath(file: File, path: string): File {
+  if (path.includes('/')) {
+    Object.defineProperty(file, 'webkitRelativePath', { value: path, configurable: true });
+  }
+  return file;
+}
+
+/**
+ * Recursively collects files below a File System Access handle
+ */
+async function walkHandle(handle: WalkableHandle, prefix: string, out: File[]): Promise<void> {
+  if (handle.kind === 'file') {
+    out.push(withRelativePath(await handle.getFile(), `${prefix}${handle.name}`));
+    return;
+  }
+
+  for await (const child of handle.values()) {
+    await walkHandle(child, `${prefix}${handle.name}/`, out);
+  }
+}
+
+/**
+ * Recursively collects files below a legacy `FileSystemEntry`
+ */
+async function walkEntry(entry: FileSystemEntry, out: File[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    out.push(withRelativePath(file, entry.fullPath.replace(/^\//, '')));
+    return;
+  }
+
+  // readEntries returns results in batches until an empty one
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    for (const child of batch) {
+      await walkEntry(child, out);
+    }
+  }
+}
+
+/**
+ * Collects every file from a drop, descending into dropped folders
+ *
+ * Must be called synchronously from the drop handler: the browser only
+ * exposes the dropped items until the event returns.
+ *
+ * @param dataTransfer - The drop event's data
+ * @returns A Promise resolving to all dropped files, with relative paths
+ */
+export function filesFromDataTransfer(dataTransfer: DataTransfer): Promise<File[]> {
+  const items = Array.from(dataTransfer.items ?? []).filter(item => item.kind === 'file');
+  if (items.length === 0) {
+    return Promise.resolve(Array.from(dataTransfer.files ?? []));
+  }
+
+  // Grab handles/entries now; they are gone once the event handler returns
+  const pending = items.map(item => {
+    const { getAsFileSystemHandle } = item as HandleDataTransferItem;
+    if (getAsFileSystemHandle) {
+      return { handle: getAsFileSystemHandle.call(item), entry: null, file: item.getAsFile() };
+    }
+    return { handle: null, entry: item.webkitGetAsEntry(), file: item.getAsFile() };
+  });
+
+  return (async () => {
+    const files: File[] = [];
+
+    for (const { handle, entry, file } of pending) {
+      const resolved = await handle;
+      if (resolved) {
+        await walkHandle(resolved, '', files);
+      } else if (entry) {
+        await walkEntry(entry, files);
+      } else if (file) {
+        files.push(file);
+      }
+    }
+
+    return files;
+  })();
+}
+
+/**
+ * Groups files into a folder tree by relative path
+ *
+ * @param files - Files with optional relative paths
+ * @returns The root node; its name and path are empty
+ */
+export function buildFileTree(files: File[]): FileTreeNode {
+  const root: FileTreeNode = { name: '', path: '', size: 0, files: [], children: [] };
+
+  for (const file of files) {
+    const segments = relativePathOf(file).split('/');
+    let node = root;
+    node.size += file.size;
+    node.files.push(file);
+
+    for (const [i, segment] of segments.entries()) {
+      const isFile = i === segments.length - 1;
+      const path = segments.slice(0, i + 1).join('/');
+      let child = isFile ? undefined : node.children.find(c => !c.file && c.name === segment);
+
+      if (!child) {
+        child = { name: segment, path, size: 0, files: [], children: [], file: isFile ? file : undefined };
+        node.children.push(child);
+      }
+
+      child.size += file.size;
+      child.files.push(file);
+      node = child;
+    }
+  }
+
+  const sort = (node: FileTreeNode) => {
+    node.children.sort((a, b) => Number(!!a.file) - Number(!!b.file) || a.name.localeCompare(b.name));
+    node.children.forEach(sort);
+  };
+  sort(root);
+
+  return root;
+}
@@ -8,6 +8,7 @@
  * - Singleton Firebase app instance management
  * - Environment-based configuration via Next.js environment variables
  * - Lazy initialization of Firebase services
+ * - Optional connection to the local Firebase emulator suite
  * - Exports configured service instances ready for use
  */
 
@@ -15,9 +16,9 @@
 import { initializeApp, getApps, getApp } from "firebase/app";
 
 // Firebase Services
-import { getFirestore } from "firebase/firestore";
-import { getAuth } from "firebase/auth";
-import { getStorage } from "firebase/storage";
+import { connectFirestoreEmulator, getFirestore } from "firebase/firestore";
+import { connectAuthEmulator, getAuth } from "firebase/auth";
+import { connectStorageEmulator, getStorage } from "firebase/storage";
 
 /**
  * Firebase configuration object
@@ -57,4 +58,18 @@ const auth = getAuth(app);
 // Storage service for file uploads and downloads
 const storage = getStorage(app);
 
+/**
+ * Connect to the local emulator suite (`firebase emulators:start`) when enabled
+ * Ports match firebase.json; the flag guards against connecting twice on hot reload
+ */
+const emulatorFlag = '__lockmeFirebaseEmulators';
+if (process.env.NEXT_PUBLIC_USE_FIREBASE_EMULATORS === 'true' && !(globalThis as Record<string, unknown>)[emulatorFlag]) {
+  (globalThis as Record<string, unknown>)[emulatorFlag] = true;
+  const host = process.env.NEXT_PUBLIC_FIREBASE_EMULATOR_HOST || '127.0.0.1';
+  connectAuthEmulator(auth, `http://${host}:9099`, { disableWarnings: true });
+  connectFirestoreEmulator(db, host, 8080);
+  connectStorageEmulator(storage, host, 9199);
+  console.log(`Firebase: Connected to the emulator suite on ${host}.`);
+}
+
 export { app, db, auth, storage };
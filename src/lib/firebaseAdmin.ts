@@ -7,9 +7,11 @@
  * 
  * Features:
  * - Multiple initialization methods (service account JSON or application default credentials)
+ * - Credential-free initialization against the local Firebase emulator suite
  * - Robust error handling for initialization failures
  * - Server-side activity logging for user actions
  * - Singleton Firestore admin instance
+ * - Access to the default Storage bucket for share link downloads
  */
 
 import admin from 'firebase-admin';
@@ -27,6 +29,13 @@ let adminDbInstance: admin.firestore.Firestore | null = null;
  */
 const serviceAccountJson = process.env.FIREBASE_SERVICE_ACCOUNT_JSON;
 const googleAppCreds = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+const firestoreEmulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+/**
+ * Project settings shared with the client configuration
+ */
+const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+const storageBucket = process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET;
 
 /**
  * Collection constants
@@ -70,6 +79,7 @@ if (!admin.apps.length) {
       // Initialize with service account credentials
       admin.initializeApp({
         credential: admin.credential.cert(serviceAccount),
+        storageBucket,
       });
       console.log("Firebase Admin SDK: Initialized successfully using FIREBASE_SERVICE_ACCOUNT_JSON.");
 
@@ -87,12 +97,19 @@ if (!admin.apps.length) {
       // Initialize with application default credentials
       admin.initializeApp({
         credential: admin.credential.applicationDefault(), // This uses GOOGLE_APPLICATION_CREDENTIALS
+        storageBucket,
       });
       console.log("Firebase Admin SDK: Initialized successfully using GOOGLE_APPLICATION_CREDENTIALS.");
     } 
+    // Emulators accept any request, so no credentials are needed
+    else if (firestoreEmulatorHost) {
+      console.log(`Firebase Admin SDK: Found FIRESTORE_EMULATOR_HOST (${firestoreEmulatorHost}). Initializing for the emulator suite...`);
+      admin.initializeApp({ projectId, storageBucket });
+      console.log("Firebase Admin SDK: Initialized successfully for the emulator suite.");
+    } 
     // No credentials available
     else {
-      console.warn("Firebase Admin SDK: Initialization skipped. Neither FIREBASE_SERVICE_ACCOUNT_JSON nor GOOGLE_APPLICATION_CREDENTIALS environment variables are set.");
+      console.warn("Firebase Admin SDK: Initialization skipped. None of FIREBASE_SERVICE_ACCOUNT_JSON, GOOGLE_APPLICATION_CREDENTIALS or FIRESTORE_EMULATOR_HOST environment variables are set.");
     }
   } catch (error) {
     console.error('Firebase Admin SDK: Initialization error:', error);
@@ -175,4 +192,17 @@ export async function logActivityWithAdmin(
   }
 }
 
+/**
+ * Returns the default Storage bucket using admin credentials
+ * 
+ * @returns {Bucket|null} The bucket, or null if the Admin SDK is not initialized or no bucket is configured
+ */
+export function getAdminBucket(): ReturnType<admin.storage.Storage['bucket']> | null {
+  if (!admin.apps.length || !storageBucket) {
+    console.warn("getAdminBucket: Firebase Admin SDK not initialized or NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET not set.");
+    return null;
+  }
+  return admin.storage().bucket(storageBucket);
+}
+
 export { adminDbInstance };
@@ -0,0 +1,124 @@
+/**
+ * Local Keyring
+ *
+ * Keeps the user's signing keys and the public keys they trust in
+ * `localStorage`, so signing and verification work without an account.
+ * Private keys are stored wrapped under their passphrase.
+ *
+ * Features:
+ * - Shared storage keys for settings and consumers
+ * - Safe fallbacks for missing or malformed values
+ * - Naming the signer of a decrypted file
+ */
+
+import type { SignatureCheck, SignerInfo, SigningIdentity } from '@/lib/crypto';
+
+/** Local storage key for the user's signing keys */
+export const SIGNING_KEYS_KEY = 'lockme-signingKeys';
+
+/** Local storage key for trusted public keys */
+export const TRUSTED_KEYS_KEY = 'lockme-trustedKeys';
+
+/**
+ * A signing key with the name the user gave it
+ */
+export interface StoredSigningKey extends SigningIdentity {
+  /** Name shown in pickers and lists */
+  label: string;
+
+  /** Creation time in milliseconds since the epoch */
+  createdAt: number;
+}
+
+/**
+ * A public key the user trusts, with the name of its owner
+ */
+export interface TrustedKey extends SignerInfo {
+  /** Name of the key's owner */
+  label: string;
+
+  /** Time it was added in milliseconds since the epoch */
+  addedAt: number;
+}
+
+/**
+ * Who signed a decrypted file, as far as this device knows
+ */
+export type SignatureStatus =
+  | { status: 'own'; label: string }
+  | { status: 'trusted'; label: string }
+  | { status: 'unknown' }
+  | { status: 'invalid' };
+
+/**
+ * Reads a JSON array from local storage
+ */
+function readList<T>(key: string): T[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Reads the stored signing keys
+ *
+ * @returns The signing keys, oldest first
+ */
+export function getSigningKeys(): StoredSigningKey[] {
+  return readList<StoredSigningKey>(SIGNING_KEYS_KEY);
+}
+
+/**
+ * Replaces the stored signing keys
+ *
+ * @param keys - The signing keys to keep
+ */
+export function saveSigningKeys(keys: StoredSigningKey[]): void {
+  localStorage.setItem(SIGNING_KEYS_KEY, JSON.stringify(keys));
+}
+
+/**
+ * Reads the trusted public keys
+ *
+ * @returns The trusted keys, oldest first
+ */
+export function getTrustedKeys(): TrustedKey[] {
+  return readList<TrustedKey>(TRUSTED_KEYS_KEY);
+}
+
+/**
+ * Replaces the trusted public keys
+ *
+ * @param keys - The trusted keys to keep
+ */
+export function saveTrustedKeys(keys: TrustedKey[]): void {
+  localStorage.setItem(TRUSTED_KEYS_KEY, JSON.stringify(keys));
+}
+
+/**
+ * Names the signer of a file from the local keyring
+ *
+ * Keys match on fingerprint and public key, so a header cannot borrow a
+ * trusted fingerprint for another key.
+ *
+ * @param check - The signature check reported by decryption
+ * @returns The signer's standing
+ */
+export function describeSignature(check: SignatureCheck): SignatureStatus {
+  if (!check.valid) return { status: 'invalid' };
+
+  const matches = (key: SignerInfo) =>
+    key.fingerprint === check.signer.fingerprint && key.publicKey === check.signer.publicKey;
+
+  const own = getSigningKeys().find(matches);
+  if (own) return { status: 'own', label: own.label };
+
+  const trusted = getTrustedKeys().find(matches);
+  if (trusted) return { status: 'trusted', label: trusted.label };
+
+  return { status: 'unknown' };
+}
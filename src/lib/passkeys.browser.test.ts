@@ -0,0 +1,112 @@
+/**
+ * Passkey Browser Tests
+ *
+ * Runs the WebAuthn flows of `@/lib/passkeys` in headless Chromium against
+ * a CDP virtual authenticator with PRF support (`npm run test:passkeys`).
+ * The helpers and the crypto core are bundled with esbuild and served from
+ * localhost, which browsers treat as a secure context and a valid RP ID.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import { build } from 'esbuild';
+import { chromium } from 'playwright';
+
+import type * as Crypto from '@/lib/crypto';
+import type * as Passkeys from '@/lib/passkeys';
+
+/** What the bundle exposes to the page */
+type PageGlobals = typeof globalThis & { lockme: typeof Crypto; passkeys: typeof Passkeys };
+
+/** Bundles the passkey helpers and the crypto core into one browser script */
+async function bundle(): Promise<string> {
+  const result = await build({
+    stdin: {
+      contents: `
+        import * as lockme from '@/lib/crypto';
+        import * as passkeys from '@/lib/passkeys';
+        Object.assign(globalThis, { lockme, passkeys });
+      `,
+      resolveDir: process.cwd(),
+      loader: 'ts',
+    },
+    bundle: true,
+    format: 'esm',
+    write: false,
+  });
+  return result.outputFiles[0].text;
+}
+
+test('a passkey registered on a virtual authenticator encrypts and decrypts a file', async () => {
+  const script = await bundle();
+  const server = createServer((request, response) => {
+    if (request.url === '/passkeys.js') {
+      response.writeHead(200, { 'Content-Type': 'text/javascript' });
+      response.end(script);
+    } else {
+      response.writeHead(200, { 'Content-Type': 'text/html' });
+      response.end('<!doctype html><script type="module" src="/passkeys.js"></script>');
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, 'localhost', resolve));
+  const browser = await chromium.launch().catch(error => {
+    server.close();
+    throw error;
+  });
+
+  try {
+    const page = await browser.newPage();
+    const cdp = await page.context().newCDPSession(page);
+    await cdp.send('WebAuthn.enable');
+    await cdp.send('WebAuthn.addVirtualAuthenticator', {
+      options: {
+        protocol: 'ctap2',
+        transport: 'internal',
+        hasResidentKey: true,
+        hasUserVerification: true,
+        isUserVerified: true,
+        hasPrf: true,
+        automaticPresenceSimulation: true,
+      },
+    });
+
+    await page.goto(`http://localhost:${(server.address() as AddressInfo).port}/`);
+    await page.waitForFunction(() => 'passkeys' in globalThis);
+
+    const outcome = await page.evaluate(async () => {
+      const { lockme, passkeys } = globalThis as PageGlobals;
+      const plaintext = new TextEncoder().encode('unlocked by a virtual authenticator');
+
+      const credential = await passkeys.registerPasskey({ uid: 'test-user', name: 'test@example.com', displayName: 'Test' });
+      const forEncryption = await passkeys.evaluatePasskeyForEncryption([credential]);
+      const container = await lockme.encryptBytes(plaintext, null, { id: 'pbkdf2-sha256', iterations: 1000 }, {
+        passkey: forEncryption,
+      });
+
+      // Decrypting asks for the salt recorded in the file through evalByCredential
+      const slots = lockme.parseContainer(container).header.slots!
+        .filter((slot): slot is Crypto.PrfSlot => slot.type === 'prf');
+      const forDecryption = await passkeys.evaluatePasskeyForSlots(slots);
+      const decrypted = await lockme.decryptBytes(container, '', { passkey: forDecryption });
+
+      return {
+        credential,
+        encryptedWith: forEncryption.credential,
+        decryptedWith: forDecryption.credential,
+        sameOutput: lockme.bytesToBase64(forEncryption.output) === lockme.bytesToBase64(forDecryption.output),
+        decrypted: new TextDecoder().decode(decrypted),
+      };
+    });
+
+    assert.equal(outcome.encryptedWith, outcome.credential);
+    assert.equal(outcome.decryptedWith, outcome.credential);
+    assert.ok(outcome.sameOutput, 'the recorded salt gives the same PRF output');
+    assert.equal(outcome.decrypted, 'unlocked by a virtual authenticator');
+  } finally {
+    await browser.close();
+    server.close();
+  }
+});
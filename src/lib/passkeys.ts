@@ -0,0 +1,199 @@
+/**
+ * Passkey Helpers
+ *
+ * Registers passkeys as unlock credentials and evaluates their WebAuthn
+ * PRF extension, producing the outputs the crypto core wraps data keys
+ * under (see `@/lib/crypto/prf`).
+ *
+ * Everything goes through `navigator.credentials`, so the flows can be
+ * exercised end to end in headless Chromium with a CDP virtual
+ * authenticator (`WebAuthn.addVirtualAuthenticator` with `hasPrf: true`), as
+ * `passkeys.browser.test.ts` does (`npm run test:passkeys`).
+ *
+ * Features:
+ * - Registration that checks the authenticator supports PRF
+ * - PRF evaluation for encrypting (one salt, any registered passkey)
+ * - PRF evaluation for decrypting (the salt recorded for each credential)
+ */
+
+import { base64ToBytes, bytesToBase64, generatePrfSalt, type PasskeyEvaluation, type PrfSlot } from '@/lib/crypto';
+
+/** How long the browser waits for the user, in milliseconds */
+const PASSKEY_TIMEOUT = 60_000;
+
+/**
+ * PRF extension inputs and outputs, not yet in every DOM typing
+ */
+interface PrfExtensionResults {
+  prf?: {
+    enabled?: boolean;
+    results?: { first?: BufferSource };
+  };
+}
+
+/**
+ * Checks whether this browser can use passkeys at all
+ *
+ * PRF support depends on the authenticator and is only known once one
+ * answers, so it is checked during registration.
+ *
+ * @returns True if WebAuthn is available
+ */
+export function isPasskeySupported(): boolean {
+  return typeof window !== 'undefined' && !!window.PublicKeyCredential && !!navigator.credentials;
+}
+
+/**
+ * Returns a fresh WebAuthn challenge
+ *
+ * LockMe does not verify assertions on a server; the PRF output is the
+ * secret, so the challenge only needs to be unpredictable.
+ */
+function randomChallenge(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(32));
+}
+
+/**
+ * Converts an error from the WebAuthn API into a clear message
+ */
+function passkeyError(error: unknown): Error {
+  if ((error as Error)?.name === 'NotAllowedError') {
+    return new Error("The passkey prompt was cancelled or timed out.");
+  }
+  return error instanceof Error ? error : new Error("Passkey operation failed.");
+}
+
+/**
+ * Reads the PRF output from an assertion
+ */
+function prfOutput(credential: PublicKeyCredential): Uint8Array {
+  const results = (credential.getClientExtensionResults() as PrfExtensionResults).prf?.results?.first;
+  if (!results) {
+    throw new Error("This passkey does not support the PRF extension, so it cannot unlock files.");
+  }
+  return results instanceof ArrayBuffer
+    ? new Uint8Array(results)
+    : new Uint8Array(results.buffer, results.byteOffset, results.byteLength);
+}
+
+/**
+ * Registers a new passkey for unlocking files
+ *
+ * @param user - The signed-in user the passkey belongs to
+ * @param user.uid - Stable user ID, stored as the WebAuthn user handle
+ * @param user.name - Account name shown by the authenticator
+ * @param user.displayName - Display name shown by the authenticator
+ * @returns The Base64-encoded credential ID
+ * @throws Error if the prompt is cancelled or the authenticator lacks PRF
+ */
+export async function registerPasskey(user: { uid: string; name: string; displayName: string }): Promise<string> {
+  let credential: PublicKeyCredential | null;
+  try {
+    credential = (await navigator.credentials.create({
+      publicKey: {
+        challenge: randomChallenge(),
+        rp: { name: 'LockMe' },
+        user: {
+          id: new TextEncoder().encode(user.uid),
+          name: user.name,
+          displayName: user.displayName,
+        },
+        pubKeyCredParams: [
+          { type: 'public-key', alg: -7 },
+          { type: 'public-key', alg: -257 },
+        ],
+        authenticatorSelection: { residentKey: 'required', userVerification: 'required' },
+        timeout: PASSKEY_TIMEOUT,
+        extensions: { prf: {} } as AuthenticationExtensionsClientInputs,
+      },
+    })) as PublicKeyCredential | null;
+  } catch (error) {
+    throw passkeyError(error);
+  }
+
+  if (!credential) {
+    throw new Error("No passkey was created.");
+  }
+  if ((credential.getClientExtensionResults() as PrfExtensionResults).prf?.enabled !== true) {
+    throw new Error("This passkey does not support the PRF extension, so it cannot unlock files.");
+  }
+  return bytesToBase64(new Uint8Array(credential.rawId));
+}
+
+/**
+ * Asks for a passkey and evaluates its PRF
+ */
+async function getAssertion(
+  allowCredentials: string[],
+  prf: Record<string, unknown>
+): Promise<PublicKeyCredential> {
+  try {
+    const credential = (await navigator.credentials.get({
+      publicKey: {
+        challenge: randomChallenge(),
+        allowCredentials: allowCredentials.map(id => ({ type: 'public-key', id: base64ToBytes(id) })),
+        userVerification: 'required',
+        timeout: PASSKEY_TIMEOUT,
+        extensions: { prf } as AuthenticationExtensionsClientInputs,
+      },
+    })) as PublicKeyCredential | null;
+
+    if (!credential) {
+      throw new Error("No passkey was selected.");
+    }
+    return credential;
+  } catch (error) {
+    throw passkeyError(error);
+  }
+}
+
+/**
+ * Evaluates a fresh salt with any of the user's passkeys, for encrypting
+ *
+ * @param credentialIds - Base64 IDs of the user's registered passkeys
+ * @returns The evaluation, naming the passkey the user chose
+ */
+export async function evaluatePasskeyForEncryption(credentialIds: string[]): Promise<PasskeyEvaluation> {
+  if (credentialIds.length === 0) {
+    throw new Error("Register a passkey in Settings first.");
+  }
+
+  const salt = generatePrfSalt();
+  const credential = await getAssertion(credentialIds, { eval: { first: salt } });
+  return { credential: bytesToBase64(new Uint8Array(credential.rawId)), salt, output: prfOutput(credential) };
+}
+
+/**
+ * Evaluates the salt a file recorded for whichever of its passkeys the user
+ * presents, for decrypting
+ *
+ * @param slots - The file's passkey slots
+ * @returns The evaluation for the passkey that answered
+ * @throws Error if the file has no passkey slots or the prompt fails
+ */
+export async function evaluatePasskeyForSlots(slots: PrfSlot[]): Promise<PasskeyEvaluation> {
+  if (slots.length === 0) {
+    throw new Error("This file cannot be unlocked with a passkey.");
+  }
+
+  // Each credential evaluates the salt stored in its own slot
+  const evalByCredential = Object.fromEntries(
+    slots.map(slot => [bytesToBase64url(slot.credential), { first: base64ToBytes(slot.salt) }])
+  );
+  const credential = await getAssertion(slots.map(slot => slot.credential), { evalByCredential });
+
+  const id = bytesToBase64(new Uint8Array(credential.rawId));
+  const slot = slots.find(s => s.credential === id);
+  if (!slot) {
+    throw new Error("This passkey cannot unlock the file.");
+  }
+  return { credential: id, salt: base64ToBytes(slot.salt), output: prfOutput(credential) };
+}
+
+/**
+ * Re-encodes a Base64 credential ID as base64url, the key format of
+ * `evalByCredential`
+ */
+function bytesToBase64url(base64: string): string {
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
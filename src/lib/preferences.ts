@@ -0,0 +1,121 @@
+/**
+ * Local Preferences
+ *
+ * Reads encryption-related preferences saved by the settings page in
+ * `localStorage`, so encrypting components pick up the user's defaults.
+ *
+ * Features:
+ * - Shared storage keys for settings and consumers
+ * - Safe fallbacks for missing, malformed or outdated values
+ */
+
+import { ARGON2_DEFAULTS, ARGON2_LIMITS, COMPRESSION_IDS, PBKDF2_ITERATIONS, type CompressionId, type KdfOptions } from '@/lib/crypto';
+
+/** Local storage key for the default encryption strength (KDF) */
+export const ENCRYPTION_STRENGTH_KEY = 'lockme-defaultEncryptionStrength';
+
+/** Local storage key for the Argon2id cost parameters */
+export const ARGON2_PARAMS_KEY = 'lockme-argon2Params';
+
+/** Local storage key for compressing files before encryption */
+export const COMPRESSION_KEY = 'lockme-compression';
+
+/** Selectable default strengths */
+export type EncryptionStrength = 'argon2id' | 'pbkdf2';
+
+/** Strength used when nothing (or an outdated value) is stored */
+export const DEFAULT_ENCRYPTION_STRENGTH: EncryptionStrength = 'argon2id';
+
+/** Selectable compression: a format, or none */
+export type CompressionPreference = CompressionId | 'none';
+
+/** User-tunable Argon2id cost */
+export interface Argon2Settings {
+  /** Memory cost in KiB */
+  memory: number;
+
+  /** Number of passes */
+  iterations: number;
+
+  /** Degree of parallelism */
+  parallelism: number;
+}
+
+/**
+ * Clamps a value into an inclusive range, falling back when it is not a number
+ */
+function clamp(value: unknown, range: { min: number; max: number }, fallback: number): number {
+  const n = Math.round(Number(value));
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(range.max, Math.max(range.min, n));
+}
+
+/**
+ * Reads the stored default encryption strength
+ *
+ * Older builds stored cipher names here (e.g. "aes-256-gcm"); those map to
+ * the default.
+ *
+ * @returns The stored strength, or the default
+ */
+export function getEncryptionStrength(): EncryptionStrength {
+  if (typeof window === 'undefined') return DEFAULT_ENCRYPTION_STRENGTH;
+  const stored = localStorage.getItem(ENCRYPTION_STRENGTH_KEY);
+  return stored === 'argon2id' || stored === 'pbkdf2' ? stored : DEFAULT_ENCRYPTION_STRENGTH;
+}
+
+/**
+ * Reads the stored compression preference
+ *
+ * @returns The stored preference; compression is off by default
+ */
+export function getCompressionPreference(): CompressionPreference {
+  if (typeof window === 'undefined') return 'none';
+  const stored = localStorage.getItem(COMPRESSION_KEY);
+  return COMPRESSION_IDS.includes(stored as CompressionId) ? (stored as CompressionId) : 'none';
+}
+
+/**
+ * Returns the compression to apply to new encrypted files
+ *
+ * @returns The chosen format, or undefined when compression is off
+ */
+export function getDefaultCompression(): CompressionId | undefined {
+  const preference = getCompressionPreference();
+  return preference === 'none' ? undefined : preference;
+}
+
+/**
+ * Reads the stored Argon2id cost, clamped to supported limits
+ *
+ * @returns The stored settings, or the defaults
+ */
+export function getArgon2Settings(): Argon2Settings {
+  let stored: Partial<Argon2Settings> = {};
+
+  if (typeof window !== 'undefined') {
+    try {
+      stored = JSON.parse(localStorage.getItem(ARGON2_PARAMS_KEY) || '{}');
+    } catch {
+      stored = {};
+    }
+  }
+
+  return {
+    memory: clamp(stored.memory, ARGON2_LIMITS.memory, ARGON2_DEFAULTS.memory),
+    iterations: clamp(stored.iterations, ARGON2_LIMITS.iterations, ARGON2_DEFAULTS.iterations),
+    parallelism: clamp(stored.parallelism, ARGON2_LIMITS.parallelism, ARGON2_DEFAULTS.parallelism),
+  };
+}
+
+/**
+ * Builds the KDF options for new encryptions from the stored preferences
+ *
+ * @returns KDF choice and cost to pass to the crypto module
+ */
+export function getDefaultKdfOptions(): KdfOptions {
+  if (getEncryptionStrength() === 'pbkdf2') {
+    return { id: 'pbkdf2-sha256', iterations: PBKDF2_ITERATIONS };
+  }
+  return { id: 'argon2id', ...getArgon2Settings() };
+}
@@ -0,0 +1,83 @@
+/**
+ * Decrypted File Preview
+ *
+ * Decides how a decrypted file is shown in the preview dialog, from its
+ * restored MIME type and name. Content that could run code in the page
+ * (HTML, SVG with scripts) is never rendered as a document: HTML is shown
+ * as highlighted source and images only ever load through `<img>`, which
+ * does not run scripts.
+ */
+
+/** How a file is previewed */
+export type PreviewKind = 'image' | 'pdf' | 'text' | 'audio' | 'video';
+
+/** Largest file shown as text; longer text would freeze the highlighter */
+export const MAX_TEXT_PREVIEW_SIZE = 2 * 1024 * 1024;
+
+/** Image types every current browser renders */
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif', 'image/bmp', 'image/svg+xml'];
+
+/**
+ * Syntax highlighting languages by file extension
+ *
+ * Names are Prism language IDs understood by react-syntax-highlighter.
+ */
+const LANGUAGES: Record<string, string> = {
+  txt: 'text', log: 'text', env: 'bash',
+  md: 'markdown', markdown: 'markdown',
+  json: 'json', yaml: 'yaml', yml: 'yaml', toml: 'toml', ini: 'ini', xml: 'markup', csv: 'csv',
+  html: 'markup', htm: 'markup', svg: 'markup',
+  css: 'css', scss: 'scss',
+  js: 'javascript', jsx: 'jsx', mjs: 'javascript', cjs: 'javascript', ts: 'typescript', tsx: 'tsx',
+  py: 'python', rb: 'ruby', php: 'php', java: 'java', kt: 'kotlin', cs: 'csharp',
+  c: 'c', h: 'c', cpp: 'cpp', hpp: 'cpp', go: 'go', rs: 'rust', swift: 'swift',
+  sh: 'bash', bash: 'bash', zsh: 'bash', ps1: 'powershell', sql: 'sql',
+  dockerfile: 'docker', tf: 'hcl', pem: 'text', key: 'text', conf: 'text', cfg: 'ini',
+};
+
+/** Text MIME types that are not under `text/` */
+const TEXT_TYPES = [
+  'application/json', 'application/xml', 'application/javascript', 'application/x-sh',
+  'application/sql', 'application/toml', 'application/yaml', 'application/x-yaml',
+];
+
+/**
+ * Returns the lower-case extension of a file name, or the whole name for
+ * extensionless files such as `Dockerfile`
+ */
+function extensionOf(name: string): string {
+  const base = name.toLowerCase();
+  const dot = base.lastIndexOf('.');
+  return dot === -1 ? base : base.slice(dot + 1);
+}
+
+/**
+ * Picks the highlighting language of a text file
+ *
+ * @param name - The file name
+ * @returns A Prism language ID; 'text' when unknown
+ */
+export function previewLanguage(name: string): string {
+  return LANGUAGES[extensionOf(name)] ?? 'text';
+}
+
+/**
+ * Decides how a decrypted file can be previewed
+ *
+ * @param name - The restored file name
+ * @param type - The restored MIME type, if any
+ * @param size - The file size in bytes
+ * @returns The preview kind, or null when the file can only be downloaded
+ */
+export function previewKind(name: string, type: string | undefined, size: number): PreviewKind | null {
+  const mime = (type ?? '').toLowerCase();
+
+  if (IMAGE_TYPES.includes(mime)) return 'image';
+  if (mime === 'application/pdf' || (!mime && extensionOf(name) === 'pdf')) return 'pdf';
+  if (mime.startsWith('audio/')) return 'audio';
+  if (mime.startsWith('video/')) return 'video';
+
+  const isText = mime.startsWith('text/') || TEXT_TYPES.includes(mime) || (!mime && extensionOf(name) in LANGUAGES);
+  if (isText && size <= MAX_TEXT_PREVIEW_SIZE) return 'text';
+  return null;
+}
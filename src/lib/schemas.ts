@@ -57,6 +57,11 @@ export const EnhanceRecoveryPromptSchema = z.object({
 /** Type for Recovery Prompt Enhancement form values */
 export type EnhanceRecoveryPromptFormValues = z.infer<typeof EnhanceRecoveryPromptSchema>;
 
+/**
+ * Shortest passphrase the rule-based strength check rates above "Very Weak"
+ */
+export const MIN_PASSPHRASE_LENGTH = 8;
+
 /**
  * File Encryption Schema
  * 
@@ -64,12 +69,145 @@ export type EnhanceRecoveryPromptFormValues = z.infer<typeof EnhanceRecoveryProm
  */
 export const FileEncryptionSchema = z.object({
   /** Passphrase used for encryption/decryption */
-  passphrase: z.string().min(1, "Passphrase cannot be empty."),
+  passphrase: z.string(),
+  
+  /** Optional keyfile required alongside the passphrase */
+  keyfile: z.custom<File>(value => value instanceof Blob, "Invalid keyfile.").nullable().default(null),
+  
+  /** Further passphrases that can each open the encrypted files */
+  additionalPassphrases: z.array(z.string().min(1, "Passphrase cannot be empty.")).default([]),
+  
+  /** Base64 X25519 public keys the files are encrypted to */
+  recipients: z.array(z.string()).default([]),
+  
+  /** Whether a passkey locks (or unlocks) the files */
+  usePasskey: z.boolean().default(false),
+  
+  /** Fingerprint of the signing key to sign with; empty for no signature */
+  signingKey: z.string().default(''),
+  
+  /** Passphrase unlocking the signing key */
+  signingPassphrase: z.string().default(''),
+  
+  /** Whether to save encrypted files under a random name instead of the original */
+  randomizeFileName: z.boolean().default(false),
+  
+  /** Whether to combine all selected files into a single archive */
+  createArchive: z.boolean().default(false),
+  
+  /** Whether decrypted files open in a preview instead of downloading */
+  previewDecrypted: z.boolean().default(false),
+  
+  /** Whether a batch's outputs download as one ZIP with a manifest */
+  bundleOutputs: z.boolean().default(false),
+  
+  /** Format of the encrypted files: a LockMe container, or a binary or armored age file or OpenPGP message */
+  format: z.enum(['lockme', 'age', 'age-armored', 'openpgp', 'openpgp-armored']).default('lockme'),
+  
+  /** age recipients (`age1…`), one per line, for age output */
+  ageRecipients: z.string().default(''),
+}).refine(data => data.passphrase.length > 0 || data.recipients.length > 0 || data.usePasskey
+  || (data.format.startsWith('age') && data.ageRecipients.trim().length > 0), {
+  message: "Passphrase cannot be empty.",
+  path: ["passphrase"],
+}).refine(data => !data.keyfile || data.passphrase.length > 0, {
+  message: "A keyfile is used together with a passphrase. Enter one as well.",
+  path: ["passphrase"],
+}).refine(data => !data.signingKey || data.signingPassphrase.length > 0, {
+  message: "Enter the passphrase of your signing key.",
+  path: ["signingPassphrase"],
+}).refine(data => !data.format.startsWith('age')
+  || (!data.keyfile && !data.usePasskey && !data.signingKey && data.additionalPassphrases.length === 0), {
+  message: "age files open with one passphrase or with recipients. Remove the keyfile, passkey, signature and extra passphrases.",
+  path: ["format"],
+}).refine(data => !data.format.startsWith('age')
+  || !data.passphrase || (data.recipients.length === 0 && data.ageRecipients.trim().length === 0), {
+  message: "An age file opens with either a passphrase or recipients, not both.",
+  path: ["format"],
+}).refine(data => !data.format.startsWith('openpgp')
+  || (data.passphrase.length > 0 && !data.keyfile && !data.usePasskey && !data.signingKey
+    && data.recipients.length === 0), {
+  message: "OpenPGP messages open with passphrases only. Remove the keyfile, passkey, signature and recipients.",
+  path: ["format"],
 });
 
 /** Type for File Encryption form values */
 export type FileEncryptionFormValues = z.infer<typeof FileEncryptionSchema>;
 
+/**
+ * Text Encryption Schema
+ * 
+ * Validates form input for encrypting text into an armored message, or
+ * decrypting a pasted one.
+ */
+export const TextEncryptionSchema = z.object({
+  /** Plaintext to encrypt, or the pasted armored message */
+  text: z.string().min(1, "Enter some text."),
+  
+  /** Passphrase used for encryption/decryption */
+  passphrase: z.string().min(1, "Passphrase cannot be empty."),
+});
+
+/** Type for Text Encryption form values */
+export type TextEncryptionFormValues = z.infer<typeof TextEncryptionSchema>;
+
+/**
+ * Secret Splitting Schema
+ * 
+ * Validates form input for splitting a passphrase, or the data key of a
+ * `.lockme` file, into Shamir shares.
+ */
+export const SecretSplitSchema = z.object({
+  /** What to split: a passphrase, or a file's data key */
+  kind: z.enum(['passphrase', 'data-key']).default('passphrase'),
+  
+  /** The passphrase to split, or the passphrase that opens the file */
+  passphrase: z.string().min(1, "Passphrase cannot be empty."),
+  
+  /** The `.lockme` file whose data key is split */
+  file: z.custom<File>(value => value instanceof Blob, "Invalid file.").nullable().default(null),
+  
+  /** Keyfile the file's passphrase slot needs, if any */
+  keyfile: z.custom<File>(value => value instanceof Blob, "Invalid keyfile.").nullable().default(null),
+  
+  /** Number of shares to create */
+  total: z.coerce
+    .number()
+    .int()
+    .min(2, "Create at least 2 shares.")
+    .max(255, "At most 255 shares can be created."),
+  
+  /** Number of shares needed to rebuild the secret */
+  threshold: z.coerce
+    .number()
+    .int()
+    .min(2, "At least 2 shares must be needed."),
+}).refine(data => data.threshold <= data.total, {
+  message: "More shares would be needed than exist.",
+  path: ["threshold"],
+}).refine(data => data.kind !== 'data-key' || data.file !== null, {
+  message: "Select the .lockme file whose key to split.",
+  path: ["file"],
+});
+
+/** Type for Secret Splitting form values */
+export type SecretSplitFormValues = z.infer<typeof SecretSplitSchema>;
+
+/**
+ * Passkey Fallback Schema
+ * 
+ * Validates the fallback passphrase of a new passkey. Its identity is
+ * sealed into every file encrypted with the passkey, so the passphrase can
+ * be attacked offline like a file passphrase and must not be weak.
+ */
+export const PasskeyFallbackSchema = z.object({
+  /** Passphrase protecting the passkey's fallback identity */
+  passphrase: z.string().min(
+    MIN_PASSPHRASE_LENGTH,
+    `The fallback passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`
+  ),
+});
+
 /**
  * Password Reset Schema
  * 
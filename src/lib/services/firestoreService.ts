@@ -2,11 +2,14 @@
  * Firestore Service Module
  * 
  * A collection of utility functions for interacting with Firebase Firestore database.
- * Handles activities logging and snippet management for the LockMe application.
+ * Handles activities logging, snippet management and encryption key
+ * publishing for the LockMe application.
  * 
  * Features:
  * - Activity logging with user attribution
  * - Secure snippet storage and retrieval
+ * - X25519 identities (wrapped private key) and published public keys
+ * - Registered passkeys with their fallback identities
  * - Document creation, reading, updating, and deletion
  * - Server-side or client-side data fetching options
  */
@@ -16,17 +19,36 @@ import { db, auth } from '@/lib/firebase';
 import { 
   collection, addDoc, query, orderBy, limit, getDocs, 
   serverTimestamp, doc, updateDoc, deleteDoc, getDoc, 
-  where, Timestamp, FieldValue, getDocsFromServer, deleteField 
+  where, Timestamp, FieldValue, getDocsFromServer, deleteField, setDoc 
 } from 'firebase/firestore';
 
 // Type imports
-import type { Activity, SnippetDocument } from '@/types/firestore';
+import type { Activity, PasskeyDocument, PublicKeyDocument, SnippetDocument, UserKeyDocument } from '@/types/firestore';
+import type { RecipientIdentity } from '@/lib/crypto';
 
 /**
  * Collection constants
  */
 const ACTIVITIES_COLLECTION = 'activities';
 const SNIPPETS_COLLECTION = 'snippets';
+const USER_KEYS_COLLECTION = 'userKeys';
+const PUBLIC_KEYS_COLLECTION = 'publicKeys';
+const PASSKEYS_COLLECTION = 'passkeys';
+
+/**
+ * Returns the ID of the public key document for an email address
+ * 
+ * Public keys are stored under the SHA-256 of the normalized address, so
+ * a key can be fetched by someone who knows the address but the
+ * collection cannot be listed to collect addresses.
+ * 
+ * @param {string} email - Email address of the key's owner
+ * @returns {Promise<string>} Lower-case hex digest of the trimmed, lower-cased address
+ */
+async function publicKeyDocId(email: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(email.trim().toLowerCase()));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
 
 /**
  * Activity Log Functions
@@ -287,3 +309,178 @@ export async function deleteSnippetFromFirestore(snippetId: string): Promise<voi
     throw error; 
   }
 }
+
+/**
+ * Encryption Key Functions
+ */
+
+/**
+ * Stores a user's identity and publishes its public key
+ * 
+ * The identity document holds the private key wrapped under the user's
+ * passphrase and is only meant for its owner; the public key document is
+ * what other users look up by email to encrypt files to them. Accounts
+ * without an email have nothing to be looked up by, so nothing is
+ * published for them.
+ * 
+ * @param {string} userId - Owner of the identity
+ * @param {RecipientIdentity} identity - The identity to store
+ * @param {Object} profile - Profile details published with the public key
+ * @param {string|null} profile.email - Email others search by
+ * @param {string|null} profile.displayName - Name shown to others
+ * @returns {Promise<void>}
+ */
+export async function saveUserIdentity(
+  userId: string,
+  identity: RecipientIdentity,
+  profile: { email: string | null; displayName: string | null }
+): Promise<void> {
+  try {
+    console.log(`FirestoreService: Saving identity ${identity.fingerprint} for userId: ${userId}.`);
+    
+    await setDoc(doc(db, USER_KEYS_COLLECTION, userId), {
+      identity,
+      updatedAt: serverTimestamp(),
+    });
+    if (profile.email) {
+      await setDoc(doc(db, PUBLIC_KEYS_COLLECTION, await publicKeyDocId(profile.email)), {
+        userId,
+        email: profile.email.trim().toLowerCase(),
+        displayName: profile.displayName,
+        publicKey: identity.publicKey,
+        fingerprint: identity.fingerprint,
+        updatedAt: serverTimestamp(),
+      });
+    }
+    
+    console.log(`FirestoreService: Identity saved and public key published for userId: ${userId}.`);
+  } catch (error) {
+    console.error(`FirestoreService: Error saving identity for userId ${userId}: `, error);
+    throw error;
+  }
+}
+
+/**
+ * Retrieves a user's stored identity
+ * 
+ * @param {string} userId - Owner of the identity
+ * @returns {Promise<RecipientIdentity|null>} The identity, or null if none exists
+ */
+export async function getUserIdentity(userId: string): Promise<RecipientIdentity | null> {
+  try {
+    const docSnap = await getDoc(doc(db, USER_KEYS_COLLECTION, userId));
+    return docSnap.exists() ? (docSnap.data() as UserKeyDocument).identity : null;
+  } catch (error) {
+    console.error(`FirestoreService: Error fetching identity for userId ${userId}: `, error);
+    return null;
+  }
+}
+
+/**
+ * Deletes a user's identity and unpublishes its public key
+ * 
+ * @param {string} userId - Owner of the identity
+ * @param {string|null} email - Email the public key was published under
+ * @returns {Promise<void>}
+ */
+export async function deleteUserIdentity(userId: string, email: string | null): Promise<void> {
+  try {
+    if (email) {
+      await deleteDoc(doc(db, PUBLIC_KEYS_COLLECTION, await publicKeyDocId(email)));
+    }
+    await deleteDoc(doc(db, USER_KEYS_COLLECTION, userId));
+    console.log(`FirestoreService: Identity deleted for userId: ${userId}.`);
+  } catch (error) {
+    console.error(`FirestoreService: Error deleting identity for userId ${userId}: `, error);
+    throw error;
+  }
+}
+
+/**
+ * Looks up a published public key by its owner's email
+ * 
+ * @param {string} email - Email address of the recipient
+ * @returns {Promise<PublicKeyDocument|null>} The public key document, or null if none is published
+ */
+export async function findPublicKeyByEmail(email: string): Promise<PublicKeyDocument | null> {
+  try {
+    const docSnap = await getDoc(doc(db, PUBLIC_KEYS_COLLECTION, await publicKeyDocId(email)));
+    return docSnap.exists() ? (docSnap.data() as PublicKeyDocument) : null;
+  } catch (error) {
+    console.error(`FirestoreService: Error looking up public key for ${email}: `, error);
+    return null;
+  }
+}
+
+/**
+ * Passkey Functions
+ */
+
+/**
+ * Registers a passkey for unlocking files
+ * 
+ * Only the credential ID is stored; the PRF secret never leaves the
+ * authenticator. The fallback identity holds a private key wrapped under
+ * the passkey's fallback passphrase.
+ * 
+ * @param {string} userId - Owner of the passkey
+ * @param {Object} passkey - Passkey details
+ * @param {string} passkey.credentialId - Base64 WebAuthn credential ID
+ * @param {string} passkey.label - Name the user gave the passkey
+ * @param {RecipientIdentity} passkey.fallback - Identity sealed into files encrypted with the passkey
+ * @returns {Promise<string>} ID of the created passkey document
+ */
+export async function addPasskey(
+  userId: string,
+  passkey: Pick<PasskeyDocument, 'credentialId' | 'label' | 'fallback'>
+): Promise<string> {
+  try {
+    const docRef = await addDoc(collection(db, PASSKEYS_COLLECTION), {
+      userId,
+      ...passkey,
+      createdAt: serverTimestamp(),
+    });
+    console.log(`FirestoreService: Passkey registered with ID: ${docRef.id} for userId: ${userId}.`);
+    return docRef.id;
+  } catch (error) {
+    console.error(`FirestoreService: Error registering passkey for userId ${userId}: `, error);
+    throw error;
+  }
+}
+
+/**
+ * Retrieves a user's registered passkeys, oldest first
+ * 
+ * @param {string} userId - Owner of the passkeys
+ * @returns {Promise<PasskeyDocument[]>} The passkeys, or an empty array on error
+ */
+export async function getPasskeys(userId: string): Promise<PasskeyDocument[]> {
+  try {
+    const q = query(collection(db, PASSKEYS_COLLECTION), where("userId", "==", userId));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as PasskeyDocument))
+      .sort((a, b) => (a.createdAt?.toMillis() ?? 0) - (b.createdAt?.toMillis() ?? 0));
+  } catch (error) {
+    console.error(`FirestoreService: Error fetching passkeys for userId ${userId}: `, error);
+    return [];
+  }
+}
+
+/**
+ * Removes a registered passkey
+ * 
+ * Files encrypted with it still open with its fallback passphrase.
+ * 
+ * @param {string} passkeyId - ID of the passkey document
+ * @returns {Promise<void>}
+ */
+export async function deletePasskey(passkeyId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(db, PASSKEYS_COLLECTION, passkeyId));
+    console.log(`FirestoreService: Passkey ${passkeyId} deleted.`);
+  } catch (error) {
+    console.error(`FirestoreService: Error deleting passkey ${passkeyId}: `, error);
+    throw error;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Share Link Service Module
+ *
+ * Creates, lists and revokes share links. A share is a Firestore document
+ * holding the link's limits plus an encrypted upload in Firebase Storage;
+ * the key to the upload only ever lives in the link's URL fragment.
+ * Downloads go through the share API routes, which enforce the limits.
+ *
+ * Features:
+ * - Share document creation followed by a resumable upload with progress
+ * - Listing a user's own shares, newest first
+ * - Owner revocation, which also deletes the upload
+ */
+
+// Firebase imports
+import { db, storage } from '@/lib/firebase';
+import {
+  collection, doc, getDocs, orderBy, query, serverTimestamp,
+  setDoc, Timestamp, updateDoc, where
+} from 'firebase/firestore';
+import { deleteObject, ref, uploadBytesResumable } from 'firebase/storage';
+
+// Type imports
+import type { ShareDocument } from '@/types/firestore';
+import { MAX_SHARE_SIZE, SHARES_COLLECTION, shareContentPath } from '@/lib/shares';
+
+/**
+ * Creates a share and uploads its encrypted file
+ *
+ * The document is written first, because the Storage rules only accept an
+ * upload that matches a share its uploader owns.
+ *
+ * @param {string} userId - Owner of the share
+ * @param {string} shareId - Random ID from `createShareSecret`
+ * @param {Blob} file - Upload copy from `createShareCopy`
+ * @param {Object} limits - When the link stops working
+ * @param {number} limits.expiresInMs - Lifetime of the link in milliseconds
+ * @param {number} limits.maxDownloads - Downloads allowed in total
+ * @param {Function} [onProgress] - Receives the upload progress in percent
+ * @returns {Promise<void>}
+ */
+export async function createShare(
+  userId: string,
+  shareId: string,
+  file: Blob,
+  limits: { expiresInMs: number; maxDownloads: number },
+  onProgress?: (percent: number) => void
+): Promise<void> {
+  if (file.size > MAX_SHARE_SIZE) {
+    throw new Error(`Files larger than ${MAX_SHARE_SIZE / 1024 / 1024} MB cannot be shared by link.`);
+  }
+
+  const shareRef = doc(db, SHARES_COLLECTION, shareId);
+  try {
+    await setDoc(shareRef, {
+      ownerId: userId,
+      size: file.size,
+      createdAt: serverTimestamp(),
+      expiresAt: Timestamp.fromMillis(Date.now() + limits.expiresInMs),
+      maxDownloads: limits.maxDownloads,
+      downloadCount: 0,
+      revoked: false,
+    });
+    console.log(`ShareService: Share ${shareId} created for userId: ${userId}. Uploading ${file.size} bytes...`);
+  } catch (error) {
+    console.error(`ShareService: Error creating share for userId ${userId}: `, error);
+    throw error;
+  }
+
+  try {
+    const uploadTask = uploadBytesResumable(ref(storage, shareContentPath(shareId)), file, {
+      contentType: 'application/octet-stream',
+    });
+    uploadTask.on('state_changed', snapshot => {
+      onProgress?.(snapshot.totalBytes > 0 ? (snapshot.bytesTransferred / snapshot.totalBytes) * 100 : 0);
+    });
+    await uploadTask;
+    console.log(`ShareService: Upload for share ${shareId} completed.`);
+  } catch (error) {
+    console.error(`ShareService: Error uploading share ${shareId}: `, error);
+    // Leave no half-created link behind
+    await updateDoc(shareRef, { revoked: true }).catch(revokeError => {
+      console.error(`ShareService: Error revoking failed share ${shareId}: `, revokeError);
+    });
+    throw error;
+  }
+}
+
+/**
+ * Retrieves a user's shares, newest first
+ *
+ * @param {string} userId - Owner of the shares
+ * @returns {Promise<ShareDocument[]>} The shares, or an empty array on error
+ */
+export async function getShares(userId: string): Promise<ShareDocument[]> {
+  try {
+    const q = query(
+      collection(db, SHARES_COLLECTION),
+      where("ownerId", "==", userId),
+      orderBy("createdAt", "desc")
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as ShareDocument));
+  } catch (error) {
+    console.error(`ShareService: Error fetching shares for userId ${userId}: `, error);
+    return [];
+  }
+}
+
+/**
+ * Revokes a share and deletes its upload
+ *
+ * The link stops working as soon as the document is updated; a failed
+ * delete only leaves unreadable ciphertext behind.
+ *
+ * @param {string} shareId - ID of the share
+ * @returns {Promise<void>}
+ */
+export async function revokeShare(shareId: string): Promise<void> {
+  try {
+    await updateDoc(doc(db, SHARES_COLLECTION, shareId), { revoked: true });
+    console.log(`ShareService: Share ${shareId} revoked.`);
+  } catch (error) {
+    console.error(`ShareService: Error revoking share ${shareId}: `, error);
+    throw error;
+  }
+
+  try {
+    await deleteObject(ref(storage, shareContentPath(shareId)));
+  } catch (error) {
+    // Already removed by the server after the link ran out
+    if ((error as { code?: string }).code !== 'storage/object-not-found') {
+      console.error(`ShareService: Error deleting upload of share ${shareId}: `, error);
+    }
+  }
+}
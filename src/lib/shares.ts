@@ -0,0 +1,105 @@
+/**
+ * Share Link Limits
+ *
+ * Limits and states of share links, shared by the encrypt page, the
+ * settings page and the share API routes. Firestore and Storage rules
+ * enforce the same bounds (see `firestore.rules` and `storage.rules`).
+ *
+ * Features:
+ * - Selectable expiry times and download counts
+ * - Upload size limit
+ * - A single definition of when a link stops working
+ */
+
+/** Firestore collection holding share documents */
+export const SHARES_COLLECTION = 'shares';
+
+/** Largest file that can be shared by link (matches the security rules) */
+export const MAX_SHARE_SIZE = 100 * 1024 * 1024;
+
+/** Longest a link may stay valid (matches the security rules) */
+export const MAX_SHARE_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Selectable expiry times */
+export const SHARE_EXPIRY_OPTIONS = [
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '1 day', ms: 24 * 60 * 60 * 1000 },
+  { label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: '30 days', ms: MAX_SHARE_LIFETIME_MS },
+] as const;
+
+/** Selectable download limits; at most 100 (matches the security rules) */
+export const SHARE_DOWNLOAD_OPTIONS = [1, 3, 10, 100] as const;
+
+/** Whether a link still works, or why it stopped */
+export type ShareState = 'active' | 'revoked' | 'expired' | 'exhausted';
+
+/**
+ * Limits read from a share document
+ */
+export interface ShareLimits {
+  /** Expiry time in milliseconds since the epoch */
+  expiresAt: number;
+
+  /** Downloads allowed in total */
+  maxDownloads: number;
+
+  /** Downloads so far */
+  downloadCount: number;
+
+  /** Whether the owner revoked the link */
+  revoked: boolean;
+}
+
+/**
+ * Reads the limits from share document data
+ *
+ * Accepts client and Admin SDK documents alike; both timestamps have `toMillis`.
+ *
+ * @param data - The share document's fields
+ * @returns The link's limits
+ */
+export function readShareLimits(data: {
+  expiresAt: { toMillis(): number };
+  maxDownloads: number;
+  downloadCount: number;
+  revoked: boolean;
+}): ShareLimits {
+  return {
+    expiresAt: data.expiresAt.toMillis(),
+    maxDownloads: data.maxDownloads,
+    downloadCount: data.downloadCount,
+    revoked: data.revoked,
+  };
+}
+
+/**
+ * Works out whether a link can still be downloaded
+ *
+ * @param limits - The link's limits
+ * @param now - Current time in milliseconds
+ * @returns The link's state
+ */
+export function getShareState(limits: ShareLimits, now: number = Date.now()): ShareState {
+  if (limits.revoked) return 'revoked';
+  if (now >= limits.expiresAt) return 'expired';
+  if (limits.downloadCount >= limits.maxDownloads) return 'exhausted';
+  return 'active';
+}
+
+/**
+ * Storage path of a share's encrypted upload
+ *
+ * @param shareId - ID of the share
+ * @returns Path of the object in the default bucket
+ */
+export function shareContentPath(shareId: string): string {
+  return `${SHARES_COLLECTION}/${shareId}/content`;
+}
+
+/** Messages shown for links that no longer work */
+export const SHARE_STATE_MESSAGES: Record<Exclude<ShareState, 'active'>, string> = {
+  revoked: "The owner revoked this link.",
+  expired: "This link has expired.",
+  exhausted: "This link has reached its download limit.",
+};
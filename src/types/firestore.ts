@@ -1,4 +1,5 @@
 import type { Timestamp } from "firebase/firestore";
+import type { KdfParams, RecipientIdentity } from "@/lib/crypto";
 
 export interface Activity {
   id?: string;
@@ -18,8 +19,43 @@ export interface SnippetDocument {
   isEncrypted: boolean;
   iv?: string | import('firebase/firestore').FieldValue;
   salt?: string | import('firebase/firestore').FieldValue;
+  kdf?: KdfParams | import('firebase/firestore').FieldValue;
   tags?: string[];
   createdAt: Timestamp;
   updatedAt: Timestamp;
   userId?: string;
 }
+
+export interface PublicKeyDocument {
+  userId: string;
+  email: string | null;
+  displayName: string | null;
+  publicKey: string;
+  fingerprint: string;
+  updatedAt: Timestamp;
+}
+
+export interface UserKeyDocument {
+  identity: RecipientIdentity;
+  updatedAt: Timestamp;
+}
+
+export interface PasskeyDocument {
+  id?: string;
+  userId: string;
+  credentialId: string;
+  label: string;
+  fallback: RecipientIdentity;
+  createdAt: Timestamp;
+}
+
+export interface ShareDocument {
+  id?: string;
+  ownerId: string;
+  size: number;
+  createdAt: Timestamp;
+  expiresAt: Timestamp;
+  maxDownloads: number;
+  downloadCount: number;
+  revoked: boolean;
+}